@@ -7,8 +7,9 @@ if (process.env.NODE_ENV === "development") {
   import("../utils/devAssertions");
 }
 
-const CanvasStage = dynamic(() => import("@/components/CanvasStage"), { ssr: false });
+// Plans live in localStorage, so the whole app renders client-side only
+const PlanApp = dynamic(() => import("@/components/PlanApp"), { ssr: false });
 
 export default function Home() {
-  return <CanvasStage />;
+  return <PlanApp />;
 }
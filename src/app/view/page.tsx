@@ -0,0 +1,10 @@
+"use client";
+
+import dynamic from "next/dynamic";
+
+// Read-only view of a plan snapshot carried in the URL hash
+const ViewerApp = dynamic(() => import("@/components/ViewerApp"), { ssr: false });
+
+export default function ViewPage() {
+  return <ViewerApp />;
+}
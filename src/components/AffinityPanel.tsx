@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useAttendees, useTables, useSeatAssignments, useAffinities, useSetAffinity } from "../store/plan-store";
+import { isAttending } from "../utils/attendees";
+import {
+  AFFINITY_LABELS,
+  AFFINITY_WEIGHTS,
+  RELATION_LABELS,
+  formatPoints,
+  getHappiness,
+  scoreAffinities,
+} from "../utils/affinity";
+
+interface AffinityPanelProps {
+  onClose: () => void;
+}
+
+export default function AffinityPanel({ onClose }: AffinityPanelProps) {
+  const attendees = useAttendees();
+  const tables = useTables();
+  const seatAssignments = useSeatAssignments();
+  const affinities = useAffinities();
+  const setAffinity = useSetAffinity();
+
+  const [first, setFirst] = useState("");
+  const [second, setSecond] = useState("");
+  const [weight, setWeight] = useState<number>(AFFINITY_WEIGHTS[0]);
+  const [error, setError] = useState<string | null>(null);
+
+  const guests = useMemo(
+    () => attendees.filter(isAttending).sort((a, b) => a.name.localeCompare(b.name)),
+    [attendees]
+  );
+  const names = useMemo(() => new Map(attendees.map((attendee) => [attendee.id, attendee.name])), [attendees]);
+  const scores = useMemo(
+    () => scoreAffinities({ tables, seatAssignments, affinities }),
+    [tables, seatAssignments, affinities]
+  );
+  const happiness = getHappiness(scores);
+  const describePair = (ids: [string, string]) => ids.map((id) => names.get(id) ?? "Unknown guest").join(" & ");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!first || !second) {
+      setError("choose two guests");
+      return;
+    }
+    const result = setAffinity([first, second], weight);
+    if (result.success) {
+      setFirst("");
+      setSecond("");
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const guestSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={label}
+      className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+    >
+      <option value="">Choose a guest</option>
+      {guests.map((guest) => (
+        <option key={guest.id} value={guest.id}>{guest.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed left-0 top-0 h-full w-80 bg-white shadow-lg border-r border-gray-200 z-40 flex flex-col" aria-label="Guest affinities">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Affinities</h2>
+          <p className="text-xs text-gray-500">
+            {affinities.length} {affinities.length === 1 ? "pair" : "pairs"} · Happiness {formatPoints(happiness.total)}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Collapse affinities"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} noValidate className="p-4 border-b border-gray-200 flex flex-col gap-2" aria-label="Set affinity form">
+        {guestSelect(first, setFirst, "First guest")}
+        {guestSelect(second, setSecond, "Second guest")}
+        <select
+          value={weight}
+          onChange={(e) => setWeight(Number(e.target.value))}
+          aria-label="Affinity"
+          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+        >
+          {AFFINITY_WEIGHTS.map((value) => (
+            <option key={value} value={value}>{formatPoints(value)} {AFFINITY_LABELS[value]}</option>
+          ))}
+        </select>
+        {error && (
+          <p role="alert" className="text-xs text-red-700">{error}</p>
+        )}
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Set Affinity
+        </button>
+        <p className="text-xs text-gray-500">
+          Guests in neighboring seats count in full, and elsewhere at the same table half as much.
+        </p>
+      </form>
+
+      <div className="flex-1 overflow-y-auto">
+        {happiness.byTable.size > 0 && (
+          <ul className="px-4 py-2 border-b border-gray-200 text-sm" aria-label="Happiness by table">
+            {tables.filter((table) => happiness.byTable.has(table.id)).map((table) => (
+              <li key={table.id} className="flex justify-between text-gray-700">
+                <span className="truncate">{table.name}</span>
+                <span>{formatPoints(happiness.byTable.get(table.id)!)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {scores.length === 0 ? (
+          <p className="p-4 text-sm text-gray-600">No affinities yet. Add guests who should meet, or who&apos;d rather not.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100" aria-label="Affinities">
+            {scores.map(({ affinity, relation, points }) => {
+              const pair = describePair(affinity.attendeeIds);
+              return (
+                <li key={affinity.attendeeIds.join(":")} className="p-3 flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{pair}</div>
+                    <div className="text-xs text-gray-600">
+                      {formatPoints(affinity.weight)} {AFFINITY_LABELS[affinity.weight]} · {RELATION_LABELS[relation]} · {formatPoints(points)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setAffinity(affinity.attendeeIds, 0)}
+                    className="px-2 py-1 text-xs text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+                    aria-label={`Remove affinity: ${pair}`}
+                  >
+                    Remove
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
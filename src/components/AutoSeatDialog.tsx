@@ -0,0 +1,214 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useAttendees, useTables, useSeatAssignments, useConstraints, useAffinities, useApplyAutoSeat } from "../store/plan-store";
+import { useShowNotice } from "../store/ui-store";
+import { isAttending } from "../utils/attendees";
+import type { Table } from "../types";
+import type { AutoSeatResult, AutoSeatScore } from "../utils/autoSeat";
+import { runAutoSeat } from "../utils/autoSeatRunner";
+import type { AutoSeatRun } from "../utils/autoSeatRunner";
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
+// Rows of the before/after breakdown; `better` says which way is an improvement
+const SCORE_ROWS: { key: keyof AutoSeatScore; label: string; better: "more" | "fewer" }[] = [
+  { key: "seated", label: "Guests seated", better: "more" },
+  { key: "rulesKept", label: "Rules kept", better: "more" },
+  { key: "rulesBroken", label: "Rules broken", better: "fewer" },
+  { key: "rulesWaiting", label: "Rules waiting", better: "fewer" },
+  { key: "partiesTogether", label: "Parties together", better: "more" },
+  { key: "partiesSplit", label: "Parties split", better: "fewer" },
+  { key: "happiness", label: "Happiness", better: "more" },
+];
+
+interface AutoSeatDialogProps {
+  onClose: () => void;
+}
+
+export default function AutoSeatDialog({ onClose }: AutoSeatDialogProps) {
+  const tables = useTables();
+  const attendees = useAttendees();
+  const seatAssignments = useSeatAssignments();
+  const constraints = useConstraints();
+  const affinities = useAffinities();
+  const applyAutoSeat = useApplyAutoSeat();
+  const showNotice = useShowNotice();
+
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<AutoSeatResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const runRef = useRef<AutoSeatRun | null>(null);
+
+  // A run still going when the dialog closes is abandoned
+  useEffect(() => () => runRef.current?.cancel(), []);
+
+  const { unseatedCount, freeSeatCount, lockedSeatCount } = useMemo(() => {
+    const seated = new Set(seatAssignments.map((a) => a.attendeeId));
+    const freeSeats = (table: Table) =>
+      table.seatCount - seatAssignments.filter((a) => a.attendeeId && a.tableId === table.id).length;
+    const sum = (list: Table[]) => list.reduce((total, table) => total + freeSeats(table), 0);
+    return {
+      unseatedCount: attendees.filter((attendee) => isAttending(attendee) && !seated.has(attendee.id)).length,
+      freeSeatCount: sum(tables.filter((table) => !table.locked)),
+      // Free seats at locked tables, which auto-seat skips
+      lockedSeatCount: sum(tables.filter((table) => table.locked)),
+    };
+  }, [tables, attendees, seatAssignments]);
+  const canStart = unseatedCount > 0 && freeSeatCount > 0;
+  const isRunning = progress !== null && !result;
+
+  const handleStart = () => {
+    setResult(null);
+    setError(null);
+    setProgress(0);
+    const run = runAutoSeat({ tables, attendees, seatAssignments, constraints, affinities }, {}, setProgress);
+    runRef.current = run;
+    run.result.then(
+      (solved) => {
+        if (runRef.current === run) setResult(solved);
+      },
+      (reason: unknown) => {
+        if (runRef.current !== run) return;
+        setError(reason instanceof Error ? reason.message : String(reason));
+        setProgress(null);
+      }
+    );
+  };
+
+  const handleCancel = () => {
+    runRef.current?.cancel();
+    runRef.current = null;
+    setProgress(null);
+  };
+
+  const handleAccept = () => {
+    if (!result) return;
+    const seated = applyAutoSeat(result.placements);
+    const skipped = result.placements.length - seated.length;
+    showNotice(
+      skipped > 0
+        ? `Seated ${plural(seated.length, "guest")}. ${plural(skipped, "guest")} or their seats changed while seating, so they were skipped.`
+        : `Seated ${plural(seated.length, "guest")}.`
+    );
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl" role="dialog" aria-labelledby="auto-seat-title">
+        <h3 id="auto-seat-title" className="text-lg font-semibold text-gray-900 mb-1">
+          Auto-seat
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Seats unseated guests in free seats, keeping parties together, as many seating rules as it can and guests who get along close by. Guests who already have a seat stay put.
+        </p>
+        <p className="text-sm text-gray-700 mb-4" aria-label="Auto-seat summary">
+          {plural(unseatedCount, "unseated guest")} · {plural(freeSeatCount, "free seat")} · {plural(constraints.length, "rule")}
+        </p>
+        {lockedSeatCount > 0 && (
+          <p className="text-sm text-gray-600 mb-4">
+            🔒 Skipping {plural(lockedSeatCount, "free seat")} at locked tables.
+          </p>
+        )}
+
+        {!canStart && !result && (
+          <p className="text-sm text-amber-800 mb-4">
+            {unseatedCount === 0 ? "Everyone who's coming has a seat." : "There are no free seats at unlocked tables. Add tables or seats first."}
+          </p>
+        )}
+
+        {isRunning && (
+          <div className="mb-4">
+            <div
+              role="progressbar"
+              aria-label="Auto-seat progress"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress * 100)}
+              className="h-2 bg-gray-200 rounded-full overflow-hidden"
+            >
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Trying seating layouts… {Math.round(progress * 100)}%</p>
+          </div>
+        )}
+
+        {error && (
+          <p role="alert" className="text-sm text-red-700 mb-4">{error}</p>
+        )}
+
+        {result && (
+          <table className="w-full text-sm mb-4" aria-label="Score breakdown">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-normal py-1"></th>
+                <th className="font-normal py-1 text-right">Now</th>
+                <th className="font-normal py-1 text-right">Auto-seated</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {SCORE_ROWS.map(({ key, label, better }) => {
+                const before = result.before[key];
+                const after = result.after[key];
+                const improved = better === "more" ? after > before : after < before;
+                const worse = better === "more" ? after < before : after > before;
+                return (
+                  <tr key={key}>
+                    <th scope="row" className="font-normal text-gray-700 text-left py-1">{label}</th>
+                    <td className="text-right text-gray-700 py-1">{before}</td>
+                    <td className={`text-right py-1 ${improved ? "text-green-700" : worse ? "text-red-700" : "text-gray-700"}`}>{after}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex justify-end gap-3">
+          {result ? (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleAccept}
+                disabled={result.placements.length === 0}
+                className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Accept
+              </button>
+            </>
+          ) : isRunning ? (
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Stop
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleStart}
+                disabled={!canStart}
+                className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Find Seats
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
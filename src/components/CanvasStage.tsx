@@ -1,19 +1,45 @@
 "use client";
 
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Stage, Layer, Line } from "react-konva";
 import type Konva from "konva";
-import { useZoom, usePan, useSetPan, useSetView, useOpenInspector } from "../store/ui-store";
-import { useTables, useSelectedTableIds, useSelectTable, useClearTableSelection, useUpdateTable } from "../store/plan-store";
+import { useZoom, usePan, useSetPan, useSetView, useOpenInspector, useComparison, useEndComparison, useShowNotice, useSeatColorBy } from "../store/ui-store";
+import { usePlanStore, useTables, useAttendees, useSeatAssignments, useCustomFields, useConstraints, useSelectedTableIds, useSelectTable, useClearTableSelection, useUpdateTable, useAssignSeat, useMoveGuest, useSeatParty, useUndo, useRedo } from "../store/plan-store";
 import { screenToWorld } from "../utils/canvasTransforms";
 import TableNode from "./TableNode";
 import Toolbar from "./Toolbar";
 import Inspector from "./Inspector";
+import ShareDialog from "./ShareDialog";
+import AutoSeatDialog from "./AutoSeatDialog";
+import HistoryPanel from "./HistoryPanel";
+import GuestPanel from "./GuestPanel";
+import ConstraintsPanel from "./ConstraintsPanel";
+import AffinityPanel from "./AffinityPanel";
+import NoticeToast from "./NoticeToast";
+import DiffOverlay from "./DiffOverlay";
+import ComparisonPanel from "./ComparisonPanel";
+import { diffPlans } from "../utils/planDiff";
+import { exportPlanFile, getPlanFileName } from "../utils/planFile";
+import { downloadTextFile } from "../utils/files";
+import { findSeatAtPoint, getSeatRadius } from "../utils/seatGeometry";
+import type { SeatRef } from "../utils/seatGeometry";
+import type { Attendee } from "../types";
+import { getGuestDragId, getPartyDragIds, isGuestDrag } from "../utils/guestDrag";
+import { getColorCategory, getGuestCategoryColors } from "../utils/customFields";
+import type { CategoryColor } from "../utils/customFields";
+import { evaluateConstraints, getViolatedSeats } from "../utils/constraints";
+import { getLockedGuestIds, getLockedSeats } from "../utils/locks";
+import { formatNameList } from "../utils/attendees";
 
 type Vec2 = { x: number; y: number };
 
 const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
 
+const getLockedTableNotice = (tableName: string) => `"${tableName}" is locked, so nobody can be seated there. Unlock it first.`;
+
+const getLockedGuestsNotice = (locked: Attendee[]) =>
+  `${formatNameList(locked.map((guest) => guest.name))} ${locked.length === 1 ? "is" : "are"} locked in place and stayed put.`;
+
 const useViewportSize = () => {
   const [size, setSize] = useState<{ width: number; height: number }>(() => ({
     width: typeof window !== "undefined" ? window.innerWidth : 1024,
@@ -104,7 +130,17 @@ function GridLayer({ width, height, scale, offset, isDarkMode }: { width: number
   );
 }
 
-export default function CanvasStage() {
+interface CanvasStageProps {
+  onOpenLibrary?: () => void;
+  // Switches the editor to another plan, e.g. one restored from a snapshot
+  onOpenPlan?: (id: string) => void;
+  // Viewer mode: tables can be selected but not moved or edited
+  readOnly?: boolean;
+  // Rendered over the canvas in place of the editing toolbar
+  children?: React.ReactNode;
+}
+
+export default function CanvasStage({ onOpenLibrary, onOpenPlan, readOnly = false, children }: CanvasStageProps = {}) {
   const { width, height } = useViewportSize();
   const stageRef = useRef<Konva.Stage>(null);
 
@@ -119,6 +155,10 @@ export default function CanvasStage() {
   const [isNodeDragging, setIsNodeDragging] = useState(false);
   const [draggingTableId, setDraggingTableId] = useState<string | null>(null);
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isAutoSeatOpen, setIsAutoSeatOpen] = useState(false);
+  // The history, guest and rules panels dock on the left, so only one is open at a time
+  const [leftPanel, setLeftPanel] = useState<"history" | "guests" | "rules" | "affinities" | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(false); // Always start in light mode
   const lastPointerRef = useRef<Vec2 | null>(null);
 
@@ -129,6 +169,73 @@ export default function CanvasStage() {
   const clearTableSelection = useClearTableSelection();
   const updateTable = useUpdateTable();
   const openInspector = useOpenInspector();
+  
+  // Comparison against an earlier version, if one is active for this plan
+  const comparison = useComparison();
+  const endComparison = useEndComparison();
+  const planId = usePlanStore((state) => state.planId);
+  const attendees = useAttendees();
+  const seatAssignments = useSeatAssignments();
+  const activeComparison = comparison && comparison.planId === planId ? comparison : null;
+  const diff = useMemo(
+    () => (activeComparison ? diffPlans(activeComparison.basePlan, { tables, attendees, seatAssignments }) : null),
+    [activeComparison, tables, attendees, seatAssignments]
+  );
+  const getPlan = usePlanStore((state) => state.getPlan);
+  const undo = useUndo();
+  const redo = useRedo();
+  const assignSeat = useAssignSeat();
+  const moveGuest = useMoveGuest();
+  const seatParty = useSeatParty();
+  const showNotice = useShowNotice();
+  const customFields = useCustomFields();
+  const seatColorBy = useSeatColorBy();
+  const constraints = useConstraints();
+  
+  // Seat under the pointer while a guest is dragged in from the guest list or from another seat
+  const [dropTarget, setDropTarget] = useState<SeatRef | null>(null);
+  
+  // Guest names per table and seat, for labelling occupied seats
+  const seatGuests = useMemo(() => {
+    const names = new Map(attendees.map((attendee) => [attendee.id, attendee.name]));
+    const byTable = new Map<string, Map<number, string>>();
+    for (const assignment of seatAssignments) {
+      const name = assignment.attendeeId ? names.get(assignment.attendeeId) : undefined;
+      if (!name) continue;
+      if (!byTable.has(assignment.tableId)) byTable.set(assignment.tableId, new Map());
+      byTable.get(assignment.tableId)!.set(assignment.seatNumber, name);
+    }
+    return byTable;
+  }, [attendees, seatAssignments]);
+  
+  // Seat colors per table and seat, when seats are colored by a tag or custom field
+  const seatColors = useMemo(() => {
+    const byTable = new Map<string, Map<number, CategoryColor>>();
+    if (!seatColorBy) return byTable;
+    const colors = getGuestCategoryColors(attendees, seatColorBy, customFields);
+    const attendeesById = new Map(attendees.map((attendee) => [attendee.id, attendee]));
+    for (const assignment of seatAssignments) {
+      const attendee = assignment.attendeeId ? attendeesById.get(assignment.attendeeId) : undefined;
+      const category = attendee && getColorCategory(attendee, seatColorBy, customFields);
+      if (!category) continue;
+      if (!byTable.has(assignment.tableId)) byTable.set(assignment.tableId, new Map());
+      byTable.get(assignment.tableId)!.set(assignment.seatNumber, colors.get(category)!);
+    }
+    return byTable;
+  }, [attendees, seatAssignments, customFields, seatColorBy]);
+
+  // Seating rules are judged live, so moving a guest updates the flags straight away
+  const evaluations = useMemo(
+    () => evaluateConstraints({ tables, attendees, seatAssignments, constraints }),
+    [tables, attendees, seatAssignments, constraints]
+  );
+  const violatedSeats = useMemo(() => getViolatedSeats(evaluations), [evaluations]);
+  const lockedSeats = useMemo(() => getLockedSeats(seatAssignments), [seatAssignments]);
+
+  const handleExport = () => {
+    const plan = getPlan();
+    downloadTextFile(getPlanFileName(plan), exportPlanFile(plan));
+  };
 
   const isPanning = isSpaceDown || isMiddlePanning || isLeftPanning;
 
@@ -275,6 +382,18 @@ export default function CanvasStage() {
         return; // Let the input handle the event normally
       }
 
+      // Undo / redo (Shift reverses)
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault();
+        if (readOnly) return;
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        return;
+      }
+
       // Space toggles panning
       if (e.code === "Space") {
         if (!isSpaceDown) {
@@ -348,7 +467,7 @@ export default function CanvasStage() {
       el.removeEventListener("keydown", onKeyDown);
       el.removeEventListener("keyup", onKeyUp);
     };
-  }, [animateViewTo, animateZoomAt, height, isSpaceDown, zoom, width, pan, setPan]);
+  }, [animateViewTo, animateZoomAt, height, isSpaceDown, zoom, width, pan, setPan, readOnly, undo, redo]);
 
   // Demo node setup moved above
 
@@ -415,6 +534,110 @@ export default function CanvasStage() {
     setPan({ x: stage.x(), y: stage.y() });
   }, []);
 
+  // Convert a pointer position on the stage to world space and hit-test seats
+  const getSeatAtScreenPoint = useCallback((point: Vec2) => {
+    const world = screenToWorld(point, { zoom, pan });
+    return findSeatAtPoint(tables, world, getSeatRadius(zoom));
+  }, [pan, tables, zoom]);
+
+  // HTML drag events report client coordinates, so offset them by the container first
+  const getSeatAtClientPoint = useCallback((clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return getSeatAtScreenPoint({ x: clientX - rect.left, y: clientY - rect.top });
+  }, [getSeatAtScreenPoint]);
+
+  // Keep the previous object when the seat hasn't changed to avoid re-rendering every table
+  const updateDropTarget = useCallback((seat: SeatRef | null) => {
+    setDropTarget((prev) =>
+      prev?.tableId === seat?.tableId && prev?.seatNumber === seat?.seatNumber ? prev : seat
+    );
+  }, []);
+
+  const onGuestDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (readOnly || !isGuestDrag(e.dataTransfer)) return;
+    const seat = getSeatAtClientPoint(e.clientX, e.clientY);
+    updateDropTarget(seat);
+    // Only seats accept the drop; elsewhere the browser shows a no-drop cursor
+    if (seat) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+    }
+  }, [getSeatAtClientPoint, readOnly, updateDropTarget]);
+
+  const onGuestDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    // Ignore moves between children of the container
+    if (e.relatedTarget instanceof Node && e.currentTarget.contains(e.relatedTarget)) return;
+    setDropTarget(null);
+  }, []);
+
+  const onGuestDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    setDropTarget(null);
+    const attendeeId = getGuestDragId(e.dataTransfer);
+    const partyIds = getPartyDragIds(e.dataTransfer);
+    if (readOnly || (!attendeeId && !partyIds)) return;
+    const seat = getSeatAtClientPoint(e.clientX, e.clientY);
+    if (!seat) return;
+    e.preventDefault();
+    const target = tables.find((table) => table.id === seat.tableId);
+    const tableName = target?.name ?? "this table";
+    const lockedTableNotice = getLockedTableNotice(tableName);
+    if (attendeeId) {
+      if (target?.locked) {
+        showNotice(lockedTableNotice);
+      } else {
+        assignSeat(attendeeId, seat.tableId, seat.seatNumber);
+      }
+    } else if (partyIds) {
+      // Members locked in their seats stay behind; say so rather than leave the party quietly split
+      const lockedIds = getLockedGuestIds(tables, seatAssignments);
+      const locked = attendees.filter((attendee) => partyIds.includes(attendee.id) && lockedIds.has(attendee.id));
+      const lockedNotice = getLockedGuestsNotice(locked);
+      if (locked.length === partyIds.length) {
+        showNotice(lockedNotice);
+      } else if (target?.locked) {
+        showNotice(lockedTableNotice);
+      } else if (!seatParty(partyIds, seat.tableId, seat.seatNumber)) {
+        showNotice(`"${tableName}" doesn't have ${partyIds.length - locked.length} free seats for this party.`);
+      } else if (locked.length > 0) {
+        showNotice(lockedNotice);
+      }
+    }
+  }, [assignSeat, attendees, getSeatAtClientPoint, readOnly, seatAssignments, seatParty, showNotice, tables]);
+
+  // Konva drag of an occupied seat: any other seat under the pointer is a drop target
+  const getSeatDropTarget = useCallback((from: SeatRef) => {
+    const pointer = stageRef.current?.getPointerPosition();
+    const seat = pointer ? getSeatAtScreenPoint(pointer) : null;
+    return seat && (seat.tableId !== from.tableId || seat.seatNumber !== from.seatNumber) ? seat : null;
+  }, [getSeatAtScreenPoint]);
+
+  const handleSeatDragMove = useCallback((tableId: string, seatNumber: number) => {
+    updateDropTarget(getSeatDropTarget({ tableId, seatNumber }));
+  }, [getSeatDropTarget, updateDropTarget]);
+
+  const handleSeatDragEnd = useCallback((tableId: string, seatNumber: number) => {
+    setDropTarget(null);
+    const target = getSeatDropTarget({ tableId, seatNumber });
+    if (readOnly || !target) return;
+    if (moveGuest({ tableId, seatNumber }, target)) return;
+
+    // Refused by a lock; say which one, as a drop from the guest list does
+    const targetTable = tables.find((table) => table.id === target.tableId);
+    const sourceTable = tables.find((table) => table.id === tableId);
+    const occupant = seatAssignments.find(
+      (a) => a.tableId === target.tableId && a.seatNumber === target.seatNumber && a.attendeeId
+    );
+    const occupantGuest = attendees.find((attendee) => attendee.id === occupant?.attendeeId);
+    if (targetTable?.locked) {
+      showNotice(getLockedTableNotice(targetTable.name));
+    } else if (sourceTable?.locked) {
+      showNotice(`"${sourceTable.name}" is locked, so its guests stay where they are. Unlock it first.`);
+    } else if (occupantGuest) {
+      showNotice(getLockedGuestsNotice([occupantGuest]));
+    }
+  }, [attendees, getSeatDropTarget, moveGuest, readOnly, seatAssignments, showNotice, tables]);
+
   const cursor = isPanning ? "grabbing" : isSpaceDown ? "grab" : "default";
 
   // Cancel animation on unmount
@@ -434,6 +657,9 @@ export default function CanvasStage() {
       }}
       aria-label="Seating plan canvas"
       role="application"
+      onDragOver={onGuestDragOver}
+      onDragLeave={onGuestDragLeave}
+      onDrop={onGuestDrop}
     >
       <Stage
         ref={stageRef}
@@ -467,21 +693,51 @@ export default function CanvasStage() {
               isSelected={selectedTableIds.includes(table.id)}
               scale={zoom}
               isDragging={draggingTableId === table.id}
+              isDraggable={!readOnly}
+              seatGuests={seatGuests.get(table.id)}
+              seatColors={seatColors.get(table.id)}
+              violatedSeats={violatedSeats.get(table.id)}
+              lockedSeats={lockedSeats.get(table.id)}
+              highlightedSeat={dropTarget?.tableId === table.id ? dropTarget.seatNumber : null}
+              areSeatsDraggable={!readOnly}
               onSelect={handleTableSelect}
-              onDoubleClick={handleTableDoubleClick}
+              onDoubleClick={readOnly ? undefined : handleTableDoubleClick}
               onDragStart={handleTableDragStart}
               onDragEnd={handleTableDragEnd}
+              onSeatDragMove={handleSeatDragMove}
+              onSeatDragEnd={handleSeatDragEnd}
             />
           ))}
         </Layer>
+        {diff && (
+          <Layer name="comparison" listening={false}>
+            <DiffOverlay diff={diff} scale={zoom} />
+          </Layer>
+        )}
         {/* Future content layers will go above */}
       </Stage>
       
       {/* Toolbar */}
-      <Toolbar 
-        isDarkMode={isDarkMode}
-        canvasCenter={canvasCenter}
-      />
+      {!readOnly && (
+        <Toolbar 
+          isDarkMode={isDarkMode}
+          canvasCenter={canvasCenter}
+          onOpenLibrary={onOpenLibrary}
+          onShare={() => setIsShareOpen(true)}
+          onExport={handleExport}
+          onOpenHistory={() => setLeftPanel("history")}
+          onOpenGuests={() => setLeftPanel("guests")}
+          onOpenRules={() => setLeftPanel("rules")}
+          onOpenAffinities={() => setLeftPanel("affinities")}
+          onAutoSeat={() => setIsAutoSeatOpen(true)}
+        />
+      )}
+      
+      {children}
+      
+      {activeComparison && diff && (
+        <ComparisonPanel label={activeComparison.label} diff={diff} onExit={endComparison} />
+      )}
       
       {/* Dark mode toggle */}
       <div className="absolute top-4 right-4 z-10 select-none">
@@ -590,7 +846,9 @@ export default function CanvasStage() {
                   ["Zoom", "Ctrl + Scroll"], 
                   ["Zoom In", "+"],
                   ["Zoom Out", "-"],
-                  ["Reset View", "0"]
+                  ["Reset View", "0"],
+                  ["Undo", "Ctrl/⌘ + Z"],
+                  ["Redo", "Shift + Ctrl/⌘ + Z"]
                 ].map(([label, key]) => (
                   <div key={label} style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
                     <span style={{ color: isDarkMode ? "#cbd5e1" : "#6b7280" }}>{label}</span>
@@ -627,7 +885,29 @@ export default function CanvasStage() {
       </div>
       
       {/* Inspector Panel */}
-      <Inspector />
+      {!readOnly && <Inspector />}
+      
+      <NoticeToast />
+      
+      {isShareOpen && <ShareDialog onClose={() => setIsShareOpen(false)} />}
+      
+      {isAutoSeatOpen && !readOnly && <AutoSeatDialog onClose={() => setIsAutoSeatOpen(false)} />}
+      
+      {leftPanel === "history" && !readOnly && (
+        <HistoryPanel onClose={() => setLeftPanel(null)} onOpenPlan={onOpenPlan} />
+      )}
+      
+      {leftPanel === "guests" && !readOnly && (
+        <GuestPanel onClose={() => setLeftPanel(null)} />
+      )}
+      
+      {leftPanel === "rules" && !readOnly && (
+        <ConstraintsPanel evaluations={evaluations} onClose={() => setLeftPanel(null)} />
+      )}
+      
+      {leftPanel === "affinities" && !readOnly && (
+        <AffinityPanel onClose={() => setLeftPanel(null)} />
+      )}
     </div>
   );
 }
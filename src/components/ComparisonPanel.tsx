@@ -0,0 +1,75 @@
+"use client";
+
+import React from "react";
+import { DIFF_COLORS } from "./DiffOverlay";
+import { formatSeatLocation, isPlanDiffEmpty } from "../utils/planDiff";
+import type { PlanDiff } from "../utils/planDiff";
+
+interface ComparisonPanelProps {
+  label: string;
+  diff: PlanDiff;
+  onExit: () => void;
+}
+
+export default function ComparisonPanel({ label, diff, onExit }: ComparisonPanelProps) {
+  const moved = diff.changedTables.filter((change) => change.moved).length;
+  const resized = diff.changedTables.filter((change) => change.resized).length;
+  const counts = [
+    { label: "Added", count: diff.addedTables.length, color: DIFF_COLORS.added },
+    { label: "Removed", count: diff.removedTables.length, color: DIFF_COLORS.removed },
+    { label: "Moved", count: moved, color: DIFF_COLORS.moved },
+    { label: "Resized", count: resized, color: DIFF_COLORS.resized },
+  ];
+
+  return (
+    <div className="absolute bottom-4 left-4 z-20 w-80 max-h-[60vh] bg-white rounded-lg border border-gray-200 shadow-lg p-4 flex flex-col gap-3" aria-label="Plan comparison">
+      <div>
+        <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Comparing with</p>
+        <h2 className="text-base font-semibold text-gray-900 truncate">{label}</h2>
+      </div>
+
+      {isPlanDiffEmpty(diff) ? (
+        <p className="text-sm text-gray-600">No differences. The current plan matches this version.</p>
+      ) : (
+        <>
+          <ul className="grid grid-cols-2 gap-2 text-sm" aria-label="Table changes">
+            {counts.map(({ label: countLabel, count, color }) => (
+              <li key={countLabel} className="flex items-center gap-2 text-gray-700">
+                <span className="inline-block w-3 h-3 rounded-full border-2" style={{ borderColor: color }} aria-hidden="true" />
+                {countLabel}: {count}
+              </li>
+            ))}
+          </ul>
+
+          <div className="min-h-0 flex flex-col">
+            <h3 className="text-sm font-medium text-gray-700 mb-1">
+              Guests who changed seats ({diff.seatChanges.length})
+            </h3>
+            {diff.seatChanges.length === 0 ? (
+              <p className="text-sm text-gray-500">Everyone is in the same seat.</p>
+            ) : (
+              <ul className="overflow-y-auto divide-y divide-gray-100 text-sm" aria-label="Guests who changed seats">
+                {diff.seatChanges.map((change) => (
+                  <li key={change.attendeeId} className="py-1.5">
+                    <span className="block font-medium text-gray-900">{change.name}</span>
+                    <span className="block text-gray-500">
+                      {formatSeatLocation(change.from)} → {formatSeatLocation(change.to)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+
+      <button
+        type="button"
+        onClick={onExit}
+        className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+      >
+        Exit Comparison
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useAttendees, useTables, useAddConstraint, useUpdateConstraint, useDeleteConstraint } from "../store/plan-store";
+import { CONSTRAINT_TYPE_LABELS, isTableConstraint } from "../utils/constraints";
+import type { ConstraintEvaluation, ConstraintStatus, SeatingConstraintInput, SeatingConstraintResult } from "../utils/constraints";
+import { isAttending } from "../utils/attendees";
+import type { SeatingConstraint, SeatingConstraintType } from "../types";
+
+const STATUS_LABELS: Record<ConstraintStatus, string> = {
+  violated: "Broken",
+  pending: "Waiting",
+  satisfied: "OK",
+};
+
+const STATUS_CLASSES: Record<ConstraintStatus, string> = {
+  violated: "bg-red-100 text-red-800",
+  pending: "bg-gray-100 text-gray-700",
+  satisfied: "bg-green-100 text-green-800",
+};
+
+// Broken rules first, then the ones still waiting on guests to be seated
+const STATUS_ORDER: ConstraintStatus[] = ["violated", "pending", "satisfied"];
+
+const EMPTY_RULE: SeatingConstraintInput = { type: "together", attendeeIds: [] };
+
+interface RuleFormProps {
+  initial: SeatingConstraintInput;
+  submitLabel: string;
+  onSubmit: (input: SeatingConstraintInput) => SeatingConstraintResult;
+  onCancel?: () => void;
+}
+
+function RuleForm({ initial, submitLabel, onSubmit, onCancel }: RuleFormProps) {
+  const attendees = useAttendees();
+  const tables = useTables();
+
+  const [draft, setDraft] = useState<SeatingConstraintInput>(initial);
+  const [search, setSearch] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Declined guests won't be there, so there's nothing to set rules for
+  const matches = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return attendees
+      .filter((attendee) => isAttending(attendee) && attendee.name.toLowerCase().includes(query))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [attendees, search]);
+  const names = new Map(attendees.map((attendee) => [attendee.id, attendee.name]));
+
+  const toggleGuest = (id: string, checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      attendeeIds: checked ? [...prev.attendeeIds, id] : prev.attendeeIds.filter((attendeeId) => attendeeId !== id),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = onSubmit(draft);
+    if (result.success) {
+      setDraft(initial);
+      setSearch("");
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-2" aria-label={`${submitLabel} form`}>
+      <select
+        value={draft.type}
+        onChange={(e) => setDraft((prev) => ({ ...prev, type: e.target.value as SeatingConstraintType }))}
+        aria-label="Rule type"
+        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+      >
+        {(Object.keys(CONSTRAINT_TYPE_LABELS) as SeatingConstraintType[]).map((type) => (
+          <option key={type} value={type}>{CONSTRAINT_TYPE_LABELS[type]}</option>
+        ))}
+      </select>
+      {isTableConstraint(draft.type) && (
+        <select
+          value={draft.tableId ?? ""}
+          onChange={(e) => setDraft((prev) => ({ ...prev, tableId: e.target.value || undefined }))}
+          aria-label="Rule table"
+          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="">Choose a table</option>
+          {tables.map((table) => (
+            <option key={table.id} value={table.id}>{table.name}</option>
+          ))}
+        </select>
+      )}
+      <p className="text-xs text-gray-600" aria-label="Chosen guests">
+        {draft.attendeeIds.length === 0
+          ? "No guests chosen"
+          : draft.attendeeIds.map((id) => names.get(id) ?? "Unknown guest").join(", ")}
+      </p>
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Find guests"
+        aria-label="Find guests for rule"
+        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <ul className="max-h-40 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100" aria-label="Guests for rule">
+        {matches.map((attendee) => (
+          <li key={attendee.id} className="px-2 py-1">
+            <label className="flex items-center gap-2 text-sm text-gray-800">
+              <input
+                type="checkbox"
+                checked={draft.attendeeIds.includes(attendee.id)}
+                onChange={(e) => toggleGuest(attendee.id, e.target.checked)}
+              />
+              {attendee.name}
+            </label>
+          </li>
+        ))}
+        {matches.length === 0 && <li className="px-2 py-1 text-xs text-gray-500">No guests found.</li>}
+      </ul>
+      {error && (
+        <p role="alert" className="text-xs text-red-700">{error}</p>
+      )}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="flex-1 px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+        >
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface RuleRowProps {
+  evaluation: ConstraintEvaluation;
+  description: string;
+  onEdit: (constraint: SeatingConstraint) => void;
+}
+
+function RuleRow({ evaluation, description, onEdit }: RuleRowProps) {
+  const deleteConstraint = useDeleteConstraint();
+  const { constraint, status, message } = evaluation;
+
+  return (
+    <li className="p-3 flex items-start gap-2">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className={`px-1.5 rounded text-xs ${STATUS_CLASSES[status]}`}>{STATUS_LABELS[status]}</span>
+          <span className="text-sm font-medium text-gray-900">{CONSTRAINT_TYPE_LABELS[constraint.type]}</span>
+        </div>
+        <div className="text-xs text-gray-700 mt-0.5">{description}</div>
+        {message && (
+          <div className={`text-xs ${status === "violated" ? "text-red-700" : "text-gray-500"}`}>{message}</div>
+        )}
+      </div>
+      <button
+        onClick={() => onEdit(constraint)}
+        className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+        aria-label={`Edit rule: ${description}`}
+      >
+        Edit
+      </button>
+      <button
+        onClick={() => deleteConstraint(constraint.id)}
+        className="px-2 py-1 text-xs text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+        aria-label={`Delete rule: ${description}`}
+      >
+        Delete
+      </button>
+    </li>
+  );
+}
+
+interface ConstraintsPanelProps {
+  // The canvas evaluates the rules already, to flag seats; the panel lists the same results
+  evaluations: ConstraintEvaluation[];
+  onClose: () => void;
+}
+
+export default function ConstraintsPanel({ evaluations, onClose }: ConstraintsPanelProps) {
+  const attendees = useAttendees();
+  const tables = useTables();
+  const addConstraint = useAddConstraint();
+  const updateConstraint = useUpdateConstraint();
+
+  const [editing, setEditing] = useState<SeatingConstraint | null>(null);
+  const [brokenOnly, setBrokenOnly] = useState(false);
+
+  const names = useMemo(() => new Map(attendees.map((attendee) => [attendee.id, attendee.name])), [attendees]);
+  const tableNames = useMemo(() => new Map(tables.map((table) => [table.id, table.name])), [tables]);
+  const describe = (constraint: SeatingConstraint) => {
+    const guests = constraint.attendeeIds.map((id) => names.get(id) ?? "Unknown guest").join(", ");
+    return constraint.tableId ? `${guests} · ${tableNames.get(constraint.tableId) ?? "Unknown table"}` : guests;
+  };
+
+  const counts = evaluations.reduce<Record<ConstraintStatus, number>>(
+    (acc, { status }) => ({ ...acc, [status]: acc[status] + 1 }),
+    { violated: 0, pending: 0, satisfied: 0 }
+  );
+  const shown = evaluations
+    .filter(({ status }) => !brokenOnly || status === "violated")
+    .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+
+  return (
+    <div className="fixed left-0 top-0 h-full w-80 bg-white shadow-lg border-r border-gray-200 z-40 flex flex-col" aria-label="Seating rules">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Seating Rules</h2>
+          <p className="text-xs text-gray-500">
+            {evaluations.length} {evaluations.length === 1 ? "rule" : "rules"} · {counts.violated} broken · {counts.pending} waiting
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Collapse seating rules"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-200">
+        {editing ? (
+          <RuleForm
+            key={editing.id}
+            initial={{ type: editing.type, attendeeIds: editing.attendeeIds, tableId: editing.tableId }}
+            submitLabel="Save Rule"
+            onSubmit={(input) => {
+              const result = updateConstraint(editing.id, input);
+              if (result.success) setEditing(null);
+              return result;
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <RuleForm initial={EMPTY_RULE} submitLabel="Add Rule" onSubmit={addConstraint} />
+        )}
+      </div>
+
+      <div className="px-4 py-2 border-b border-gray-200 text-sm">
+        <label className="flex items-center gap-2 text-gray-700">
+          <input type="checkbox" checked={brokenOnly} onChange={(e) => setBrokenOnly(e.target.checked)} />
+          Broken rules only
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {shown.length === 0 ? (
+          <p className="p-4 text-sm text-gray-600">
+            {evaluations.length === 0 ? "No rules yet. Add one to keep guests together or apart." : "Every rule is kept."}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100" aria-label="Rules">
+            {shown.map((evaluation) => (
+              <RuleRow
+                key={evaluation.constraint.id}
+                evaluation={evaluation}
+                description={describe(evaluation.constraint)}
+                onEdit={setEditing}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
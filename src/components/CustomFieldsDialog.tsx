@@ -0,0 +1,215 @@
+"use client";
+
+import React, { useState } from "react";
+import { useCustomFields, useAddCustomField, useUpdateCustomField, useDeleteCustomField } from "../store/plan-store";
+import { CUSTOM_FIELD_TYPE_LABELS, parseChoices } from "../utils/customFields";
+import type { CustomField, CustomFieldType } from "../types";
+
+interface CustomFieldRowProps {
+  field: CustomField;
+}
+
+function CustomFieldRow({ field }: CustomFieldRowProps) {
+  const updateCustomField = useUpdateCustomField();
+  const deleteCustomField = useDeleteCustomField();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState({ name: "", options: "" });
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraft({ name: field.name, options: (field.options ?? []).join(", ") });
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = updateCustomField(field.id, {
+      name: draft.name,
+      options: field.type === "select" ? parseChoices(draft.options) : undefined,
+    });
+    if (result.success) {
+      setIsEditing(false);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <li className="py-3">
+        <form onSubmit={handleSave} noValidate className="flex flex-col gap-2" aria-label={`Edit ${field.name}`}>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+            aria-label="Field name"
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoFocus
+          />
+          {field.type === "select" && (
+            <>
+              <input
+                type="text"
+                value={draft.options}
+                onChange={(e) => setDraft((prev) => ({ ...prev, options: e.target.value }))}
+                aria-label="Field choices"
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500">Guests with a choice you remove lose their value for this field.</p>
+            </>
+          )}
+          {error && (
+            <p role="alert" className="text-xs text-red-700">{error}</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-2 py-1 text-xs text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </li>
+    );
+  }
+
+  return (
+    <li className="py-2 flex items-start gap-2">
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium text-gray-900 truncate">{field.name}</div>
+        <div className="text-xs text-gray-500">
+          {CUSTOM_FIELD_TYPE_LABELS[field.type]}
+          {field.options && `: ${field.options.join(", ")}`}
+        </div>
+      </div>
+      <button
+        onClick={startEditing}
+        className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+        aria-label={`Edit ${field.name}`}
+      >
+        Edit
+      </button>
+      <button
+        onClick={() => deleteCustomField(field.id)}
+        className="px-2 py-1 text-xs text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+        aria-label={`Delete ${field.name}`}
+      >
+        Delete
+      </button>
+    </li>
+  );
+}
+
+interface CustomFieldsDialogProps {
+  onClose: () => void;
+}
+
+export default function CustomFieldsDialog({ onClose }: CustomFieldsDialogProps) {
+  const customFields = useCustomFields();
+  const addCustomField = useAddCustomField();
+
+  const [newField, setNewField] = useState<{ name: string; type: CustomFieldType; options: string }>({
+    name: "",
+    type: "text",
+    options: "",
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = addCustomField({
+      name: newField.name,
+      type: newField.type,
+      options: newField.type === "select" ? parseChoices(newField.options) : undefined,
+    });
+    if (result.success) {
+      setNewField({ name: "", type: "text", options: "" });
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl max-h-[90vh] flex flex-col" role="dialog" aria-labelledby="custom-fields-title">
+        <h3 id="custom-fields-title" className="text-lg font-semibold text-gray-900 mb-1">
+          Custom Fields
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Extra details to track for every guest in this plan. Deleting a field clears it from every guest; you can undo it with Ctrl+Z (⌘Z on Mac).
+        </p>
+
+        {customFields.length === 0 ? (
+          <p className="text-sm text-gray-600 mb-4">No custom fields yet.</p>
+        ) : (
+          <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 mb-4" aria-label="Custom fields">
+            {customFields.map((field) => (
+              <CustomFieldRow key={field.id} field={field} />
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAdd} noValidate className="flex flex-col gap-2 border-t border-gray-200 pt-4" aria-label="Add custom field">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newField.name}
+              onChange={(e) => setNewField((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Field name (e.g. Side)"
+              aria-label="New field name"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={newField.type}
+              onChange={(e) => setNewField((prev) => ({ ...prev, type: e.target.value as CustomFieldType }))}
+              aria-label="New field type"
+              className="px-2 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map((type) => (
+                <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          {newField.type === "select" && (
+            <input
+              type="text"
+              value={newField.options}
+              onChange={(e) => setNewField((prev) => ({ ...prev, options: e.target.value }))}
+              placeholder="Choices, separated by commas"
+              aria-label="New field choices"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+          {error && (
+            <p role="alert" className="text-xs text-red-700">{error}</p>
+          )}
+          <div className="flex justify-end gap-3 mt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Done
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Add Field
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import React from "react";
+import { Group, Circle, Rect, Arrow } from "react-konva";
+import type { Table } from "../types";
+import type { PlanDiff } from "../utils/planDiff";
+
+export const DIFF_COLORS = {
+  added: "#16a34a",
+  removed: "#dc2626",
+  moved: "#2563eb",
+  resized: "#d97706",
+};
+
+interface TableOutlineProps {
+  table: Table;
+  color: string;
+  scale: number;
+  dashed?: boolean;
+}
+
+// Outline drawn with the same geometry as TableNode, padded so it sits just outside the table edge
+function TableOutline({ table, color, scale, dashed = false }: TableOutlineProps) {
+  const padding = 6 / scale;
+  const common = {
+    stroke: color,
+    strokeWidth: 2 / scale,
+    dash: dashed ? [8 / scale, 6 / scale] : undefined,
+    fill: dashed ? `${color}14` : undefined,
+  };
+
+  return (
+    <Group x={table.position.x} y={table.position.y} rotation={table.rotation}>
+      {table.shape === "round" ? (
+        <Circle radius={table.size.width / 2 + padding} {...common} />
+      ) : (
+        <Rect
+          x={-table.size.width / 2 - padding}
+          y={-table.size.height / 2 - padding}
+          width={table.size.width + padding * 2}
+          height={table.size.height + padding * 2}
+          cornerRadius={10 / scale}
+          {...common}
+        />
+      )}
+    </Group>
+  );
+}
+
+interface DiffOverlayProps {
+  diff: PlanDiff;
+  scale?: number;
+}
+
+// Ghosts show where moved and removed tables used to be; solid outlines mark what is new or resized
+export default function DiffOverlay({ diff, scale = 1 }: DiffOverlayProps) {
+  return (
+    <Group listening={false}>
+      {diff.removedTables.map((table) => (
+        <TableOutline key={`removed-${table.id}`} table={table} color={DIFF_COLORS.removed} scale={scale} dashed />
+      ))}
+      {diff.changedTables.filter((change) => change.moved).map(({ before, after }) => (
+        <Group key={`moved-${after.id}`}>
+          <TableOutline table={before} color={DIFF_COLORS.moved} scale={scale} dashed />
+          <Arrow
+            points={[before.position.x, before.position.y, after.position.x, after.position.y]}
+            stroke={DIFF_COLORS.moved}
+            fill={DIFF_COLORS.moved}
+            strokeWidth={2 / scale}
+            pointerLength={10 / scale}
+            pointerWidth={10 / scale}
+            dash={[4 / scale, 4 / scale]}
+          />
+        </Group>
+      ))}
+      {diff.changedTables.filter((change) => change.resized && !change.moved).map(({ after }) => (
+        <TableOutline key={`resized-${after.id}`} table={after} color={DIFF_COLORS.resized} scale={scale} />
+      ))}
+      {diff.addedTables.map((table) => (
+        <TableOutline key={`added-${table.id}`} table={table} color={DIFF_COLORS.added} scale={scale} />
+      ))}
+    </Group>
+  );
+}
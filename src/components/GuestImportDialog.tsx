@@ -0,0 +1,227 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useAttendees, useCustomFields, useImportAttendees } from "../store/plan-store";
+import { formatNameList } from "../utils/attendees";
+import { CSV_DELIMITERS, detectDelimiter, parseCsv } from "../utils/csv";
+import type { CsvDelimiter } from "../utils/csv";
+import { buildGuestImport, getCustomFieldTarget, guessColumnMapping, GUEST_IMPORT_FIELDS } from "../utils/guestImport";
+import type { GuestColumnMapping, GuestColumnTarget, GuestImportField, GuestImportRowStatus } from "../utils/guestImport";
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
+
+const STATUS_LABELS: Record<GuestImportRowStatus, string> = {
+  new: "New",
+  merge: "Merge",
+  duplicate: "Duplicate",
+  invalid: "Error",
+};
+
+const STATUS_CLASSES: Record<GuestImportRowStatus, string> = {
+  new: "text-green-700",
+  merge: "text-blue-700",
+  duplicate: "text-gray-500",
+  invalid: "text-red-700",
+};
+
+// Enough to check the mapping without turning the dialog into a spreadsheet
+const PREVIEW_ROWS = 10;
+const MAX_LISTED_ERRORS = 50;
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
+interface GuestImportDialogProps {
+  fileName: string;
+  text: string;
+  onClose: () => void;
+  // Receives a one-line summary of what was imported
+  onImported: (summary: string) => void;
+}
+
+export default function GuestImportDialog({ fileName, text, onClose, onImported }: GuestImportDialogProps) {
+  const attendees = useAttendees();
+  const customFields = useCustomFields();
+  const importAttendees = useImportAttendees();
+
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(() => detectDelimiter(text));
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+
+  const rows = useMemo(() => parseCsv(text, delimiter), [text, delimiter]);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = useMemo(
+    () =>
+      Array.from({ length: columnCount }, (_, index) =>
+        hasHeaderRow && rows[0]?.[index]?.trim() ? rows[0][index].trim() : `Column ${index + 1}`
+      ),
+    [rows, columnCount, hasHeaderRow]
+  );
+
+  const [mapping, setMapping] = useState<GuestColumnMapping>([]);
+
+  // Start from a fresh guess whenever the columns change; without headers, assume names come first
+  useEffect(() => {
+    setMapping(
+      hasHeaderRow ? guessColumnMapping(headers, customFields) : headers.map((_, index) => (index === 0 ? "name" : null))
+    );
+  }, [headers, hasHeaderRow, customFields]);
+
+  const result = useMemo(
+    () => buildGuestImport(rows, mapping, attendees, { hasHeaderRow, customFields }),
+    [rows, mapping, attendees, hasHeaderRow, customFields]
+  );
+
+  const counts = result.rows.reduce<Record<GuestImportRowStatus, number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, merge: 0, duplicate: 0, invalid: 0 }
+  );
+  const invalidRows = result.rows.filter((row) => row.status === "invalid");
+  const statusByRow = new Map(result.rows.map((row) => [row.rowNumber, row]));
+  const previewRows = rows.slice(hasHeaderRow ? 1 : 0, (hasHeaderRow ? 1 : 0) + PREVIEW_ROWS);
+  const canImport = result.added.length > 0 || result.updated.length > 0;
+
+  const handleMappingChange = (index: number, field: GuestColumnTarget | null) => {
+    setMapping((prev) => prev.map((current, i) => (i === index ? field : current)));
+  };
+
+  const handleImport = () => {
+    const { locked } = importAttendees(result.added, result.updated);
+    const updatedCount = result.updated.length - locked.length;
+    const parts = [`Imported ${plural(result.added.length, "guest")}`];
+    if (updatedCount > 0) parts.push(`updated ${plural(updatedCount, "existing guest")}`);
+    const notes = [`${parts.join(" and ")} from "${fileName}".`];
+    if (locked.length > 0) {
+      notes.push(
+        `${formatNameList(locked.map((guest) => guest.name))} ${locked.length === 1 ? "is" : "are"} locked in place, so ${locked.length === 1 ? "their row wasn't" : "their rows weren't"} imported.`
+      );
+    }
+    onImported(notes.join(" "));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full mx-4 shadow-xl max-h-[90vh] flex flex-col" role="dialog" aria-labelledby="guest-import-title">
+        <h3 id="guest-import-title" className="text-lg font-semibold text-gray-900 mb-1">
+          Import Guests
+        </h3>
+        <p className="text-sm text-gray-600 mb-4 truncate">{fileName}</p>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+          <label className="flex items-center gap-2 text-gray-700">
+            Separator
+            <select
+              value={delimiter}
+              onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {CSV_DELIMITERS.map((d) => (
+                <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input type="checkbox" checked={hasHeaderRow} onChange={(e) => setHasHeaderRow(e.target.checked)} />
+            First row is a header
+          </label>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-gray-700 mb-6">This file has no rows to import.</p>
+        ) : (
+          <div className="flex-1 overflow-auto mb-4 border border-gray-200 rounded-md">
+            <table className="min-w-full text-sm" aria-label="Import preview">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-2 py-2 text-left font-medium text-gray-700">Row</th>
+                  {headers.map((header, index) => (
+                    <th key={index} className="px-2 py-2 text-left font-medium text-gray-700">
+                      <div className="truncate max-w-[10rem]">{header}</div>
+                      <select
+                        value={mapping[index] ?? ""}
+                        onChange={(e) => handleMappingChange(index, (e.target.value || null) as GuestColumnTarget | null)}
+                        aria-label={`Field for ${header}`}
+                        className="mt-1 px-1 py-0.5 border border-gray-300 rounded text-xs font-normal"
+                      >
+                        <option value="">Skip</option>
+                        {(Object.keys(GUEST_IMPORT_FIELDS) as GuestImportField[]).map((field) => (
+                          <option key={field} value={field}>{GUEST_IMPORT_FIELDS[field]}</option>
+                        ))}
+                        {customFields.length > 0 && (
+                          <optgroup label="Custom fields">
+                            {customFields.map((field) => (
+                              <option key={field.id} value={getCustomFieldTarget(field.id)}>{field.name}</option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                    </th>
+                  ))}
+                  <th className="px-2 py-2 text-left font-medium text-gray-700">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {previewRows.map((cells, index) => {
+                  const rowNumber = index + 1 + (hasHeaderRow ? 1 : 0);
+                  const row = statusByRow.get(rowNumber);
+                  return (
+                    <tr key={rowNumber}>
+                      <td className="px-2 py-1 text-gray-500">{rowNumber}</td>
+                      {headers.map((_, column) => (
+                        <td key={column} className="px-2 py-1 text-gray-900 truncate max-w-[10rem]">{cells[column]}</td>
+                      ))}
+                      <td className={`px-2 py-1 ${row ? STATUS_CLASSES[row.status] : "text-gray-400"}`}>
+                        {row ? STATUS_LABELS[row.status] : "Empty"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {!mapping.includes("name") && rows.length > 0 && (
+          <p role="alert" className="text-sm text-amber-800 mb-3">
+            Choose the column that holds guest names.
+          </p>
+        )}
+
+        <p className="text-sm text-gray-700 mb-2" aria-label="Import summary">
+          {counts.new} new · {counts.merge} to merge · {plural(counts.duplicate, "duplicate")} skipped · {plural(counts.invalid, "row")} with errors
+        </p>
+
+        {invalidRows.length > 0 && (
+          <ul className="max-h-28 overflow-y-auto text-xs text-red-700 mb-4 space-y-0.5" aria-label="Rows with errors">
+            {invalidRows.slice(0, MAX_LISTED_ERRORS).map((row) => (
+              <li key={row.rowNumber}>Row {row.rowNumber}: {row.error}</li>
+            ))}
+            {invalidRows.length > MAX_LISTED_ERRORS && (
+              <li>…and {invalidRows.length - MAX_LISTED_ERRORS} more</li>
+            )}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import Guests
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
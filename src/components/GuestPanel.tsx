@@ -0,0 +1,937 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import {
+  usePlanStore,
+  useAttendees,
+  useSeatAssignments,
+  useTables,
+  useCustomFields,
+  useAddAttendee,
+  useAddPlusOne,
+  useUpdateAttendee,
+  useDeleteAttendees,
+} from "../store/plan-store";
+import GuestImportDialog from "./GuestImportDialog";
+import CustomFieldsDialog from "./CustomFieldsDialog";
+import { useSeatColorBy, useSetSeatColorBy } from "../store/ui-store";
+import { formatSeatLocation, getSeatLocations } from "../utils/planDiff";
+import { downloadTextFile, readTextFile } from "../utils/files";
+import { setGuestDragData, setPartyDragData } from "../utils/guestDrag";
+import { formatNameList, getRsvpStatus, isAttending, RSVP_LABELS } from "../utils/attendees";
+import { getPartyKey, getPartyMembers, getSplitParties, groupByParty } from "../utils/parties";
+import {
+  formatCustomFieldValue,
+  formatTags,
+  getGuestCategoryColors,
+  getSeatColorByField,
+  parseCustomFieldValue,
+  parseTags,
+} from "../utils/customFields";
+import type { SeatColorBy } from "../utils/customFields";
+import { exportGuestsCsv, getGuestExportFileName } from "../utils/guestExport";
+import type { SeatLocation } from "../utils/planDiff";
+import type { Attendee, CustomField, CustomFieldValue, RsvpStatus } from "../types";
+
+export type GuestSortOrder = "name-asc" | "name-desc" | "seat";
+
+const PARTY_OPTIONS_ID = "guest-party-options";
+const MEAL_OPTIONS_ID = "guest-meal-options";
+
+const RSVP_CLASSES: Record<RsvpStatus, string> = {
+  invited: "text-gray-600 bg-gray-100",
+  accepted: "text-green-800 bg-green-50",
+  tentative: "text-amber-800 bg-amber-50",
+  declined: "text-red-800 bg-red-50",
+};
+
+const SORT_LABELS: Record<GuestSortOrder, string> = {
+  "name-asc": "Name (A–Z)",
+  "name-desc": "Name (Z–A)",
+  seat: "Table and seat",
+};
+
+interface GuestListItem {
+  attendee: Attendee;
+  location: SeatLocation | null;
+}
+
+const compareNames = (a: GuestListItem, b: GuestListItem) =>
+  a.attendee.name.localeCompare(b.attendee.name, undefined, { sensitivity: "base" });
+
+// Seated guests come first in table order; unseated guests follow by name
+const compareSeats = (a: GuestListItem, b: GuestListItem) => {
+  if (!a.location || !b.location) {
+    if (a.location) return -1;
+    if (b.location) return 1;
+    return compareNames(a, b);
+  }
+  return (
+    a.location.tableName.localeCompare(b.location.tableName, undefined, { numeric: true }) ||
+    a.location.seatNumber - b.location.seatNumber
+  );
+};
+
+export function sortGuests(items: GuestListItem[], order: GuestSortOrder): GuestListItem[] {
+  const sorted = [...items];
+  if (order === "name-asc") sorted.sort(compareNames);
+  else if (order === "name-desc") sorted.sort((a, b) => compareNames(b, a));
+  else sorted.sort(compareSeats);
+  return sorted;
+}
+
+// The meal filter's value for guests who haven't chosen yet
+export const NO_MEAL = "__none__";
+
+export interface GuestFilters {
+  // Declined guests don't need a seat, so they never count as unseated
+  unseatedOnly: boolean;
+  rsvp: RsvpStatus | "all";
+  // A meal name, NO_MEAL, or "" for any
+  meal: string;
+  dietaryOnly: boolean;
+  // A tag, or "" for any
+  tag: string;
+  // A custom field value from encodeFieldFilter, or "" for any
+  field: string;
+}
+
+export const DEFAULT_GUEST_FILTERS: GuestFilters = {
+  unseatedOnly: false,
+  rsvp: "all",
+  meal: "",
+  dietaryOnly: false,
+  tag: "",
+  field: "",
+};
+
+export const encodeFieldFilter = (fieldId: string, value: string) => JSON.stringify([fieldId, value]);
+
+const getMealKey = (meal: string) => meal.toLowerCase();
+
+export function filterGuests(items: GuestListItem[], filters: GuestFilters, customFields: CustomField[] = []): GuestListItem[] {
+  const [fieldId, fieldValue] = filters.field ? (JSON.parse(filters.field) as [string, string]) : [];
+  const field = customFields.find((candidate) => candidate.id === fieldId);
+  return items.filter(({ attendee, location }) => {
+    if (filters.unseatedOnly && (location || !isAttending(attendee))) return false;
+    if (filters.rsvp !== "all" && getRsvpStatus(attendee) !== filters.rsvp) return false;
+    if (filters.meal === NO_MEAL && attendee.meal) return false;
+    if (filters.meal && filters.meal !== NO_MEAL && getMealKey(attendee.meal ?? "") !== getMealKey(filters.meal)) return false;
+    if (filters.dietaryOnly && !attendee.dietary && !attendee.allergies) return false;
+    if (filters.tag && !attendee.tags?.some((tag) => tag.toLowerCase() === filters.tag.toLowerCase())) return false;
+    if (field && formatCustomFieldValue(field, attendee.fields?.[field.id]) !== fieldValue) return false;
+    return true;
+  });
+}
+
+interface ConfirmDeleteGuestsProps {
+  guests: Attendee[];
+  // Unnamed plus-ones of those guests, who are deleted with them
+  plusOneCount: number;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function ConfirmDeleteGuestsDialog({ guests, plusOneCount, onConfirm, onCancel }: ConfirmDeleteGuestsProps) {
+  if (guests.length === 0) return null;
+
+  const subject = guests.length === 1 ? `"${guests[0].name}"` : `${guests.length} guests`;
+  const plusOnes = plusOneCount === 1 ? "Their unnamed plus-one goes too." : `Their ${plusOneCount} unnamed plus-ones go too.`;
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl" role="dialog" aria-labelledby="delete-guests-title">
+        <h3 id="delete-guests-title" className="text-lg font-semibold text-gray-900 mb-4">
+          {guests.length === 1 ? "Delete Guest" : "Delete Guests"}
+        </h3>
+        <p className="text-gray-700 mb-6">
+          Are you sure you want to delete {subject}? Their seats will be freed.{plusOneCount > 0 && ` ${plusOnes}`} You can undo it with Ctrl+Z (⌘Z on Mac).
+        </p>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface GuestRowProps {
+  item: GuestListItem;
+  customFields: CustomField[];
+  isSelected: boolean;
+  onToggleSelected: (id: string) => void;
+  onDelete: (attendee: Attendee) => void;
+}
+
+function GuestRow({ item, customFields, isSelected, onToggleSelected, onDelete }: GuestRowProps) {
+  const { attendee, location } = item;
+  const updateAttendee = useUpdateAttendee();
+  const addPlusOne = useAddPlusOne();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState({
+    name: "",
+    email: "",
+    notes: "",
+    party: "",
+    rsvp: "invited" as RsvpStatus,
+    meal: "",
+    dietary: "",
+    allergies: "",
+    tags: "",
+    // Typed text per custom field id
+    fields: {} as Record<string, string>,
+  });
+  const [error, setError] = useState<string | null>(null);
+  const rsvp = getRsvpStatus(attendee);
+  const attending = isAttending(attendee);
+
+  const startEditing = () => {
+    setDraft({
+      name: attendee.name,
+      email: attendee.email ?? "",
+      notes: attendee.notes ?? "",
+      party: attendee.party ?? "",
+      rsvp,
+      meal: attendee.meal ?? "",
+      dietary: attendee.dietary ?? "",
+      allergies: attendee.allergies ?? "",
+      tags: formatTags(attendee.tags),
+      fields: Object.fromEntries(
+        customFields.map((field) => [field.id, formatCustomFieldValue(field, attendee.fields?.[field.id])])
+      ),
+    });
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Values of fields deleted elsewhere are kept as they are
+    const fields: Record<string, CustomFieldValue> = { ...attendee.fields };
+    for (const field of customFields) {
+      const parsed = parseCustomFieldValue(field, draft.fields[field.id] ?? "");
+      if (!parsed.success) {
+        setError(parsed.error);
+        return;
+      }
+      if (parsed.value === undefined) delete fields[field.id];
+      else fields[field.id] = parsed.value;
+    }
+    const result = updateAttendee(attendee.id, { ...draft, tags: parseTags(draft.tags), fields });
+    if (result.success) {
+      setIsEditing(false);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <li className="py-3">
+        <form
+          onSubmit={handleSave}
+          noValidate
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setIsEditing(false);
+          }}
+          className="flex flex-col gap-2"
+          aria-label={`Edit ${attendee.name}`}
+        >
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+            aria-label="Guest name"
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoFocus
+          />
+          {attendee.hostId && (
+            <p className="text-xs text-gray-500">Enter their name once you know it. They keep their seat.</p>
+          )}
+          <input
+            type="email"
+            value={draft.email}
+            onChange={(e) => setDraft((prev) => ({ ...prev, email: e.target.value }))}
+            placeholder="Email (optional)"
+            aria-label="Guest email"
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={draft.party}
+            onChange={(e) => setDraft((prev) => ({ ...prev, party: e.target.value }))}
+            placeholder="Party or household (optional)"
+            aria-label="Guest party"
+            list={PARTY_OPTIONS_ID}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={draft.rsvp}
+            onChange={(e) => setDraft((prev) => ({ ...prev, rsvp: e.target.value as RsvpStatus }))}
+            aria-label="Guest RSVP"
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+          >
+            {(Object.keys(RSVP_LABELS) as RsvpStatus[]).map((status) => (
+              <option key={status} value={status}>{RSVP_LABELS[status]}</option>
+            ))}
+          </select>
+          {draft.rsvp === "declined" && location && (
+            <p className="text-xs text-amber-700">Saving frees their seat at {location.tableName}.</p>
+          )}
+          <input
+            type="text"
+            value={draft.meal}
+            onChange={(e) => setDraft((prev) => ({ ...prev, meal: e.target.value }))}
+            placeholder="Meal choice (optional)"
+            aria-label="Guest meal"
+            list={MEAL_OPTIONS_ID}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={draft.dietary}
+            onChange={(e) => setDraft((prev) => ({ ...prev, dietary: e.target.value }))}
+            placeholder="Dietary restrictions (optional)"
+            aria-label="Guest dietary restrictions"
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={draft.allergies}
+            onChange={(e) => setDraft((prev) => ({ ...prev, allergies: e.target.value }))}
+            placeholder="Allergies (optional)"
+            aria-label="Guest allergies"
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={draft.tags}
+            onChange={(e) => setDraft((prev) => ({ ...prev, tags: e.target.value }))}
+            placeholder="Tags, separated by commas (optional)"
+            aria-label="Guest tags"
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {customFields.map((field) => {
+            const value = draft.fields[field.id] ?? "";
+            const setValue = (next: string) =>
+              setDraft((prev) => ({ ...prev, fields: { ...prev.fields, [field.id]: next } }));
+            const choices = field.type === "boolean" ? ["Yes", "No"] : field.options;
+            return choices ? (
+              <select
+                key={field.id}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                aria-label={field.name}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">{field.name}: not set</option>
+                {choices.map((choice) => (
+                  <option key={choice} value={choice}>{choice}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                key={field.id}
+                type="text"
+                inputMode={field.type === "number" ? "decimal" : undefined}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={`${field.name} (optional)`}
+                aria-label={field.name}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            );
+          })}
+          <textarea
+            value={draft.notes}
+            onChange={(e) => setDraft((prev) => ({ ...prev, notes: e.target.value }))}
+            placeholder="Notes (optional)"
+            aria-label="Guest notes"
+            rows={2}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {error && (
+            <p role="alert" className="text-xs text-red-700">{error}</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-2 py-1 text-xs text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditing(false)}
+              className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </li>
+    );
+  }
+
+  return (
+    <li
+      className={`py-2 flex items-start gap-2 ${attending ? "cursor-grab" : "opacity-60"}`}
+      draggable={attending}
+      onDragStart={attending ? (e) => setGuestDragData(e.dataTransfer, attendee) : undefined}
+      title={attending ? "Drag onto a seat" : "Declined guests aren't seated"}
+    >
+      <input
+        type="checkbox"
+        checked={isSelected}
+        onChange={() => onToggleSelected(attendee.id)}
+        aria-label={`Select ${attendee.name}`}
+        className="mt-1"
+      />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <div className={`text-sm font-medium text-gray-900 truncate ${attendee.hostId ? "italic" : ""}`}>{attendee.name}</div>
+          <span className={`px-1.5 rounded text-xs ${RSVP_CLASSES[rsvp]}`}>{RSVP_LABELS[rsvp]}</span>
+        </div>
+        {attendee.email && <div className="text-xs text-gray-500 truncate">{attendee.email}</div>}
+        {attending && <div className="text-xs text-gray-500">{formatSeatLocation(location)}</div>}
+        {attendee.meal && <div className="text-xs text-gray-600">Meal: {attendee.meal}</div>}
+        {attendee.dietary && <div className="text-xs text-gray-600">Diet: {attendee.dietary}</div>}
+        {attendee.allergies && <div className="text-xs text-red-700">Allergies: {attendee.allergies}</div>}
+        {customFields.map((field) => {
+          const value = formatCustomFieldValue(field, attendee.fields?.[field.id]);
+          return value && <div key={field.id} className="text-xs text-gray-600">{field.name}: {value}</div>;
+        })}
+        {attendee.tags && (
+          <div className="flex flex-wrap gap-1 mt-1" aria-label={`Tags for ${attendee.name}`}>
+            {attendee.tags.map((tag) => (
+              <span key={tag} className="px-1.5 rounded text-xs text-gray-700 bg-gray-100">{tag}</span>
+            ))}
+          </div>
+        )}
+        {attendee.notes && <div className="text-xs text-gray-600 mt-1 line-clamp-2">{attendee.notes}</div>}
+      </div>
+      <div className="flex gap-1">
+        {!attendee.hostId && (
+          <button
+            onClick={() => addPlusOne(attendee.id)}
+            className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            aria-label={`Add a plus-one for ${attendee.name}`}
+            title="Add a guest whose name isn't known yet"
+          >
+            +1
+          </button>
+        )}
+        <button
+          onClick={startEditing}
+          className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          aria-label={`Edit ${attendee.name}`}
+        >
+          Edit
+        </button>
+        <button
+          onClick={() => onDelete(attendee)}
+          className="px-2 py-1 text-xs text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+          aria-label={`Delete ${attendee.name}`}
+        >
+          Delete
+        </button>
+      </div>
+    </li>
+  );
+}
+
+interface PartyGroupProps {
+  party: string;
+  // Every attending member, including any the current filter hides, so the whole party is dragged
+  members: Attendee[];
+  splitTables?: string[];
+  children: React.ReactNode;
+}
+
+function PartyGroup({ party, members, splitTables, children }: PartyGroupProps) {
+  return (
+    <li className="py-2" aria-label={`Party: ${party}`}>
+      <div
+        className={`flex items-baseline gap-2 ${members.length > 0 ? "cursor-grab" : ""}`}
+        draggable={members.length > 0}
+        onDragStart={(e) => setPartyDragData(e.dataTransfer, party, members.map((member) => member.id))}
+        title={members.length > 0 ? "Drag onto a seat to seat the whole party together" : undefined}
+      >
+        <span className="text-sm font-semibold text-gray-900 truncate">{party}</span>
+        <span className="text-xs text-gray-500">
+          {members.length} {members.length === 1 ? "guest" : "guests"}
+        </span>
+      </div>
+      {splitTables && (
+        <p className="text-xs text-amber-700">⚠ Split across {formatNameList(splitTables)}</p>
+      )}
+      <ul className="mt-1 pl-3 border-l-2 border-gray-200 divide-y divide-gray-100">
+        {children}
+      </ul>
+    </li>
+  );
+}
+
+interface GuestPanelProps {
+  onClose: () => void;
+}
+
+export default function GuestPanel({ onClose }: GuestPanelProps) {
+  const attendees = useAttendees();
+  const seatAssignments = useSeatAssignments();
+  const tables = useTables();
+  const customFields = useCustomFields();
+  const getPlan = usePlanStore((state) => state.getPlan);
+  const seatColorBy = useSeatColorBy();
+  const setSeatColorBy = useSetSeatColorBy();
+  const addAttendee = useAddAttendee();
+  const deleteAttendees = useDeleteAttendees();
+
+  const [newGuest, setNewGuest] = useState({ name: "", email: "", party: "" });
+  const [addError, setAddError] = useState<string | null>(null);
+  const [sortOrder, setSortOrder] = useState<GuestSortOrder>("name-asc");
+  const [filters, setFilters] = useState<GuestFilters>(DEFAULT_GUEST_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pendingDelete, setPendingDelete] = useState<Attendee[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; text: string } | null>(null);
+  const [isEditingFields, setIsEditingFields] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const locations = useMemo(
+    () => getSeatLocations({ tables, attendees, seatAssignments }),
+    [tables, attendees, seatAssignments]
+  );
+
+  const items = useMemo(() => {
+    const all = attendees.map((attendee) => ({ attendee, location: locations.get(attendee.id) ?? null }));
+    return sortGuests(filterGuests(all, filters, customFields), sortOrder);
+  }, [attendees, locations, filters, customFields, sortOrder]);
+
+  const entries = useMemo(() => groupByParty(items, (item) => item.attendee), [items]);
+  const splitParties = useMemo(() => getSplitParties(attendees, locations), [attendees, locations]);
+  // Suggested in the party fields so joining an existing party doesn't depend on exact spelling
+  const partyNames = useMemo(() => {
+    const names = new Map<string, string>();
+    attendees.forEach(({ party }) => {
+      if (party && !names.has(getPartyKey(party))) names.set(getPartyKey(party), party);
+    });
+    return Array.from(names.values());
+  }, [attendees]);
+  const mealNames = useMemo(() => {
+    const names = new Map<string, string>();
+    attendees.forEach(({ meal }) => {
+      if (meal && !names.has(getMealKey(meal))) names.set(getMealKey(meal), meal);
+    });
+    return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+  }, [attendees]);
+  const tagNames = useMemo(() => {
+    const names = new Map<string, string>();
+    attendees.forEach(({ tags }) => {
+      tags?.forEach((tag) => {
+        if (!names.has(tag.toLowerCase())) names.set(tag.toLowerCase(), tag);
+      });
+    });
+    return Array.from(names.values()).sort((a, b) => a.localeCompare(b));
+  }, [attendees]);
+  // Every value a custom field can be filtered by: its choices, or the values guests have
+  const fieldFilterOptions = useMemo(
+    () =>
+      customFields.map((field) => {
+        const present = attendees
+          .map((attendee) => formatCustomFieldValue(field, attendee.fields?.[field.id]))
+          .filter((value) => value !== "");
+        const values = field.type === "boolean" ? ["Yes", "No"] : field.options ?? Array.from(new Set(present)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+        return { field, values };
+      }),
+    [attendees, customFields]
+  );
+  const seatColors = useMemo(
+    () => (seatColorBy ? getGuestCategoryColors(attendees, seatColorBy, customFields) : new Map()),
+    [attendees, customFields, seatColorBy]
+  );
+
+  // Guests deleted elsewhere (undo, another tab) drop out of the selection
+  const selected = attendees.filter((attendee) => selectedIds.includes(attendee.id));
+  const attending = attendees.filter(isAttending);
+  const declinedCount = attendees.length - attending.length;
+  const unseatedCount = attending.filter((attendee) => !locations.has(attendee.id)).length;
+  const isFiltered = filters.rsvp !== "all" || filters.meal !== "" || filters.dietaryOnly || filters.tag !== "" || filters.field !== "";
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = addAttendee(newGuest);
+    if (result.success) {
+      setNewGuest({ name: "", email: "", party: "" });
+      setAddError(null);
+    } else {
+      setAddError(result.error);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setPendingImport({ fileName: file.name, text: await readTextFile(file) });
+    } catch (error) {
+      setStatus(`"${file.name}" could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleExport = () => {
+    const plan = getPlan();
+    downloadTextFile(getGuestExportFileName(plan), exportGuestsCsv(plan), "text/csv");
+  };
+
+  const handleImported = (summary: string) => {
+    setPendingImport(null);
+    setStatus(summary);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]));
+  };
+
+  const allShownSelected = items.length > 0 && items.every((item) => selectedIds.includes(item.attendee.id));
+
+  const toggleAllShown = () => {
+    const shownIds = items.map((item) => item.attendee.id);
+    setSelectedIds((prev) =>
+      allShownSelected ? prev.filter((id) => !shownIds.includes(id)) : Array.from(new Set([...prev, ...shownIds]))
+    );
+  };
+
+  const renderRow = (item: GuestListItem) => (
+    <GuestRow
+      key={item.attendee.id}
+      item={item}
+      customFields={customFields}
+      isSelected={selectedIds.includes(item.attendee.id)}
+      onToggleSelected={toggleSelected}
+      onDelete={(attendee) => setPendingDelete([attendee])}
+    />
+  );
+
+  const pendingPlusOnes = attendees.filter(
+    (attendee) =>
+      attendee.hostId &&
+      pendingDelete.some((guest) => guest.id === attendee.hostId) &&
+      !pendingDelete.some((guest) => guest.id === attendee.id)
+  );
+
+  const confirmDelete = () => {
+    const ids = pendingDelete.map((attendee) => attendee.id);
+    deleteAttendees(ids);
+    setSelectedIds((prev) => prev.filter((id) => !ids.includes(id)));
+    setPendingDelete([]);
+  };
+
+  return (
+    <>
+      <div className="fixed left-0 top-0 h-full w-80 bg-white shadow-lg border-r border-gray-200 z-40 flex flex-col" aria-label="Guest list">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Guests</h2>
+            <p className="text-xs text-gray-500">
+              {attending.length} {attending.length === 1 ? "guest" : "guests"} · {unseatedCount} unseated
+              {declinedCount > 0 && ` · ${declinedCount} declined`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Collapse guest list"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleAdd} noValidate className="p-4 border-b border-gray-200 flex flex-col gap-2" aria-label="Add guest">
+          <input
+            type="text"
+            value={newGuest.name}
+            onChange={(e) => setNewGuest((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder="Guest name"
+            aria-label="New guest name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="email"
+            value={newGuest.email}
+            onChange={(e) => setNewGuest((prev) => ({ ...prev, email: e.target.value }))}
+            placeholder="Email (optional)"
+            aria-label="New guest email"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={newGuest.party}
+            onChange={(e) => setNewGuest((prev) => ({ ...prev, party: e.target.value }))}
+            placeholder="Party or household (optional)"
+            aria-label="New guest party"
+            list={PARTY_OPTIONS_ID}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <datalist id={PARTY_OPTIONS_ID}>
+            {partyNames.map((party) => (
+              <option key={party} value={party} />
+            ))}
+          </datalist>
+          <datalist id={MEAL_OPTIONS_ID}>
+            {mealNames.map((meal) => (
+              <option key={meal} value={meal} />
+            ))}
+          </datalist>
+          {addError && (
+            <p role="alert" className="text-xs text-red-700">{addError}</p>
+          )}
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Add Guest
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Import CSV…
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={attendees.length === 0}
+              className="flex-1 px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export CSV
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsEditingFields(true)}
+              className="flex-1 px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Custom Fields…
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+            onChange={handleImportFile}
+            aria-label="Guest list file to import"
+            className="hidden"
+          />
+        </form>
+
+        {status && (
+          <p role="status" className="mx-4 mt-4 p-3 text-sm text-green-800 bg-green-50 border border-green-200 rounded-md">
+            {status}
+          </p>
+        )}
+
+        {/* List controls */}
+        <div className="px-4 py-3 border-b border-gray-200 flex flex-col gap-2 text-sm">
+          <div className="flex items-center gap-2">
+            <label htmlFor="guestSort" className="text-gray-700">Sort by</label>
+            <select
+              id="guestSort"
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as GuestSortOrder)}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {(Object.keys(SORT_LABELS) as GuestSortOrder[]).map((order) => (
+                <option key={order} value={order}>{SORT_LABELS[order]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="seatColorBy" className="text-gray-700">Color seats by</label>
+            <select
+              id="seatColorBy"
+              value={seatColorBy ?? ""}
+              onChange={(e) => setSeatColorBy((e.target.value || null) as SeatColorBy | null)}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Nothing</option>
+              <option value="tags">First tag</option>
+              {customFields.map((field) => (
+                <option key={field.id} value={getSeatColorByField(field.id)}>{field.name}</option>
+              ))}
+            </select>
+          </div>
+          {seatColors.size > 0 && (
+            <ul className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-700" aria-label="Seat colors">
+              {Array.from(seatColors.entries()).map(([category, color]) => (
+                <li key={category} className="flex items-center gap-1">
+                  <span className="inline-block w-3 h-3 rounded-full border" style={{ backgroundColor: color.fill, borderColor: color.stroke }} />
+                  {category}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500">Drag a guest onto a seat to seat them, or drag between seats to move or swap guests.</p>
+          <div className="flex items-center gap-2">
+            <label htmlFor="guestRsvpFilter" className="text-gray-700">RSVP</label>
+            <select
+              id="guestRsvpFilter"
+              value={filters.rsvp}
+              onChange={(e) => setFilters((prev) => ({ ...prev, rsvp: e.target.value as GuestFilters["rsvp"] }))}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="all">All</option>
+              {(Object.keys(RSVP_LABELS) as RsvpStatus[]).map((status) => (
+                <option key={status} value={status}>{RSVP_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="guestMealFilter" className="text-gray-700">Meal</label>
+            <select
+              id="guestMealFilter"
+              value={filters.meal}
+              onChange={(e) => setFilters((prev) => ({ ...prev, meal: e.target.value }))}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Any</option>
+              {mealNames.map((meal) => (
+                <option key={meal} value={meal}>{meal}</option>
+              ))}
+              <option value={NO_MEAL}>Not chosen</option>
+            </select>
+          </div>
+          {tagNames.length > 0 && (
+            <div className="flex items-center gap-2">
+              <label htmlFor="guestTagFilter" className="text-gray-700">Tag</label>
+              <select
+                id="guestTagFilter"
+                value={filters.tag}
+                onChange={(e) => setFilters((prev) => ({ ...prev, tag: e.target.value }))}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Any</option>
+                {tagNames.map((tag) => (
+                  <option key={tag} value={tag}>{tag}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {customFields.length > 0 && (
+            <div className="flex items-center gap-2">
+              <label htmlFor="guestFieldFilter" className="text-gray-700">Field</label>
+              <select
+                id="guestFieldFilter"
+                value={filters.field}
+                onChange={(e) => setFilters((prev) => ({ ...prev, field: e.target.value }))}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Any</option>
+                {fieldFilterOptions.map(({ field, values }) => (
+                  <optgroup key={field.id} label={field.name}>
+                    {values.map((value) => (
+                      <option key={value} value={encodeFieldFilter(field.id, value)}>{field.name}: {value}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={filters.dietaryOnly}
+              onChange={(e) => setFilters((prev) => ({ ...prev, dietaryOnly: e.target.checked }))}
+            />
+            Dietary needs or allergies only
+          </label>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={filters.unseatedOnly}
+              onChange={(e) => setFilters((prev) => ({ ...prev, unseatedOnly: e.target.checked }))}
+            />
+            Unseated only
+          </label>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-gray-700">
+              <input type="checkbox" checked={allShownSelected} onChange={toggleAllShown} disabled={items.length === 0} />
+              Select all shown
+            </label>
+            <button
+              onClick={() => setPendingDelete(selected)}
+              disabled={selected.length === 0}
+              className="px-2 py-1 text-xs text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Delete Selected ({selected.length})
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 px-4 overflow-y-auto">
+          {items.length === 0 ? (
+            <p className="py-4 text-sm text-gray-600">
+              {attendees.length === 0
+                ? "No guests yet. Add one above."
+                : isFiltered
+                  ? "No guests match these filters."
+                  : "Every guest has a seat."}
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100" aria-label="Guests">
+              {entries.map((entry) =>
+                entry.kind === "guest" ? (
+                  renderRow(entry.item)
+                ) : (
+                  <PartyGroup
+                    key={`party:${getPartyKey(entry.party)}`}
+                    party={entry.party}
+                    members={getPartyMembers(attending, entry.party)}
+                    splitTables={splitParties.get(getPartyKey(entry.party))}
+                  >
+                    {entry.items.map(renderRow)}
+                  </PartyGroup>
+                )
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDeleteGuestsDialog
+        guests={pendingDelete}
+        plusOneCount={pendingPlusOnes.length}
+        onConfirm={confirmDelete}
+        onCancel={() => setPendingDelete([])}
+      />
+
+      {isEditingFields && <CustomFieldsDialog onClose={() => setIsEditingFields(false)} />}
+
+      {pendingImport && (
+        <GuestImportDialog
+          fileName={pendingImport.fileName}
+          text={pendingImport.text}
+          onClose={() => setPendingImport(null)}
+          onImported={handleImported}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { usePlanStore } from "../store/plan-store";
+import { useStartComparison } from "../store/ui-store";
+import {
+  usePlanSnapshots,
+  useLoadSnapshots,
+  useCreateSnapshot,
+  useDeleteSnapshot,
+  useRestoreSnapshot,
+  useRestoreSnapshotAsNewPlan,
+} from "../store/snapshot-store";
+import type { PlanSnapshot } from "../utils/planStorage";
+import { parsePlanFile, PLAN_FILE_EXTENSION } from "../utils/planFile";
+import { readTextFile } from "../utils/files";
+import { isAttending } from "../utils/attendees";
+import type { Plan } from "../types";
+
+interface ConfirmDeleteSnapshotProps {
+  snapshot: PlanSnapshot | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function ConfirmDeleteSnapshotDialog({ snapshot, onConfirm, onCancel }: ConfirmDeleteSnapshotProps) {
+  if (!snapshot) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl" role="dialog" aria-labelledby="delete-snapshot-title">
+        <h3 id="delete-snapshot-title" className="text-lg font-semibold text-gray-900 mb-4">
+          Delete Snapshot
+        </h3>
+        <p className="text-gray-700 mb-6">
+          Are you sure you want to delete the snapshot &quot;{snapshot.name}&quot;? The current plan is not affected.
+        </p>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface HistoryPanelProps {
+  onClose: () => void;
+  // Opens a plan created from a snapshot
+  onOpenPlan?: (id: string) => void;
+}
+
+export default function HistoryPanel({ onClose, onOpenPlan }: HistoryPanelProps) {
+  const planId = usePlanStore((state) => state.planId);
+  const snapshots = usePlanSnapshots();
+  const loadSnapshots = useLoadSnapshots();
+  const createSnapshot = useCreateSnapshot();
+  const deleteSnapshot = useDeleteSnapshot();
+  const restoreSnapshot = useRestoreSnapshot();
+  const restoreSnapshotAsNewPlan = useRestoreSnapshotAsNewPlan();
+  const startComparison = useStartComparison();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [snapshotName, setSnapshotName] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<PlanSnapshot | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSnapshots(planId);
+    setStatus(null);
+  }, [planId, loadSnapshots]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const snapshot = createSnapshot(snapshotName);
+    setSnapshotName("");
+    setStatus(`Saved snapshot "${snapshot.name}".`);
+  };
+
+  const handleRestore = (snapshot: PlanSnapshot) => {
+    if (restoreSnapshot(snapshot.id)) {
+      setStatus(`Restored "${snapshot.name}". Press Ctrl+Z (⌘Z on Mac) to undo.`);
+    }
+  };
+
+  const handleRestoreAsNew = (snapshot: PlanSnapshot) => {
+    const plan = restoreSnapshotAsNewPlan(snapshot.id);
+    if (plan) {
+      onOpenPlan?.(plan.id);
+    }
+  };
+
+  // The overlay takes over the canvas, so get out of its way
+  const handleCompare = (label: string, basePlan: Plan) => {
+    startComparison(planId, label, basePlan);
+    onClose();
+  };
+
+  const handleCompareFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await readTextFile(file);
+    } catch (error) {
+      setStatus(`"${file.name}" could not be read: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    const result = parsePlanFile(text);
+    if (result.status === "invalid") {
+      setStatus(`"${file.name}" could not be read: ${result.issues[0]}`);
+      return;
+    }
+    handleCompare(file.name, result.plan);
+  };
+
+  const confirmDelete = () => {
+    if (pendingDelete) {
+      deleteSnapshot(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  };
+
+  return (
+    <>
+      <div className="fixed left-0 top-0 h-full w-80 bg-white shadow-lg border-r border-gray-200 z-40 flex flex-col" aria-label="Version history">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Version History</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close history"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleCreate} className="p-4 border-b border-gray-200 flex flex-col gap-2" aria-label="Save snapshot">
+          <input
+            type="text"
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder='Name (e.g. "Before in-laws call")'
+            aria-label="Snapshot name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Save Snapshot
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Compare with File…
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${PLAN_FILE_EXTENSION},.json,application/json`}
+            onChange={handleCompareFile}
+            aria-label="Plan file to compare"
+            className="hidden"
+          />
+        </form>
+
+        {status && (
+          <p role="status" className="mx-4 mt-4 p-3 text-sm text-green-800 bg-green-50 border border-green-200 rounded-md">
+            {status}
+          </p>
+        )}
+
+        <div className="flex-1 p-4 overflow-y-auto">
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-gray-600">No snapshots yet. Save one before making big changes so you can come back to it.</p>
+          ) : (
+            <ul className="space-y-3" aria-label="Snapshots">
+              {snapshots.map((snapshot) => (
+                <li key={snapshot.id} className="rounded-lg border border-gray-200 p-3">
+                  <div className="font-medium text-gray-900 truncate">{snapshot.name}</div>
+                  <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+                    <div>{snapshot.createdAt.toLocaleString()}</div>
+                    <div>
+                      {snapshot.plan.tables.length} {snapshot.plan.tables.length === 1 ? "table" : "tables"} · {snapshot.plan.attendees.filter(isAttending).length} {snapshot.plan.attendees.filter(isAttending).length === 1 ? "guest" : "guests"}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    <button
+                      onClick={() => handleRestore(snapshot)}
+                      className="px-2 py-1 text-xs text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+                      aria-label={`Restore ${snapshot.name}`}
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handleRestoreAsNew(snapshot)}
+                      className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                      aria-label={`Restore ${snapshot.name} as a new plan`}
+                    >
+                      Restore as New Plan
+                    </button>
+                    <button
+                      onClick={() => handleCompare(snapshot.name, snapshot.plan)}
+                      className="px-2 py-1 text-xs text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                      aria-label={`Compare with ${snapshot.name}`}
+                    >
+                      Compare
+                    </button>
+                    <button
+                      onClick={() => setPendingDelete(snapshot)}
+                      className="px-2 py-1 text-xs text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+                      aria-label={`Delete ${snapshot.name}`}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDeleteSnapshotDialog
+        snapshot={pendingDelete}
+        onConfirm={confirmDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import React from "react";
+import type { DroppedCounts, PlanFileResult } from "../utils/planFile";
+
+const MAX_LISTED_ISSUES = 50;
+
+interface ImportPlanDialogProps {
+  fileName: string;
+  result: Exclude<PlanFileResult, { status: "valid" }>;
+  onImportValidParts: () => void;
+  onCancel: () => void;
+}
+
+const pluralize = (count: number, noun: string, plural = `${noun}s`) => `${count} ${count === 1 ? noun : plural}`;
+
+// Tables, guests and seats are always listed; the optional collections only when some were left out
+function describeDropped(dropped: DroppedCounts): string {
+  const parts = [
+    pluralize(dropped.tables, "table"),
+    pluralize(dropped.attendees, "guest"),
+    pluralize(dropped.seatAssignments, "seat assignment"),
+  ];
+  if (dropped.customFields > 0) parts.push(pluralize(dropped.customFields, "custom field"));
+  if (dropped.constraints > 0) parts.push(pluralize(dropped.constraints, "seating rule"));
+  if (dropped.affinities > 0) parts.push(pluralize(dropped.affinities, "affinity", "affinities"));
+  return `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
+}
+
+export default function ImportPlanDialog({ fileName, result, onImportValidParts, onCancel }: ImportPlanDialogProps) {
+  const listedIssues = result.issues.slice(0, MAX_LISTED_ISSUES);
+  const hiddenCount = result.issues.length - listedIssues.length;
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 shadow-xl" role="alertdialog" aria-labelledby="import-plan-title">
+        <h3 id="import-plan-title" className="text-lg font-semibold text-gray-900 mb-4">
+          {result.status === "partial" ? "Some of This File Is Invalid" : "Plan Could Not Be Imported"}
+        </h3>
+        <p className="text-gray-700 mb-3">
+          {result.status === "partial"
+            ? <>&quot;{fileName}&quot; has {pluralize(result.issues.length, "problem")}. You can import the parts that passed validation or cancel.</>
+            : <>&quot;{fileName}&quot; is not a plan this app can open.</>}
+        </p>
+        <ul className="text-sm text-gray-700 mb-3 max-h-48 overflow-y-auto list-disc pl-5 space-y-1" aria-label="Validation problems">
+          {listedIssues.map((issue, index) => (
+            <li key={index} className="break-words">{issue}</li>
+          ))}
+          {hiddenCount > 0 && <li className="text-gray-500">…and {hiddenCount} more</li>}
+        </ul>
+        {result.status === "partial" && (
+          <p className="text-sm text-gray-600 mb-6">
+            Importing keeps {pluralize(result.plan.tables.length, "table")} and {pluralize(result.plan.attendees.length, "guest")}, and
+            leaves out {describeDropped(result.dropped)}.
+          </p>
+        )}
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            {result.status === "partial" ? "Cancel" : "Close"}
+          </button>
+          {result.status === "partial" && (
+            <button
+              onClick={onImportValidParts}
+              className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Import Valid Parts
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { useInspector, useCloseInspector } from "../store/ui-store";
-import { useUpdateTable, useDeleteTable, usePlanStore } from "../store/plan-store";
-import type { Table, TableShape } from "../types";
+import { useInspector, useCloseInspector, useDismissInspectorRemoteChange, useShowNotice } from "../store/ui-store";
+import { useUpdateTable, useDeleteTable, usePlanStore, useTables, useAttendees, useSeatAssignments, useAffinities, useSetSeatLocked } from "../store/plan-store";
+import type { Attendee, Table, TableShape } from "../types";
+import { formatNameList } from "../utils/attendees";
+import { AFFINITY_LABELS, RELATION_LABELS, formatPoints, getGuestAffinityScores, getHappiness, scoreAffinities } from "../utils/affinity";
+
+const describeUnseated = (guests: Attendee[]) =>
+  `${formatNameList(guests.map((guest) => guest.name))} ${guests.length === 1 ? "is" : "are"} now unseated.`;
 
 interface ConfirmDeleteProps {
   isOpen: boolean;
@@ -22,7 +27,7 @@ function ConfirmDeleteDialog({ isOpen, tableName, onConfirm, onCancel }: Confirm
           Delete Table
         </h3>
         <p className="text-gray-700 mb-6">
-          Are you sure you want to delete &quot;{tableName}&quot;? This action cannot be undone and will remove all seat assignments for this table.
+          Are you sure you want to delete &quot;{tableName}&quot;? Guests seated at it will move back to the unseated list. You can undo it with Ctrl+Z (⌘Z on Mac).
         </p>
         <div className="flex justify-end gap-3">
           <button
@@ -46,11 +51,20 @@ function ConfirmDeleteDialog({ isOpen, tableName, onConfirm, onCancel }: Confirm
 export default function Inspector() {
   const inspector = useInspector();
   const closeInspector = useCloseInspector();
+  const dismissRemoteChange = useDismissInspectorRemoteChange();
   const updateTable = useUpdateTable();
   const deleteTable = useDeleteTable();
+  const showNotice = useShowNotice();
   const getTable = usePlanStore((state) => state.getTable);
+  const attendees = useAttendees();
+  const seatAssignments = useSeatAssignments();
+  const setSeatLocked = useSetSeatLocked();
+  const tables = useTables();
+  const affinities = useAffinities();
   
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  // Seated guest whose affinity scores are shown
+  const [explainedId, setExplainedId] = useState("");
   
   // Get the current table
   const table = inspector.tableId ? getTable(inspector.tableId) : null;
@@ -106,7 +120,19 @@ export default function Inspector() {
         }
       }
       
-      updateTable(inspector.tableId, updates);
+      // Typing a name or dragging the slider should undo as one step, not one per keystroke
+      const { displaced, locked } = field === 'shape'
+        ? updateTable(inspector.tableId, updates)
+        : updateTable(inspector.tableId, updates, { coalesceKey: `table:${inspector.tableId}:${field}` });
+      
+      // Fewer seats than guests: the ones in removed seats lose their place, unless they're locked in
+      const notices = [
+        displaced.length > 0 ? describeUnseated(displaced) : "",
+        locked.length > 0 ? `${formatNameList(locked.map((guest) => guest.name))} ${locked.length === 1 ? "is" : "are"} locked in place, so the table kept their seats.` : "",
+      ].filter(Boolean);
+      if (notices.length > 0) {
+        showNotice(notices.join(" "));
+      }
     }
   };
   
@@ -116,8 +142,19 @@ export default function Inspector() {
   
   const confirmDelete = () => {
     if (inspector.tableId) {
-      deleteTable(inspector.tableId);
-      closeInspector();
+      const { deleted, displaced, locked } = deleteTable(inspector.tableId);
+      if (!deleted) {
+        showNotice(
+          table.locked
+            ? `"${table.name}" is locked, so it wasn't deleted. Unlock it first.`
+            : `"${table.name}" wasn't deleted because ${formatNameList(locked.map((guest) => guest.name))} ${locked.length === 1 ? "is" : "are"} locked in place.`
+        );
+      } else {
+        closeInspector();
+        if (displaced.length > 0) {
+          showNotice(`"${table.name}" was deleted. ${describeUnseated(displaced)}`);
+        }
+      }
     }
     setShowDeleteConfirm(false);
   };
@@ -126,6 +163,17 @@ export default function Inspector() {
     setShowDeleteConfirm(false);
   };
   
+  const names = new Map(attendees.map((attendee) => [attendee.id, attendee.name]));
+  const seatedHere = seatAssignments
+    .filter((a) => a.tableId === table.id && a.attendeeId)
+    .sort((a, b) => a.seatNumber - b.seatNumber);
+  
+  const affinityScores = scoreAffinities({ tables, seatAssignments, affinities });
+  const happiness = getHappiness(affinityScores);
+  const explained = seatedHere.find((a) => a.attendeeId === explainedId);
+  const explainedName = explained ? names.get(explainedId) ?? "Unknown guest" : "";
+  const explainedScores = explained ? getGuestAffinityScores(affinityScores, explainedId) : [];
+  
   return (
     <>
       <div className="fixed right-0 top-0 h-full w-80 bg-white shadow-lg border-l border-gray-200 z-40 flex flex-col">
@@ -143,6 +191,18 @@ export default function Inspector() {
           </button>
         </div>
         
+        {inspector.remoteChangedAt != null && (
+          <div role="status" className="flex items-start justify-between gap-3 bg-amber-50 border-b border-amber-200 text-amber-800 text-sm p-3">
+            <span>This table was just changed in another tab. The fields below show the latest values.</span>
+            <button
+              onClick={dismissRemoteChange}
+              className="text-amber-700 hover:text-amber-900 font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+        
         {/* Form */}
         <div className="flex-1 p-4 overflow-y-auto">
           <div className="space-y-6">
@@ -213,6 +273,99 @@ export default function Inspector() {
               </p>
             </div>
             
+            {/* Locks */}
+            <div>
+              <h3 className="block text-sm font-medium text-gray-700 mb-2">Locks</h3>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={table.locked === true}
+                  onChange={(e) => updateTable(table.id, { locked: e.target.checked || undefined })}
+                  className="mr-3 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">Lock whole table</span>
+              </label>
+              <p className="text-xs text-gray-500 mt-1">
+                Auto-seat, party drops and table deletion leave locked guests and tables as they are.
+              </p>
+              {seatedHere.length > 0 && (
+                <ul className="mt-2 space-y-1" aria-label="Seated guests">
+                  {seatedHere.map((assignment) => {
+                    const name = names.get(assignment.attendeeId!) ?? "Unknown guest";
+                    return (
+                      <li key={assignment.seatNumber}>
+                        <label className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={table.locked === true || assignment.locked === true}
+                            disabled={table.locked === true}
+                            onChange={(e) => setSeatLocked(assignment, e.target.checked)}
+                            aria-label={`Lock ${name} in seat ${assignment.seatNumber}`}
+                            className="mr-3 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span className="text-gray-500 w-14">Seat {assignment.seatNumber}</span>
+                          <span className="truncate">{name}</span>
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+            
+            {/* Happiness */}
+            <div>
+              <h3 className="block text-sm font-medium text-gray-700 mb-2">Happiness</h3>
+              <p className="text-sm text-gray-700" aria-label="Table happiness">
+                This table {formatPoints(happiness.byTable.get(table.id) ?? 0)} · Whole plan {formatPoints(happiness.total)}
+              </p>
+              {seatedHere.length > 0 && (
+                <div className="mt-2">
+                  <label htmlFor="explainGuest" className="block text-xs text-gray-600 mb-1">
+                    Why is this guest here?
+                  </label>
+                  <select
+                    id="explainGuest"
+                    value={explained ? explainedId : ""}
+                    onChange={(e) => setExplainedId(e.target.value)}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Choose a guest</option>
+                    {seatedHere.map((assignment) => (
+                      <option key={assignment.seatNumber} value={assignment.attendeeId!}>
+                        {names.get(assignment.attendeeId!) ?? "Unknown guest"}
+                      </option>
+                    ))}
+                  </select>
+                  {explained && (
+                    explainedScores.length === 0 ? (
+                      <p className="text-xs text-gray-500 mt-1">{explainedName} has no affinities with anyone.</p>
+                    ) : (
+                      <ul className="mt-2 space-y-1 text-sm" aria-label={`Why ${explainedName} is here`}>
+                        {explainedScores.map(({ otherId, affinity, relation, points }) => (
+                          <li key={otherId} className="flex justify-between gap-2">
+                            <span className="min-w-0">
+                              <span className="text-gray-900">{names.get(otherId) ?? "Unknown guest"}</span>
+                              <span className="block text-xs text-gray-500">
+                                {AFFINITY_LABELS[affinity.weight]} · {RELATION_LABELS[relation]}
+                              </span>
+                            </span>
+                            <span className={points > 0 ? "text-green-700" : points < 0 ? "text-red-700" : "text-gray-500"}>
+                              {formatPoints(points)}
+                            </span>
+                          </li>
+                        ))}
+                        <li className="flex justify-between gap-2 border-t border-gray-200 pt-1 font-medium text-gray-900">
+                          <span>Total</span>
+                          <span>{formatPoints(explainedScores.reduce((sum, { points }) => sum + points, 0))}</span>
+                        </li>
+                      </ul>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+            
             {/* Table Info */}
             <div className="bg-gray-50 rounded-lg p-4">
               <h3 className="text-sm font-medium text-gray-700 mb-2">Current Settings</h3>
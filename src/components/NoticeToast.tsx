@@ -0,0 +1,37 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { useNotice, useDismissNotice } from "../store/ui-store";
+
+export const NOTICE_DURATION_MS = 6000;
+
+export default function NoticeToast() {
+  const notice = useNotice();
+  const dismissNotice = useDismissNotice();
+
+  // Restart the timer for every new notice, even when the text repeats
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(dismissNotice, NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice, dismissNotice]);
+
+  if (!notice) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-gray-900 text-white text-sm rounded-md shadow-lg px-4 py-3 max-w-md"
+    >
+      <span>{notice.message}</span>
+      <button
+        type="button"
+        onClick={dismissNotice}
+        className="text-gray-300 hover:text-white transition-colors"
+        aria-label="Dismiss notice"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import CanvasStage from "./CanvasStage";
+import PlanLibrary from "./PlanLibrary";
+import PlanPersistence from "./PlanPersistence";
+import SharedPlanViewer from "./SharedPlanViewer";
+import { buildPlanUrl, getPlanIdFromUrl } from "../utils/planUrl";
+import { getSharePayloadFromHash } from "../utils/shareLink";
+
+export default function PlanApp() {
+  const [activePlanId, setActivePlanId] = useState<string | null>(() => getPlanIdFromUrl());
+  // Links created before the /view/ route put the snapshot on the editor URL; show those read-only too
+  const [sharePayload, setSharePayload] = useState<string | null>(() => getSharePayloadFromHash());
+
+  // Keep in sync with browser back/forward
+  useEffect(() => {
+    const onPopState = () => {
+      setActivePlanId(getPlanIdFromUrl());
+      setSharePayload(getSharePayloadFromHash());
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  const openPlan = useCallback((id: string) => {
+    window.history.pushState(null, "", buildPlanUrl(id));
+    setActivePlanId(id);
+  }, []);
+
+  const openLibrary = useCallback(() => {
+    window.history.pushState(null, "", buildPlanUrl(null));
+    setActivePlanId(null);
+  }, []);
+
+  const leaveSharedPlan = useCallback((planId: string | null) => {
+    window.history.replaceState(null, "", buildPlanUrl(planId));
+    setSharePayload(null);
+    setActivePlanId(planId);
+  }, []);
+
+  if (sharePayload) {
+    return (
+      <SharedPlanViewer
+        payload={sharePayload}
+        onEditableCopy={leaveSharedPlan}
+        onExit={() => leaveSharedPlan(null)}
+      />
+    );
+  }
+
+  if (!activePlanId) {
+    return <PlanLibrary onOpenPlan={openPlan} />;
+  }
+
+  return (
+    <>
+      <CanvasStage onOpenLibrary={openLibrary} onOpenPlan={openPlan} />
+      <PlanPersistence planId={activePlanId} onClose={openLibrary} />
+    </>
+  );
+}
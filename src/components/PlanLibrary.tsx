@@ -0,0 +1,310 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  usePlanSummaries,
+  useRefreshLibrary,
+  useCreatePlan,
+  useRenamePlan,
+  useDuplicatePlan,
+  useDeletePlan,
+  useImportPlan,
+} from "../store/library-store";
+import ImportPlanDialog from "./ImportPlanDialog";
+import { readStoredPlan } from "../utils/planStorage";
+import type { PlanSummary } from "../utils/planStorage";
+import { exportPlanFile, getPlanFileName, parsePlanFile, PLAN_FILE_EXTENSION } from "../utils/planFile";
+import type { PlanFileResult } from "../utils/planFile";
+import { downloadTextFile, readTextFile } from "../utils/files";
+
+interface ConfirmDeletePlanProps {
+  plan: PlanSummary | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function ConfirmDeletePlanDialog({ plan, onConfirm, onCancel }: ConfirmDeletePlanProps) {
+  if (!plan) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl" role="dialog" aria-labelledby="delete-plan-title">
+        <h3 id="delete-plan-title" className="text-lg font-semibold text-gray-900 mb-4">
+          Delete Plan
+        </h3>
+        <p className="text-gray-700 mb-6">
+          Are you sure you want to delete &quot;{plan.name}&quot;? Its tables, guests and seat assignments will be removed from this browser.
+        </p>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface PlanCardProps {
+  plan: PlanSummary;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onExport: (id: string) => void;
+  onDelete: (plan: PlanSummary) => void;
+}
+
+function PlanCard({ plan, onOpen, onRename, onDuplicate, onExport, onDelete }: PlanCardProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(plan.name);
+
+  const commitRename = () => {
+    if (draftName.trim() && draftName.trim() !== plan.name) {
+      onRename(plan.id, draftName);
+    } else {
+      setDraftName(plan.name);
+    }
+    setIsRenaming(false);
+  };
+
+  return (
+    <li className="bg-white rounded-lg border border-gray-200 shadow-sm p-4 flex flex-col gap-3">
+      <div>
+        {isRenaming ? (
+          <input
+            type="text"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename();
+              if (e.key === "Escape") {
+                setDraftName(plan.name);
+                setIsRenaming(false);
+              }
+            }}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={`New name for ${plan.name}`}
+            autoFocus
+          />
+        ) : (
+          <h2 className="text-lg font-semibold text-gray-900 truncate">{plan.name}</h2>
+        )}
+        {plan.description && (
+          <p className="text-sm text-gray-600 mt-1 line-clamp-2">{plan.description}</p>
+        )}
+      </div>
+      <div className="text-sm text-gray-500 space-y-1">
+        <div>
+          {plan.tableCount} {plan.tableCount === 1 ? "table" : "tables"} · {plan.guestCount} {plan.guestCount === 1 ? "guest" : "guests"}
+        </div>
+        <div>Updated {plan.updatedAt.toLocaleString()}</div>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-auto">
+        <button
+          onClick={() => onOpen(plan.id)}
+          className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          aria-label={`Open ${plan.name}`}
+        >
+          Open
+        </button>
+        <button
+          onClick={() => setIsRenaming(true)}
+          className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          aria-label={`Rename ${plan.name}`}
+        >
+          Rename
+        </button>
+        <button
+          onClick={() => onDuplicate(plan.id)}
+          className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          aria-label={`Duplicate ${plan.name}`}
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={() => onExport(plan.id)}
+          className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          aria-label={`Export ${plan.name}`}
+        >
+          Export
+        </button>
+        <button
+          onClick={() => onDelete(plan)}
+          className="px-3 py-1.5 text-sm text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+          aria-label={`Delete ${plan.name}`}
+        >
+          Delete
+        </button>
+      </div>
+    </li>
+  );
+}
+
+interface PlanLibraryProps {
+  onOpenPlan: (id: string) => void;
+}
+
+export default function PlanLibrary({ onOpenPlan }: PlanLibraryProps) {
+  const plans = usePlanSummaries();
+  const refresh = useRefreshLibrary();
+  const createPlan = useCreatePlan();
+  const renamePlan = useRenamePlan();
+  const duplicatePlan = useDuplicatePlan();
+  const deletePlan = useDeletePlan();
+  const importPlan = useImportPlan();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [newPlanName, setNewPlanName] = useState("");
+  const [newPlanDescription, setNewPlanDescription] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<PlanSummary | null>(null);
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    result: Exclude<PlanFileResult, { status: "valid" }>;
+  } | null>(null);
+
+  // Storage may have changed while a plan was open
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const plan = createPlan(newPlanName, newPlanDescription);
+    setNewPlanName("");
+    setNewPlanDescription("");
+    onOpenPlan(plan.id);
+  };
+
+  const handleExport = (id: string) => {
+    const stored = readStoredPlan(id);
+    if (stored.status !== "ok") return;
+    downloadTextFile(getPlanFileName(stored.plan), exportPlanFile(stored.plan));
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    e.target.value = "";
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await readTextFile(file);
+    } catch (error) {
+      const issue = `File could not be read: ${error instanceof Error ? error.message : String(error)}`;
+      setPendingImport({ fileName: file.name, result: { status: "invalid", issues: [issue] } });
+      return;
+    }
+    const result = parsePlanFile(text);
+    if (result.status === "valid") {
+      onOpenPlan(importPlan(result.plan).id);
+    } else {
+      setPendingImport({ fileName: file.name, result });
+    }
+  };
+
+  const confirmPartialImport = () => {
+    if (pendingImport?.result.status === "partial") {
+      onOpenPlan(importPlan(pendingImport.result.plan).id);
+    }
+    setPendingImport(null);
+  };
+
+  const confirmDelete = () => {
+    if (pendingDelete) {
+      deletePlan(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  };
+
+  return (
+    <main className="min-h-screen p-8" style={{ backgroundColor: "#faf7f0", color: "#374151" }}>
+      <div className="max-w-5xl mx-auto">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-6">Your Plans</h1>
+
+        <form onSubmit={handleCreate} className="bg-white rounded-lg border border-gray-200 shadow-sm p-4 mb-8 flex flex-col sm:flex-row gap-3" aria-label="Create plan">
+          <input
+            type="text"
+            value={newPlanName}
+            onChange={(e) => setNewPlanName(e.target.value)}
+            placeholder="Plan name (e.g. Smith Wedding)"
+            aria-label="New plan name"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="text"
+            value={newPlanDescription}
+            onChange={(e) => setNewPlanDescription(e.target.value)}
+            placeholder="Description (optional)"
+            aria-label="New plan description"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            New Plan
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Import Plan
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${PLAN_FILE_EXTENSION},.json,application/json`}
+            onChange={handleImportFile}
+            aria-label="Plan file to import"
+            className="hidden"
+          />
+        </form>
+
+        {plans.length === 0 ? (
+          <p className="text-gray-600">No plans yet. Create one above to start arranging tables.</p>
+        ) : (
+          <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3" aria-label="Saved plans">
+            {plans.map((plan) => (
+              <PlanCard
+                key={plan.id}
+                plan={plan}
+                onOpen={onOpenPlan}
+                onRename={renamePlan}
+                onDuplicate={duplicatePlan}
+                onExport={handleExport}
+                onDelete={setPendingDelete}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmDeletePlanDialog
+        plan={pendingDelete}
+        onConfirm={confirmDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+
+      {pendingImport && (
+        <ImportPlanDialog
+          fileName={pendingImport.fileName}
+          result={pendingImport.result}
+          onImportValidParts={confirmPartialImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { hydratePlanFromStorage, startPlanAutosave } from "../store/plan-persistence";
+import { startPlanSync } from "../store/plan-sync";
+import { useShowNotice } from "../store/ui-store";
+import { backupCorruptPlan } from "../utils/planStorage";
+import { downloadTextFile } from "../utils/files";
+
+// The broken entries are already gone from the store, and the next autosave keeps them gone
+const describeRepairs = (repairs: string[]) =>
+  `Some of this plan's saved data didn't fit together, so ${repairs.length === 1 ? "1 entry was" : `${repairs.length} entries were`} removed: ${repairs.join("; ")}.`;
+
+interface RecoveryDialogProps {
+  error: string;
+  raw: string;
+  onDiscard: () => void;
+}
+
+function RecoveryDialog({ error, raw, onDiscard }: RecoveryDialogProps) {
+  const handleDownload = () => {
+    downloadTextFile("chairchart-recovered-plan.json", raw);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl" role="alertdialog" aria-labelledby="recovery-title" aria-describedby="recovery-description">
+        <h3 id="recovery-title" className="text-lg font-semibold text-gray-900 mb-4">
+          Saved Plan Could Not Be Loaded
+        </h3>
+        <p id="recovery-description" className="text-gray-700 mb-3">
+          This plan is damaged or was saved by an incompatible version. You can download the saved data to keep a copy, then return to your plans.
+        </p>
+        <p className="text-xs text-gray-500 mb-6 break-words max-h-24 overflow-y-auto">
+          {error}
+        </p>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={handleDownload}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Download Saved Data
+          </button>
+          <button
+            onClick={onDiscard}
+            className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Back to Plans
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface PlanPersistenceProps {
+  planId: string;
+  // Called when the plan can't be opened and the user should go back to the library
+  onClose: () => void;
+}
+
+export default function PlanPersistence({ planId, onClose }: PlanPersistenceProps) {
+  const [recovery, setRecovery] = useState<{ raw: string; error: string } | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const showNotice = useShowNotice();
+
+  // Hydrate whenever the active plan changes
+  useEffect(() => {
+    setIsReady(false);
+    setRecovery(null);
+    const result = hydratePlanFromStorage(planId);
+    if (result.status === "ok") {
+      if (result.repairs.length > 0) showNotice(describeRepairs(result.repairs));
+      setIsReady(true);
+    } else if (result.status === "corrupt") {
+      setRecovery({ raw: result.raw, error: result.error });
+    } else {
+      onClose();
+    }
+  }, [planId, onClose, showNotice]);
+
+  // Autosave and sync only after hydration settles so a pending recovery never gets overwritten
+  useEffect(() => {
+    if (!isReady) return;
+    const stopAutosave = startPlanAutosave();
+    const stopSync = startPlanSync();
+    return () => {
+      stopSync();
+      stopAutosave();
+    };
+  }, [isReady]);
+
+  const handleDiscard = () => {
+    if (recovery) {
+      backupCorruptPlan(planId, recovery.raw);
+    }
+    setRecovery(null);
+    onClose();
+  };
+
+  if (!recovery) return null;
+
+  return <RecoveryDialog error={recovery.error} raw={recovery.raw} onDiscard={handleDiscard} />;
+}
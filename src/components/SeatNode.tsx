@@ -2,38 +2,90 @@
 
 import React from "react";
 import { Circle, Text, Group } from "react-konva";
+import type Konva from "konva";
 import type { SeatPosition } from "../types";
+import { getSeatRadius } from "../utils/seatGeometry";
+import type { CategoryColor } from "../utils/customFields";
 
 interface SeatNodeProps {
   seat: SeatPosition;
   tablePosition: { x: number; y: number };
   isSelected?: boolean;
+  // Drop target while a guest is dragged over the canvas
+  isHighlighted?: boolean;
+  guestName?: string;
+  // Category color of the seated guest when seats are colored by a tag or custom field
+  guestColor?: CategoryColor;
+  // The seated guest breaks a seating rule
+  hasViolation?: boolean;
+  // The seated guest is locked in place against bulk seating
+  isLocked?: boolean;
   scale?: number;
+  // Occupied seats can be dragged onto another seat to move their guest
+  isDraggable?: boolean;
+  onDragMove?: () => void;
+  onDragEnd?: () => void;
 }
 
 export default function SeatNode({
   seat,
   tablePosition,
   isSelected = false,
-  scale = 1
+  isHighlighted = false,
+  guestName,
+  guestColor,
+  hasViolation = false,
+  isLocked = false,
+  scale = 1,
+  isDraggable = false,
+  onDragMove,
+  onDragEnd
 }: SeatNodeProps) {
-  const seatRadius = Math.max(12 / scale, 8); // Responsive seat size, minimum 8px
+  const seatRadius = getSeatRadius(scale); // Responsive seat size, minimum 8px
   const fontSize = Math.max(12 / scale, 8); // Responsive font size
+  const nameFontSize = Math.max(11 / scale, 7);
+  const nameWidth = seatRadius * 7;
+  const lockSize = seatRadius;
+  const angleDegrees = (seat.angle * 180) / Math.PI;
   
   // Calculate absolute position by adding table position to relative seat position
   const absoluteX = tablePosition.x + seat.position.x;
   const absoluteY = tablePosition.y + seat.position.y;
   
-  // Colors based on selection state
-  const fillColor = isSelected ? "#3b82f6" : "#f3f4f6";
-  const strokeColor = isSelected ? "#1e40af" : "#9ca3af";
-  const textColor = isSelected ? "#ffffff" : "#374151";
+  // Colors based on selection, drop target and occupancy
+  const occupiedColor = guestColor ?? { fill: "#dbeafe", stroke: "#3b82f6" };
+  const fillColor = isHighlighted ? "#22c55e" : isSelected ? "#3b82f6" : guestName ? occupiedColor.fill : "#f3f4f6";
+  const isFlagged = hasViolation && !isHighlighted && !isSelected;
+  const strokeColor = isHighlighted ? "#15803d" : isSelected ? "#1e40af" : isFlagged ? "#dc2626" : guestName ? occupiedColor.stroke : "#9ca3af";
+  const textColor = isHighlighted || isSelected ? "#ffffff" : "#374151";
+  
+  // Keep seat drags from bubbling up and moving the whole table
+  const handleDragStart = (e: Konva.KonvaEventObject<DragEvent>) => {
+    e.cancelBubble = true;
+    e.target.moveToTop(); // Stay above neighbouring seats while dragged
+  };
+  
+  const handleDragMove = (e: Konva.KonvaEventObject<DragEvent>) => {
+    e.cancelBubble = true;
+    onDragMove?.();
+  };
+  
+  // The seat always springs back; the store decides where the guest ends up
+  const handleDragEnd = (e: Konva.KonvaEventObject<DragEvent>) => {
+    e.cancelBubble = true;
+    e.target.position({ x: absoluteX, y: absoluteY });
+    onDragEnd?.();
+  };
   
   return (
     <Group
       x={absoluteX}
       y={absoluteY}
-      rotation={(seat.angle * 180) / Math.PI}
+      rotation={angleDegrees}
+      draggable={isDraggable && !!guestName}
+      onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
     >
       {/* Seat circle */}
       <Circle
@@ -42,7 +94,7 @@ export default function SeatNode({
         radius={seatRadius}
         fill={fillColor}
         stroke={strokeColor}
-        strokeWidth={1 / scale}
+        strokeWidth={(isFlagged ? 3 : 1) / scale}
         shadowColor="rgba(0, 0, 0, 0.2)"
         shadowBlur={2 / scale}
         shadowOpacity={0.3}
@@ -63,6 +115,36 @@ export default function SeatNode({
         offsetY={fontSize / 2}
         listening={false} // Text doesn't need to handle events
       />
+      
+      {/* Guest name, kept upright below the seat */}
+      {guestName && (
+        <Group rotation={-angleDegrees} listening={false}>
+          <Text
+            x={-nameWidth / 2}
+            y={seatRadius + 2 / scale}
+            width={nameWidth}
+            text={guestName}
+            fontSize={nameFontSize}
+            fill="#1f2937"
+            fontFamily="Inter, -apple-system, sans-serif"
+            align="center"
+            wrap="none"
+            ellipsis
+          />
+        </Group>
+      )}
+      
+      {/* Lock badge at the seat's upper right, kept upright */}
+      {isLocked && guestName && (
+        <Group rotation={-angleDegrees} listening={false}>
+          <Text
+            x={seatRadius * 0.4}
+            y={-seatRadius - lockSize * 0.6}
+            text="🔒"
+            fontSize={lockSize}
+          />
+        </Group>
+      )}
     </Group>
   );
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { usePlanStore } from "../store/plan-store";
+import { buildShareUrl, isShareUrlTooLong, SAFE_SHARE_URL_LENGTH } from "../utils/shareLink";
+
+interface ShareDialogProps {
+  onClose: () => void;
+}
+
+export default function ShareDialog({ onClose }: ShareDialogProps) {
+  const getPlan = usePlanStore((state) => state.getPlan);
+  const [copied, setCopied] = useState(false);
+
+  // Snapshot of the plan at the moment the dialog opened
+  const shareUrl = useMemo(() => buildShareUrl(getPlan()), [getPlan]);
+  const isTooLong = isShareUrlTooLong(shareUrl);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the field stays selectable for manual copying
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 shadow-xl" role="dialog" aria-labelledby="share-title">
+        <h3 id="share-title" className="text-lg font-semibold text-gray-900 mb-4">
+          Share Plan
+        </h3>
+        <p className="text-gray-700 mb-3">
+          Anyone with this link can open a snapshot of the plan as it is now. Later changes are not included.
+        </p>
+        <input
+          type="text"
+          readOnly
+          value={shareUrl}
+          onFocus={(e) => e.currentTarget.select()}
+          aria-label="Share link"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-gray-50 mb-2"
+        />
+        <p className="text-xs text-gray-500 mb-4">
+          {shareUrl.length.toLocaleString()} characters
+        </p>
+        {isTooLong && (
+          <div role="alert" className="bg-amber-50 border border-amber-200 text-amber-800 rounded-md p-3 text-sm mb-4">
+            This link is longer than {SAFE_SHARE_URL_LENGTH.toLocaleString()} characters. Some browsers, chat apps and email clients cut long links short, so it may not open for everyone.
+          </div>
+        )}
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleCopy}
+            className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            {copied ? "Copied!" : "Copy Link"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import CanvasStage from "./CanvasStage";
+import { usePlanStore, useSelectTable } from "../store/plan-store";
+import { useSetView, useZoom } from "../store/ui-store";
+import { useImportPlan } from "../store/library-store";
+import { decodeSharedPlan } from "../utils/shareLink";
+import { getTableBounds } from "../utils/seatGeometry";
+import { calculateFitTransform } from "../utils/canvasTransforms";
+import type { Plan } from "../types";
+
+interface SharedPlanErrorDialogProps {
+  error: string;
+  onDismiss: () => void;
+}
+
+function SharedPlanErrorDialog({ error, onDismiss }: SharedPlanErrorDialogProps) {
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl" role="alertdialog" aria-labelledby="shared-plan-error-title">
+        <h3 id="shared-plan-error-title" className="text-lg font-semibold text-gray-900 mb-4">
+          Shared Plan Could Not Be Opened
+        </h3>
+        <p className="text-gray-700 mb-3">
+          The link may have been cut short when it was copied. Ask the sender for the full link.
+        </p>
+        <p className="text-xs text-gray-500 mb-6 break-words max-h-24 overflow-y-auto">
+          {error}
+        </p>
+        <div className="flex justify-end">
+          <button
+            onClick={onDismiss}
+            className="px-4 py-2 text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface GuestMatch {
+  id: string;
+  name: string;
+  tableId: string | null;
+  location: string;
+}
+
+function findGuests(plan: Plan, query: string): GuestMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  return plan.attendees
+    .filter((attendee) => attendee.name.toLowerCase().includes(needle))
+    .map((attendee) => {
+      const assignment = plan.seatAssignments.find((a) => a.attendeeId === attendee.id);
+      const table = assignment ? plan.tables.find((t) => t.id === assignment.tableId) : undefined;
+      return {
+        id: attendee.id,
+        name: attendee.name,
+        tableId: table ? table.id : null,
+        location: table && assignment ? `${table.name} · Seat ${assignment.seatNumber}` : "Not seated",
+      };
+    });
+}
+
+// Frame every table on open so the viewer never lands on an empty patch of canvas
+function fitPlanToViewport(plan: Plan) {
+  if (plan.tables.length === 0 || typeof window === "undefined") return null;
+  const bounds = plan.tables.map(getTableBounds).reduce((acc, b) => ({
+    min: { x: Math.min(acc.min.x, b.min.x), y: Math.min(acc.min.y, b.min.y) },
+    max: { x: Math.max(acc.max.x, b.max.x), y: Math.max(acc.max.y, b.max.y) },
+  }));
+  const viewport = { width: window.innerWidth, height: window.innerHeight };
+  const fit = calculateFitTransform(bounds, viewport, 120);
+  if (fit.zoom <= 1) return fit;
+
+  // Small plans: don't blow them up past 100%, just center them
+  const center = { x: (bounds.min.x + bounds.max.x) / 2, y: (bounds.min.y + bounds.max.y) / 2 };
+  return { zoom: 1, pan: { x: viewport.width / 2 - center.x, y: viewport.height / 2 - center.y } };
+}
+
+interface SharedPlanViewerProps {
+  payload: string;
+  // Receives the id of the new library plan created from the snapshot
+  onEditableCopy: (planId: string) => void;
+  onExit: () => void;
+}
+
+export default function SharedPlanViewer({ payload, onEditableCopy, onExit }: SharedPlanViewerProps) {
+  const loadPlan = usePlanStore((state) => state.loadPlan);
+  const selectTable = useSelectTable();
+  const importPlan = useImportPlan();
+  const setView = useSetView();
+  const zoom = useZoom();
+  const [query, setQuery] = useState("");
+
+  const result = useMemo(() => decodeSharedPlan(payload), [payload]);
+  const plan = result.success ? result.plan : null;
+
+  useEffect(() => {
+    if (!plan) return;
+    loadPlan(plan);
+    const fit = fitPlanToViewport(plan);
+    if (fit) setView(fit.zoom, fit.pan);
+  }, [plan, loadPlan, setView]);
+
+  const matches = useMemo(() => (plan ? findGuests(plan, query) : []), [plan, query]);
+
+  if (!result.success) {
+    return <SharedPlanErrorDialog error={result.error} onDismiss={onExit} />;
+  }
+
+  const handleEditableCopy = () => {
+    const copy = importPlan(result.plan);
+    onEditableCopy(copy.id);
+  };
+
+  const handleShowGuest = (match: GuestMatch) => {
+    const table = result.plan.tables.find((t) => t.id === match.tableId);
+    if (!table) return;
+    selectTable(table.id);
+    setView(zoom, {
+      x: window.innerWidth / 2 - table.position.x * zoom,
+      y: window.innerHeight / 2 - table.position.y * zoom,
+    });
+  };
+
+  return (
+    <CanvasStage readOnly>
+      <div className="absolute top-4 left-4 z-10 w-72 bg-white rounded-lg border border-gray-200 shadow-lg p-4 flex flex-col gap-3" aria-label="Shared plan">
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500">View only</p>
+          <h1 className="text-lg font-semibold text-gray-900 truncate">{result.plan.name}</h1>
+          {result.plan.description && (
+            <p className="text-sm text-gray-600">{result.plan.description}</p>
+          )}
+        </div>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Find a guest"
+          aria-label="Search guests"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {query.trim() && (
+          matches.length === 0 ? (
+            <p className="text-sm text-gray-500">No guests match &quot;{query.trim()}&quot;</p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100" aria-label="Guest search results">
+              {matches.map((match) => (
+                <li key={match.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleShowGuest(match)}
+                    disabled={!match.tableId}
+                    className="w-full text-left py-2 text-sm hover:bg-gray-50 disabled:cursor-default disabled:hover:bg-transparent"
+                  >
+                    <span className="block font-medium text-gray-900">{match.name}</span>
+                    <span className="block text-gray-500">{match.location}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+        <button
+          type="button"
+          onClick={handleEditableCopy}
+          className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Make an Editable Copy
+        </button>
+      </div>
+    </CanvasStage>
+  );
+}
@@ -7,16 +7,31 @@ import type { Table } from "../types";
 import { getSeatPositions } from "../utils/seatGeometry";
 import { snapPoint } from "../utils/canvasTransforms";
 import SeatNode from "./SeatNode";
+import type { CategoryColor } from "../utils/customFields";
 
 interface TableNodeProps {
   table: Table;
   isSelected?: boolean;
   scale?: number;
   isDragging?: boolean;
+  isDraggable?: boolean;
+  // Guest name per seat number, for occupied seats
+  seatGuests?: Map<number, string>;
+  // Category color per seat number, when seats are colored by a guest detail
+  seatColors?: Map<number, CategoryColor>;
+  // Seat numbers whose guests break a seating rule; the table is outlined when there are any
+  violatedSeats?: Set<number>;
+  // Seat numbers whose guests are locked in place; a locked table shows one lock by its name instead
+  lockedSeats?: Set<number>;
+  highlightedSeat?: number | null;
+  // Lets occupied seats be dragged to move their guest
+  areSeatsDraggable?: boolean;
   onSelect?: (id: string) => void;
   onDoubleClick?: (id: string) => void;
   onDragStart?: (id: string) => void;
   onDragEnd?: (id: string, position: { x: number; y: number }) => void;
+  onSeatDragMove?: (id: string, seatNumber: number) => void;
+  onSeatDragEnd?: (id: string, seatNumber: number) => void;
 }
 
 export default function TableNode({
@@ -24,20 +39,30 @@ export default function TableNode({
   isSelected = false,
   scale = 1,
   isDragging = false,
+  isDraggable = true,
+  seatGuests,
+  seatColors,
+  violatedSeats,
+  lockedSeats,
+  highlightedSeat = null,
+  areSeatsDraggable = false,
   onSelect,
   onDoubleClick,
   onDragStart,
-  onDragEnd
+  onDragEnd,
+  onSeatDragMove,
+  onSeatDragEnd
 }: TableNodeProps) {
   const groupRef = useRef<Konva.Group>(null);
   
   // Memoize seat positions to prevent recalculation during drag
   const seatPositions = useMemo(() => getSeatPositions(table), [table]);
   
-  // Table styling based on selection
+  // Table styling based on selection and broken seating rules
+  const hasViolations = !!violatedSeats && violatedSeats.size > 0;
   const fillColor = isSelected ? "#fef3c7" : "#ffffff";
-  const strokeColor = isSelected ? "#f59e0b" : "#d1d5db";
-  const strokeWidth = (isSelected ? 2 : 1) / scale;
+  const strokeColor = isSelected ? "#f59e0b" : hasViolations ? "#dc2626" : "#d1d5db";
+  const strokeWidth = (isSelected || hasViolations ? 2 : 1) / scale;
   
   // Text styling
   const fontSize = Math.max(14 / scale, 10);
@@ -121,7 +146,7 @@ export default function TableNode({
       x={table.position.x}
       y={table.position.y}
       rotation={table.rotation}
-      draggable
+      draggable={isDraggable}
       onClick={handleClick}
       onTap={handleClick}
       onDblClick={handleDoubleClick}
@@ -147,17 +172,41 @@ export default function TableNode({
         listening={false} // Text doesn't need to handle drag events
       />
       
-      {/* Seats - render outside the rotated table group for consistent positioning */}
-      {/* Hide seats during drag for better performance */}
-      {!isDragging && seatPositions.map((seat) => (
-        <SeatNode
-          key={`seat-${table.id}-${seat.seatNumber}`}
-          seat={seat}
-          tablePosition={{ x: 0, y: 0 }} // Relative to table group
-          isSelected={isSelected}
-          scale={scale}
+      {table.locked && (
+        <Text
+          x={0}
+          y={fontSize}
+          text="🔒"
+          fontSize={fontSize}
+          align="center"
+          offsetX={fontSize / 2}
+          listening={false}
         />
-      ))}
+      )}
+      
+      {/* Seat offsets already include the table rotation, so undo the group's own rotation */}
+      {/* Hide seats during drag for better performance */}
+      {!isDragging && (
+        <Group rotation={-table.rotation}>
+          {seatPositions.map((seat) => (
+            <SeatNode
+              key={`seat-${table.id}-${seat.seatNumber}`}
+              seat={seat}
+              tablePosition={{ x: 0, y: 0 }} // Relative to table group
+              isSelected={isSelected}
+              isHighlighted={highlightedSeat === seat.seatNumber}
+              guestName={seatGuests?.get(seat.seatNumber)}
+              guestColor={seatColors?.get(seat.seatNumber)}
+              hasViolation={violatedSeats?.has(seat.seatNumber)}
+              isLocked={!table.locked && lockedSeats?.has(seat.seatNumber)}
+              scale={scale}
+              isDraggable={areSeatsDraggable}
+              onDragMove={() => onSeatDragMove?.(table.id, seat.seatNumber)}
+              onDragEnd={() => onSeatDragEnd?.(table.id, seat.seatNumber)}
+            />
+          ))}
+        </Group>
+      )}
     </Group>
   );
 }
\ No newline at end of file
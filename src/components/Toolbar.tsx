@@ -6,11 +6,27 @@ import { useAddTable } from "../store/plan-store";
 interface ToolbarProps {
   isDarkMode?: boolean;
   canvasCenter?: { x: number; y: number };
+  onOpenLibrary?: () => void;
+  onShare?: () => void;
+  onExport?: () => void;
+  onOpenHistory?: () => void;
+  onOpenGuests?: () => void;
+  onOpenRules?: () => void;
+  onOpenAffinities?: () => void;
+  onAutoSeat?: () => void;
 }
 
 export default function Toolbar({
   isDarkMode = false,
-  canvasCenter = { x: 0, y: 0 }
+  canvasCenter = { x: 0, y: 0 },
+  onOpenLibrary,
+  onShare,
+  onExport,
+  onOpenHistory,
+  onOpenGuests,
+  onOpenRules,
+  onOpenAffinities,
+  onAutoSeat
 }: ToolbarProps) {
   const addTable = useAddTable();
   
@@ -46,8 +62,28 @@ export default function Toolbar({
           padding: "8px",
           backdropFilter: "blur(4px)",
           boxShadow: "0 4px 6px rgba(0, 0, 0, 0.1)",
+          display: "flex",
+          gap: "8px",
         }}
       >
+        {onOpenLibrary && (
+          <button
+            type="button"
+            onClick={onOpenLibrary}
+            style={buttonStyle}
+            title="Back to all plans"
+            aria-label="All plans"
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#2d4a6b" : "#ede7db";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#1e3a5f" : "#f5f1e8";
+            }}
+          >
+            <span style={{ fontSize: "16px" }}>←</span>
+            Plans
+          </button>
+        )}
         <button
           type="button"
           onClick={handleAddTable}
@@ -64,6 +100,132 @@ export default function Toolbar({
           <span style={{ fontSize: "16px" }}>⚪</span>
           Add Table
         </button>
+        {onOpenGuests && (
+          <button
+            type="button"
+            onClick={onOpenGuests}
+            style={buttonStyle}
+            title="Add, edit and remove guests"
+            aria-label="Guest list"
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#2d4a6b" : "#ede7db";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#1e3a5f" : "#f5f1e8";
+            }}
+          >
+            <span style={{ fontSize: "16px" }}>👥</span>
+            Guests
+          </button>
+        )}
+        {onOpenRules && (
+          <button
+            type="button"
+            onClick={onOpenRules}
+            style={buttonStyle}
+            title="Keep guests together or apart, and check who breaks a rule"
+            aria-label="Seating rules"
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#2d4a6b" : "#ede7db";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#1e3a5f" : "#f5f1e8";
+            }}
+          >
+            <span style={{ fontSize: "16px" }}>📏</span>
+            Rules
+          </button>
+        )}
+        {onOpenAffinities && (
+          <button
+            type="button"
+            onClick={onOpenAffinities}
+            style={buttonStyle}
+            title="Say which guests should meet and which would rather not"
+            aria-label="Guest affinities"
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#2d4a6b" : "#ede7db";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#1e3a5f" : "#f5f1e8";
+            }}
+          >
+            <span style={{ fontSize: "16px" }}>💞</span>
+            Affinities
+          </button>
+        )}
+        {onAutoSeat && (
+          <button
+            type="button"
+            onClick={onAutoSeat}
+            style={buttonStyle}
+            title="Fill free seats with unseated guests, keeping parties together and rules kept"
+            aria-label="Auto-seat"
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#2d4a6b" : "#ede7db";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#1e3a5f" : "#f5f1e8";
+            }}
+          >
+            <span style={{ fontSize: "16px" }}>🪄</span>
+            Auto-seat
+          </button>
+        )}
+        {onShare && (
+          <button
+            type="button"
+            onClick={onShare}
+            style={buttonStyle}
+            title="Create a link to a snapshot of this plan"
+            aria-label="Share plan"
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#2d4a6b" : "#ede7db";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#1e3a5f" : "#f5f1e8";
+            }}
+          >
+            <span style={{ fontSize: "16px" }}>🔗</span>
+            Share
+          </button>
+        )}
+        {onExport && (
+          <button
+            type="button"
+            onClick={onExport}
+            style={buttonStyle}
+            title="Download this plan as a JSON file"
+            aria-label="Export plan"
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#2d4a6b" : "#ede7db";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#1e3a5f" : "#f5f1e8";
+            }}
+          >
+            <span style={{ fontSize: "16px" }}>⬇</span>
+            Export
+          </button>
+        )}
+        {onOpenHistory && (
+          <button
+            type="button"
+            onClick={onOpenHistory}
+            style={buttonStyle}
+            title="Save and restore named snapshots of this plan"
+            aria-label="Version history"
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#2d4a6b" : "#ede7db";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = isDarkMode ? "#1e3a5f" : "#f5f1e8";
+            }}
+          >
+            <span style={{ fontSize: "16px" }}>🕘</span>
+            History
+          </button>
+        )}
       </div>
     </div>
   );
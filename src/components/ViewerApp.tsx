@@ -0,0 +1,30 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import SharedPlanViewer from "./SharedPlanViewer";
+import { buildEditorUrl, getEditorPath } from "../utils/planUrl";
+import { getSharePayloadFromHash } from "../utils/shareLink";
+
+export default function ViewerApp() {
+  const [payload, setPayload] = useState<string | null>(() => getSharePayloadFromHash());
+
+  // Pasting a different share link into the same tab only changes the hash
+  useEffect(() => {
+    const onHashChange = () => setPayload(getSharePayloadFromHash());
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  const goToEditor = (planId?: string) => {
+    window.location.assign(planId ? buildEditorUrl(planId) : getEditorPath());
+  };
+
+  return (
+    <SharedPlanViewer
+      key={payload ?? ""}
+      payload={payload ?? ""}
+      onEditableCopy={goToEditor}
+      onExit={() => goToEditor()}
+    />
+  );
+}
@@ -0,0 +1,82 @@
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import AffinityPanel from "../AffinityPanel";
+import { usePlanStore } from "../../store/plan-store";
+import type { Plan } from "../../types";
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [
+    { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+  ],
+  attendees: [
+    { id: "a1", name: "Alice" },
+    { id: "a2", name: "Bob" },
+    { id: "a3", name: "Carol" },
+    { id: "a4", name: "Dan", rsvp: "declined" },
+  ],
+  seatAssignments: [
+    { tableId: "t1", seatNumber: 1, attendeeId: "a1" },
+    { tableId: "t1", seatNumber: 2, attendeeId: "a2" },
+  ],
+  affinities: [{ attendeeIds: ["a1", "a2"], weight: 2 }],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+};
+
+describe("AffinityPanel", () => {
+  const onClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    usePlanStore.getState().loadPlan(plan);
+  });
+
+  it("should score pairs and tables", () => {
+    render(<AffinityPanel onClose={onClose} />);
+
+    expect(screen.getByText("1 pair · Happiness +2")).toBeInTheDocument();
+    expect(within(screen.getByRole("list", { name: "Happiness by table" })).getByText("+2")).toBeInTheDocument();
+    expect(screen.getByText("+2 Get along well · in neighboring seats · +2")).toBeInTheDocument();
+  });
+
+  it("should set an affinity for two chosen guests", () => {
+    render(<AffinityPanel onClose={onClose} />);
+
+    expect(within(screen.getByLabelText("First guest")).queryByText("Dan")).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Set Affinity" }));
+    expect(screen.getByRole("alert")).toHaveTextContent("choose two guests");
+
+    fireEvent.change(screen.getByLabelText("First guest"), { target: { value: "a1" } });
+    fireEvent.change(screen.getByLabelText("Second guest"), { target: { value: "a1" } });
+    fireEvent.click(screen.getByRole("button", { name: "Set Affinity" }));
+    expect(screen.getByRole("alert")).toHaveTextContent("choose two different guests");
+
+    fireEvent.change(screen.getByLabelText("Second guest"), { target: { value: "a3" } });
+    fireEvent.change(screen.getByLabelText("Affinity"), { target: { value: "-3" } });
+    fireEvent.click(screen.getByRole("button", { name: "Set Affinity" }));
+
+    expect(usePlanStore.getState().affinities[1]).toEqual({ attendeeIds: ["a1", "a3"], weight: -3 });
+    expect(screen.getByText("−3 Keep apart · not both seated · 0")).toBeInTheDocument();
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("should remove an affinity", () => {
+    render(<AffinityPanel onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove affinity: Alice & Bob" }));
+
+    expect(usePlanStore.getState().affinities).toEqual([]);
+    expect(screen.getByText(/No affinities yet/)).toBeInTheDocument();
+  });
+
+  it("should collapse", () => {
+    render(<AffinityPanel onClose={onClose} />);
+
+    fireEvent.click(screen.getByLabelText("Collapse affinities"));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
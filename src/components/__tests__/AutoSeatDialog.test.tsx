@@ -0,0 +1,138 @@
+import { render, screen, fireEvent, within, act } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import AutoSeatDialog from "../AutoSeatDialog";
+import { usePlanStore } from "../../store/plan-store";
+import { useUIStore } from "../../store/ui-store";
+import { runAutoSeat } from "../../utils/autoSeatRunner";
+import type { AutoSeatResult, AutoSeatScore } from "../../utils/autoSeat";
+import type { Plan } from "../../types";
+
+vi.mock("../../utils/autoSeatRunner", () => ({
+  runAutoSeat: vi.fn(),
+}));
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [
+    { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 4, rotation: 0, size: { width: 120, height: 120 } },
+  ],
+  attendees: [
+    { id: "a1", name: "Alice" },
+    { id: "a2", name: "Bob" },
+    { id: "a3", name: "Carol" },
+    { id: "a4", name: "Dan", rsvp: "declined" },
+  ],
+  seatAssignments: [{ tableId: "t1", seatNumber: 1, attendeeId: "a1" }],
+  constraints: [{ id: "r1", type: "together", attendeeIds: ["a1", "a2"] }],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+};
+
+const score = (overrides: Partial<AutoSeatScore>): AutoSeatScore => ({
+  rulesKept: 0,
+  rulesBroken: 0,
+  rulesWaiting: 0,
+  partiesTogether: 0,
+  partiesSplit: 0,
+  seated: 0,
+  unseated: 0,
+  happiness: 0,
+  total: 0,
+  ...overrides,
+});
+
+const result: AutoSeatResult = {
+  placements: [
+    { tableId: "t1", seatNumber: 2, attendeeId: "a2" },
+    { tableId: "t1", seatNumber: 3, attendeeId: "a3" },
+  ],
+  before: score({ rulesWaiting: 1, seated: 1, unseated: 2 }),
+  after: score({ rulesKept: 1, seated: 3 }),
+};
+
+// Hands the test the run's progress callback and lets it finish the run when it likes
+const startRun = () => {
+  let finish: (result: AutoSeatResult) => void = () => {};
+  let onProgress: (progress: number) => void = () => {};
+  const cancel = vi.fn();
+  vi.mocked(runAutoSeat).mockImplementation((_input, _options, progress) => {
+    onProgress = progress;
+    return { result: new Promise((resolve) => (finish = resolve)), cancel };
+  });
+  fireEvent.click(screen.getByRole("button", { name: "Find Seats" }));
+  return { progress: (value: number) => act(() => onProgress(value)), finish: (value: AutoSeatResult) => act(async () => finish(value)), cancel };
+};
+
+describe("AutoSeatDialog", () => {
+  const onClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    usePlanStore.getState().loadPlan(plan);
+    useUIStore.getState().dismissNotice();
+  });
+
+  it("should sum up who there is to seat", () => {
+    render(<AutoSeatDialog onClose={onClose} />);
+
+    expect(screen.getByLabelText("Auto-seat summary")).toHaveTextContent("2 unseated guests · 3 free seats · 1 rule");
+  });
+
+  it("should say how many free seats locked tables keep out of it", () => {
+    usePlanStore.getState().loadPlan({ ...plan, tables: [...plan.tables, { ...plan.tables[0], id: "t2", name: "Head Table", locked: true }] });
+    render(<AutoSeatDialog onClose={onClose} />);
+
+    expect(screen.getByLabelText("Auto-seat summary")).toHaveTextContent("3 free seats");
+    expect(screen.getByText("🔒 Skipping 4 free seats at locked tables.")).toBeInTheDocument();
+  });
+
+  it("should not start with nobody left to seat", () => {
+    usePlanStore.getState().loadPlan({ ...plan, attendees: plan.attendees.slice(0, 1) });
+    render(<AutoSeatDialog onClose={onClose} />);
+
+    expect(screen.getByRole("button", { name: "Find Seats" })).toBeDisabled();
+    expect(screen.getByText("Everyone who's coming has a seat.")).toBeInTheDocument();
+  });
+
+  it("should show progress and compare scores before accepting", async () => {
+    render(<AutoSeatDialog onClose={onClose} />);
+
+    const run = startRun();
+    expect(vi.mocked(runAutoSeat).mock.calls[0][0].attendees).toHaveLength(4);
+    run.progress(0.4);
+    expect(screen.getByRole("progressbar", { name: "Auto-seat progress" })).toHaveAttribute("aria-valuenow", "40");
+
+    await run.finish(result);
+    const rulesKept = screen.getByRole("row", { name: /Rules kept/ });
+    expect(within(rulesKept).getAllByRole("cell").map((cell) => cell.textContent)).toEqual(["0", "1"]);
+    expect(screen.queryByRole("progressbar")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Accept" }));
+
+    expect(usePlanStore.getState().seatAssignments).toHaveLength(3);
+    expect(useUIStore.getState().notice?.message).toBe("Seated 2 guests.");
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("should leave the plan alone when discarded", async () => {
+    render(<AutoSeatDialog onClose={onClose} />);
+
+    await startRun().finish(result);
+    fireEvent.click(screen.getByRole("button", { name: "Discard" }));
+
+    expect(usePlanStore.getState().seatAssignments).toHaveLength(1);
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("should stop a run", () => {
+    render(<AutoSeatDialog onClose={onClose} />);
+
+    const run = startRun();
+    fireEvent.click(screen.getByRole("button", { name: "Stop" }));
+
+    expect(run.cancel).toHaveBeenCalled();
+    expect(screen.getByRole("button", { name: "Find Seats" })).toBeEnabled();
+  });
+});
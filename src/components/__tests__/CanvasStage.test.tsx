@@ -4,6 +4,9 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import CanvasStage from '../CanvasStage'
 import { useUIStore } from '../../store/ui-store'
+import { useTables, useAttendees, useSeatAssignments } from '../../store/plan-store'
+import { GUEST_DRAG_TYPE, PARTY_DRAG_TYPE } from '../../utils/guestDrag'
+import type { Table } from '../../types'
 
 // Mock Konva since it requires canvas
 vi.mock('react-konva', () => ({
@@ -109,6 +112,12 @@ const mockAddToSelection = vi.fn()
 const mockRemoveFromSelection = vi.fn()
 const mockClearSelection = vi.fn()
 const mockSetSelectionRect = vi.fn()
+const mockUndo = vi.fn()
+const mockRedo = vi.fn()
+const mockAssignSeat = vi.fn()
+const mockSeatParty = vi.fn()
+const mockMoveGuest = vi.fn()
+const mockShowNotice = vi.fn()
 
 // Mock the UI store
 vi.mock('../../store/ui-store', () => ({
@@ -121,17 +130,36 @@ vi.mock('../../store/ui-store', () => ({
   useInspector: vi.fn(() => ({ isOpen: false, tableId: null })),
   useOpenInspector: vi.fn(() => vi.fn()),
   useCloseInspector: vi.fn(() => vi.fn()),
+  useDismissInspectorRemoteChange: vi.fn(() => vi.fn()),
+  useShowNotice: vi.fn(() => mockShowNotice),
+  useComparison: vi.fn(() => null),
+  useEndComparison: vi.fn(() => vi.fn()),
+  useNotice: vi.fn(() => null),
+  useDismissNotice: vi.fn(() => vi.fn()),
+  useSeatColorBy: vi.fn(() => null),
 }))
 
 // Mock the plan store
 vi.mock('../../store/plan-store', () => ({
+  usePlanStore: vi.fn(() => vi.fn()),
   useTables: vi.fn(() => []),
+  useAttendees: vi.fn(() => []),
+  useSeatAssignments: vi.fn(() => []),
+  useCustomFields: vi.fn(() => []),
+  useConstraints: vi.fn(() => []),
+  useAffinities: vi.fn(() => []),
+  useAssignSeat: vi.fn(() => mockAssignSeat),
+  useMoveGuest: vi.fn(() => mockMoveGuest),
+  useSeatParty: vi.fn(() => mockSeatParty),
   useSelectedTableIds: vi.fn(() => []),
   useAddTable: vi.fn(() => vi.fn()),
   useSelectTable: vi.fn(() => vi.fn()),
   useClearTableSelection: vi.fn(() => vi.fn()),
   useUpdateTable: vi.fn(() => vi.fn()),
   useDeleteTable: vi.fn(() => vi.fn()),
+  useSetSeatLocked: vi.fn(() => vi.fn()),
+  useUndo: vi.fn(() => mockUndo),
+  useRedo: vi.fn(() => mockRedo),
 }))
 
 // Mock screen-to-world transforms
@@ -142,7 +170,10 @@ vi.mock('../../utils/canvasTransforms', () => ({
 // Mock components that require canvas
 vi.mock('../TableNode', () => ({
   __esModule: true,
-  default: () => <div data-testid="table-node">Table</div>,
+  // Ending a drag on it stands in for dragging the guest out of seat 2
+  default: ({ table, onSeatDragEnd }: { table: Table; onSeatDragEnd?: (id: string, seatNumber: number) => void }) => (
+    <div data-testid="table-node" onDragEnd={() => onSeatDragEnd?.(table.id, 2)}>Table</div>
+  ),
 }))
 
 vi.mock('../Toolbar', () => ({
@@ -164,6 +195,8 @@ describe('CanvasStage', () => {
     mockRemoveFromSelection.mockReset()
     mockClearSelection.mockReset()
     mockSetSelectionRect.mockReset()
+    vi.mocked(useAttendees).mockReturnValue([])
+    vi.mocked(useSeatAssignments).mockReturnValue([])
     
     // Mock store selectors with proper state
     vi.mocked(useUIStore).mockImplementation((selector: any) => {
@@ -326,6 +359,42 @@ describe('CanvasStage', () => {
       await user.keyboard('[Space>][/Space]')
       expect(container).toBeInTheDocument()
     })
+
+    it('should undo with Ctrl+Z and redo with Shift+Ctrl+Z', async () => {
+      const user = userEvent.setup()
+      render(<CanvasStage />)
+      
+      const container = screen.getByRole('application')
+      container.focus()
+      
+      await user.keyboard('{Control>}z{/Control}')
+      expect(mockUndo).toHaveBeenCalledOnce()
+      
+      await user.keyboard('{Shift>}{Control>}Z{/Control}{/Shift}')
+      expect(mockRedo).toHaveBeenCalledOnce()
+    })
+
+    it('should undo with Cmd+Z', async () => {
+      const user = userEvent.setup()
+      render(<CanvasStage />)
+      
+      const container = screen.getByRole('application')
+      container.focus()
+      
+      await user.keyboard('{Meta>}z{/Meta}')
+      expect(mockUndo).toHaveBeenCalledOnce()
+    })
+
+    it('should not undo in read-only mode', async () => {
+      const user = userEvent.setup()
+      render(<CanvasStage readOnly />)
+      
+      const container = screen.getByRole('application')
+      container.focus()
+      
+      await user.keyboard('{Control>}z{/Control}')
+      expect(mockUndo).not.toHaveBeenCalled()
+    })
   })
 
   describe('Theme handling', () => {
@@ -363,6 +432,161 @@ describe('CanvasStage', () => {
     })
   })
 
+  describe('Guest drag and drop', () => {
+    // Round table whose seat 1 sits on the world origin, where the mocked screenToWorld puts the pointer
+    const table = { id: 't1', name: 'Table 1', shape: 'round' as const, position: { x: -80, y: 0 }, seatCount: 4, rotation: 0, size: { width: 100, height: 100 } }
+    const dataTransfer = (attendeeId: string) => ({
+      types: [GUEST_DRAG_TYPE, 'text/plain'],
+      getData: (type: string) => (type === GUEST_DRAG_TYPE ? attendeeId : ''),
+      dropEffect: 'none',
+    })
+
+    it('should seat a guest dropped on a seat', () => {
+      vi.mocked(useTables).mockReturnValue([table])
+      render(<CanvasStage />)
+      const container = screen.getByRole('application')
+      
+      fireEvent.dragOver(container, { dataTransfer: dataTransfer('g1'), clientX: 10, clientY: 10 })
+      fireEvent.drop(container, { dataTransfer: dataTransfer('g1'), clientX: 10, clientY: 10 })
+      
+      expect(mockAssignSeat).toHaveBeenCalledWith('g1', 't1', 1)
+    })
+
+    it('should ignore drops away from seats', () => {
+      vi.mocked(useTables).mockReturnValue([{ ...table, position: { x: 500, y: 500 } }])
+      render(<CanvasStage />)
+      
+      fireEvent.drop(screen.getByRole('application'), { dataTransfer: dataTransfer('g1') })
+      
+      expect(mockAssignSeat).not.toHaveBeenCalled()
+    })
+
+    it('should explain that a locked table takes nobody new', () => {
+      vi.mocked(useTables).mockReturnValue([{ ...table, locked: true }])
+      render(<CanvasStage />)
+      
+      fireEvent.drop(screen.getByRole('application'), { dataTransfer: dataTransfer('g1') })
+      
+      expect(mockAssignSeat).not.toHaveBeenCalled()
+      expect(mockShowNotice).toHaveBeenCalledWith('"Table 1" is locked, so nobody can be seated there. Unlock it first.')
+    })
+
+    it('should not accept drops in read-only mode', () => {
+      vi.mocked(useTables).mockReturnValue([table])
+      render(<CanvasStage readOnly />)
+      
+      fireEvent.drop(screen.getByRole('application'), { dataTransfer: dataTransfer('g1') })
+      
+      expect(mockAssignSeat).not.toHaveBeenCalled()
+    })
+
+    describe('seat drags', () => {
+      it('should explain when a locked table refuses the move', () => {
+        vi.mocked(useTables).mockReturnValue([{ ...table, locked: true }])
+        mockMoveGuest.mockReturnValue(false)
+        render(<CanvasStage />)
+        
+        fireEvent.dragEnd(screen.getByTestId('table-node'))
+        
+        expect(mockMoveGuest).toHaveBeenCalledWith({ tableId: 't1', seatNumber: 2 }, { tableId: 't1', seatNumber: 1 })
+        expect(mockShowNotice).toHaveBeenCalledWith('"Table 1" is locked, so nobody can be seated there. Unlock it first.')
+      })
+      
+      it('should explain when the guest in the target seat is locked in place', () => {
+        vi.mocked(useTables).mockReturnValue([table])
+        vi.mocked(useAttendees).mockReturnValue([{ id: 'g1', name: 'Alice' }])
+        vi.mocked(useSeatAssignments).mockReturnValue([{ tableId: 't1', seatNumber: 1, attendeeId: 'g1', locked: true }])
+        mockMoveGuest.mockReturnValue(false)
+        render(<CanvasStage />)
+        
+        fireEvent.dragEnd(screen.getByTestId('table-node'))
+        
+        expect(mockShowNotice).toHaveBeenCalledWith('Alice is locked in place and stayed put.')
+      })
+      
+      it('should stay quiet when the move goes through', () => {
+        vi.mocked(useTables).mockReturnValue([table])
+        mockMoveGuest.mockReturnValue(true)
+        render(<CanvasStage />)
+        
+        fireEvent.dragEnd(screen.getByTestId('table-node'))
+        
+        expect(mockMoveGuest).toHaveBeenCalled()
+        expect(mockShowNotice).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('parties', () => {
+      const partyTransfer = (ids: string[]) => ({
+        types: [PARTY_DRAG_TYPE, 'text/plain'],
+        getData: (type: string) => (type === PARTY_DRAG_TYPE ? JSON.stringify(ids) : ''),
+        dropEffect: 'none',
+      })
+
+      it('should seat a whole party from the drop seat', () => {
+        vi.mocked(useTables).mockReturnValue([table])
+        mockSeatParty.mockReturnValue(true)
+        render(<CanvasStage />)
+        
+        fireEvent.drop(screen.getByRole('application'), { dataTransfer: partyTransfer(['g1', 'g2']) })
+        
+        expect(mockSeatParty).toHaveBeenCalledWith(['g1', 'g2'], 't1', 1)
+        expect(mockShowNotice).not.toHaveBeenCalled()
+      })
+
+      it('should explain when the table has no room for the party', () => {
+        vi.mocked(useTables).mockReturnValue([table])
+        mockSeatParty.mockReturnValue(false)
+        render(<CanvasStage />)
+        
+        fireEvent.drop(screen.getByRole('application'), { dataTransfer: partyTransfer(['g1', 'g2', 'g3', 'g4', 'g5']) })
+        
+        expect(mockShowNotice).toHaveBeenCalledWith('"Table 1" doesn\'t have 5 free seats for this party.')
+      })
+
+      it('should not seat a party at a locked table', () => {
+        vi.mocked(useTables).mockReturnValue([{ ...table, locked: true }])
+        render(<CanvasStage />)
+        
+        fireEvent.drop(screen.getByRole('application'), { dataTransfer: partyTransfer(['g1', 'g2']) })
+        
+        expect(mockSeatParty).not.toHaveBeenCalled()
+        expect(mockShowNotice).toHaveBeenCalledWith('"Table 1" is locked, so nobody can be seated there. Unlock it first.')
+      })
+
+      it('should leave party members locked in their seats behind, and say so', () => {
+        vi.mocked(useTables).mockReturnValue([table, { ...table, id: 't2', name: 'Head Table', position: { x: 500, y: 500 }, locked: true }])
+        vi.mocked(useAttendees).mockReturnValue([{ id: 'g1', name: 'Alice' }, { id: 'g2', name: 'Bob' }])
+        vi.mocked(useSeatAssignments).mockReturnValue([{ tableId: 't2', seatNumber: 1, attendeeId: 'g1' }])
+        mockSeatParty.mockReturnValue(true)
+        render(<CanvasStage />)
+        
+        fireEvent.drop(screen.getByRole('application'), { dataTransfer: partyTransfer(['g1', 'g2']) })
+        
+        expect(mockSeatParty).toHaveBeenCalledWith(['g1', 'g2'], 't1', 1)
+        expect(mockShowNotice).toHaveBeenCalledWith('Alice is locked in place and stayed put.')
+      })
+    })
+  })
+
+  describe('Read-only mode', () => {
+    it('should hide the editing toolbar', () => {
+      render(<CanvasStage readOnly />)
+      
+      expect(screen.queryByTestId('toolbar')).not.toBeInTheDocument()
+    })
+
+    it('should render overlay content in place of the toolbar', () => {
+      render(
+        <CanvasStage readOnly>
+          <div data-testid="viewer-panel" />
+        </CanvasStage>
+      )
+      
+      expect(screen.getByTestId('viewer-panel')).toBeInTheDocument()
+    })
+  })
+
   describe('Grid rendering', () => {
     it('should render grid layer', () => {
       render(<CanvasStage />)
@@ -0,0 +1,52 @@
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import ComparisonPanel from "../ComparisonPanel";
+import type { PlanDiff } from "../../utils/planDiff";
+import type { Table } from "../../types";
+
+const table: Table = { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } };
+
+const emptyDiff: PlanDiff = { addedTables: [], removedTables: [], changedTables: [], seatChanges: [] };
+
+describe("ComparisonPanel", () => {
+  it("should summarize table changes and list guests who moved", () => {
+    const diff: PlanDiff = {
+      ...emptyDiff,
+      addedTables: [table],
+      changedTables: [{ before: table, after: { ...table, position: { x: 50, y: 0 } }, moved: true, resized: false, renamed: false }],
+      seatChanges: [
+        {
+          attendeeId: "a1",
+          name: "Alice",
+          from: { tableId: "t1", tableName: "Table 1", seatNumber: 1 },
+          to: null,
+        },
+      ],
+    };
+
+    render(<ComparisonPanel label="Final v2" diff={diff} onExit={vi.fn()} />);
+
+    expect(screen.getByText("Final v2")).toBeInTheDocument();
+    const counts = screen.getByRole("list", { name: "Table changes" });
+    expect(within(counts).getByText("Added: 1")).toBeInTheDocument();
+    expect(within(counts).getByText("Moved: 1")).toBeInTheDocument();
+    const guests = screen.getByRole("list", { name: "Guests who changed seats" });
+    expect(within(guests).getByText("Alice")).toBeInTheDocument();
+    expect(within(guests).getByText("Table 1 · Seat 1 → Not seated")).toBeInTheDocument();
+  });
+
+  it("should say when nothing changed", () => {
+    render(<ComparisonPanel label="Final v2" diff={emptyDiff} onExit={vi.fn()} />);
+
+    expect(screen.getByText(/No differences/)).toBeInTheDocument();
+  });
+
+  it("should exit the comparison", () => {
+    const onExit = vi.fn();
+    render(<ComparisonPanel label="Final v2" diff={emptyDiff} onExit={onExit} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Exit Comparison" }));
+
+    expect(onExit).toHaveBeenCalledOnce();
+  });
+});
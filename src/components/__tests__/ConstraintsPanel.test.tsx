@@ -0,0 +1,109 @@
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import ConstraintsPanel from "../ConstraintsPanel";
+import { usePlanStore, useAttendees, useConstraints, useSeatAssignments, useTables } from "../../store/plan-store";
+import { evaluateConstraints } from "../../utils/constraints";
+import type { Plan } from "../../types";
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [
+    { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+    { id: "t2", name: "Table 2", shape: "round", position: { x: 1000, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+  ],
+  attendees: [
+    { id: "a1", name: "Alice" },
+    { id: "a2", name: "Bob" },
+    { id: "a3", name: "Carol" },
+    { id: "a4", name: "Dan", rsvp: "declined" },
+  ],
+  seatAssignments: [
+    { tableId: "t1", seatNumber: 1, attendeeId: "a1" },
+    { tableId: "t1", seatNumber: 2, attendeeId: "a2" },
+  ],
+  constraints: [
+    { id: "r1", type: "apart", attendeeIds: ["a1", "a2"] },
+    { id: "r2", type: "together", attendeeIds: ["a1", "a3"] },
+  ],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+};
+
+// The canvas owns the evaluation in the app; this stands in for it
+function Harness({ onClose }: { onClose: () => void }) {
+  const tables = useTables();
+  const attendees = useAttendees();
+  const seatAssignments = useSeatAssignments();
+  const constraints = useConstraints();
+  return <ConstraintsPanel evaluations={evaluateConstraints({ tables, attendees, seatAssignments, constraints })} onClose={onClose} />;
+}
+
+const getRuleStatuses = () =>
+  within(screen.getByRole("list", { name: "Rules" }))
+    .getAllByRole("listitem")
+    .map((item) => item.querySelector("span")?.textContent);
+
+describe("ConstraintsPanel", () => {
+  const onClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    usePlanStore.getState().loadPlan(plan);
+  });
+
+  it("should list broken rules first with what's wrong", () => {
+    render(<Harness onClose={onClose} />);
+
+    expect(screen.getByText("2 rules · 1 broken · 1 waiting")).toBeInTheDocument();
+    expect(getRuleStatuses()).toEqual(["Broken", "Waiting"]);
+    expect(screen.getByText("Alice and Bob are both at Table 1")).toBeInTheDocument();
+    expect(screen.getByText("1 guest isn't seated yet")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText("Broken rules only"));
+    expect(getRuleStatuses()).toEqual(["Broken"]);
+  });
+
+  it("should add a rule for chosen guests and a table", () => {
+    render(<Harness onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText("Rule type"), { target: { value: "far" } });
+    const guests = screen.getByRole("list", { name: "Guests for rule" });
+    expect(within(guests).queryByText("Dan")).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText("Find guests for rule"), { target: { value: "car" } });
+    fireEvent.click(within(guests).getByLabelText("Carol"));
+    fireEvent.click(screen.getByRole("button", { name: "Add Rule" }));
+    expect(screen.getByRole("alert")).toHaveTextContent("choose a table");
+
+    fireEvent.change(screen.getByLabelText("Rule table"), { target: { value: "t2" } });
+    fireEvent.click(screen.getByRole("button", { name: "Add Rule" }));
+
+    expect(usePlanStore.getState().constraints[2]).toMatchObject({ type: "far", attendeeIds: ["a3"], tableId: "t2" });
+    expect(screen.getByText("Carol · Table 2")).toBeInTheDocument();
+    expect(screen.getByLabelText("Chosen guests")).toHaveTextContent("No guests chosen");
+  });
+
+  it("should edit and delete rules", () => {
+    render(<Harness onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Edit rule: Alice, Bob" }));
+    fireEvent.change(screen.getByLabelText("Rule type"), { target: { value: "together" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Rule" }));
+
+    expect(usePlanStore.getState().constraints[0]).toEqual({ id: "r1", type: "together", attendeeIds: ["a1", "a2"] });
+    expect(screen.getByRole("button", { name: "Add Rule" })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete rule: Alice, Carol" }));
+    expect(usePlanStore.getState().constraints.map((constraint) => constraint.id)).toEqual(["r1"]);
+  });
+
+  it("should collapse", () => {
+    render(<Harness onClose={onClose} />);
+
+    fireEvent.click(screen.getByLabelText("Collapse seating rules"));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import DiffOverlay, { DIFF_COLORS } from "../DiffOverlay";
+import { diffPlans } from "../../utils/planDiff";
+import type { Plan, Table } from "../../types";
+
+const makeTable = (id: string, overrides: Partial<Table> = {}): Table => ({
+  id,
+  name: `Table ${id}`,
+  shape: "round",
+  position: { x: 0, y: 0 },
+  seatCount: 8,
+  rotation: 0,
+  size: { width: 120, height: 120 },
+  ...overrides,
+});
+
+const contents = (tables: Table[]): Pick<Plan, "tables" | "attendees" | "seatAssignments"> => ({
+  tables,
+  attendees: [],
+  seatAssignments: [],
+});
+
+describe("DiffOverlay", () => {
+  it("should draw a ghost at the old position of a moved table with an arrow to the new one", () => {
+    const diff = diffPlans(
+      contents([makeTable("1", { position: { x: 100, y: 50 } })]),
+      contents([makeTable("1", { position: { x: 300, y: 50 } })])
+    );
+
+    const { container } = render(<DiffOverlay diff={diff} />);
+
+    const ghost = container.querySelector(`circle[stroke="${DIFF_COLORS.moved}"]`);
+    expect(ghost?.parentElement?.getAttribute("transform")).toBe("translate(100, 50) rotate(0)");
+    expect(container.querySelector("polyline")?.getAttribute("points")).toBe("100 50 300 50");
+  });
+
+  it("should outline added, removed and resized tables in their own colors", () => {
+    const diff = diffPlans(
+      contents([makeTable("1"), makeTable("2", { shape: "rect", size: { width: 160, height: 80 } })]),
+      contents([makeTable("2", { shape: "rect", size: { width: 200, height: 80 } }), makeTable("3")])
+    );
+
+    const { container } = render(<DiffOverlay diff={diff} />);
+
+    expect(container.querySelector(`circle[stroke="${DIFF_COLORS.removed}"]`)).toBeInTheDocument();
+    expect(container.querySelector(`circle[stroke="${DIFF_COLORS.added}"]`)).toBeInTheDocument();
+    expect(container.querySelector(`rect[stroke="${DIFF_COLORS.resized}"]`)).toBeInTheDocument();
+  });
+
+  it("should draw nothing for an empty diff", () => {
+    const { container } = render(<DiffOverlay diff={diffPlans(contents([]), contents([]))} />);
+
+    expect(container.querySelector("circle, rect, polyline")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,105 @@
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import GuestImportDialog from "../GuestImportDialog";
+import { usePlanStore } from "../../store/plan-store";
+import type { Plan } from "../../types";
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [],
+  attendees: [{ id: "a1", name: "Alice Smith" }],
+  seatAssignments: [],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+};
+
+const csv = [
+  "Guest;E-mail;Table",
+  "Alice Smith;alice@example.com;1",
+  '"Jones; Carol";carol@example.com;2',
+  "Dan;not-an-email;3",
+].join("\n");
+
+describe("GuestImportDialog", () => {
+  const onClose = vi.fn();
+  const onImported = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    usePlanStore.getState().loadPlan({ ...plan, attendees: [...plan.attendees] });
+  });
+
+  const renderDialog = (text = csv) =>
+    render(<GuestImportDialog fileName="guests.csv" text={text} onClose={onClose} onImported={onImported} />);
+
+  it("should detect the delimiter, guess the mapping and preview rows", () => {
+    renderDialog();
+
+    expect(screen.getByLabelText("Separator")).toHaveValue(";");
+    expect(screen.getByLabelText("Field for Guest")).toHaveValue("name");
+    expect(screen.getByLabelText("Field for E-mail")).toHaveValue("email");
+    expect(screen.getByLabelText("Field for Table")).toHaveValue("");
+
+    const preview = screen.getByRole("table", { name: "Import preview" });
+    expect(within(preview).getByText("Jones; Carol")).toBeInTheDocument();
+    expect(screen.getByLabelText("Import summary")).toHaveTextContent("1 new · 1 to merge · 0 duplicates skipped · 1 row with errors");
+    expect(screen.getByRole("list", { name: "Rows with errors" })).toHaveTextContent("Row 4: email must be a valid email address");
+  });
+
+  it("should merge into the plan as one undo step", () => {
+    renderDialog();
+
+    fireEvent.click(screen.getByRole("button", { name: "Import Guests" }));
+
+    const { attendees, past } = usePlanStore.getState();
+    expect(attendees.map((a) => [a.name, a.email])).toEqual([
+      ["Alice Smith", "alice@example.com"],
+      ["Jones; Carol", "carol@example.com"],
+    ]);
+    expect(past).toHaveLength(1);
+    expect(onImported).toHaveBeenCalledWith('Imported 1 guest and updated 1 existing guest from "guests.csv".');
+  });
+
+  it("should say which guests were skipped for being locked in place", () => {
+    const table = { id: "t1", name: "Table 1", shape: "round" as const, position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } };
+    usePlanStore.getState().loadPlan({
+      ...plan,
+      tables: [{ ...table, locked: true }],
+      seatAssignments: [{ tableId: "t1", seatNumber: 1, attendeeId: "a1" }],
+    });
+    renderDialog("Guest,RSVP\nAlice Smith,Declined\nBob,Attending");
+
+    fireEvent.click(screen.getByRole("button", { name: "Import Guests" }));
+
+    expect(usePlanStore.getState().seatAssignments).toHaveLength(1);
+    expect(onImported).toHaveBeenCalledWith(
+      'Imported 1 guest from "guests.csv". Alice Smith is locked in place, so their row wasn\'t imported.'
+    );
+  });
+
+  it("should re-evaluate rows when the mapping changes", () => {
+    renderDialog();
+
+    fireEvent.change(screen.getByLabelText("Field for E-mail"), { target: { value: "" } });
+
+    expect(screen.getByLabelText("Import summary")).toHaveTextContent("2 new · 0 to merge · 1 duplicate skipped · 0 rows with errors");
+  });
+
+  it("should treat the first row as data when there is no header", () => {
+    renderDialog("Erin\nFrank");
+
+    fireEvent.click(screen.getByLabelText("First row is a header"));
+
+    expect(screen.getByLabelText("Field for Column 1")).toHaveValue("name");
+    expect(screen.getByLabelText("Import summary")).toHaveTextContent("2 new");
+  });
+
+  it("should ask for a name column and block empty imports", () => {
+    renderDialog("Table\n1");
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Choose the column that holds guest names.");
+    expect(screen.getByRole("button", { name: "Import Guests" })).toBeDisabled();
+  });
+});
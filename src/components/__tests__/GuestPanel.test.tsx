@@ -0,0 +1,416 @@
+import { render, screen, fireEvent, within, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import GuestPanel from "../GuestPanel";
+import { usePlanStore } from "../../store/plan-store";
+import { useUIStore } from "../../store/ui-store";
+import type { Plan } from "../../types";
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [
+    { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+  ],
+  attendees: [
+    { id: "a1", name: "Carol Jones" },
+    { id: "a2", name: "alice Smith", email: "alice@example.com" },
+    { id: "a3", name: "Bob Brown" },
+  ],
+  seatAssignments: [{ tableId: "t1", seatNumber: 2, attendeeId: "a3" }],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+};
+
+const getGuestNames = () =>
+  Array.from(screen.getByRole("list", { name: "Guests" }).querySelectorAll(".font-medium")).map((name) => name.textContent);
+
+describe("GuestPanel", () => {
+  const onClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    usePlanStore.getState().loadPlan({
+      ...plan,
+      tables: [...plan.tables],
+      attendees: [...plan.attendees],
+      seatAssignments: [...plan.seatAssignments],
+    });
+  });
+
+  it("should list guests by name with their seats", () => {
+    render(<GuestPanel onClose={onClose} />);
+
+    expect(getGuestNames()).toEqual(["alice Smith", "Bob Brown", "Carol Jones"]);
+    expect(screen.getByText("Table 1 · Seat 2")).toBeInTheDocument();
+    expect(screen.getByText("3 guests · 2 unseated")).toBeInTheDocument();
+  });
+
+  it("should sort by name descending and by seat", () => {
+    render(<GuestPanel onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText("Sort by"), { target: { value: "name-desc" } });
+    expect(getGuestNames()).toEqual(["Carol Jones", "Bob Brown", "alice Smith"]);
+
+    fireEvent.change(screen.getByLabelText("Sort by"), { target: { value: "seat" } });
+    expect(getGuestNames()).toEqual(["Bob Brown", "alice Smith", "Carol Jones"]);
+  });
+
+  it("should filter to unseated guests", () => {
+    render(<GuestPanel onClose={onClose} />);
+
+    fireEvent.click(screen.getByLabelText("Unseated only"));
+
+    expect(getGuestNames()).toEqual(["alice Smith", "Carol Jones"]);
+  });
+
+  it("should add a guest and show validation errors", () => {
+    render(<GuestPanel onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText("New guest name"), { target: { value: "Dan" } });
+    fireEvent.change(screen.getByLabelText("New guest email"), { target: { value: "nope" } });
+    fireEvent.click(screen.getByRole("button", { name: "Add Guest" }));
+    expect(screen.getByRole("alert")).toHaveTextContent("email must be a valid email address");
+
+    fireEvent.change(screen.getByLabelText("New guest email"), { target: { value: "" } });
+    fireEvent.click(screen.getByRole("button", { name: "Add Guest" }));
+
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+    expect(usePlanStore.getState().attendees.map((a) => a.name)).toContain("Dan");
+    expect(screen.getByLabelText("New guest name")).toHaveValue("");
+  });
+
+  it("should edit a guest inline", () => {
+    render(<GuestPanel onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Edit Bob Brown" }));
+    fireEvent.change(screen.getByLabelText("Guest name"), { target: { value: "Robert Brown" } });
+    fireEvent.change(screen.getByLabelText("Guest notes"), { target: { value: "Best man" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    expect(usePlanStore.getState().attendees.find((a) => a.id === "a3")).toEqual({ id: "a3", name: "Robert Brown", notes: "Best man" });
+    expect(screen.getByText("Best man")).toBeInTheDocument();
+  });
+
+  it("should keep the editor open when the edit is invalid", () => {
+    render(<GuestPanel onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Edit Bob Brown" }));
+    fireEvent.change(screen.getByLabelText("Guest name"), { target: { value: " " } });
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    expect(screen.getByRole("alert")).toHaveTextContent("name must not be empty");
+    expect(usePlanStore.getState().attendees.find((a) => a.id === "a3")?.name).toBe("Bob Brown");
+  });
+
+  it("should bulk-delete selected guests after confirmation", () => {
+    render(<GuestPanel onClose={onClose} />);
+
+    fireEvent.click(screen.getByLabelText("Select Bob Brown"));
+    fireEvent.click(screen.getByLabelText("Select Carol Jones"));
+    fireEvent.click(screen.getByRole("button", { name: "Delete Selected (2)" }));
+
+    const dialog = screen.getByRole("dialog");
+    expect(dialog).toHaveTextContent("delete 2 guests");
+    fireEvent.click(within(dialog).getByRole("button", { name: "Delete" }));
+
+    expect(usePlanStore.getState().attendees.map((a) => a.id)).toEqual(["a2"]);
+    expect(usePlanStore.getState().seatAssignments).toEqual([]);
+  });
+
+  it("should select every shown guest", () => {
+    render(<GuestPanel onClose={onClose} />);
+
+    fireEvent.click(screen.getByLabelText("Unseated only"));
+    fireEvent.click(screen.getByLabelText("Select all shown"));
+
+    expect(screen.getByRole("button", { name: "Delete Selected (2)" })).toBeEnabled();
+  });
+
+  it("should put the guest's id on the drag data", () => {
+    render(<GuestPanel onClose={onClose} />);
+    const setData = vi.fn();
+
+    fireEvent.dragStart(screen.getByText("Bob Brown").closest("li")!, { dataTransfer: { setData } });
+
+    expect(setData).toHaveBeenCalledWith("application/x-chairchart-guest", "a3");
+  });
+
+  describe("plus-ones", () => {
+    it("should add a placeholder guest for a host and name them later", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Add a plus-one for Bob Brown" }));
+      expect(screen.getByText("Guest of Bob Brown")).toBeInTheDocument();
+      expect(screen.queryByRole("button", { name: "Add a plus-one for Guest of Bob Brown" })).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole("button", { name: "Edit Guest of Bob Brown" }));
+      expect(screen.getByText("Enter their name once you know it. They keep their seat.")).toBeInTheDocument();
+      fireEvent.change(screen.getByLabelText("Guest name"), { target: { value: "Erin Brown" } });
+      fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+      expect(usePlanStore.getState().attendees.find((a) => a.name === "Erin Brown")?.hostId).toBeUndefined();
+    });
+
+    it("should warn that unnamed plus-ones are deleted with their host", () => {
+      usePlanStore.getState().addPlusOne("a3");
+      render(<GuestPanel onClose={onClose} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Delete Bob Brown" }));
+
+      expect(screen.getByRole("dialog")).toHaveTextContent("Their unnamed plus-one goes too.");
+    });
+  });
+
+  describe("RSVPs and meals", () => {
+    beforeEach(() => {
+      usePlanStore.getState().loadPlan({
+        ...plan,
+        tables: [...plan.tables],
+        attendees: [
+          { id: "a1", name: "Carol Jones", rsvp: "declined", party: "Jones" },
+          { id: "a2", name: "alice Smith", rsvp: "accepted", meal: "Fish", allergies: "Peanuts" },
+          { id: "a3", name: "Bob Brown", rsvp: "tentative", meal: "beef", dietary: "No pork" },
+          { id: "a4", name: "Dan Jones", party: "Jones" },
+        ],
+        seatAssignments: [{ tableId: "t1", seatNumber: 2, attendeeId: "a3" }],
+      });
+    });
+
+    it("should show RSVPs, meals and dietary needs on each guest", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      expect(within(screen.getByRole("list", { name: "Guests" })).getByText("Accepted")).toBeInTheDocument();
+      expect(screen.getByText("Meal: Fish")).toBeInTheDocument();
+      expect(screen.getByText("Diet: No pork")).toBeInTheDocument();
+      expect(screen.getByText("Allergies: Peanuts")).toBeInTheDocument();
+    });
+
+    it("should leave declined guests out of the counts and the seating", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      expect(screen.getByText("3 guests · 2 unseated · 1 declined")).toBeInTheDocument();
+      expect(screen.getByText("Carol Jones").closest("li")).toHaveAttribute("draggable", "false");
+
+      const setData = vi.fn();
+      fireEvent.dragStart(screen.getByText("Jones"), { dataTransfer: { setData } });
+      expect(setData).toHaveBeenCalledWith("application/x-chairchart-party", JSON.stringify(["a4"]));
+
+      fireEvent.click(screen.getByLabelText("Unseated only"));
+      expect(getGuestNames()).toEqual(["alice Smith", "Dan Jones"]);
+    });
+
+    it("should filter by RSVP, meal and dietary needs", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      fireEvent.change(screen.getByLabelText("RSVP"), { target: { value: "declined" } });
+      expect(getGuestNames()).toEqual(["Carol Jones"]);
+
+      fireEvent.change(screen.getByLabelText("RSVP"), { target: { value: "all" } });
+      fireEvent.change(screen.getByLabelText("Meal"), { target: { value: "beef" } });
+      expect(getGuestNames()).toEqual(["Bob Brown"]);
+
+      fireEvent.change(screen.getByLabelText("Meal"), { target: { value: "__none__" } });
+      expect(getGuestNames()).toEqual(["Carol Jones", "Dan Jones"]);
+
+      fireEvent.change(screen.getByLabelText("Meal"), { target: { value: "" } });
+      fireEvent.click(screen.getByLabelText("Dietary needs or allergies only"));
+      expect(getGuestNames()).toEqual(["alice Smith", "Bob Brown"]);
+    });
+
+    it("should free the seat of a guest edited to declined", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Edit Bob Brown" }));
+      fireEvent.change(screen.getByLabelText("Guest RSVP"), { target: { value: "declined" } });
+      expect(screen.getByText("Saving frees their seat at Table 1.")).toBeInTheDocument();
+      fireEvent.change(screen.getByLabelText("Guest meal"), { target: { value: " " } });
+      fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+      expect(usePlanStore.getState().attendees.find((a) => a.id === "a3")).toEqual({
+        id: "a3",
+        name: "Bob Brown",
+        rsvp: "declined",
+        dietary: "No pork",
+      });
+      expect(usePlanStore.getState().seatAssignments).toEqual([]);
+    });
+  });
+
+  describe("tags and custom fields", () => {
+    beforeEach(() => {
+      useUIStore.getState().setSeatColorBy(null);
+      usePlanStore.getState().loadPlan({
+        ...plan,
+        tables: [...plan.tables],
+        attendees: [
+          { id: "a1", name: "Carol Jones", tags: ["family"], fields: { side: "Bride", vip: true } },
+          { id: "a2", name: "alice Smith", tags: ["work", "family"], fields: { side: "Groom" } },
+          { id: "a3", name: "Bob Brown" },
+        ],
+        customFields: [
+          { id: "side", name: "Side", type: "select", options: ["Bride", "Groom"] },
+          { id: "vip", name: "VIP", type: "boolean" },
+          { id: "age", name: "Age", type: "number" },
+        ],
+      });
+    });
+
+    it("should show tags and set custom fields on each guest", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      expect(within(screen.getByLabelText("Tags for alice Smith")).getAllByText(/work|family/).map((tag) => tag.textContent)).toEqual([
+        "work",
+        "family",
+      ]);
+      const list = screen.getByRole("list", { name: "Guests" });
+      expect(within(list).getByText("Side: Bride")).toBeInTheDocument();
+      expect(within(list).getByText("VIP: Yes")).toBeInTheDocument();
+      expect(within(list).queryByText(/^Age:/)).not.toBeInTheDocument();
+    });
+
+    it("should edit tags and typed custom fields", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Edit Bob Brown" }));
+      fireEvent.change(screen.getByLabelText("Guest tags"), { target: { value: "college; band, college" } });
+      fireEvent.change(screen.getByLabelText("Side"), { target: { value: "Groom" } });
+      fireEvent.change(screen.getByLabelText("VIP"), { target: { value: "No" } });
+      fireEvent.change(screen.getByLabelText("Age"), { target: { value: "abc" } });
+      fireEvent.click(screen.getByRole("button", { name: "Save" }));
+      expect(screen.getByRole("alert")).toHaveTextContent("Age must be a number");
+
+      fireEvent.change(screen.getByLabelText("Age"), { target: { value: "31" } });
+      fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+      expect(usePlanStore.getState().attendees.find((a) => a.id === "a3")).toEqual({
+        id: "a3",
+        name: "Bob Brown",
+        tags: ["college", "band"],
+        fields: { side: "Groom", vip: false, age: 31 },
+      });
+    });
+
+    it("should filter by tag and custom field value", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      fireEvent.change(screen.getByLabelText("Tag"), { target: { value: "family" } });
+      expect(getGuestNames()).toEqual(["alice Smith", "Carol Jones"]);
+
+      fireEvent.change(screen.getByLabelText("Field"), { target: { value: JSON.stringify(["side", "Groom"]) } });
+      expect(getGuestNames()).toEqual(["alice Smith"]);
+
+      fireEvent.change(screen.getByLabelText("Tag"), { target: { value: "" } });
+      fireEvent.change(screen.getByLabelText("Field"), { target: { value: JSON.stringify(["vip", "Yes"]) } });
+      expect(getGuestNames()).toEqual(["Carol Jones"]);
+    });
+
+    it("should color seats by a custom field with a legend", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      fireEvent.change(screen.getByLabelText("Color seats by"), { target: { value: "field:side" } });
+
+      expect(useUIStore.getState().seatColorBy).toBe("field:side");
+      expect(within(screen.getByRole("list", { name: "Seat colors" })).getAllByRole("listitem").map((item) => item.textContent)).toEqual([
+        "Bride",
+        "Groom",
+      ]);
+    });
+
+    it("should add custom fields from the dialog", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Custom Fields…" }));
+      const dialog = screen.getByRole("dialog");
+      fireEvent.change(within(dialog).getByLabelText("New field name"), { target: { value: "Meal table" } });
+      fireEvent.change(within(dialog).getByLabelText("New field type"), { target: { value: "select" } });
+      fireEvent.click(within(dialog).getByRole("button", { name: "Add Field" }));
+      expect(within(dialog).getByRole("alert")).toHaveTextContent("options must list at least one choice");
+
+      fireEvent.change(within(dialog).getByLabelText("New field choices"), { target: { value: "Kids, Adults" } });
+      fireEvent.click(within(dialog).getByRole("button", { name: "Add Field" }));
+      fireEvent.click(within(dialog).getByRole("button", { name: "Delete Age" }));
+      fireEvent.click(within(dialog).getByRole("button", { name: "Done" }));
+
+      expect(usePlanStore.getState().customFields.map((field) => field.name)).toEqual(["Side", "VIP", "Meal table"]);
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("parties", () => {
+    beforeEach(() => {
+      usePlanStore.getState().loadPlan({
+        ...plan,
+        tables: [...plan.tables, { ...plan.tables[0], id: "t2", name: "Table 2" }],
+        attendees: [
+          { id: "a1", name: "Carol Jones" },
+          { id: "a2", name: "alice Smith", party: "Smith family" },
+          { id: "a3", name: "Bob Brown" },
+          { id: "a4", name: "Dan Smith", party: "smith  Family" },
+        ],
+        seatAssignments: [
+          { tableId: "t1", seatNumber: 1, attendeeId: "a2" },
+          { tableId: "t2", seatNumber: 1, attendeeId: "a4" },
+        ],
+      });
+    });
+
+    it("should group party members under the party name", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      const party = screen.getByRole("listitem", { name: "Party: Smith family" });
+      expect(within(party).getByText("2 guests")).toBeInTheDocument();
+      expect(within(party).getByText("alice Smith")).toBeInTheDocument();
+      expect(within(party).getByText("Dan Smith")).toBeInTheDocument();
+      expect(within(party).queryByText("Bob Brown")).not.toBeInTheDocument();
+    });
+
+    it("should warn when a party is split across tables", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      expect(screen.getByText("⚠ Split across Table 1 and Table 2")).toBeInTheDocument();
+    });
+
+    it("should drag every member of the party", () => {
+      render(<GuestPanel onClose={onClose} />);
+      const setData = vi.fn();
+
+      fireEvent.dragStart(screen.getByText("Smith family"), { dataTransfer: { setData } });
+
+      expect(setData).toHaveBeenCalledWith("application/x-chairchart-party", JSON.stringify(["a2", "a4"]));
+    });
+
+    it("should add a guest to a party", () => {
+      render(<GuestPanel onClose={onClose} />);
+
+      fireEvent.change(screen.getByLabelText("New guest name"), { target: { value: "Eve Smith" } });
+      fireEvent.change(screen.getByLabelText("New guest party"), { target: { value: " Smith family " } });
+      fireEvent.click(screen.getByRole("button", { name: "Add Guest" }));
+
+      expect(within(screen.getByRole("listitem", { name: "Party: Smith family" })).getByText("3 guests")).toBeInTheDocument();
+    });
+  });
+
+  it("should say so when a guest list file can't be read", async () => {
+    const readAsText = vi.spyOn(FileReader.prototype, "readAsText").mockImplementation(function (this: FileReader) {
+      Object.defineProperty(this, "error", { value: new Error("Permission denied") });
+      this.dispatchEvent(new ProgressEvent("error"));
+    });
+    render(<GuestPanel onClose={onClose} />);
+
+    const file = new File(["Name\nAlice"], "guests.csv", { type: "text/csv" });
+    fireEvent.change(screen.getByLabelText("Guest list file to import"), { target: { files: [file] } });
+
+    await waitFor(() => expect(screen.getByRole("status")).toHaveTextContent('"guests.csv" could not be read: Permission denied'));
+    expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    readAsText.mockRestore();
+  });
+
+  it("should collapse", () => {
+    render(<GuestPanel onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Collapse guest list" }));
+
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,138 @@
+import { render, screen, fireEvent, within, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import HistoryPanel from "../HistoryPanel";
+import { usePlanStore } from "../../store/plan-store";
+import { useSnapshotStore } from "../../store/snapshot-store";
+import { useLibraryStore } from "../../store/library-store";
+import { useUIStore } from "../../store/ui-store";
+import { writePlanSnapshots } from "../../utils/planStorage";
+import type { Plan } from "../../types";
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [
+    { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+  ],
+  attendees: [{ id: "a1", name: "Alice Smith" }],
+  seatAssignments: [],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+};
+
+describe("HistoryPanel", () => {
+  const onClose = vi.fn();
+  const onOpenPlan = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    useLibraryStore.setState({ plans: [] });
+    useSnapshotStore.setState({ planId: null, snapshots: [] });
+    useUIStore.setState({ comparison: null });
+    usePlanStore.getState().loadPlan({ ...plan, tables: [...plan.tables] });
+  });
+
+  it("should show an empty state", () => {
+    render(<HistoryPanel onClose={onClose} />);
+
+    expect(screen.getByText(/No snapshots yet/)).toBeInTheDocument();
+  });
+
+  it("should list stored snapshots with their counts", () => {
+    writePlanSnapshots("plan-1", [
+      { id: "s1", name: "Final v2", createdAt: new Date("2024-01-03T00:00:00.000Z"), plan },
+    ]);
+
+    render(<HistoryPanel onClose={onClose} />);
+
+    const list = screen.getByRole("list", { name: "Snapshots" });
+    expect(within(list).getByText("Final v2")).toBeInTheDocument();
+    expect(within(list).getByText("1 table · 1 guest")).toBeInTheDocument();
+  });
+
+  it("should save a named snapshot", () => {
+    render(<HistoryPanel onClose={onClose} />);
+
+    fireEvent.change(screen.getByLabelText("Snapshot name"), { target: { value: "Before in-laws call" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Snapshot" }));
+
+    expect(within(screen.getByRole("list", { name: "Snapshots" })).getByText("Before in-laws call")).toBeInTheDocument();
+    expect(screen.getByLabelText("Snapshot name")).toHaveValue("");
+  });
+
+  it("should restore a snapshot into the current plan", () => {
+    render(<HistoryPanel onClose={onClose} />);
+    fireEvent.click(screen.getByRole("button", { name: "Save Snapshot" }));
+    usePlanStore.getState().deleteTable("t1");
+
+    const name = useSnapshotStore.getState().snapshots[0].name;
+    fireEvent.click(screen.getByRole("button", { name: `Restore ${name}` }));
+
+    expect(usePlanStore.getState().tables).toHaveLength(1);
+    expect(screen.getByRole("status")).toHaveTextContent(/undo/);
+  });
+
+  it("should restore a snapshot as a new plan and open it", () => {
+    render(<HistoryPanel onClose={onClose} onOpenPlan={onOpenPlan} />);
+    fireEvent.change(screen.getByLabelText("Snapshot name"), { target: { value: "Final v2" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Snapshot" }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Restore Final v2 as a new plan" }));
+
+    expect(onOpenPlan).toHaveBeenCalledOnce();
+    expect(onOpenPlan.mock.calls[0][0]).not.toBe("plan-1");
+  });
+
+  it("should delete a snapshot after confirmation", () => {
+    render(<HistoryPanel onClose={onClose} />);
+    fireEvent.change(screen.getByLabelText("Snapshot name"), { target: { value: "Final v2" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Snapshot" }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete Final v2" }));
+    fireEvent.click(within(screen.getByRole("dialog")).getByRole("button", { name: "Delete" }));
+
+    expect(screen.getByText(/No snapshots yet/)).toBeInTheDocument();
+  });
+
+  it("should close", () => {
+    render(<HistoryPanel onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Close history" }));
+
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it("should compare the plan with a snapshot", () => {
+    render(<HistoryPanel onClose={onClose} />);
+    fireEvent.change(screen.getByLabelText("Snapshot name"), { target: { value: "Final v2" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Snapshot" }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Compare with Final v2" }));
+
+    const comparison = useUIStore.getState().comparison;
+    expect(comparison?.planId).toBe("plan-1");
+    expect(comparison?.label).toBe("Final v2");
+    expect(comparison?.basePlan.tables).toHaveLength(1);
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it("should say so when a file to compare can't be read", async () => {
+    const readAsText = vi.spyOn(FileReader.prototype, "readAsText").mockImplementation(function (this: FileReader) {
+      Object.defineProperty(this, "error", { value: new Error("Permission denied") });
+      this.dispatchEvent(new ProgressEvent("error"));
+    });
+    render(<HistoryPanel onClose={onClose} />);
+
+    const file = new File(["{}"], "old.chairchart.json", { type: "application/json" });
+    fireEvent.change(screen.getByLabelText("Plan file to compare"), { target: { files: [file] } });
+
+    await waitFor(() =>
+      expect(screen.getByRole("status")).toHaveTextContent('"old.chairchart.json" could not be read: Permission denied')
+    );
+    expect(useUIStore.getState().comparison).toBeNull();
+    readAsText.mockRestore();
+  });
+});
+
@@ -1,19 +1,26 @@
-import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { render, screen, fireEvent, waitFor, within } from "@testing-library/react";
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import Inspector from "../Inspector";
-import { useInspector, useCloseInspector } from "../../store/ui-store";
-import { useUpdateTable, useDeleteTable, usePlanStore } from "../../store/plan-store";
+import { useInspector, useCloseInspector, useDismissInspectorRemoteChange, useShowNotice } from "../../store/ui-store";
+import { useUpdateTable, useDeleteTable, usePlanStore, useTables, useAttendees, useSeatAssignments, useAffinities, useSetSeatLocked } from "../../store/plan-store";
 
 // Mock the store hooks
 vi.mock("../../store/ui-store", () => ({
   useInspector: vi.fn(),
   useCloseInspector: vi.fn(),
+  useDismissInspectorRemoteChange: vi.fn(),
+  useShowNotice: vi.fn(),
 }));
 
 vi.mock("../../store/plan-store", () => ({
   useUpdateTable: vi.fn(),
   useDeleteTable: vi.fn(),
   usePlanStore: vi.fn(),
+  useTables: vi.fn(() => []),
+  useAttendees: vi.fn(() => []),
+  useSeatAssignments: vi.fn(() => []),
+  useAffinities: vi.fn(() => []),
+  useSetSeatLocked: vi.fn(),
 }));
 
 const mockTable = {
@@ -28,14 +35,26 @@ const mockTable = {
 
 describe("Inspector", () => {
   const mockCloseInspector = vi.fn();
+  const mockDismissRemoteChange = vi.fn();
   const mockUpdateTable = vi.fn();
   const mockDeleteTable = vi.fn();
   const mockGetTable = vi.fn();
+  const mockShowNotice = vi.fn();
+  const mockSetSeatLocked = vi.fn();
 
   beforeEach(() => {
     vi.clearAllMocks();
     
     (useCloseInspector as any).mockReturnValue(mockCloseInspector);
+    (useDismissInspectorRemoteChange as any).mockReturnValue(mockDismissRemoteChange);
+    vi.mocked(useShowNotice).mockReturnValue(mockShowNotice);
+    mockUpdateTable.mockReturnValue({ displaced: [], locked: [] });
+    mockDeleteTable.mockReturnValue({ deleted: true, displaced: [], locked: [] });
+    vi.mocked(useSetSeatLocked).mockReturnValue(mockSetSeatLocked);
+    vi.mocked(useAttendees).mockReturnValue([]);
+    vi.mocked(useSeatAssignments).mockReturnValue([]);
+    vi.mocked(useTables).mockReturnValue([]);
+    vi.mocked(useAffinities).mockReturnValue([]);
     (useUpdateTable as any).mockReturnValue(mockUpdateTable);
     (useDeleteTable as any).mockReturnValue(mockDeleteTable);
     (usePlanStore as any).mockReturnValue(mockGetTable);
@@ -91,7 +110,7 @@ describe("Inspector", () => {
       
       expect(mockUpdateTable).toHaveBeenCalledWith("table-1", {
         name: "New Table Name",
-      });
+      }, { coalesceKey: "table:table-1:name" });
     });
 
     it("should update table shape and size on shape change", () => {
@@ -114,7 +133,25 @@ describe("Inspector", () => {
       
       expect(mockUpdateTable).toHaveBeenCalledWith("table-1", {
         seatCount: 12,
-      });
+      }, { coalesceKey: "table:table-1:seatCount" });
+    });
+
+    it("should name guests displaced by removing seats", () => {
+      mockUpdateTable.mockReturnValue({ displaced: [{ id: "g1", name: "Alice" }], locked: [] });
+      render(<Inspector />);
+      
+      fireEvent.change(screen.getByRole("slider"), { target: { value: "6" } });
+      
+      expect(mockShowNotice).toHaveBeenCalledWith("Alice is now unseated.");
+    });
+    
+    it("should name guests whose locked seats were kept", () => {
+      mockUpdateTable.mockReturnValue({ displaced: [{ id: "g1", name: "Alice" }], locked: [{ id: "g2", name: "Bob" }] });
+      render(<Inspector />);
+      
+      fireEvent.change(screen.getByRole("slider"), { target: { value: "2" } });
+      
+      expect(mockShowNotice).toHaveBeenCalledWith("Alice is now unseated. Bob is locked in place, so the table kept their seats.");
     });
 
     it("should update seat count on number input change", () => {
@@ -125,7 +162,7 @@ describe("Inspector", () => {
       
       expect(mockUpdateTable).toHaveBeenCalledWith("table-1", {
         seatCount: 15,
-      });
+      }, { coalesceKey: "table:table-1:seatCount" });
     });
 
     it("should clamp seat count to valid range (1-20)", () => {
@@ -137,13 +174,13 @@ describe("Inspector", () => {
       fireEvent.change(numberInput, { target: { value: "25" } });
       expect(mockUpdateTable).toHaveBeenCalledWith("table-1", {
         seatCount: 20,
-      });
+      }, { coalesceKey: "table:table-1:seatCount" });
       
       // Test lower bound
       fireEvent.change(numberInput, { target: { value: "0" } });
       expect(mockUpdateTable).toHaveBeenCalledWith("table-1", {
         seatCount: 1,
-      });
+      }, { coalesceKey: "table:table-1:seatCount" });
     });
 
     it("should display current table settings", () => {
@@ -164,6 +201,7 @@ describe("Inspector", () => {
         tableId: "table-1",
       });
       (useCloseInspector as any).mockReturnValue(mockCloseInspector);
+      (useDismissInspectorRemoteChange as any).mockReturnValue(mockDismissRemoteChange);
       (useUpdateTable as any).mockReturnValue(mockUpdateTable);
       (useDeleteTable as any).mockReturnValue(mockDeleteTable);
       (usePlanStore as any).mockReturnValue(mockGetTable);
@@ -216,6 +254,101 @@ describe("Inspector", () => {
       
       expect(mockDeleteTable).toHaveBeenCalledWith("table-1");
       expect(mockCloseInspector).toHaveBeenCalledOnce();
+      expect(mockShowNotice).not.toHaveBeenCalled();
+    });
+
+    it("should name the guests who lost their seats", () => {
+      mockDeleteTable.mockReturnValue({ deleted: true, displaced: [{ id: "g1", name: "Alice" }, { id: "g2", name: "Bob" }], locked: [] });
+      render(<Inspector />);
+      
+      fireEvent.click(screen.getByRole("button", { name: /delete table/i }));
+      fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+      
+      expect(mockShowNotice).toHaveBeenCalledWith('"Table 1" was deleted. Alice and Bob are now unseated.');
+    });
+
+    it("should keep the inspector open and say who is locked when the table stays", () => {
+      mockDeleteTable.mockReturnValue({ deleted: false, displaced: [], locked: [{ id: "g1", name: "Alice" }] });
+      render(<Inspector />);
+      
+      fireEvent.click(screen.getByRole("button", { name: /delete table/i }));
+      fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+      
+      expect(mockCloseInspector).not.toHaveBeenCalled();
+      expect(mockShowNotice).toHaveBeenCalledWith('"Table 1" wasn\'t deleted because Alice is locked in place.');
+    });
+  });
+
+  describe("locks", () => {
+    beforeEach(() => {
+      vi.mocked(useInspector).mockReturnValue({ isOpen: true, tableId: "table-1", remoteChangedAt: null });
+      vi.mocked(useAttendees).mockReturnValue([{ id: "g1", name: "Alice" }, { id: "g2", name: "Bob" }]);
+      vi.mocked(useSeatAssignments).mockReturnValue([
+        { tableId: "table-1", seatNumber: 4, attendeeId: "g2", locked: true },
+        { tableId: "table-1", seatNumber: 2, attendeeId: "g1" },
+        { tableId: "table-2", seatNumber: 1, attendeeId: "g3" },
+      ]);
+    });
+
+    it("should lock and unlock the whole table", () => {
+      render(<Inspector />);
+      
+      fireEvent.click(screen.getByLabelText("Lock whole table"));
+      
+      expect(mockUpdateTable).toHaveBeenCalledWith("table-1", { locked: true });
+    });
+
+    it("should list the guests at the table with a lock each", () => {
+      render(<Inspector />);
+      
+      expect(screen.getByLabelText("Lock Bob in seat 4")).toBeChecked();
+      fireEvent.click(screen.getByLabelText("Lock Alice in seat 2"));
+      
+      expect(mockSetSeatLocked).toHaveBeenCalledWith({ tableId: "table-1", seatNumber: 2, attendeeId: "g1" }, true);
+    });
+
+    it("should show every seat locked at a locked table", () => {
+      mockGetTable.mockReturnValue({ ...mockTable, locked: true });
+      render(<Inspector />);
+      
+      expect(screen.getByLabelText("Lock Alice in seat 2")).toBeChecked();
+      expect(screen.getByLabelText("Lock Alice in seat 2")).toBeDisabled();
+    });
+  });
+
+  describe("happiness", () => {
+    beforeEach(() => {
+      vi.mocked(useInspector).mockReturnValue({ isOpen: true, tableId: "table-1", remoteChangedAt: null });
+      vi.mocked(useTables).mockReturnValue([mockTable, { ...mockTable, id: "table-2", name: "Table 2" }]);
+      vi.mocked(useAttendees).mockReturnValue([{ id: "g1", name: "Alice" }, { id: "g2", name: "Bob" }, { id: "g3", name: "Carol" }]);
+      vi.mocked(useSeatAssignments).mockReturnValue([
+        { tableId: "table-1", seatNumber: 2, attendeeId: "g1" },
+        { tableId: "table-1", seatNumber: 5, attendeeId: "g2" },
+        { tableId: "table-2", seatNumber: 1, attendeeId: "g3" },
+      ]);
+      vi.mocked(useAffinities).mockReturnValue([
+        { attendeeIds: ["g3", "g1"], weight: -1 },
+        { attendeeIds: ["g1", "g2"], weight: 2 },
+      ]);
+    });
+
+    it("should score the table and the whole plan", () => {
+      render(<Inspector />);
+      
+      expect(screen.getByLabelText("Table happiness")).toHaveTextContent("This table +1 · Whole plan +1");
+    });
+
+    it("should explain a guest's place by their affinities", () => {
+      render(<Inspector />);
+      
+      fireEvent.change(screen.getByLabelText("Why is this guest here?"), { target: { value: "g1" } });
+      
+      const reasons = within(screen.getByRole("list", { name: "Why Alice is here" })).getAllByRole("listitem");
+      expect(reasons.map((item) => item.textContent)).toEqual([
+        "BobGet along well · at the same table+1",
+        "CarolRather not · at different tables0",
+        "Total+1",
+      ]);
     });
   });
 
@@ -284,4 +417,22 @@ describe("Inspector", () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe("remote changes", () => {
+    it("should not show a notice without remote changes", () => {
+      (useInspector as any).mockReturnValue({ isOpen: true, tableId: "table-1", remoteChangedAt: null });
+      render(<Inspector />);
+
+      expect(screen.queryByText(/changed in another tab/i)).not.toBeInTheDocument();
+    });
+
+    it("should show a dismissible notice when another tab changed the table", () => {
+      (useInspector as any).mockReturnValue({ isOpen: true, tableId: "table-1", remoteChangedAt: 1000 });
+      render(<Inspector />);
+
+      expect(screen.getByText(/changed in another tab/i)).toBeInTheDocument();
+      fireEvent.click(screen.getByRole("button", { name: "Dismiss" }));
+      expect(mockDismissRemoteChange).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import PlanApp from "../PlanApp";
+import { useLibraryStore } from "../../store/library-store";
+import { listStoredPlans, writeStoredPlan } from "../../utils/planStorage";
+import { encodePlanForShare } from "../../utils/shareLink";
+import type { Plan } from "../../types";
+
+// The canvas needs Konva; the shell only cares that it is shown
+vi.mock("../CanvasStage", () => ({
+  default: ({ children }: { children?: React.ReactNode }) => <div data-testid="canvas-stage">{children}</div>,
+}));
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [],
+  attendees: [],
+  seatAssignments: [],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+};
+
+describe("PlanApp", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useLibraryStore.setState({ plans: [] });
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("should show the library when no plan is in the url", () => {
+    render(<PlanApp />);
+
+    expect(screen.getByText("Your Plans")).toBeInTheDocument();
+    expect(screen.queryByTestId("canvas-stage")).not.toBeInTheDocument();
+  });
+
+  it("should open the plan named in the url", () => {
+    writeStoredPlan(plan);
+    window.history.replaceState(null, "", "/?plan=plan-1");
+
+    render(<PlanApp />);
+
+    expect(screen.getByTestId("canvas-stage")).toBeInTheDocument();
+  });
+
+  it("should open share links in the read-only viewer without saving them", () => {
+    window.history.replaceState(null, "", `/#share=${encodePlanForShare(plan)}`);
+
+    render(<PlanApp />);
+
+    expect(screen.getByText("View only")).toBeInTheDocument();
+    expect(listStoredPlans()).toEqual([]);
+  });
+
+  it("should open an editable copy of a shared plan", () => {
+    window.history.replaceState(null, "", `/#share=${encodePlanForShare(plan)}`);
+
+    render(<PlanApp />);
+    fireEvent.click(screen.getByRole("button", { name: "Make an Editable Copy" }));
+
+    const summaries = listStoredPlans();
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0].id).not.toBe("plan-1");
+    expect(window.location.search).toBe(`?plan=${summaries[0].id}`);
+    expect(window.location.hash).toBe("");
+    expect(screen.getByTestId("canvas-stage")).toBeInTheDocument();
+  });
+
+  it("should explain when a share link is damaged", () => {
+    window.history.replaceState(null, "", "/#share=not-a-real-payload");
+
+    render(<PlanApp />);
+
+    expect(screen.getByRole("alertdialog")).toHaveTextContent("Shared Plan Could Not Be Opened");
+    fireEvent.click(screen.getByRole("button", { name: "OK" }));
+    expect(screen.getByText("Your Plans")).toBeInTheDocument();
+  });
+});
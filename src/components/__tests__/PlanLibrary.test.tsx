@@ -0,0 +1,185 @@
+import { render, screen, fireEvent, within, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import PlanLibrary from "../PlanLibrary";
+import { useLibraryStore } from "../../store/library-store";
+import { readStoredPlan, writeStoredPlan } from "../../utils/planStorage";
+
+describe("PlanLibrary", () => {
+  const onOpenPlan = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    useLibraryStore.setState({ plans: [] });
+    writeStoredPlan({
+      schemaVersion: 1,
+      id: "plan-1",
+      name: "Smith Wedding",
+      description: "Garden reception",
+      tables: [],
+      attendees: [{ id: "a1", name: "Alice Smith" }],
+      seatAssignments: [],
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+      updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+    });
+  });
+
+  it("should list saved plans with their details", () => {
+    render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+    const list = screen.getByRole("list", { name: "Saved plans" });
+    expect(within(list).getByText("Smith Wedding")).toBeInTheDocument();
+    expect(within(list).getByText("Garden reception")).toBeInTheDocument();
+    expect(within(list).getByText("0 tables · 1 guest")).toBeInTheDocument();
+  });
+
+  it("should show an empty state", () => {
+    localStorage.clear();
+
+    render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+    expect(screen.getByText(/No plans yet/)).toBeInTheDocument();
+  });
+
+  it("should open a plan", () => {
+    render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Open Smith Wedding" }));
+
+    expect(onOpenPlan).toHaveBeenCalledWith("plan-1");
+  });
+
+  it("should create a plan and open it", () => {
+    render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+    fireEvent.change(screen.getByLabelText("New plan name"), { target: { value: "Jones Party" } });
+    fireEvent.click(screen.getByRole("button", { name: "New Plan" }));
+
+    const createdId = onOpenPlan.mock.calls[0][0];
+    const stored = readStoredPlan(createdId);
+    expect(stored.status === "ok" && stored.plan.name).toBe("Jones Party");
+  });
+
+  it("should rename a plan inline", () => {
+    render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Rename Smith Wedding" }));
+    const input = screen.getByLabelText("New name for Smith Wedding");
+    fireEvent.change(input, { target: { value: "Smith Reception" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(screen.getByText("Smith Reception")).toBeInTheDocument();
+  });
+
+  it("should duplicate a plan", () => {
+    render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Duplicate Smith Wedding" }));
+
+    expect(screen.getByText("Smith Wedding (copy)")).toBeInTheDocument();
+  });
+
+  it("should delete a plan after confirmation", () => {
+    render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete Smith Wedding" }));
+    expect(screen.getByRole("dialog")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+
+    expect(screen.queryByText("Smith Wedding")).not.toBeInTheDocument();
+    expect(readStoredPlan("plan-1")).toEqual({ status: "missing" });
+  });
+
+  describe("import and export", () => {
+    const validPlan = {
+      id: "plan-2",
+      name: "Jones Party",
+      tables: [
+        { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+        { id: "t2", name: "Table 2", shape: "round", position: { x: 200, y: 0 }, seatCount: 30, rotation: 0, size: { width: 120, height: 120 } },
+      ],
+      attendees: [],
+      seatAssignments: [],
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-02T00:00:00.000Z",
+    };
+
+    const chooseFile = (contents: string) => {
+      const file = new File([contents], "backup.chairchart.json", { type: "application/json" });
+      fireEvent.change(screen.getByLabelText("Plan file to import"), { target: { files: [file] } });
+    };
+
+    it("should import a valid file and open it", async () => {
+      render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+      chooseFile(JSON.stringify({ ...validPlan, tables: validPlan.tables.slice(0, 1) }));
+
+      await waitFor(() => expect(onOpenPlan).toHaveBeenCalled());
+      const stored = readStoredPlan(onOpenPlan.mock.calls[0][0]);
+      expect(stored.status === "ok" && stored.plan.name).toBe("Jones Party");
+    });
+
+    it("should list validation problems and import the valid parts on request", async () => {
+      render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+      chooseFile(JSON.stringify(validPlan));
+
+      const dialog = await screen.findByRole("alertdialog");
+      expect(within(dialog).getByText("tables[1].seatCount must be ≤ 20")).toBeInTheDocument();
+      fireEvent.click(within(dialog).getByRole("button", { name: "Import Valid Parts" }));
+
+      const stored = readStoredPlan(onOpenPlan.mock.calls[0][0]);
+      expect(stored.status === "ok" && stored.plan.tables.map((t) => t.id)).toEqual(["t1"]);
+    });
+
+    it("should import nothing when the user cancels", async () => {
+      render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+      chooseFile(JSON.stringify(validPlan));
+      fireEvent.click(within(await screen.findByRole("alertdialog")).getByRole("button", { name: "Cancel" }));
+
+      expect(onOpenPlan).not.toHaveBeenCalled();
+      expect(screen.getAllByRole("listitem")).toHaveLength(1);
+    });
+
+    it("should explain files that cannot be imported at all", async () => {
+      render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+      chooseFile("not json");
+
+      const dialog = await screen.findByRole("alertdialog");
+      expect(within(dialog).getByText("Plan Could Not Be Imported")).toBeInTheDocument();
+      expect(within(dialog).queryByRole("button", { name: "Import Valid Parts" })).not.toBeInTheDocument();
+    });
+
+    it("should explain files that can't be read", async () => {
+      const readAsText = vi.spyOn(FileReader.prototype, "readAsText").mockImplementation(function (this: FileReader) {
+        Object.defineProperty(this, "error", { value: new Error("Permission denied") });
+        this.dispatchEvent(new ProgressEvent("error"));
+      });
+      render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+
+      chooseFile(JSON.stringify(validPlan));
+
+      const dialog = await screen.findByRole("alertdialog");
+      expect(within(dialog).getByText("File could not be read: Permission denied")).toBeInTheDocument();
+      expect(onOpenPlan).not.toHaveBeenCalled();
+      readAsText.mockRestore();
+    });
+
+    it("should download a plan as a JSON file", () => {
+      const createObjectURL = vi.fn(() => "blob:plan");
+      const revokeObjectURL = vi.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+
+      render(<PlanLibrary onOpenPlan={onOpenPlan} />);
+      fireEvent.click(screen.getByRole("button", { name: "Export Smith Wedding" }));
+
+      expect(createObjectURL).toHaveBeenCalledOnce();
+      expect(click).toHaveBeenCalledOnce();
+      expect(revokeObjectURL).toHaveBeenCalledWith("blob:plan");
+      click.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import PlanPersistence from "../PlanPersistence";
+import { usePlanStore } from "../../store/plan-store";
+import { useUIStore } from "../../store/ui-store";
+import { getCorruptBackupKey, getPlanStorageKey, writeStoredPlan } from "../../utils/planStorage";
+
+describe("PlanPersistence", () => {
+  const onClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    usePlanStore.getState().resetPlan();
+    useUIStore.getState().dismissNotice();
+  });
+
+  it("should render nothing and hydrate a valid stored plan", () => {
+    writeStoredPlan({
+      schemaVersion: 1,
+      id: "stored",
+      name: "Stored Plan",
+      tables: [],
+      attendees: [],
+      seatAssignments: [],
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+      updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+    });
+
+    const { container } = render(<PlanPersistence planId="stored" onClose={onClose} />);
+
+    expect(container).toBeEmptyDOMElement();
+    expect(usePlanStore.getState().name).toBe("Stored Plan");
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it("should say what was removed from a stored plan with broken entries", () => {
+    writeStoredPlan({
+      schemaVersion: 1,
+      id: "stored",
+      name: "Stored Plan",
+      tables: [],
+      attendees: [{ id: "guest-1", name: "Alice" }],
+      seatAssignments: [{ tableId: "gone", seatNumber: 1, attendeeId: "guest-1" }],
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+      updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+    });
+
+    render(<PlanPersistence planId="stored" onClose={onClose} />);
+
+    expect(useUIStore.getState().notice?.message).toBe(
+      "Some of this plan's saved data didn't fit together, so 1 entry was removed: seatAssignments[0].tableId must refer to an existing table."
+    );
+    expect(usePlanStore.getState().seatAssignments).toEqual([]);
+  });
+
+  it("should close when the plan doesn't exist", () => {
+    render(<PlanPersistence planId="missing" onClose={onClose} />);
+
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it("should prompt for recovery when the stored plan is corrupt", () => {
+    localStorage.setItem(getPlanStorageKey("broken"), '{"tables": 5}');
+
+    render(<PlanPersistence planId="broken" onClose={onClose} />);
+
+    expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+    expect(screen.getByText("Saved Plan Could Not Be Loaded")).toBeInTheDocument();
+    // The damaged payload stays put until the user decides
+    expect(localStorage.getItem(getPlanStorageKey("broken"))).toBe('{"tables": 5}');
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it("should back up the corrupt payload when leaving the plan", () => {
+    localStorage.setItem(getPlanStorageKey("broken"), "not json");
+
+    render(<PlanPersistence planId="broken" onClose={onClose} />);
+    fireEvent.click(screen.getByRole("button", { name: "Back to Plans" }));
+
+    expect(screen.queryByRole("alertdialog")).not.toBeInTheDocument();
+    expect(localStorage.getItem(getCorruptBackupKey("broken"))).toBe("not json");
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+});
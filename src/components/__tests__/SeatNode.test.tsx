@@ -200,4 +200,43 @@ describe("SeatNode", () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe("guest", () => {
+    it("should show the seated guest's name upright", () => {
+      const { getByText, container } = renderSeatNode({ guestName: "Alice Smith" });
+      
+      expect(getByText("Alice Smith")).toBeInTheDocument();
+      // Seat group is rotated by 45deg; the name group undoes it
+      expect(container.querySelector('g[transform*="rotate(-45)"]')).toBeInTheDocument();
+    });
+
+    it("should not render a name for an empty seat", () => {
+      const { container } = renderSeatNode();
+      
+      expect(container.querySelectorAll("text")).toHaveLength(1);
+    });
+
+    it("should only be draggable when occupied", () => {
+      const occupied = renderSeatNode({ guestName: "Alice Smith", isDraggable: true });
+      expect(occupied.container.querySelector('g[draggable="true"]')).toBeInTheDocument();
+      occupied.unmount();
+
+      const empty = renderSeatNode({ isDraggable: true });
+      expect(empty.container.querySelector('g[draggable="true"]')).not.toBeInTheDocument();
+    });
+
+    it("should not be draggable unless enabled", () => {
+      const { container } = renderSeatNode({ guestName: "Alice Smith" });
+      
+      expect(container.querySelector('g[draggable="true"]')).not.toBeInTheDocument();
+    });
+
+    it("should use the guest's category color", () => {
+      const { container } = renderSeatNode({ guestName: "Alice Smith", guestColor: { fill: "#fde68a", stroke: "#d97706" } });
+      
+      const circle = container.querySelector('circle');
+      expect(circle).toHaveAttribute('fill', '#fde68a');
+      expect(circle).toHaveAttribute('stroke', '#d97706');
+    });
+  });
+});
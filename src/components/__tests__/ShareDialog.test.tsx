@@ -0,0 +1,57 @@
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import ShareDialog from "../ShareDialog";
+import { usePlanStore } from "../../store/plan-store";
+import { decodeSharedPlan, getSharePayloadFromHash } from "../../utils/shareLink";
+
+describe("ShareDialog", () => {
+  const onClose = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    usePlanStore.getState().resetPlan();
+  });
+
+  it("should show a link that decodes to the current plan", () => {
+    usePlanStore.getState().addTable({ x: 40, y: 80 });
+
+    render(<ShareDialog onClose={onClose} />);
+
+    const input = screen.getByLabelText("Share link") as HTMLInputElement;
+    const payload = getSharePayloadFromHash(new URL(input.value).hash);
+    const result = decodeSharedPlan(payload!);
+    expect(result.success && result.plan.tables).toHaveLength(1);
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("should warn when the link is too long", () => {
+    for (let i = 0; i < 60; i++) {
+      usePlanStore.getState().addTable({ x: i * 200, y: i * 17 });
+    }
+
+    render(<ShareDialog onClose={onClose} />);
+
+    expect(screen.getByRole("alert")).toHaveTextContent(/longer than 2,000 characters/);
+  });
+
+  it("should copy the link to the clipboard", async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+
+    render(<ShareDialog onClose={onClose} />);
+    fireEvent.click(screen.getByRole("button", { name: "Copy Link" }));
+
+    await waitFor(() => {
+      expect(screen.getByRole("button", { name: "Copied!" })).toBeInTheDocument();
+    });
+    expect(writeText).toHaveBeenCalledWith((screen.getByLabelText("Share link") as HTMLInputElement).value);
+  });
+
+  it("should close", () => {
+    render(<ShareDialog onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Close" }));
+
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+});
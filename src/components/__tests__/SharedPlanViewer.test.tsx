@@ -0,0 +1,107 @@
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import SharedPlanViewer from "../SharedPlanViewer";
+import { usePlanStore } from "../../store/plan-store";
+import { useLibraryStore } from "../../store/library-store";
+import { readStoredPlan } from "../../utils/planStorage";
+import { encodePlanForShare } from "../../utils/shareLink";
+import type { Plan } from "../../types";
+
+vi.mock("../CanvasStage", () => ({
+  default: ({ children, readOnly }: { children?: React.ReactNode; readOnly?: boolean }) => (
+    <div data-testid="canvas-stage" data-read-only={String(readOnly)}>{children}</div>
+  ),
+}));
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  description: "Garden reception",
+  tables: [
+    { id: "t1", name: "Family", shape: "round", position: { x: 200, y: 100 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+  ],
+  attendees: [
+    { id: "a1", name: "Alice Smith" },
+    { id: "a2", name: "Bob Jones" },
+    { id: "a3", name: "Carol Smithers" },
+  ],
+  seatAssignments: [
+    { tableId: "t1", seatNumber: 2, attendeeId: "a1" },
+    { tableId: "t1", seatNumber: 5, attendeeId: "a2" },
+  ],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+};
+
+describe("SharedPlanViewer", () => {
+  const onEditableCopy = vi.fn();
+  const onExit = vi.fn();
+
+  const renderViewer = (payload = encodePlanForShare(plan)) =>
+    render(<SharedPlanViewer payload={payload} onEditableCopy={onEditableCopy} onExit={onExit} />);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    useLibraryStore.setState({ plans: [] });
+    usePlanStore.getState().resetPlan();
+  });
+
+  it("should render the shared plan read-only", () => {
+    renderViewer();
+
+    expect(screen.getByTestId("canvas-stage")).toHaveAttribute("data-read-only", "true");
+    expect(screen.getByText("Smith Wedding")).toBeInTheDocument();
+    expect(usePlanStore.getState().tables).toEqual(plan.tables);
+  });
+
+  it("should find guests and show where they sit", () => {
+    renderViewer();
+
+    fireEvent.change(screen.getByLabelText("Search guests"), { target: { value: "smith" } });
+
+    const results = screen.getByRole("list", { name: "Guest search results" });
+    expect(within(results).getByText("Alice Smith")).toBeInTheDocument();
+    expect(within(results).getByText("Family · Seat 2")).toBeInTheDocument();
+    expect(within(results).getByText("Carol Smithers")).toBeInTheDocument();
+    expect(within(results).getByText("Not seated")).toBeInTheDocument();
+    expect(within(results).queryByText("Bob Jones")).not.toBeInTheDocument();
+  });
+
+  it("should select the guest's table when a result is clicked", () => {
+    renderViewer();
+
+    fireEvent.change(screen.getByLabelText("Search guests"), { target: { value: "alice" } });
+    fireEvent.click(screen.getByRole("button", { name: /Alice Smith/ }));
+
+    expect(usePlanStore.getState().selectedTableIds).toEqual(["t1"]);
+  });
+
+  it("should report when no guest matches", () => {
+    renderViewer();
+
+    fireEvent.change(screen.getByLabelText("Search guests"), { target: { value: "zed" } });
+
+    expect(screen.getByText('No guests match "zed"')).toBeInTheDocument();
+  });
+
+  it("should save an editable copy to the library", () => {
+    renderViewer();
+
+    fireEvent.click(screen.getByRole("button", { name: "Make an Editable Copy" }));
+
+    const copyId = onEditableCopy.mock.calls[0][0];
+    expect(copyId).not.toBe("plan-1");
+    const stored = readStoredPlan(copyId);
+    expect(stored.status === "ok" && stored.plan.seatAssignments).toEqual(plan.seatAssignments);
+  });
+
+  it("should show an error for damaged links", () => {
+    renderViewer("garbage");
+
+    expect(screen.getByRole("alertdialog")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "OK" }));
+    expect(onExit).toHaveBeenCalledOnce();
+  });
+});
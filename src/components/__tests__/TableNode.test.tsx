@@ -6,6 +6,7 @@ import type { Table } from "../../types";
 
 // Mock getSeatPositions
 vi.mock("../../utils/seatGeometry", () => ({
+  getSeatRadius: vi.fn((scale = 1) => Math.max(12 / scale, 8)),
   getSeatPositions: vi.fn(() => [
     { position: { x: 0, y: -60 }, angle: 0, seatNumber: 1 },
     { position: { x: 42, y: -42 }, angle: Math.PI / 4, seatNumber: 2 },
@@ -156,6 +157,18 @@ describe("TableNode", () => {
         expect(mockOnDragEnd).not.toHaveBeenCalled(); // No drag yet
       }
     });
+
+    it("should be draggable by default", () => {
+      const { container } = renderTableNode();
+      
+      expect(container.querySelector('g')).toHaveAttribute("draggable", "true");
+    });
+
+    it("should not be draggable when isDraggable is false", () => {
+      const { container } = renderTableNode({ isDraggable: false });
+      
+      expect(container.querySelector('g')).toHaveAttribute("draggable", "false");
+    });
   });
 
   describe("table shapes", () => {
@@ -208,4 +221,54 @@ describe("TableNode", () => {
       expect(text).toHaveAttribute('font-size', '10'); // Minimum size
     });
   });
-});
\ No newline at end of file
+
+  describe("seat guests", () => {
+    it("should label occupied seats with the guest's name", () => {
+      const { getByText } = renderTableNode({ seatGuests: new Map([[2, "Alice Smith"]]) });
+      
+      expect(getByText("Alice Smith")).toBeInTheDocument();
+    });
+
+    it("should highlight the drop target seat", () => {
+      const { container } = renderTableNode({ highlightedSeat: 3 });
+      
+      expect(container.querySelectorAll('circle[fill="#22c55e"]')).toHaveLength(1);
+    });
+
+    it("should outline the table and flag seats that break a seating rule", () => {
+      const { container } = renderTableNode({
+        seatGuests: new Map([[2, "Alice Smith"]]),
+        violatedSeats: new Set([2]),
+      });
+      
+      expect(container.querySelectorAll('[stroke="#dc2626"]')).toHaveLength(2);
+    });
+
+    it("should show a lock on locked seats, or one on a locked table", () => {
+      const seatGuests = new Map([[1, "Alice Smith"], [2, "Bob Jones"]]);
+      const lockedSeats = new Set([1, 2]);
+      
+      const { getAllByText, unmount } = renderTableNode({ seatGuests, lockedSeats });
+      expect(getAllByText("🔒")).toHaveLength(2);
+      unmount();
+      
+      expect(renderTableNode({ table: { ...mockTable, locked: true }, seatGuests, lockedSeats }).getAllByText("🔒")).toHaveLength(1);
+    });
+
+    it("should counter-rotate seats since their offsets already include the table rotation", () => {
+      const { container } = renderTableNode({ table: { ...mockTable, rotation: 30 } });
+      
+      expect(container.querySelector('g[transform*="rotate(-30)"]')).toBeInTheDocument();
+    });
+
+    it("should let occupied seats be dragged when enabled", () => {
+      const { container } = renderTableNode({
+        isDraggable: false,
+        areSeatsDraggable: true,
+        seatGuests: new Map([[2, "Alice Smith"]]),
+      });
+      
+      expect(container.querySelectorAll('g[draggable="true"]')).toHaveLength(1);
+    });
+  });
+});
@@ -189,4 +189,93 @@ describe("Toolbar", () => {
       expect(window.getComputedStyle(button).borderRadius).toBe("6px");
     });
   });
-});
\ No newline at end of file
+
+  describe("plan library navigation", () => {
+    it("should not render the plans button without a handler", () => {
+      const { queryByRole } = renderToolbar();
+      
+      expect(queryByRole("button", { name: /all plans/i })).not.toBeInTheDocument();
+    });
+
+    it("should call onOpenLibrary when the plans button is clicked", () => {
+      const onOpenLibrary = vi.fn();
+      const { getByRole } = renderToolbar({ onOpenLibrary });
+      
+      fireEvent.click(getByRole("button", { name: /all plans/i }));
+      
+      expect(onOpenLibrary).toHaveBeenCalledOnce();
+      expect(mockAddTable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sharing", () => {
+    it("should call onShare when the share button is clicked", () => {
+      const onShare = vi.fn();
+      const { getByRole } = renderToolbar({ onShare });
+      
+      fireEvent.click(getByRole("button", { name: /share plan/i }));
+      
+      expect(onShare).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("export", () => {
+    it("should call onExport when the export button is clicked", () => {
+      const onExport = vi.fn();
+      const { getByRole } = renderToolbar({ onExport });
+      
+      fireEvent.click(getByRole("button", { name: /export plan/i }));
+      
+      expect(onExport).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("history", () => {
+    it("should call onOpenHistory when the history button is clicked", () => {
+      const onOpenHistory = vi.fn();
+      const { getByRole } = renderToolbar({ onOpenHistory });
+      
+      fireEvent.click(getByRole("button", { name: /version history/i }));
+      
+      expect(onOpenHistory).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("guests", () => {
+    it("should call onOpenGuests when the guests button is clicked", () => {
+      const onOpenGuests = vi.fn();
+      const { getByRole } = renderToolbar({ onOpenGuests });
+      
+      fireEvent.click(getByRole("button", { name: /guest list/i }));
+      
+      expect(onOpenGuests).toHaveBeenCalledOnce();
+    });
+
+    it("should call onOpenRules when the rules button is clicked", () => {
+      const onOpenRules = vi.fn();
+      const { getByRole } = renderToolbar({ onOpenRules });
+      
+      fireEvent.click(getByRole("button", { name: /seating rules/i }));
+      
+      expect(onOpenRules).toHaveBeenCalledOnce();
+    });
+
+    it("should call onOpenAffinities when the affinities button is clicked", () => {
+      const onOpenAffinities = vi.fn();
+      const { getByRole } = renderToolbar({ onOpenAffinities });
+      
+      fireEvent.click(getByRole("button", { name: /guest affinities/i }));
+      
+      expect(onOpenAffinities).toHaveBeenCalledOnce();
+    });
+
+    it("should call onAutoSeat when the auto-seat button is clicked", () => {
+      const onAutoSeat = vi.fn();
+      const { getByRole } = renderToolbar({ onAutoSeat });
+      
+      fireEvent.click(getByRole("button", { name: /auto-seat/i }));
+      
+      expect(onAutoSeat).toHaveBeenCalledOnce();
+    });
+  });
+});
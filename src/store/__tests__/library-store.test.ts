@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { useLibraryStore } from "../library-store";
+import { readStoredPlan, writeStoredPlan } from "../../utils/planStorage";
+import type { Plan } from "../../types";
+
+const storedPlan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  description: "June 14",
+  tables: [
+    { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+  ],
+  attendees: [
+    { id: "a1", name: "Alice Smith" },
+    { id: "a2", name: "Bob Smith" },
+  ],
+  seatAssignments: [{ tableId: "t1", seatNumber: 1, attendeeId: "a1" }],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+};
+
+describe("useLibraryStore", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useLibraryStore.setState({ plans: [] });
+  });
+
+  it("should list stored plans on refresh", () => {
+    writeStoredPlan(storedPlan);
+
+    useLibraryStore.getState().refresh();
+
+    expect(useLibraryStore.getState().plans).toEqual([
+      {
+        id: "plan-1",
+        name: "Smith Wedding",
+        description: "June 14",
+        tableCount: 1,
+        guestCount: 2,
+        updatedAt: storedPlan.updatedAt,
+      },
+    ]);
+  });
+
+  it("should create and persist an empty plan", () => {
+    const plan = useLibraryStore.getState().createPlan("  Jones Party ", "");
+
+    expect(plan.name).toBe("Jones Party");
+    expect(plan.description).toBeUndefined();
+    expect(readStoredPlan(plan.id)).toEqual({ status: "ok", plan, repairs: [] });
+    expect(useLibraryStore.getState().plans.map((summary) => summary.id)).toEqual([plan.id]);
+  });
+
+  it("should fall back to the default name", () => {
+    const plan = useLibraryStore.getState().createPlan("   ");
+
+    expect(plan.name).toBe("Untitled Plan");
+  });
+
+  it("should rename a plan", () => {
+    writeStoredPlan(storedPlan);
+
+    expect(useLibraryStore.getState().renamePlan("plan-1", "Smith & Jones Wedding")).toBe(true);
+
+    const stored = readStoredPlan("plan-1");
+    expect(stored.status === "ok" && stored.plan.name).toBe("Smith & Jones Wedding");
+    expect(useLibraryStore.getState().plans[0].name).toBe("Smith & Jones Wedding");
+  });
+
+  it("should refuse blank names and unknown plans", () => {
+    writeStoredPlan(storedPlan);
+
+    expect(useLibraryStore.getState().renamePlan("plan-1", "  ")).toBe(false);
+    expect(useLibraryStore.getState().renamePlan("missing", "Name")).toBe(false);
+  });
+
+  it("should duplicate a plan with a new id", () => {
+    writeStoredPlan(storedPlan);
+
+    const copy = useLibraryStore.getState().duplicatePlan("plan-1");
+
+    expect(copy).not.toBeNull();
+    expect(copy!.id).not.toBe("plan-1");
+    expect(copy!.name).toBe("Smith Wedding (copy)");
+    expect(copy!.tables).toEqual(storedPlan.tables);
+    expect(copy!.seatAssignments).toEqual(storedPlan.seatAssignments);
+    expect(useLibraryStore.getState().plans).toHaveLength(2);
+  });
+
+  it("should delete a plan", () => {
+    writeStoredPlan(storedPlan);
+
+    useLibraryStore.getState().deletePlan("plan-1");
+
+    expect(readStoredPlan("plan-1")).toEqual({ status: "missing" });
+    expect(useLibraryStore.getState().plans).toEqual([]);
+  });
+
+  it("should import a plan under a fresh id", () => {
+    writeStoredPlan(storedPlan);
+
+    const imported = useLibraryStore.getState().importPlan(storedPlan);
+
+    expect(imported.id).not.toBe("plan-1");
+    expect(imported.name).toBe("Smith Wedding");
+    expect(readStoredPlan("plan-1")).toEqual({ status: "ok", plan: storedPlan, repairs: [] });
+    expect(useLibraryStore.getState().plans).toHaveLength(2);
+  });
+});
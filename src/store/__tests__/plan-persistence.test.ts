@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { usePlanStore } from "../plan-store";
+import { hydratePlanFromStorage, startPlanAutosave } from "../plan-persistence";
+import { getPlanStorageKey, readStoredPlan, writeStoredPlan } from "../../utils/planStorage";
+import type { Plan } from "../../types";
+
+const storedPlan: Plan = {
+  schemaVersion: 1,
+  id: "stored-plan",
+  name: "Stored Plan",
+  tables: [],
+  attendees: [{ id: "guest-1", name: "Alice Smith" }],
+  seatAssignments: [],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+};
+
+describe("plan persistence", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    usePlanStore.getState().resetPlan();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("hydratePlanFromStorage", () => {
+    it("should load a valid stored plan into the store", () => {
+      writeStoredPlan(storedPlan);
+
+      const result = hydratePlanFromStorage("stored-plan");
+
+      expect(result.status).toBe("ok");
+      expect(usePlanStore.getState().getPlan()).toEqual(storedPlan);
+    });
+
+    it("should leave the store untouched when the payload is corrupt", () => {
+      const before = usePlanStore.getState().getPlan();
+      localStorage.setItem(getPlanStorageKey("stored-plan"), "{broken");
+
+      const result = hydratePlanFromStorage("stored-plan");
+
+      expect(result.status).toBe("corrupt");
+      expect(usePlanStore.getState().getPlan()).toEqual(before);
+    });
+
+    it("should report what was repaired in a stored plan with broken entries", () => {
+      writeStoredPlan({ ...storedPlan, seatAssignments: [{ tableId: "gone", seatNumber: 1, attendeeId: "guest-1" }] });
+
+      const result = hydratePlanFromStorage("stored-plan");
+
+      expect(result).toEqual({
+        status: "ok",
+        plan: storedPlan,
+        repairs: ["seatAssignments[0].tableId must refer to an existing table"],
+      });
+      expect(usePlanStore.getState().seatAssignments).toEqual([]);
+    });
+
+    it("should report plans that don't exist", () => {
+      expect(hydratePlanFromStorage("unknown")).toEqual({ status: "missing" });
+    });
+  });
+
+  describe("startPlanAutosave", () => {
+    it("should debounce writes after plan changes", () => {
+      const stop = startPlanAutosave({ delay: 500 });
+
+      usePlanStore.getState().addTable({ x: 0, y: 0 });
+      usePlanStore.getState().addTable({ x: 40, y: 0 });
+      const planId = usePlanStore.getState().planId;
+      vi.advanceTimersByTime(499);
+      expect(localStorage.getItem(getPlanStorageKey(planId))).toBeNull();
+
+      vi.advanceTimersByTime(1);
+
+      const result = readStoredPlan(planId);
+      expect(result.status).toBe("ok");
+      if (result.status === "ok") {
+        expect(result.plan.tables).toHaveLength(2);
+      }
+      stop();
+    });
+
+    it("should write when only a custom field changes", () => {
+      usePlanStore.getState().loadPlan(storedPlan);
+      const stop = startPlanAutosave({ delay: 500 });
+
+      usePlanStore.getState().addCustomField({ name: "Side", type: "text" });
+      vi.advanceTimersByTime(500);
+
+      const result = readStoredPlan("stored-plan");
+      expect(result.status).toBe("ok");
+      if (result.status === "ok") {
+        expect(result.plan.customFields).toEqual([{ id: expect.any(String), name: "Side", type: "text" }]);
+      }
+      stop();
+    });
+
+    it("should write when only a seating rule changes", () => {
+      usePlanStore.getState().loadPlan({ ...storedPlan, attendees: [...storedPlan.attendees, { id: "guest-2", name: "Bob Jones" }] });
+      const stop = startPlanAutosave({ delay: 500 });
+
+      usePlanStore.getState().addConstraint({ type: "apart", attendeeIds: ["guest-1", "guest-2"] });
+      vi.advanceTimersByTime(500);
+
+      const result = readStoredPlan("stored-plan");
+      expect(result.status).toBe("ok");
+      if (result.status === "ok") {
+        expect(result.plan.constraints).toEqual([{ id: expect.any(String), type: "apart", attendeeIds: ["guest-1", "guest-2"] }]);
+      }
+      stop();
+    });
+
+    it("should write when only an affinity changes", () => {
+      usePlanStore.getState().loadPlan({ ...storedPlan, attendees: [...storedPlan.attendees, { id: "guest-2", name: "Bob Jones" }] });
+      const stop = startPlanAutosave({ delay: 500 });
+
+      usePlanStore.getState().setAffinity(["guest-1", "guest-2"], 2);
+      vi.advanceTimersByTime(500);
+
+      const result = readStoredPlan("stored-plan");
+      expect(result.status).toBe("ok");
+      if (result.status === "ok") {
+        expect(result.plan.affinities).toEqual([{ attendeeIds: ["guest-1", "guest-2"], weight: 2 }]);
+      }
+      stop();
+    });
+
+    it("should not write for selection-only changes", () => {
+      const stop = startPlanAutosave({ delay: 500 });
+
+      usePlanStore.getState().selectTable("table-1");
+      vi.advanceTimersByTime(1000);
+
+      expect(localStorage.getItem(getPlanStorageKey(usePlanStore.getState().planId))).toBeNull();
+      stop();
+    });
+
+    it("should flush a pending write when stopped", () => {
+      const stop = startPlanAutosave({ delay: 500 });
+
+      usePlanStore.getState().addTable();
+      stop();
+
+      expect(localStorage.getItem(getPlanStorageKey(usePlanStore.getState().planId))).not.toBeNull();
+    });
+  });
+});
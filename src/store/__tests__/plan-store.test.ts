@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { renderHook, act } from "@testing-library/react";
-import { usePlanStore } from "../plan-store";
+import { nanoid } from "nanoid";
+import { usePlanStore, HISTORY_COALESCE_MS, MAX_HISTORY_ENTRIES } from "../plan-store";
 
 // Mock nanoid to have predictable IDs
 vi.mock("nanoid", () => ({
@@ -12,6 +13,7 @@ describe("usePlanStore", () => {
     // Reset store state before each test
     usePlanStore.getState().tables.splice(0);
     usePlanStore.getState().selectedTableIds.splice(0);
+    usePlanStore.getState().resetPlan();
   });
 
   describe("initial state", () => {
@@ -199,4 +201,877 @@ describe("usePlanStore", () => {
       expect(nextName).toBe("Table 6"); // Should be max + 1
     });
   });
-});
\ No newline at end of file
+
+  describe("whole-plan management", () => {
+    const plan = {
+      schemaVersion: 1 as const,
+      id: "plan-1",
+      name: "Summer Wedding",
+      description: "Garden reception",
+      tables: [
+        { id: "t1", name: "Head Table", shape: "rect" as const, position: { x: 0, y: 0 }, seatCount: 10, rotation: 0, size: { width: 160, height: 80 } },
+      ],
+      attendees: [{ id: "a1", name: "Alice Smith" }],
+      seatAssignments: [{ tableId: "t1", seatNumber: 1, attendeeId: "a1" }],
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+      updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+    };
+
+    it("should load a plan and return it from getPlan", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        result.current.selectTable("t1");
+        result.current.loadPlan(plan);
+      });
+      
+      expect(result.current.getPlan()).toEqual(plan);
+      expect(result.current.selectedTableIds).toEqual([]);
+    });
+
+    it("should bump updatedAt when the plan changes", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        result.current.loadPlan(plan);
+      });
+      
+      act(() => {
+        result.current.updateTable("t1", { name: "Family" });
+      });
+      
+      expect(result.current.updatedAt.getTime()).toBeGreaterThan(plan.updatedAt.getTime());
+      expect(result.current.createdAt).toEqual(plan.createdAt);
+    });
+
+    it("should reset to an empty plan", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        result.current.loadPlan(plan);
+        result.current.resetPlan();
+      });
+      
+      expect(result.current.planId).not.toBe("plan-1");
+      expect(result.current.tables).toEqual([]);
+      expect(result.current.attendees).toEqual([]);
+      expect(result.current.seatAssignments).toEqual([]);
+    });
+  });
+
+  describe("attendee management", () => {
+    it("should add a trimmed attendee and drop blank optional fields", () => {
+      const result = usePlanStore.getState().addAttendee({ name: "  Alice Smith ", email: " ", notes: "Vegetarian" });
+      
+      expect(result).toEqual({ success: true, attendee: { id: "test-id-123", name: "Alice Smith", notes: "Vegetarian" } });
+      expect(usePlanStore.getState().attendees).toEqual([{ id: "test-id-123", name: "Alice Smith", notes: "Vegetarian" }]);
+      expect(usePlanStore.getState().past).toHaveLength(1);
+    });
+    
+    it("should reject invalid attendees without changing the plan", () => {
+      const result = usePlanStore.getState().addAttendee({ name: "Bob", email: "not-an-email" });
+      
+      expect(result).toEqual({ success: false, error: "email must be a valid email address" });
+      expect(usePlanStore.getState().addAttendee({ name: "   " })).toEqual({ success: false, error: "name must not be empty" });
+      expect(usePlanStore.getState().attendees).toEqual([]);
+      expect(usePlanStore.getState().past).toHaveLength(0);
+    });
+    
+    it("should update an attendee and validate the merged result", () => {
+      usePlanStore.getState().addAttendee({ name: "Alice" });
+      
+      expect(usePlanStore.getState().updateAttendee("test-id-123", { email: "alice@example.com" }).success).toBe(true);
+      expect(usePlanStore.getState().attendees[0]).toEqual({ id: "test-id-123", name: "Alice", email: "alice@example.com" });
+      
+      expect(usePlanStore.getState().updateAttendee("test-id-123", { name: "" }).success).toBe(false);
+      expect(usePlanStore.getState().updateAttendee("missing", { name: "Bob" })).toEqual({ success: false, error: "Guest not found" });
+      expect(usePlanStore.getState().attendees[0].name).toBe("Alice");
+    });
+    
+    it("should delete attendees along with their seat assignments", () => {
+      vi.mocked(nanoid).mockReturnValueOnce("g1").mockReturnValueOnce("g2").mockReturnValueOnce("g3");
+      const { addAttendee } = usePlanStore.getState();
+      addAttendee({ name: "Alice" });
+      addAttendee({ name: "Bob" });
+      addAttendee({ name: "Carol" });
+      usePlanStore.setState({
+        seatAssignments: [
+          { tableId: "t1", seatNumber: 1, attendeeId: "g1" },
+          { tableId: "t1", seatNumber: 2, attendeeId: "g2" },
+          { tableId: "t1", seatNumber: 3, attendeeId: "g3" },
+        ],
+      });
+      
+      usePlanStore.getState().deleteAttendees(["g1", "g3"]);
+      
+      expect(usePlanStore.getState().attendees.map((a) => a.id)).toEqual(["g2"]);
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 2, attendeeId: "g2" }]);
+      
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().attendees).toHaveLength(3);
+      expect(usePlanStore.getState().seatAssignments).toHaveLength(3);
+    });
+    
+    it("should import new and updated attendees as one undo step", () => {
+      vi.mocked(nanoid).mockReturnValueOnce("g1").mockReturnValueOnce("g2");
+      usePlanStore.getState().addAttendee({ name: "Alice" });
+      
+      const { added } = usePlanStore.getState().importAttendees(
+        [{ name: "Bob" }],
+        [{ id: "g1", name: "Alice", email: "alice@example.com" }]
+      );
+      
+      expect(added).toEqual([{ id: "g2", name: "Bob" }]);
+      expect(usePlanStore.getState().attendees).toEqual([
+        { id: "g1", name: "Alice", email: "alice@example.com" },
+        { id: "g2", name: "Bob" },
+      ]);
+      expect(usePlanStore.getState().past).toHaveLength(2);
+      
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().attendees).toEqual([{ id: "g1", name: "Alice" }]);
+    });
+    
+    it("should not record history when deleting unknown attendees", () => {
+      usePlanStore.getState().deleteAttendee("missing");
+      
+      expect(usePlanStore.getState().past).toHaveLength(0);
+    });
+  });
+
+  describe("custom fields", () => {
+    beforeEach(() => {
+      vi.mocked(nanoid).mockReturnValueOnce("side").mockReturnValueOnce("g1").mockReturnValueOnce("g2");
+      usePlanStore.getState().addCustomField({ name: "Side", type: "select", options: ["Bride", "Groom"] });
+      usePlanStore.getState().addAttendee({ name: "Alice", fields: { side: "Bride" } });
+      usePlanStore.getState().addAttendee({ name: "Bob", fields: { side: "Groom", other: "kept" } });
+    });
+    
+    it("should add a field and include it in the saved plan", () => {
+      expect(usePlanStore.getState().customFields).toEqual([{ id: "side", name: "Side", type: "select", options: ["Bride", "Groom"] }]);
+      expect(usePlanStore.getState().getPlan().customFields).toEqual(usePlanStore.getState().customFields);
+      expect(usePlanStore.getState().addCustomField({ name: "side", type: "text" })).toEqual({
+        success: false,
+        error: "name is already used by another field",
+      });
+    });
+    
+    it("should leave customFields out of plans without any", () => {
+      usePlanStore.getState().resetPlan();
+      
+      expect(usePlanStore.getState().getPlan().customFields).toBeUndefined();
+    });
+    
+    it("should clear values for choices that were removed", () => {
+      usePlanStore.getState().updateCustomField("side", { options: ["Bride", "Both"] });
+      
+      expect(usePlanStore.getState().attendees.map((a) => a.fields)).toEqual([{ side: "Bride" }, { other: "kept" }]);
+    });
+    
+    it("should clear every value when the type changes", () => {
+      usePlanStore.getState().updateCustomField("side", { type: "text" });
+      
+      expect(usePlanStore.getState().customFields[0]).toEqual({ id: "side", name: "Side", type: "text" });
+      expect(usePlanStore.getState().attendees.map((a) => a.fields)).toEqual([undefined, { other: "kept" }]);
+    });
+    
+    it("should strip a deleted field's values and undo in one step", () => {
+      usePlanStore.getState().deleteCustomField("side");
+      
+      expect(usePlanStore.getState().customFields).toEqual([]);
+      expect(usePlanStore.getState().attendees.map((a) => a.fields)).toEqual([undefined, { other: "kept" }]);
+      
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().customFields).toHaveLength(1);
+      expect(usePlanStore.getState().attendees[0].fields).toEqual({ side: "Bride" });
+    });
+  });
+
+  describe("seating rules", () => {
+    const table = { id: "t1", name: "Table 1", shape: "round" as const, position: { x: 0, y: 0 }, seatCount: 4, rotation: 0, size: { width: 120, height: 120 } };
+    
+    beforeEach(() => {
+      vi.mocked(nanoid).mockReturnValueOnce("g1").mockReturnValueOnce("g2").mockReturnValueOnce("g3");
+      const { addAttendee } = usePlanStore.getState();
+      addAttendee({ name: "Alice" });
+      addAttendee({ name: "Bob" });
+      addAttendee({ name: "Carol" });
+      usePlanStore.setState({ tables: [table] });
+    });
+    
+    it("should add, update and delete rules as undo steps", () => {
+      vi.mocked(nanoid).mockReturnValueOnce("r1");
+      const added = usePlanStore.getState().addConstraint({ type: "apart", attendeeIds: ["g1", "g2"] });
+      
+      expect(added).toEqual({ success: true, constraint: { id: "r1", type: "apart", attendeeIds: ["g1", "g2"] } });
+      expect(usePlanStore.getState().getPlan().constraints).toEqual([{ id: "r1", type: "apart", attendeeIds: ["g1", "g2"] }]);
+      
+      expect(usePlanStore.getState().updateConstraint("r1", { type: "near" })).toEqual({ success: false, error: "choose a table" });
+      usePlanStore.getState().updateConstraint("r1", { type: "near", tableId: "t1" });
+      expect(usePlanStore.getState().constraints).toEqual([{ id: "r1", type: "near", attendeeIds: ["g1", "g2"], tableId: "t1" }]);
+      
+      usePlanStore.getState().deleteConstraint("r1");
+      expect(usePlanStore.getState().constraints).toEqual([]);
+      expect(usePlanStore.getState().getPlan().constraints).toBeUndefined();
+      
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().constraints).toHaveLength(1);
+    });
+    
+    it("should drop deleted guests from rules and rules left without enough guests", () => {
+      usePlanStore.setState({
+        constraints: [
+          { id: "r1", type: "apart", attendeeIds: ["g1", "g2", "g3"] },
+          { id: "r2", type: "adjacent", attendeeIds: ["g1", "g3"] },
+        ],
+      });
+      
+      usePlanStore.getState().deleteAttendee("g3");
+      
+      expect(usePlanStore.getState().constraints).toEqual([{ id: "r1", type: "apart", attendeeIds: ["g1", "g2"] }]);
+    });
+    
+    it("should drop near and far rules for a deleted table", () => {
+      usePlanStore.setState({
+        constraints: [
+          { id: "r1", type: "far", attendeeIds: ["g1"], tableId: "t1" },
+          { id: "r2", type: "together", attendeeIds: ["g1", "g2"] },
+        ],
+      });
+      
+      usePlanStore.getState().deleteTable("t1");
+      
+      expect(usePlanStore.getState().constraints.map((constraint) => constraint.id)).toEqual(["r2"]);
+    });
+  });
+
+  describe("affinities", () => {
+    beforeEach(() => {
+      vi.mocked(nanoid).mockReturnValueOnce("g1").mockReturnValueOnce("g2").mockReturnValueOnce("g3");
+      const { addAttendee } = usePlanStore.getState();
+      addAttendee({ name: "Alice" });
+      addAttendee({ name: "Bob" });
+      addAttendee({ name: "Carol" });
+    });
+    
+    it("should set, replace and remove a pair as undo steps", () => {
+      expect(usePlanStore.getState().setAffinity(["g1", "g2"], 2)).toEqual({ success: true, affinity: { attendeeIds: ["g1", "g2"], weight: 2 } });
+      usePlanStore.getState().setAffinity(["g2", "g1"], -1);
+      expect(usePlanStore.getState().getPlan().affinities).toEqual([{ attendeeIds: ["g2", "g1"], weight: -1 }]);
+      
+      usePlanStore.getState().setAffinity(["g1", "g2"], 0);
+      expect(usePlanStore.getState().affinities).toEqual([]);
+      expect(usePlanStore.getState().getPlan().affinities).toBeUndefined();
+      
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().affinities).toEqual([{ attendeeIds: ["g2", "g1"], weight: -1 }]);
+    });
+    
+    it("should refuse a guest paired with themselves", () => {
+      const past = usePlanStore.getState().past.length;
+      
+      expect(usePlanStore.getState().setAffinity(["g1", "g1"], 1)).toEqual({ success: false, error: "choose two different guests" });
+      expect(usePlanStore.getState().past).toHaveLength(past);
+    });
+    
+    it("should drop pairs with a deleted guest", () => {
+      usePlanStore.getState().setAffinity(["g1", "g2"], 1);
+      usePlanStore.getState().setAffinity(["g1", "g3"], -2);
+      
+      usePlanStore.getState().deleteAttendee("g3");
+      
+      expect(usePlanStore.getState().affinities).toEqual([{ attendeeIds: ["g1", "g2"], weight: 1 }]);
+    });
+  });
+
+  describe("seating", () => {
+    const table = { id: "t1", name: "Table 1", shape: "round" as const, position: { x: 0, y: 0 }, seatCount: 4, rotation: 0, size: { width: 120, height: 120 } };
+    
+    beforeEach(() => {
+      usePlanStore.getState().loadPlan({
+        schemaVersion: 1,
+        id: "plan-1",
+        name: "Wedding",
+        tables: [table],
+        attendees: [{ id: "g1", name: "Alice" }, { id: "g2", name: "Bob" }],
+        seatAssignments: [],
+        createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+      });
+    });
+    
+    it("should assign a guest to a seat as an undoable step", () => {
+      expect(usePlanStore.getState().assignSeat("g1", "t1", 2)).toBe(true);
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 2, attendeeId: "g1" }]);
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().seatAssignments).toEqual([]);
+    });
+    
+    it("should move a guest out of their previous seat and replace the seat's occupant", () => {
+      const { assignSeat } = usePlanStore.getState();
+      assignSeat("g1", "t1", 1);
+      assignSeat("g2", "t1", 2);
+      
+      assignSeat("g1", "t1", 2);
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 2, attendeeId: "g1" }]);
+    });
+    
+    it("should reject unknown guests, tables and seats", () => {
+      const { assignSeat } = usePlanStore.getState();
+      
+      expect(assignSeat("missing", "t1", 1)).toBe(false);
+      expect(assignSeat("g1", "missing", 1)).toBe(false);
+      expect(assignSeat("g1", "t1", 5)).toBe(false);
+      expect(assignSeat("g1", "t1", 0)).toBe(false);
+      expect(usePlanStore.getState().past).toHaveLength(0);
+    });
+    
+    it("should not record history when the guest already has that seat", () => {
+      usePlanStore.getState().assignSeat("g1", "t1", 1);
+      usePlanStore.getState().assignSeat("g1", "t1", 1);
+      
+      expect(usePlanStore.getState().past).toHaveLength(1);
+    });
+    
+    it("should move a seated guest to an empty seat", () => {
+      usePlanStore.getState().assignSeat("g1", "t1", 1);
+      
+      expect(usePlanStore.getState().moveGuest({ tableId: "t1", seatNumber: 1 }, { tableId: "t1", seatNumber: 3 })).toBe(true);
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 3, attendeeId: "g1" }]);
+    });
+    
+    it("should swap guests when the target seat is occupied, as one undo step", () => {
+      const { assignSeat } = usePlanStore.getState();
+      assignSeat("g1", "t1", 1);
+      assignSeat("g2", "t1", 2);
+      
+      usePlanStore.getState().moveGuest({ tableId: "t1", seatNumber: 1 }, { tableId: "t1", seatNumber: 2 });
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([
+        { tableId: "t1", seatNumber: 1, attendeeId: "g2" },
+        { tableId: "t1", seatNumber: 2, attendeeId: "g1" },
+      ]);
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().seatAssignments).toEqual([
+        { tableId: "t1", seatNumber: 1, attendeeId: "g1" },
+        { tableId: "t1", seatNumber: 2, attendeeId: "g2" },
+      ]);
+    });
+    
+    it("should move a guest to another table", () => {
+      usePlanStore.getState().loadPlan({
+        ...usePlanStore.getState().getPlan(),
+        tables: [table, { ...table, id: "t2", name: "Table 2" }],
+        seatAssignments: [{ tableId: "t1", seatNumber: 1, attendeeId: "g1" }],
+      });
+      
+      usePlanStore.getState().moveGuest({ tableId: "t1", seatNumber: 1 }, { tableId: "t2", seatNumber: 4 });
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t2", seatNumber: 4, attendeeId: "g1" }]);
+    });
+    
+    it("should reject moves from empty seats or to missing seats", () => {
+      const { assignSeat, moveGuest } = usePlanStore.getState();
+      assignSeat("g1", "t1", 1);
+      
+      expect(moveGuest({ tableId: "t1", seatNumber: 2 }, { tableId: "t1", seatNumber: 3 })).toBe(false);
+      expect(moveGuest({ tableId: "t1", seatNumber: 1 }, { tableId: "missing", seatNumber: 1 })).toBe(false);
+      expect(moveGuest({ tableId: "t1", seatNumber: 1 }, { tableId: "t1", seatNumber: 5 })).toBe(false);
+      expect(usePlanStore.getState().past).toHaveLength(1);
+    });
+    
+    it("should seat a party in consecutive free seats as one undo step", () => {
+      usePlanStore.getState().loadPlan({
+        ...usePlanStore.getState().getPlan(),
+        tables: [table],
+        attendees: [{ id: "g1", name: "Alice" }, { id: "g2", name: "Bob" }, { id: "g3", name: "Carol" }],
+        seatAssignments: [{ tableId: "t1", seatNumber: 4, attendeeId: "g3" }],
+      });
+      
+      expect(usePlanStore.getState().seatParty(["g1", "g2"], "t1", 3)).toBe(true);
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([
+        { tableId: "t1", seatNumber: 4, attendeeId: "g3" },
+        { tableId: "t1", seatNumber: 3, attendeeId: "g1" },
+        { tableId: "t1", seatNumber: 1, attendeeId: "g2" },
+      ]);
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 4, attendeeId: "g3" }]);
+    });
+    
+    it("should reuse seats the party already holds", () => {
+      const { assignSeat } = usePlanStore.getState();
+      assignSeat("g1", "t1", 2);
+      assignSeat("g2", "t1", 3);
+      
+      usePlanStore.getState().seatParty(["g1", "g2"], "t1", 3);
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([
+        { tableId: "t1", seatNumber: 3, attendeeId: "g1" },
+        { tableId: "t1", seatNumber: 4, attendeeId: "g2" },
+      ]);
+    });
+    
+    it("should refuse a party the table has no room for", () => {
+      usePlanStore.getState().loadPlan({
+        ...usePlanStore.getState().getPlan(),
+        tables: [{ ...table, seatCount: 1 }],
+      });
+      
+      expect(usePlanStore.getState().seatParty(["g1", "g2"], "t1", 1)).toBe(false);
+      expect(usePlanStore.getState().seatAssignments).toEqual([]);
+      expect(usePlanStore.getState().past).toHaveLength(0);
+    });
+    
+    it("should add a plus-one in the host's party, named after the host", () => {
+      usePlanStore.getState().updateAttendee("g1", { party: "Smiths" });
+      
+      const result = usePlanStore.getState().addPlusOne("g1");
+      
+      expect(result).toEqual({ success: true, attendee: expect.objectContaining({ name: "Guest of Alice", party: "Smiths", hostId: "g1" }) });
+      expect(usePlanStore.getState().attendees).toHaveLength(3);
+      if (!result.success) return;
+      expect(usePlanStore.getState().addPlusOne(result.attendee.id)).toEqual({ success: false, error: "A plus-one can't bring a plus-one" });
+    });
+    
+    it("should rename unnamed plus-ones with their host", () => {
+      const result = usePlanStore.getState().addPlusOne("g1");
+      if (!result.success) throw new Error(result.error);
+      
+      usePlanStore.getState().updateAttendee("g1", { name: "Alicia" });
+      
+      expect(usePlanStore.getState().attendees.find((a) => a.id === result.attendee.id)?.name).toBe("Guest of Alicia");
+    });
+    
+    it("should turn a named plus-one into a regular guest who keeps their seat", () => {
+      const result = usePlanStore.getState().addPlusOne("g1");
+      if (!result.success) throw new Error(result.error);
+      usePlanStore.getState().assignSeat(result.attendee.id, "t1", 2);
+      
+      usePlanStore.getState().updateAttendee(result.attendee.id, { name: "Dan" });
+      
+      const guest = usePlanStore.getState().attendees.find((a) => a.id === result.attendee.id);
+      expect(guest?.name).toBe("Dan");
+      expect(guest?.hostId).toBeUndefined();
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 2, attendeeId: result.attendee.id }]);
+      usePlanStore.getState().updateAttendee("g1", { name: "Alicia" });
+      expect(usePlanStore.getState().attendees.find((a) => a.id === result.attendee.id)?.name).toBe("Dan");
+    });
+    
+    it("should delete unnamed plus-ones along with their host", () => {
+      const result = usePlanStore.getState().addPlusOne("g1");
+      if (!result.success) throw new Error(result.error);
+      usePlanStore.getState().assignSeat(result.attendee.id, "t1", 2);
+      
+      usePlanStore.getState().deleteAttendee("g1");
+      
+      expect(usePlanStore.getState().attendees.map((a) => a.id)).toEqual(["g2"]);
+      expect(usePlanStore.getState().seatAssignments).toEqual([]);
+    });
+    
+    it("should not seat guests who declined", () => {
+      usePlanStore.getState().updateAttendee("g2", { rsvp: "declined" });
+      
+      expect(usePlanStore.getState().assignSeat("g2", "t1", 1)).toBe(false);
+      expect(usePlanStore.getState().seatParty(["g1", "g2"], "t1", 1)).toBe(true);
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 1, attendeeId: "g1" }]);
+    });
+    
+    it("should free a guest's seat when they decline, in the same undo step", () => {
+      const { assignSeat } = usePlanStore.getState();
+      assignSeat("g1", "t1", 1);
+      assignSeat("g2", "t1", 2);
+      
+      usePlanStore.getState().updateAttendee("g2", { rsvp: "declined" });
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 1, attendeeId: "g1" }]);
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().seatAssignments).toHaveLength(2);
+      expect(usePlanStore.getState().attendees[1].rsvp).toBeUndefined();
+    });
+    
+    it("should free the seats of guests an import marks as declined", () => {
+      usePlanStore.getState().assignSeat("g1", "t1", 1);
+      
+      usePlanStore.getState().importAttendees([], [{ id: "g1", name: "Alice", rsvp: "declined" }]);
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([]);
+    });
+    
+    it("should skip import updates that would decline guests locked in place", () => {
+      usePlanStore.getState().assignSeat("g1", "t1", 1);
+      usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 1 }, true);
+      
+      const { locked } = usePlanStore.getState().importAttendees(
+        [],
+        [
+          { id: "g1", name: "Alice", rsvp: "declined" },
+          { id: "g2", name: "Bob", rsvp: "declined" },
+        ]
+      );
+      
+      expect(locked.map((guest) => guest.id)).toEqual(["g1"]);
+      expect(usePlanStore.getState().attendees.map((guest) => guest.rsvp)).toEqual([undefined, "declined"]);
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 1, attendeeId: "g1", locked: true }]);
+    });
+    
+    it("should unseat guests at a deleted table and restore them on undo", () => {
+      const { assignSeat } = usePlanStore.getState();
+      assignSeat("g1", "t1", 1);
+      assignSeat("g2", "t1", 4);
+      
+      const { deleted, displaced } = usePlanStore.getState().deleteTable("t1");
+      
+      expect(deleted).toBe(true);
+      expect(displaced.map((guest) => guest.name)).toEqual(["Alice", "Bob"]);
+      expect(usePlanStore.getState().seatAssignments).toEqual([]);
+      expect(usePlanStore.getState().attendees).toHaveLength(2);
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().seatAssignments).toHaveLength(2);
+    });
+    
+    it("should unseat guests in seats removed by lowering the seat count", () => {
+      const { assignSeat } = usePlanStore.getState();
+      assignSeat("g1", "t1", 1);
+      assignSeat("g2", "t1", 4);
+      
+      const { displaced } = usePlanStore.getState().updateTable("t1", { seatCount: 3 });
+      
+      expect(displaced).toEqual([{ id: "g2", name: "Bob" }]);
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 1, attendeeId: "g1" }]);
+    });
+    
+    it("should leave seat assignments untouched by other table edits", () => {
+      usePlanStore.getState().assignSeat("g1", "t1", 4);
+      const { seatAssignments } = usePlanStore.getState();
+      
+      expect(usePlanStore.getState().updateTable("t1", { name: "Head Table", seatCount: 6 })).toEqual({ displaced: [], locked: [] });
+      expect(usePlanStore.getState().seatAssignments).toBe(seatAssignments);
+    });
+    
+    it("should not record history when dropped back on the same seat", () => {
+      usePlanStore.getState().assignSeat("g1", "t1", 1);
+      
+      expect(usePlanStore.getState().moveGuest({ tableId: "t1", seatNumber: 1 }, { tableId: "t1", seatNumber: 1 })).toBe(true);
+      expect(usePlanStore.getState().past).toHaveLength(1);
+    });
+    
+    it("should apply auto-seat placements as one undo step, skipping stale ones", () => {
+      usePlanStore.getState().assignSeat("g2", "t1", 1);
+      
+      const seated = usePlanStore.getState().applyAutoSeat([
+        { tableId: "t1", seatNumber: 2, attendeeId: "g1" },
+        { tableId: "t1", seatNumber: 3, attendeeId: "g2" },
+        { tableId: "t1", seatNumber: 9, attendeeId: "g3" },
+      ]);
+      
+      expect(seated.map((guest) => guest.name)).toEqual(["Alice"]);
+      expect(usePlanStore.getState().seatAssignments).toEqual([
+        { tableId: "t1", seatNumber: 1, attendeeId: "g2" },
+        { tableId: "t1", seatNumber: 2, attendeeId: "g1" },
+      ]);
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().seatAssignments).toEqual([{ tableId: "t1", seatNumber: 1, attendeeId: "g2" }]);
+    });
+    
+    it("should not auto-seat anyone at a locked table", () => {
+      usePlanStore.getState().updateTable("t1", { locked: true });
+      
+      expect(usePlanStore.getState().applyAutoSeat([{ tableId: "t1", seatNumber: 1, attendeeId: "g1" }])).toEqual([]);
+      expect(usePlanStore.getState().seatAssignments).toEqual([]);
+    });
+    
+    it("should not auto-seat anyone into a taken seat", () => {
+      usePlanStore.getState().assignSeat("g2", "t1", 1);
+      
+      expect(usePlanStore.getState().applyAutoSeat([{ tableId: "t1", seatNumber: 1, attendeeId: "g1" }])).toEqual([]);
+      expect(usePlanStore.getState().past).toHaveLength(1);
+    });
+  });
+
+  describe("locks", () => {
+    const table = { id: "t1", name: "Table 1", shape: "round" as const, position: { x: 0, y: 0 }, seatCount: 4, rotation: 0, size: { width: 120, height: 120 } };
+    
+    beforeEach(() => {
+      usePlanStore.getState().loadPlan({
+        schemaVersion: 1,
+        id: "plan-1",
+        name: "Wedding",
+        tables: [table, { ...table, id: "t2", name: "Table 2" }],
+        attendees: [
+          { id: "g1", name: "Alice", party: "Smith" },
+          { id: "g2", name: "Bob", party: "Smith" },
+        ],
+        seatAssignments: [
+          { tableId: "t1", seatNumber: 1, attendeeId: "g1" },
+          { tableId: "t1", seatNumber: 2, attendeeId: "g2" },
+        ],
+        createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+      });
+    });
+    
+    it("should lock and unlock a guest in their seat as undoable steps", () => {
+      expect(usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 1 }, true)).toBe(true);
+      expect(usePlanStore.getState().seatAssignments[0]).toEqual({ tableId: "t1", seatNumber: 1, attendeeId: "g1", locked: true });
+      
+      usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 1 }, false);
+      expect(usePlanStore.getState().seatAssignments[0]).toStrictEqual({ tableId: "t1", seatNumber: 1, attendeeId: "g1" });
+      usePlanStore.getState().undo();
+      expect(usePlanStore.getState().seatAssignments[0].locked).toBe(true);
+    });
+    
+    it("should not lock an empty seat", () => {
+      expect(usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 3 }, true)).toBe(false);
+      expect(usePlanStore.getState().past).toHaveLength(0);
+    });
+    
+    it("should carry a lock along when the guest is moved by hand", () => {
+      usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 1 }, true);
+      
+      usePlanStore.getState().moveGuest({ tableId: "t1", seatNumber: 1 }, { tableId: "t1", seatNumber: 2 });
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([
+        { tableId: "t1", seatNumber: 1, attendeeId: "g2" },
+        { tableId: "t1", seatNumber: 2, attendeeId: "g1", locked: true },
+      ]);
+      expect(usePlanStore.getState().seatAssignments[0]).not.toHaveProperty("locked");
+    });
+    
+    it("should not move a guest locked in place out of the way by hand", () => {
+      usePlanStore.getState().addAttendee({ name: "Carol" });
+      const carolId = usePlanStore.getState().attendees[2].id;
+      usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 2 }, true);
+      const { seatAssignments } = usePlanStore.getState();
+      
+      expect(usePlanStore.getState().assignSeat(carolId, "t1", 2)).toBe(false);
+      expect(usePlanStore.getState().moveGuest({ tableId: "t1", seatNumber: 1 }, { tableId: "t1", seatNumber: 2 })).toBe(false);
+      expect(usePlanStore.getState().seatAssignments).toBe(seatAssignments);
+    });
+    
+    it("should not seat anyone at, or move anyone from, a locked table", () => {
+      usePlanStore.getState().addAttendee({ name: "Carol" });
+      const carolId = usePlanStore.getState().attendees[2].id;
+      usePlanStore.getState().updateTable("t1", { locked: true });
+      const { seatAssignments } = usePlanStore.getState();
+      
+      expect(usePlanStore.getState().assignSeat(carolId, "t1", 3)).toBe(false);
+      expect(usePlanStore.getState().assignSeat("g1", "t2", 1)).toBe(false);
+      expect(usePlanStore.getState().moveGuest({ tableId: "t1", seatNumber: 1 }, { tableId: "t2", seatNumber: 1 })).toBe(false);
+      expect(usePlanStore.getState().seatAssignments).toBe(seatAssignments);
+      
+      expect(usePlanStore.getState().assignSeat(carolId, "t2", 1)).toBe(true);
+    });
+    
+    it("should keep seats of guests locked in place when the seat count is lowered", () => {
+      usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 2 }, true);
+      
+      expect(usePlanStore.getState().updateTable("t1", { seatCount: 1 })).toEqual({ displaced: [], locked: [{ id: "g2", name: "Bob", party: "Smith" }] });
+      expect(usePlanStore.getState().tables[0].seatCount).toBe(2);
+      expect(usePlanStore.getState().seatAssignments).toHaveLength(2);
+      
+      usePlanStore.getState().updateTable("t1", { locked: true });
+      usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 2 }, false);
+      usePlanStore.getState().updateTable("t2", { seatCount: 1 });
+      expect(usePlanStore.getState().updateTable("t1", { seatCount: 1 }).locked.map((guest) => guest.id)).toEqual(["g2"]);
+      expect(usePlanStore.getState().tables.map((table) => table.seatCount)).toEqual([2, 1]);
+    });
+    
+    it("should not seat a party at a locked table", () => {
+      usePlanStore.getState().updateTable("t2", { locked: true });
+      const { seatAssignments } = usePlanStore.getState();
+      
+      expect(usePlanStore.getState().seatParty(["g1", "g2"], "t2", 1)).toBe(false);
+      expect(usePlanStore.getState().seatAssignments).toBe(seatAssignments);
+    });
+    
+    it("should leave party members locked in their seats behind", () => {
+      usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 1 }, true);
+      
+      expect(usePlanStore.getState().seatParty(["g1", "g2"], "t2", 1)).toBe(true);
+      
+      expect(usePlanStore.getState().seatAssignments).toEqual([
+        { tableId: "t1", seatNumber: 1, attendeeId: "g1", locked: true },
+        { tableId: "t2", seatNumber: 1, attendeeId: "g2" },
+      ]);
+    });
+    
+    it("should not delete a table with guests locked in their seats", () => {
+      usePlanStore.getState().setSeatLocked({ tableId: "t1", seatNumber: 2 }, true);
+      
+      const result = usePlanStore.getState().deleteTable("t1");
+      
+      expect(result).toEqual({ deleted: false, displaced: [], locked: [{ id: "g2", name: "Bob", party: "Smith" }] });
+      expect(usePlanStore.getState().tables).toHaveLength(2);
+      expect(usePlanStore.getState().past).toHaveLength(1);
+    });
+    
+    it("should not delete a locked table, even an empty one", () => {
+      usePlanStore.getState().updateTable("t2", { locked: true });
+      
+      expect(usePlanStore.getState().deleteTable("t2")).toEqual({ deleted: false, displaced: [], locked: [] });
+      expect(usePlanStore.getState().tables).toHaveLength(2);
+    });
+  });
+
+  describe("undo/redo", () => {
+    const table = { id: "t1", name: "Table 1", shape: "round" as const, position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } };
+    const plan = {
+      schemaVersion: 1 as const,
+      id: "plan-1",
+      name: "Summer Wedding",
+      tables: [table],
+      attendees: [],
+      seatAssignments: [],
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+      updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+    };
+
+    beforeEach(() => {
+      // Fresh array: the outer beforeEach empties the live tables array in place
+      usePlanStore.getState().loadPlan({ ...plan, tables: [table] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should undo and redo a table deletion", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        result.current.deleteTable("t1");
+      });
+      expect(result.current.tables).toEqual([]);
+      
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.tables).toEqual([table]);
+      
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.tables).toEqual([]);
+    });
+
+    it("should undo added tables and moves", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        result.current.updateTable("t1", { position: { x: 50, y: 60 } });
+        result.current.addTable({ x: 200, y: 200 });
+      });
+      expect(result.current.tables).toHaveLength(2);
+      
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.tables).toEqual([{ ...table, position: { x: 50, y: 60 } }]);
+      
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.tables).toEqual([table]);
+    });
+
+    it("should clear the redo stack after a new edit", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        result.current.updateTable("t1", { name: "Family" });
+        result.current.undo();
+        result.current.updateTable("t1", { name: "Friends" });
+      });
+      
+      expect(result.current.future).toEqual([]);
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.tables[0].name).toBe("Friends");
+    });
+
+    it("should ignore undo and redo with empty stacks", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        result.current.undo();
+        result.current.redo();
+      });
+      
+      expect(result.current.tables).toEqual([table]);
+    });
+
+    it("should coalesce continuous edits with the same key", () => {
+      vi.useFakeTimers();
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        for (let seatCount = 9; seatCount <= 14; seatCount++) {
+          result.current.updateTable("t1", { seatCount }, { coalesceKey: "table:t1:seatCount" });
+          vi.advanceTimersByTime(200);
+        }
+      });
+      expect(result.current.past).toHaveLength(1);
+      
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.tables[0].seatCount).toBe(8);
+    });
+
+    it("should start a new step after a pause or a different edit", () => {
+      vi.useFakeTimers();
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        result.current.updateTable("t1", { seatCount: 10 }, { coalesceKey: "table:t1:seatCount" });
+        vi.advanceTimersByTime(HISTORY_COALESCE_MS + 1);
+        result.current.updateTable("t1", { seatCount: 12 }, { coalesceKey: "table:t1:seatCount" });
+        result.current.updateTable("t1", { name: "Family" }, { coalesceKey: "table:t1:name" });
+        result.current.updateTable("t1", { seatCount: 14 }, { coalesceKey: "table:t1:seatCount" });
+      });
+      
+      expect(result.current.past).toHaveLength(4);
+    });
+
+    it("should keep history bounded", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        for (let i = 0; i < MAX_HISTORY_ENTRIES + 20; i++) {
+          result.current.updateTable("t1", { position: { x: i, y: 0 } });
+        }
+      });
+      
+      expect(result.current.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    });
+
+    it("should drop selections of tables that an undo removes", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        const added = result.current.addTable();
+        result.current.selectTable(added.id);
+        result.current.undo();
+      });
+      
+      expect(result.current.selectedTableIds).toEqual([]);
+    });
+
+    it("should start with empty history when a plan is loaded", () => {
+      const { result } = renderHook(() => usePlanStore());
+      
+      act(() => {
+        result.current.updateTable("t1", { name: "Family" });
+        result.current.loadPlan({ ...plan, tables: [table] });
+      });
+      
+      expect(result.current.past).toEqual([]);
+      expect(result.current.future).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { usePlanStore } from "../plan-store";
+import { useUIStore } from "../ui-store";
+import { createStorageEventTransport, startPlanSync } from "../plan-sync";
+import type { PlanSyncMessage, PlanSyncTransport } from "../plan-sync";
+import type { Plan, Table } from "../../types";
+
+const table: Table = {
+  id: "table-1",
+  name: "Table 1",
+  shape: "round",
+  position: { x: 0, y: 0 },
+  seatCount: 8,
+  rotation: 0,
+  size: { width: 120, height: 120 },
+};
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Wedding",
+  tables: [],
+  attendees: [],
+  seatAssignments: [],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+};
+
+// Stands in for the other tabs: records what this tab posts and lets tests deliver messages
+function createFakeTransport() {
+  const posted: PlanSyncMessage[] = [];
+  const listeners = new Set<(message: PlanSyncMessage) => void>();
+  const transport: PlanSyncTransport = {
+    post: (message) => posted.push(message),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: vi.fn(),
+  };
+  const deliver = (message: PlanSyncMessage) => listeners.forEach((listener) => listener(message));
+  return { transport, posted, deliver, listeners };
+}
+
+describe("plan sync", () => {
+  let clock: number;
+  const now = () => clock;
+
+  beforeEach(() => {
+    clock = 1000;
+    usePlanStore.getState().loadPlan({ ...plan, tables: [table] });
+    useUIStore.getState().closeInspector();
+    useUIStore.getState().dismissNotice();
+  });
+
+  afterEach(() => {
+    usePlanStore.getState().resetPlan();
+  });
+
+  it("should broadcast local edits as entity changes", () => {
+    const { transport, posted } = createFakeTransport();
+    const stop = startPlanSync({ transport, tabId: "local", now });
+
+    usePlanStore.getState().updateTable("table-1", { name: "Head Table" });
+
+    expect(posted).toEqual([
+      {
+        planId: "plan-1",
+        tabId: "local",
+        at: 1000,
+        changes: [{ kind: "table", id: "table-1", value: { ...table, name: "Head Table" } }],
+      },
+    ]);
+    stop();
+  });
+
+  it("should apply remote changes without echoing them or adding undo steps", () => {
+    const { transport, posted, deliver } = createFakeTransport();
+    const stop = startPlanSync({ transport, tabId: "local", now });
+
+    deliver({
+      planId: "plan-1",
+      tabId: "remote",
+      at: 2000,
+      changes: [{ kind: "table", id: "table-1", value: { ...table, seatCount: 10 } }],
+    });
+
+    expect(usePlanStore.getState().tables[0].seatCount).toBe(10);
+    expect(usePlanStore.getState().past).toHaveLength(0);
+    expect(posted).toHaveLength(0);
+    stop();
+  });
+
+  it("should keep remote edits when a local edit is undone", () => {
+    const { transport, posted, deliver } = createFakeTransport();
+    const stop = startPlanSync({ transport, tabId: "local", now });
+
+    usePlanStore.getState().addTable({ x: 300, y: 0 });
+    const localId = usePlanStore.getState().tables[1].id;
+    deliver({
+      planId: "plan-1",
+      tabId: "remote",
+      at: 2000,
+      changes: [{ kind: "table", id: "table-2", value: { ...table, id: "table-2", name: "Remote Table" } }],
+    });
+
+    usePlanStore.getState().undo();
+    expect(usePlanStore.getState().tables.map((t) => t.id)).toEqual(["table-1", "table-2"]);
+    expect(posted[posted.length - 1].changes).toEqual([{ kind: "table", id: localId, value: null }]);
+
+    usePlanStore.getState().redo();
+    expect(usePlanStore.getState().tables.map((t) => t.id)).toEqual(["table-1", localId, "table-2"]);
+    stop();
+  });
+
+  it("should leave the plan sound when edits from two tabs clash", () => {
+    const { transport, deliver } = createFakeTransport();
+    const stop = startPlanSync({ transport, tabId: "local", now });
+    usePlanStore.getState().addAttendee({ name: "Alice" });
+    const aliceId = usePlanStore.getState().attendees[0].id;
+    usePlanStore.getState().assignSeat(aliceId, "table-1", 1);
+
+    // The other tab deleted a table this tab had just seated someone at
+    deliver({ planId: "plan-1", tabId: "remote", at: 3000, changes: [{ kind: "table", id: "table-1", value: null }] });
+    expect(usePlanStore.getState().seatAssignments).toEqual([]);
+    stop();
+  });
+
+  it("should keep the newer seat when two tabs seat one guest in different seats", () => {
+    const seatAt = (seatNumber: number) => ({ tableId: "table-1", seatNumber, attendeeId: "g1" });
+    const seatChange = (seatNumber: number) => ({ kind: "seat" as const, id: `table-1:${seatNumber}`, value: seatAt(seatNumber) });
+    const loadAlice = () => usePlanStore.getState().loadPlan({ ...plan, tables: [table], attendees: [{ id: "g1", name: "Alice" }] });
+
+    // Tab A seats Alice in seat 1, then hears that tab B seated her in seat 2 a moment later
+    loadAlice();
+    const a = createFakeTransport();
+    let stop = startPlanSync({ transport: a.transport, tabId: "a", now });
+    usePlanStore.getState().assignSeat("g1", "table-1", 1);
+    clock = 3000;
+    a.deliver({ planId: "plan-1", tabId: "b", at: 2000, changes: [seatChange(2)] });
+    expect(usePlanStore.getState().seatAssignments).toEqual([seatAt(2)]);
+    expect(a.posted[a.posted.length - 1]).toEqual({
+      planId: "plan-1",
+      tabId: "a",
+      at: 3000,
+      changes: [{ kind: "seat", id: "table-1:1", value: null }],
+    });
+    stop();
+
+    // Tab B hears about tab A's older seat after making its own, and keeps its own
+    clock = 2000;
+    loadAlice();
+    const b = createFakeTransport();
+    stop = startPlanSync({ transport: b.transport, tabId: "b", now });
+    usePlanStore.getState().assignSeat("g1", "table-1", 2);
+    b.deliver({ planId: "plan-1", tabId: "a", at: 1000, changes: [seatChange(1)] });
+    expect(usePlanStore.getState().seatAssignments).toEqual([seatAt(2)]);
+
+    // Tab A's removal of its losing seat then changes nothing here
+    b.deliver({ planId: "plan-1", tabId: "a", at: 3000, changes: [{ kind: "seat", id: "table-1:1", value: null }] });
+    expect(usePlanStore.getState().seatAssignments).toEqual([seatAt(2)]);
+    expect(b.posted).toHaveLength(1);
+    stop();
+  });
+
+  it("should keep the later write for each entity", () => {
+    const { transport, deliver } = createFakeTransport();
+    const stop = startPlanSync({ transport, tabId: "local", now });
+
+    clock = 3000;
+    usePlanStore.getState().updateTable("table-1", { name: "Local Name" });
+
+    // Older edit to the same table loses; an edit to another entity still applies
+    deliver({
+      planId: "plan-1",
+      tabId: "remote",
+      at: 2000,
+      changes: [
+        { kind: "table", id: "table-1", value: { ...table, name: "Stale Name" } },
+        { kind: "attendee", id: "g1", value: { id: "g1", name: "Alice" } },
+      ],
+    });
+    expect(usePlanStore.getState().tables[0].name).toBe("Local Name");
+    expect(usePlanStore.getState().attendees).toEqual([{ id: "g1", name: "Alice" }]);
+
+    deliver({
+      planId: "plan-1",
+      tabId: "remote",
+      at: 4000,
+      changes: [{ kind: "table", id: "table-1", value: { ...table, name: "Newer Name" } }],
+    });
+    expect(usePlanStore.getState().tables[0].name).toBe("Newer Name");
+    stop();
+  });
+
+  it("should ignore messages for other plans and from itself", () => {
+    const { transport, deliver } = createFakeTransport();
+    const stop = startPlanSync({ transport, tabId: "local", now });
+    const change = { kind: "table" as const, id: "table-1", value: null };
+
+    deliver({ planId: "other-plan", tabId: "remote", at: 2000, changes: [change] });
+    deliver({ planId: "plan-1", tabId: "local", at: 2000, changes: [change] });
+
+    expect(usePlanStore.getState().tables).toHaveLength(1);
+    stop();
+  });
+
+  it("should flag the inspector when its table changes remotely", () => {
+    const { transport, deliver } = createFakeTransport();
+    const stop = startPlanSync({ transport, tabId: "local", now });
+    useUIStore.getState().openInspector("table-1");
+
+    deliver({
+      planId: "plan-1",
+      tabId: "remote",
+      at: 2000,
+      changes: [{ kind: "table", id: "table-1", value: { ...table, name: "Renamed" } }],
+    });
+
+    expect(useUIStore.getState().inspector.remoteChangedAt).not.toBeNull();
+    stop();
+  });
+
+  it("should close the inspector with a notice when its table is deleted remotely", () => {
+    const { transport, deliver } = createFakeTransport();
+    const stop = startPlanSync({ transport, tabId: "local", now });
+    useUIStore.getState().openInspector("table-1");
+
+    deliver({ planId: "plan-1", tabId: "remote", at: 2000, changes: [{ kind: "table", id: "table-1", value: null }] });
+
+    expect(useUIStore.getState().inspector.isOpen).toBe(false);
+    expect(useUIStore.getState().notice?.message).toBe('"Table 1" was deleted in another tab.');
+    stop();
+  });
+
+  it("should stop listening and close the transport when stopped", () => {
+    const { transport, posted, listeners } = createFakeTransport();
+    const stop = startPlanSync({ transport, tabId: "local", now });
+
+    stop();
+    usePlanStore.getState().addTable();
+
+    expect(posted).toHaveLength(0);
+    expect(listeners.size).toBe(0);
+    expect(transport.close).toHaveBeenCalled();
+  });
+
+  describe("createStorageEventTransport", () => {
+    it("should write messages to storage and read them from storage events", () => {
+      const transport = createStorageEventTransport(localStorage, "test:sync");
+      const listener = vi.fn();
+      const unsubscribe = transport.subscribe(listener);
+      const message: PlanSyncMessage = { planId: "plan-1", tabId: "remote", at: 1, changes: [] };
+
+      transport.post(message);
+      expect(JSON.parse(localStorage.getItem("test:sync")!)).toEqual(message);
+
+      window.dispatchEvent(new StorageEvent("storage", { key: "test:sync", newValue: JSON.stringify(message) }));
+      window.dispatchEvent(new StorageEvent("storage", { key: "other", newValue: JSON.stringify(message) }));
+      window.dispatchEvent(new StorageEvent("storage", { key: "test:sync", newValue: "{broken" }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(message);
+      unsubscribe();
+      localStorage.clear();
+    });
+  });
+});
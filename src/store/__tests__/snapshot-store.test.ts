@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { useSnapshotStore } from "../snapshot-store";
+import { usePlanStore } from "../plan-store";
+import { useLibraryStore } from "../library-store";
+import { readPlanSnapshots, readStoredPlan } from "../../utils/planStorage";
+import type { Plan } from "../../types";
+
+const table = { id: "t1", name: "Table 1", shape: "round" as const, position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } };
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [table],
+  attendees: [{ id: "a1", name: "Alice Smith" }],
+  seatAssignments: [{ tableId: "t1", seatNumber: 1, attendeeId: "a1" }],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+};
+
+describe("useSnapshotStore", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useLibraryStore.setState({ plans: [] });
+    useSnapshotStore.setState({ planId: null, snapshots: [] });
+    usePlanStore.getState().loadPlan(plan);
+    useSnapshotStore.getState().loadSnapshots("plan-1");
+  });
+
+  it("should save a named snapshot of the current plan", () => {
+    const snapshot = useSnapshotStore.getState().createSnapshot("  Before in-laws call ");
+
+    expect(snapshot.name).toBe("Before in-laws call");
+    expect(snapshot.plan.tables).toEqual([table]);
+    expect(readPlanSnapshots("plan-1")).toEqual([snapshot]);
+    expect(useSnapshotStore.getState().snapshots).toEqual([snapshot]);
+  });
+
+  it("should name unnamed snapshots after their time", () => {
+    const snapshot = useSnapshotStore.getState().createSnapshot("");
+
+    expect(snapshot.name).toMatch(/^Snapshot /);
+  });
+
+  it("should freeze the plan as it was when the snapshot was taken", () => {
+    const snapshot = useSnapshotStore.getState().createSnapshot("Final v2");
+
+    usePlanStore.getState().deleteTable("t1");
+
+    expect(useSnapshotStore.getState().snapshots[0].plan.tables).toEqual([table]);
+    expect(snapshot.plan.tables).toEqual([table]);
+  });
+
+  it("should restore a snapshot as an undoable change to the current plan", () => {
+    const snapshot = useSnapshotStore.getState().createSnapshot("Final v2");
+    usePlanStore.getState().deleteTable("t1");
+
+    expect(useSnapshotStore.getState().restoreSnapshot(snapshot.id)).toBe(true);
+    expect(usePlanStore.getState().tables).toEqual([table]);
+    expect(usePlanStore.getState().planId).toBe("plan-1");
+
+    usePlanStore.getState().undo();
+    expect(usePlanStore.getState().tables).toEqual([]);
+  });
+
+  it("should restore a snapshot as a new plan in the library", () => {
+    const snapshot = useSnapshotStore.getState().createSnapshot("Final v2");
+
+    const copy = useSnapshotStore.getState().restoreSnapshotAsNewPlan(snapshot.id);
+
+    expect(copy?.id).not.toBe("plan-1");
+    expect(copy?.name).toBe("Smith Wedding (Final v2)");
+    const stored = copy ? readStoredPlan(copy.id) : null;
+    expect(stored?.status === "ok" && stored.plan.tables).toEqual([table]);
+  });
+
+  it("should delete a snapshot", () => {
+    const snapshot = useSnapshotStore.getState().createSnapshot("Final v2");
+
+    useSnapshotStore.getState().deleteSnapshot(snapshot.id);
+
+    expect(useSnapshotStore.getState().snapshots).toEqual([]);
+    expect(readPlanSnapshots("plan-1")).toEqual([]);
+  });
+
+  it("should ignore unknown snapshot ids", () => {
+    expect(useSnapshotStore.getState().restoreSnapshot("missing")).toBe(false);
+    expect(useSnapshotStore.getState().restoreSnapshotAsNewPlan("missing")).toBeNull();
+  });
+});
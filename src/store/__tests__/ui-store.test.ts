@@ -11,6 +11,9 @@ describe('UI Store', () => {
         selectedIds: [],
         selectionRect: null,
       },
+      inspector: { isOpen: false, tableId: null, remoteChangedAt: null },
+      notice: null,
+      comparison: null,
     })
   })
 
@@ -213,6 +216,60 @@ describe('UI Store', () => {
     })
   })
 
+  describe('Comparison actions', () => {
+    const basePlan = {
+      schemaVersion: 1 as const,
+      id: 'plan-1',
+      name: 'Wedding',
+      tables: [],
+      attendees: [],
+      seatAssignments: [],
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+    }
+
+    it('should start and end a comparison', () => {
+      const { startComparison, endComparison } = useUIStore.getState()
+      
+      startComparison('plan-1', 'Final v2', basePlan)
+      expect(useUIStore.getState().comparison).toEqual({ planId: 'plan-1', label: 'Final v2', basePlan })
+      
+      endComparison()
+      expect(useUIStore.getState().comparison).toBeNull()
+    })
+  })
+
+  describe('Remote change notices', () => {
+    it('should flag the open inspector until dismissed or reopened', () => {
+      const { openInspector, markInspectorRemoteChange, dismissInspectorRemoteChange } = useUIStore.getState()
+      
+      openInspector('table-1')
+      markInspectorRemoteChange()
+      expect(useUIStore.getState().inspector.remoteChangedAt).not.toBeNull()
+      
+      dismissInspectorRemoteChange()
+      expect(useUIStore.getState().inspector).toEqual({ isOpen: true, tableId: 'table-1', remoteChangedAt: null })
+      
+      markInspectorRemoteChange()
+      openInspector('table-2')
+      expect(useUIStore.getState().inspector.remoteChangedAt).toBeNull()
+    })
+
+    it('should give every notice a new id', () => {
+      const { showNotice, dismissNotice } = useUIStore.getState()
+      
+      showNotice('Saved')
+      const first = useUIStore.getState().notice
+      showNotice('Saved')
+      
+      expect(useUIStore.getState().notice?.message).toBe('Saved')
+      expect(useUIStore.getState().notice?.id).not.toBe(first?.id)
+      
+      dismissNotice()
+      expect(useUIStore.getState().notice).toBeNull()
+    })
+  })
+
   describe('State immutability', () => {
     it('should not mutate previous state when updating selection', () => {
       const { setSelection, addToSelection } = useUIStore.getState()
@@ -0,0 +1,91 @@
+import { create } from "zustand";
+import { nanoid } from "nanoid";
+import { createEmptyPlan } from "./plan-store";
+import {
+  deleteStoredPlan,
+  listStoredPlans,
+  readStoredPlan,
+  writeStoredPlan,
+} from "../utils/planStorage";
+import type { PlanSummary } from "../utils/planStorage";
+import type { Plan } from "../types";
+
+interface LibraryState {
+  plans: PlanSummary[];
+}
+
+interface LibraryActions {
+  refresh: () => void;
+  createPlan: (name: string, description?: string) => Plan;
+  renamePlan: (id: string, name: string) => boolean;
+  duplicatePlan: (id: string) => Plan | null;
+  importPlan: (plan: Plan) => Plan;
+  deletePlan: (id: string) => void;
+}
+
+type LibraryStore = LibraryState & LibraryActions;
+
+export const useLibraryStore = create<LibraryStore>((set, get) => ({
+  // Initial state
+  plans: [],
+  
+  refresh: () => {
+    set({ plans: listStoredPlans() });
+  },
+  
+  createPlan: (name: string, description?: string) => {
+    const plan = createEmptyPlan(name.trim() || undefined, description?.trim() || undefined);
+    writeStoredPlan(plan);
+    get().refresh();
+    return plan;
+  },
+  
+  renamePlan: (id: string, name: string) => {
+    const trimmed = name.trim();
+    const stored = readStoredPlan(id);
+    if (!trimmed || stored.status !== "ok") return false;
+    
+    writeStoredPlan({ ...stored.plan, name: trimmed, updatedAt: new Date() });
+    get().refresh();
+    return true;
+  },
+  
+  duplicatePlan: (id: string) => {
+    const stored = readStoredPlan(id);
+    if (stored.status !== "ok") return null;
+    
+    const now = new Date();
+    const copy: Plan = {
+      ...stored.plan,
+      id: nanoid(),
+      name: `${stored.plan.name} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    writeStoredPlan(copy);
+    get().refresh();
+    return copy;
+  },
+  
+  // Incoming plans get a fresh id so they never overwrite a local plan
+  importPlan: (plan: Plan) => {
+    const imported: Plan = { ...plan, id: nanoid() };
+    writeStoredPlan(imported);
+    get().refresh();
+    return imported;
+  },
+  
+  deletePlan: (id: string) => {
+    deleteStoredPlan(id);
+    get().refresh();
+  },
+}));
+
+// Convenience selectors
+export const usePlanSummaries = () => useLibraryStore((state) => state.plans);
+export const useRefreshLibrary = () => useLibraryStore((state) => state.refresh);
+export const useCreatePlan = () => useLibraryStore((state) => state.createPlan);
+export const useRenamePlan = () => useLibraryStore((state) => state.renamePlan);
+export const useDuplicatePlan = () => useLibraryStore((state) => state.duplicatePlan);
+export const useImportPlan = () => useLibraryStore((state) => state.importPlan);
+export const useDeletePlan = () => useLibraryStore((state) => state.deletePlan);
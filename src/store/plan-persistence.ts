@@ -0,0 +1,70 @@
+import { usePlanStore } from "./plan-store";
+import { getBrowserStorage, readStoredPlan, writeStoredPlan } from "../utils/planStorage";
+import type { StoredPlanResult } from "../utils/planStorage";
+
+export const AUTOSAVE_DELAY_MS = 500;
+
+interface AutosaveOptions {
+  delay?: number;
+  storage?: Storage | null;
+}
+
+// Load a stored plan into the store. Corrupt payloads are reported, not discarded, and so is
+// whatever repair removed from a plan that did load.
+export function hydratePlanFromStorage(planId: string, storage: Storage | null = getBrowserStorage()): StoredPlanResult {
+  const result = readStoredPlan(planId, storage);
+  if (result.status === "ok") {
+    usePlanStore.getState().loadPlan(result.plan);
+  }
+  return result;
+}
+
+// Debounced writes of the plan whenever its contents change. Returns an unsubscribe function.
+export function startPlanAutosave({
+  delay = AUTOSAVE_DELAY_MS,
+  storage = getBrowserStorage(),
+}: AutosaveOptions = {}): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer != null) {
+      clearTimeout(timer);
+      timer = null;
+      writeStoredPlan(usePlanStore.getState().getPlan(), storage);
+    }
+  };
+
+  const unsubscribe = usePlanStore.subscribe((state, prev) => {
+    // Selection changes are UI-only and don't need a write
+    const planChanged =
+      state.planId !== prev.planId ||
+      state.name !== prev.name ||
+      state.description !== prev.description ||
+      state.tables !== prev.tables ||
+      state.attendees !== prev.attendees ||
+      state.seatAssignments !== prev.seatAssignments ||
+      state.customFields !== prev.customFields ||
+      state.constraints !== prev.constraints ||
+      state.affinities !== prev.affinities;
+    if (!planChanged) return;
+
+    if (timer != null) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      writeStoredPlan(usePlanStore.getState().getPlan(), storage);
+    }, delay);
+  });
+
+  // Don't lose the last edit when the tab closes inside the debounce window
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", flush);
+  }
+
+  return () => {
+    flush();
+    unsubscribe();
+    if (typeof window !== "undefined") {
+      window.removeEventListener("pagehide", flush);
+    }
+  };
+}
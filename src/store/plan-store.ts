@@ -1,24 +1,142 @@
 import { create } from "zustand";
 import { nanoid } from "nanoid";
-import type { Table, Vec2 } from "../types";
+import { CURRENT_PLAN_SCHEMA_VERSION } from "../types";
+import type { Affinity, Attendee, CustomField, CustomFieldValue, Plan, SeatAssignment, SeatingConstraint, Table, Vec2 } from "../types";
+import { getPlusOneName, isAttending, validateAttendee } from "../utils/attendees";
+import type { AttendeeInput, AttendeeResult } from "../utils/attendees";
+import { applyPlanEntityChanges, getSeatKey } from "../utils/planEntities";
+import type { PlanEntityChange } from "../utils/planEntities";
+import { repairPlan } from "../utils/planRepair";
+import type { SeatRef } from "../utils/seatGeometry";
+import { getConsecutiveSeats } from "../utils/parties";
+import { validateCustomFieldInput, withFieldValues } from "../utils/customFields";
+import type { CustomFieldInput, CustomFieldResult } from "../utils/customFields";
+import { pruneConstraints, validateConstraintInput } from "../utils/constraints";
+import type { SeatingConstraintInput, SeatingConstraintResult } from "../utils/constraints";
+import { getLockedGuestIds, getLockedTableIds, isAssignmentLocked } from "../utils/locks";
+import { pruneAffinities, validateAffinity, withAffinity } from "../utils/affinity";
+import type { AffinityResult } from "../utils/affinity";
 
 interface PlanState {
+  // Plan metadata
+  planId: string;
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  
+  // Plan contents
   tables: Table[];
+  attendees: Attendee[];
+  seatAssignments: SeatAssignment[];
+  customFields: CustomField[];
+  constraints: SeatingConstraint[];
+  affinities: Affinity[];
+  
   selectedTableIds: string[];
+  
+  // Undo/redo stacks, oldest first
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// The undoable part of the plan. Mutations replace arrays rather than editing them,
+// so snapshots can share references with the live state.
+type PlanContent = Pick<PlanState, "name" | "description" | "tables" | "attendees" | "seatAssignments" | "customFields" | "constraints" | "affinities">;
+
+interface HistoryEntry {
+  content: PlanContent;
+  coalesceKey?: string;
+  recordedAt: number;
+}
+
+export interface HistoryOptions {
+  // Repeated edits sharing a key (e.g. a slider drag) collapse into one undo step
+  coalesceKey?: string;
+}
+
+export interface TableUpdate {
+  // Guests who lost their seat because it no longer exists
+  displaced: Attendee[];
+  // Guests locked in their seats, whose seats were kept when the seat count was lowered
+  locked: Attendee[];
+}
+
+export interface TableDeletion {
+  deleted: boolean;
+  // Guests who lost their seat with the table
+  displaced: Attendee[];
+  // Guests locked in their seats, who keep the table from being deleted
+  locked: Attendee[];
+}
+
+export interface AttendeeImport {
+  added: Attendee[];
+  // Guests locked in their seats, whose updates were skipped because declining would unseat them
+  locked: Attendee[];
 }
 
 interface PlanActions {
   // Table management
   addTable: (position?: Vec2) => Table;
-  updateTable: (id: string, updates: Partial<Table>) => void;
-  deleteTable: (id: string) => void;
+  // Lowering the seat count stops short of seats holding guests locked in place
+  updateTable: (id: string, updates: Partial<Table>, options?: HistoryOptions) => TableUpdate;
+  // A locked table, or one with guests locked in their seats, isn't deleted
+  deleteTable: (id: string) => TableDeletion;
   getTable: (id: string) => Table | undefined;
   
+  // Attendee management; invalid input is reported and leaves the plan unchanged
+  addAttendee: (input: AttendeeInput) => AttendeeResult;
+  // Adds a placeholder guest brought by the host, in the host's party
+  addPlusOne: (hostId: string) => AttendeeResult;
+  updateAttendee: (id: string, updates: Partial<AttendeeInput>, options?: HistoryOptions) => AttendeeResult;
+  deleteAttendee: (id: string) => void;
+  deleteAttendees: (ids: string[]) => void;
+  importAttendees: (added: AttendeeInput[], updated: Attendee[]) => AttendeeImport;
+  
+  // Seating; returns false when the guest, table or seat doesn't exist, or when it would take a
+  // guest locked in place out of their seat or change a locked table
+  assignSeat: (attendeeId: string, tableId: string, seatNumber: number) => boolean;
+  // Moves the guest in one seat to another, swapping with whoever sits there
+  moveGuest: (from: SeatRef, to: SeatRef) => boolean;
+  // Seats guests side by side from a starting seat, leaving members locked in their seats where
+  // they are; false if the table is locked or hasn't room for the rest
+  seatParty: (attendeeIds: string[], tableId: string, startSeat: number) => boolean;
+  // Seats an auto-seat result as one undo step, returning the guests seated. Placements the
+  // plan has moved on from (the guest was seated, or the seat taken or locked, meanwhile) are skipped.
+  applyAutoSeat: (placements: SeatAssignment[]) => Attendee[];
+  // Locks the guest in a seat in place, or unlocks them; false when the seat is empty
+  setSeatLocked: (seat: SeatRef, locked: boolean) => boolean;
+  
+  // Custom fields; removing a field, or a choice from a select field, clears guests' values for it
+  addCustomField: (input: CustomFieldInput) => CustomFieldResult;
+  updateCustomField: (id: string, updates: Partial<CustomFieldInput>) => CustomFieldResult;
+  deleteCustomField: (id: string) => void;
+  
+  // Seating rules
+  addConstraint: (input: SeatingConstraintInput) => SeatingConstraintResult;
+  updateConstraint: (id: string, updates: Partial<SeatingConstraintInput>) => SeatingConstraintResult;
+  deleteConstraint: (id: string) => void;
+  
+  // Affinities; setting a pair's weight replaces the old one, and weight 0 removes the pair
+  setAffinity: (attendeeIds: [string, string], weight: number) => AffinityResult;
+  
   // Selection management
   selectTable: (id: string) => void;
   selectTables: (ids: string[]) => void;
   clearSelection: () => void;
   
+  // History
+  undo: () => void;
+  redo: () => void;
+  
+  // Whole-plan management
+  getPlan: () => Plan;
+  loadPlan: (plan: Plan) => void;
+  restorePlan: (plan: Plan) => void;
+  applyRemoteChanges: (changes: PlanEntityChange[]) => void;
+  resetPlan: () => void;
+  
   // Utility functions
   generateTableId: () => string;
   generateTableName: () => string;
@@ -26,10 +144,96 @@ interface PlanActions {
 
 type PlanStore = PlanState & PlanActions;
 
+export const DEFAULT_PLAN_NAME = "Untitled Plan";
+export const MAX_HISTORY_ENTRIES = 100;
+// Coalesced edits further apart than this start a new undo step
+export const HISTORY_COALESCE_MS = 1000;
+
+export const createEmptyPlan = (name = DEFAULT_PLAN_NAME, description?: string): Plan => {
+  const now = new Date();
+  return {
+    schemaVersion: CURRENT_PLAN_SCHEMA_VERSION,
+    id: nanoid(),
+    name,
+    description,
+    tables: [],
+    attendees: [],
+    seatAssignments: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const planToState = (plan: Plan): Omit<PlanState, "selectedTableIds" | "past" | "future"> => ({
+  planId: plan.id,
+  name: plan.name,
+  description: plan.description,
+  createdAt: plan.createdAt,
+  updatedAt: plan.updatedAt,
+  tables: plan.tables,
+  attendees: plan.attendees,
+  seatAssignments: plan.seatAssignments,
+  customFields: plan.customFields ?? [],
+  constraints: plan.constraints ?? [],
+  affinities: plan.affinities ?? [],
+});
+
+const getContent = (state: PlanState): PlanContent => ({
+  name: state.name,
+  description: state.description,
+  tables: state.tables,
+  attendees: state.attendees,
+  seatAssignments: state.seatAssignments,
+  customFields: state.customFields,
+  constraints: state.constraints,
+  affinities: state.affinities,
+});
+
+// History update to merge into every undoable mutation, taken before the change is applied
+const recordHistory = (state: PlanState, { coalesceKey }: HistoryOptions = {}): Pick<PlanState, "past" | "future"> => {
+  const now = Date.now();
+  const last = state.past[state.past.length - 1];
+  if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.recordedAt < HISTORY_COALESCE_MS) {
+    // Keep the snapshot from before the run started; just extend its window
+    return { past: [...state.past.slice(0, -1), { ...last, recordedAt: now }], future: [] };
+  }
+  const entry: HistoryEntry = { content: getContent(state), coalesceKey, recordedAt: now };
+  return { past: [...state.past, entry].slice(-MAX_HISTORY_ENTRIES), future: [] };
+};
+
+// Restore a snapshot, dropping selections that point at tables it doesn't have
+const applyContent = (state: PlanState, content: PlanContent) => ({
+  ...content,
+  selectedTableIds: state.selectedTableIds.filter((id) => content.tables.some((table) => table.id === id)),
+  updatedAt: new Date(),
+});
+
+// Drops assignments that fail `keep`, returning the guests who were sitting in them.
+// The list is only replaced when something changed, so unrelated edits keep its reference.
+const releaseSeats = (
+  state: Pick<PlanState, "attendees" | "seatAssignments">,
+  keep: (assignment: SeatAssignment) => boolean
+) => {
+  const released = state.seatAssignments.filter((a) => !keep(a));
+  if (released.length === 0) return { seatAssignments: state.seatAssignments, displaced: [] };
+  
+  const displacedIds = new Set(released.map((a) => a.attendeeId));
+  return {
+    seatAssignments: state.seatAssignments.filter(keep),
+    displaced: state.attendees.filter((attendee) => displacedIds.has(attendee.id)),
+  };
+};
+
+// A lock belongs to the guest in the seat, so it moves with them; unlocked seats leave it unset
+const withLock = ({ tableId, seatNumber, attendeeId }: SeatAssignment, locked: boolean | undefined): SeatAssignment =>
+  locked ? { tableId, seatNumber, attendeeId, locked: true } : { tableId, seatNumber, attendeeId };
+
 export const usePlanStore = create<PlanStore>((set, get) => ({
   // Initial state
-  tables: [],
+  ...planToState(createEmptyPlan()),
   selectedTableIds: [],
+  past: [],
+  future: [],
   
   // Table management actions
   addTable: (position = { x: 0, y: 0 }) => {
@@ -50,31 +254,444 @@ export const usePlanStore = create<PlanStore>((set, get) => ({
     };
     
     set((state) => ({
-      tables: [...state.tables, newTable]
+      ...recordHistory(state),
+      tables: [...state.tables, newTable],
+      updatedAt: new Date(),
     }));
     
     return newTable;
   },
   
-  updateTable: (id: string, updates: Partial<Table>) => {
+  updateTable: (id: string, updates: Partial<Table>, options?: HistoryOptions) => {
+    const { tables, attendees } = get();
+    const lockedTableIds = getLockedTableIds(tables);
+    const lockedSeats = get().seatAssignments.filter((a) => a.tableId === id && isAssignmentLocked(a, lockedTableIds));
+    const requested = updates.seatCount;
+    const seatCount = requested === undefined ? undefined : Math.max(requested, ...lockedSeats.map((a) => a.seatNumber));
+    const keptIds = new Set(lockedSeats.filter((a) => requested !== undefined && a.seatNumber > requested).map((a) => a.attendeeId));
+    const applied = seatCount === undefined ? updates : { ...updates, seatCount };
+    
+    const { seatAssignments, displaced } = releaseSeats(
+      get(),
+      (a) => seatCount === undefined || a.tableId !== id || a.seatNumber <= seatCount
+    );
+    
     set((state) => ({
+      ...recordHistory(state, options),
       tables: state.tables.map((table) =>
-        table.id === id ? { ...table, ...updates } : table
-      )
+        table.id === id ? { ...table, ...applied } : table
+      ),
+      seatAssignments,
+      updatedAt: new Date(),
     }));
+    
+    return { displaced, locked: attendees.filter((attendee) => keptIds.has(attendee.id)) };
   },
   
   deleteTable: (id: string) => {
+    const { tables, attendees } = get();
+    const lockedIds = getLockedGuestIds(tables, get().seatAssignments.filter((a) => a.tableId === id));
+    if (tables.some((table) => table.id === id && table.locked) || lockedIds.size > 0) {
+      return { deleted: false, displaced: [], locked: attendees.filter((attendee) => lockedIds.has(attendee.id)) };
+    }
+    
+    const { seatAssignments, displaced } = releaseSeats(get(), (a) => a.tableId !== id);
+    
     set((state) => ({
+      ...recordHistory(state),
       tables: state.tables.filter((table) => table.id !== id),
-      selectedTableIds: state.selectedTableIds.filter((selectedId) => selectedId !== id)
+      seatAssignments,
+      // Near and far rules measured from this table go with it
+      constraints: pruneConstraints(
+        state.constraints,
+        new Set(state.attendees.map((attendee) => attendee.id)),
+        new Set(state.tables.filter((table) => table.id !== id).map((table) => table.id))
+      ),
+      selectedTableIds: state.selectedTableIds.filter((selectedId) => selectedId !== id),
+      updatedAt: new Date(),
     }));
+    
+    return { deleted: true, displaced, locked: [] };
   },
   
   getTable: (id: string) => {
     return get().tables.find((table) => table.id === id);
   },
   
+  // Attendee management
+  addAttendee: (input: AttendeeInput) => {
+    const result = validateAttendee({ ...input, id: nanoid() });
+    if (!result.success) return result;
+    
+    set((state) => ({
+      ...recordHistory(state),
+      attendees: [...state.attendees, result.attendee],
+      updatedAt: new Date(),
+    }));
+    
+    return result;
+  },
+  
+  addPlusOne: (hostId: string) => {
+    const host = get().attendees.find((attendee) => attendee.id === hostId);
+    if (!host) return { success: false, error: "Guest not found" };
+    if (host.hostId) return { success: false, error: "A plus-one can't bring a plus-one" };
+    
+    const plusOne: Attendee = { id: nanoid(), name: getPlusOneName(host), party: host.party, hostId };
+    
+    set((state) => ({
+      ...recordHistory(state),
+      attendees: [...state.attendees, plusOne],
+      updatedAt: new Date(),
+    }));
+    
+    return { success: true, attendee: plusOne };
+  },
+  
+  updateAttendee: (id: string, updates: Partial<AttendeeInput>, options?: HistoryOptions) => {
+    const existing = get().attendees.find((attendee) => attendee.id === id);
+    if (!existing) return { success: false, error: "Guest not found" };
+    
+    // Naming a plus-one makes them a guest in their own right; they keep their seat
+    const isNamed = existing.hostId !== undefined && updates.name !== undefined && updates.name.trim() !== existing.name;
+    const result = validateAttendee({ ...existing, ...updates, hostId: isNamed ? undefined : existing.hostId, id });
+    if (!result.success) return result;
+    const renamed = result.attendee.name !== existing.name;
+    
+    // A guest who declines gives up their seat
+    const { seatAssignments } = releaseSeats(
+      get(),
+      (a) => a.attendeeId !== id || isAttending(result.attendee)
+    );
+    
+    set((state) => ({
+      ...recordHistory(state, options),
+      attendees: state.attendees.map((attendee) => {
+        if (attendee.id === id) return result.attendee;
+        // Unnamed plus-ones follow their host's name
+        if (renamed && attendee.hostId === id) return { ...attendee, name: getPlusOneName(result.attendee) };
+        return attendee;
+      }),
+      seatAssignments,
+      updatedAt: new Date(),
+    }));
+    
+    return result;
+  },
+  
+  deleteAttendee: (id: string) => {
+    get().deleteAttendees([id]);
+  },
+  
+  // Their seats are freed too, so no assignment points at a missing guest, and their
+  // unnamed plus-ones go with them. Rules drop them, or go too if too few guests are left.
+  deleteAttendees: (ids: string[]) => {
+    const removed = new Set(ids);
+    get().attendees.forEach((attendee) => {
+      if (attendee.hostId && removed.has(attendee.hostId)) removed.add(attendee.id);
+    });
+    if (!get().attendees.some((attendee) => removed.has(attendee.id))) return;
+    
+    set((state) => ({
+      ...recordHistory(state),
+      attendees: state.attendees.filter((attendee) => !removed.has(attendee.id)),
+      seatAssignments: state.seatAssignments.filter(
+        (assignment) => assignment.attendeeId == null || !removed.has(assignment.attendeeId)
+      ),
+      constraints: pruneConstraints(
+        state.constraints,
+        new Set(state.attendees.filter((attendee) => !removed.has(attendee.id)).map((attendee) => attendee.id)),
+        new Set(state.tables.map((table) => table.id))
+      ),
+      affinities: pruneAffinities(
+        state.affinities,
+        new Set(state.attendees.filter((attendee) => !removed.has(attendee.id)).map((attendee) => attendee.id))
+      ),
+      updatedAt: new Date(),
+    }));
+  },
+  
+  // Bulk import as a single undo step. Inputs are expected to be validated already.
+  // Guests locked in place keep their seats, so updates that would decline them are skipped.
+  importAttendees: (added: AttendeeInput[], updated: Attendee[]) => {
+    const { tables, attendees } = get();
+    const lockedIds = getLockedGuestIds(tables, get().seatAssignments);
+    const skippedIds = new Set(updated.filter((a) => lockedIds.has(a.id) && !isAttending(a)).map((a) => a.id));
+    const locked = attendees.filter((attendee) => skippedIds.has(attendee.id));
+    const updates = new Map(updated.filter((a) => !skippedIds.has(a.id)).map((attendee) => [attendee.id, attendee]));
+    if (added.length === 0 && updates.size === 0) return { added: [], locked };
+    
+    const newAttendees = added.map((input) => ({ ...input, id: nanoid() }));
+    const { seatAssignments } = releaseSeats(get(), (a) => {
+      const update = a.attendeeId ? updates.get(a.attendeeId) : undefined;
+      return !update || isAttending(update);
+    });
+    
+    set((state) => ({
+      ...recordHistory(state),
+      attendees: [...state.attendees.map((attendee) => updates.get(attendee.id) ?? attendee), ...newAttendees],
+      seatAssignments,
+      updatedAt: new Date(),
+    }));
+    
+    return { added: newAttendees, locked };
+  },
+  
+  // Seating
+  // A guest holds one seat at a time, so this also frees their previous seat.
+  // Whoever held the target seat is left unseated. Declined guests can't be seated.
+  assignSeat: (attendeeId: string, tableId: string, seatNumber: number) => {
+    const { attendees, tables, seatAssignments } = get();
+    const table = tables.find((t) => t.id === tableId);
+    if (!attendees.some((a) => a.id === attendeeId && isAttending(a)) || !table) return false;
+    if (!Number.isInteger(seatNumber) || seatNumber < 1 || seatNumber > table.seatCount) return false;
+    
+    const alreadySeated = seatAssignments.some(
+      (a) => a.tableId === tableId && a.seatNumber === seatNumber && a.attendeeId === attendeeId
+    );
+    if (alreadySeated) return true;
+    
+    // A seat lock travels with its guest, but nobody is added to or taken from a locked table,
+    // and a guest locked in the target seat stays put
+    const lockedTableIds = getLockedTableIds(tables);
+    const current = seatAssignments.find((a) => a.attendeeId === attendeeId);
+    const occupant = seatAssignments.find((a) => a.tableId === tableId && a.seatNumber === seatNumber);
+    if (table.locked || (current && lockedTableIds.has(current.tableId))) return false;
+    if (occupant && isAssignmentLocked(occupant, lockedTableIds)) return false;
+    
+    set((state) => ({
+      ...recordHistory(state),
+      seatAssignments: [
+        ...state.seatAssignments.filter(
+          (a) => a.attendeeId !== attendeeId && !(a.tableId === tableId && a.seatNumber === seatNumber)
+        ),
+        withLock({ tableId, seatNumber, attendeeId }, current?.locked),
+      ],
+      updatedAt: new Date(),
+    }));
+    
+    return true;
+  },
+  
+  moveGuest: (from: SeatRef, to: SeatRef) => {
+    const { tables, seatAssignments } = get();
+    const isSeat = (ref: SeatRef) => (a: SeatAssignment) =>
+      a.tableId === ref.tableId && a.seatNumber === ref.seatNumber;
+    const source = seatAssignments.find(isSeat(from));
+    const table = tables.find((t) => t.id === to.tableId);
+    if (!source?.attendeeId || !table) return false;
+    if (!Number.isInteger(to.seatNumber) || to.seatNumber < 1 || to.seatNumber > table.seatCount) return false;
+    if (from.tableId === to.tableId && from.seatNumber === to.seatNumber) return true;
+    
+    const target = seatAssignments.find(isSeat(to));
+    // The guest being moved takes their own seat lock along; the one they'd swap with can't
+    const lockedTableIds = getLockedTableIds(tables);
+    if (lockedTableIds.has(from.tableId) || lockedTableIds.has(to.tableId)) return false;
+    if (target && isAssignmentLocked(target, lockedTableIds)) return false;
+    set((state) => ({
+      ...recordHistory(state),
+      // Swap in place so both seats keep their position in the list
+      seatAssignments: [
+        ...state.seatAssignments.flatMap((a) => {
+          if (a === source) return target?.attendeeId ? [withLock({ ...a, attendeeId: target.attendeeId }, target.locked)] : [];
+          if (a === target) return [withLock({ ...a, attendeeId: source.attendeeId }, source.locked)];
+          return [a];
+        }),
+        ...(target ? [] : [withLock({ ...to, attendeeId: source.attendeeId }, source.locked)]),
+      ],
+      updatedAt: new Date(),
+    }));
+    
+    return true;
+  },
+  
+  seatParty: (attendeeIds: string[], tableId: string, startSeat: number) => {
+    const { attendees, tables, seatAssignments } = get();
+    const table = tables.find((t) => t.id === tableId);
+    // Members who declined, or are locked in their seats, stay behind
+    const lockedIds = getLockedGuestIds(tables, seatAssignments);
+    const members = attendeeIds.filter((id) => !lockedIds.has(id) && attendees.some((a) => a.id === id && isAttending(a)));
+    if (!table || table.locked || members.length === 0) return false;
+    if (!Number.isInteger(startSeat) || startSeat < 1 || startSeat > table.seatCount) return false;
+    
+    // Seats held by the party itself are free to reuse
+    const moving = new Set(members);
+    const taken = new Set(
+      seatAssignments
+        .filter((a) => a.tableId === tableId && a.attendeeId && !moving.has(a.attendeeId))
+        .map((a) => a.seatNumber)
+    );
+    const seats = getConsecutiveSeats(table, startSeat, members.length, (seatNumber) => !taken.has(seatNumber));
+    if (!seats) return false;
+    
+    set((state) => ({
+      ...recordHistory(state),
+      seatAssignments: [
+        ...state.seatAssignments.filter(
+          (a) => !(a.attendeeId && moving.has(a.attendeeId)) && !(a.tableId === tableId && seats.includes(a.seatNumber))
+        ),
+        ...members.map((attendeeId, index) => ({ tableId, seatNumber: seats[index], attendeeId })),
+      ],
+      updatedAt: new Date(),
+    }));
+    
+    return true;
+  },
+  
+  applyAutoSeat: (placements: SeatAssignment[]) => {
+    const { attendees, tables, seatAssignments } = get();
+    const seated = new Set(seatAssignments.map((a) => a.attendeeId));
+    const taken = new Set(seatAssignments.filter((a) => a.attendeeId).map(getSeatKey));
+    const applied = placements.filter((placement) => {
+      const attendee = attendees.find((a) => a.id === placement.attendeeId);
+      const table = tables.find((t) => t.id === placement.tableId);
+      const key = getSeatKey(placement);
+      if (!attendee || !isAttending(attendee) || seated.has(attendee.id)) return false;
+      if (!table || table.locked || placement.seatNumber > table.seatCount || taken.has(key)) return false;
+      seated.add(attendee.id);
+      taken.add(key);
+      return true;
+    });
+    if (applied.length === 0) return [];
+    
+    const appliedSeats = new Set(applied.map(getSeatKey));
+    set((state) => ({
+      ...recordHistory(state),
+      // Explicitly empty seats are replaced rather than listed twice
+      seatAssignments: [...state.seatAssignments.filter((a) => !appliedSeats.has(getSeatKey(a))), ...applied],
+      updatedAt: new Date(),
+    }));
+    
+    const ids = new Set(applied.map((a) => a.attendeeId));
+    return attendees.filter((attendee) => ids.has(attendee.id));
+  },
+  
+  setSeatLocked: (seat: SeatRef, locked: boolean) => {
+    const assignment = get().seatAssignments.find(
+      (a) => a.tableId === seat.tableId && a.seatNumber === seat.seatNumber
+    );
+    if (!assignment?.attendeeId) return false;
+    if ((assignment.locked === true) === locked) return true;
+    
+    set((state) => ({
+      ...recordHistory(state),
+      seatAssignments: state.seatAssignments.map((a) => (a === assignment ? withLock(a, locked) : a)),
+      updatedAt: new Date(),
+    }));
+    
+    return true;
+  },
+  
+  // Custom fields
+  addCustomField: (input: CustomFieldInput) => {
+    const result = validateCustomFieldInput(input, get().customFields);
+    if (!result.success) return result;
+    
+    const field: CustomField = { ...result.input, id: nanoid() };
+    set((state) => ({
+      ...recordHistory(state),
+      customFields: [...state.customFields, field],
+      updatedAt: new Date(),
+    }));
+    
+    return { success: true, field };
+  },
+  
+  updateCustomField: (id: string, updates: Partial<CustomFieldInput>) => {
+    const existing = get().customFields.find((field) => field.id === id);
+    if (!existing) return { success: false, error: "Field not found" };
+    
+    const result = validateCustomFieldInput({ ...existing, ...updates }, get().customFields, id);
+    if (!result.success) return result;
+    const field: CustomField = { ...result.input, id };
+    
+    // Values that no longer fit the field are cleared rather than left unreadable
+    const keep = (fieldId: string, value: CustomFieldValue) => {
+      if (fieldId !== id) return true;
+      if (field.type !== existing.type) return false;
+      return field.type !== "select" || (field.options ?? []).includes(String(value));
+    };
+    
+    set((state) => ({
+      ...recordHistory(state),
+      customFields: state.customFields.map((candidate) => (candidate.id === id ? field : candidate)),
+      attendees: state.attendees.map((attendee) => withFieldValues(attendee, keep)),
+      updatedAt: new Date(),
+    }));
+    
+    return { success: true, field };
+  },
+  
+  deleteCustomField: (id: string) => {
+    if (!get().customFields.some((field) => field.id === id)) return;
+    
+    set((state) => ({
+      ...recordHistory(state),
+      customFields: state.customFields.filter((field) => field.id !== id),
+      attendees: state.attendees.map((attendee) => withFieldValues(attendee, (fieldId) => fieldId !== id)),
+      updatedAt: new Date(),
+    }));
+  },
+  
+  // Seating rules
+  addConstraint: (input: SeatingConstraintInput) => {
+    const result = validateConstraintInput(input);
+    if (!result.success) return result;
+    
+    const constraint: SeatingConstraint = { ...result.input, id: nanoid() };
+    set((state) => ({
+      ...recordHistory(state),
+      constraints: [...state.constraints, constraint],
+      updatedAt: new Date(),
+    }));
+    
+    return { success: true, constraint };
+  },
+  
+  updateConstraint: (id: string, updates: Partial<SeatingConstraintInput>) => {
+    const existing = get().constraints.find((constraint) => constraint.id === id);
+    if (!existing) return { success: false, error: "Rule not found" };
+    
+    const result = validateConstraintInput({ ...existing, ...updates });
+    if (!result.success) return result;
+    const constraint: SeatingConstraint = { ...result.input, id };
+    
+    set((state) => ({
+      ...recordHistory(state),
+      constraints: state.constraints.map((candidate) => (candidate.id === id ? constraint : candidate)),
+      updatedAt: new Date(),
+    }));
+    
+    return { success: true, constraint };
+  },
+  
+  deleteConstraint: (id: string) => {
+    if (!get().constraints.some((constraint) => constraint.id === id)) return;
+    
+    set((state) => ({
+      ...recordHistory(state),
+      constraints: state.constraints.filter((constraint) => constraint.id !== id),
+      updatedAt: new Date(),
+    }));
+  },
+  
+  // Affinities
+  setAffinity: (attendeeIds: [string, string], weight: number) => {
+    const result = validateAffinity(attendeeIds, weight, get().attendees);
+    if (!result.success) return result;
+    
+    const affinities = withAffinity(get().affinities, attendeeIds, weight);
+    if (affinities !== get().affinities) {
+      set((state) => ({
+        ...recordHistory(state),
+        affinities,
+        updatedAt: new Date(),
+      }));
+    }
+    
+    return { success: true, affinity: weight === 0 ? null : { attendeeIds, weight } };
+  },
+  
   // Selection management
   selectTable: (id: string) => {
     set({ selectedTableIds: [id] });
@@ -88,6 +705,90 @@ export const usePlanStore = create<PlanStore>((set, get) => ({
     set({ selectedTableIds: [] });
   },
   
+  // History
+  undo: () => {
+    set((state) => {
+      const entry = state.past[state.past.length - 1];
+      if (!entry) return {};
+      return {
+        ...applyContent(state, entry.content),
+        past: state.past.slice(0, -1),
+        future: [...state.future, { content: getContent(state), recordedAt: Date.now() }],
+      };
+    });
+  },
+  
+  redo: () => {
+    set((state) => {
+      const entry = state.future[state.future.length - 1];
+      if (!entry) return {};
+      return {
+        ...applyContent(state, entry.content),
+        past: [...state.past, { content: getContent(state), recordedAt: Date.now() }],
+        future: state.future.slice(0, -1),
+      };
+    });
+  },
+  
+  // Whole-plan management
+  getPlan: () => {
+    const state = get();
+    return {
+      schemaVersion: CURRENT_PLAN_SCHEMA_VERSION,
+      id: state.planId,
+      name: state.name,
+      description: state.description,
+      tables: state.tables,
+      attendees: state.attendees,
+      seatAssignments: state.seatAssignments,
+      // Left out when unused so plans without custom fields, rules or affinities serialize as before
+      customFields: state.customFields.length > 0 ? state.customFields : undefined,
+      constraints: state.constraints.length > 0 ? state.constraints : undefined,
+      affinities: state.affinities.length > 0 ? state.affinities : undefined,
+      createdAt: state.createdAt,
+      updatedAt: state.updatedAt,
+    };
+  },
+  
+  loadPlan: (plan: Plan) => {
+    set({ ...planToState(plan), selectedTableIds: [], past: [], future: [] });
+  },
+  
+  // Swap in another version's contents as one undoable step, keeping this plan's identity
+  restorePlan: (plan: Plan) => {
+    set((state) => ({
+      ...recordHistory(state),
+      ...applyContent(state, {
+        name: plan.name,
+        description: plan.description,
+        tables: plan.tables,
+        attendees: plan.attendees,
+        seatAssignments: plan.seatAssignments,
+        customFields: plan.customFields ?? [],
+        constraints: plan.constraints ?? [],
+        affinities: plan.affinities ?? [],
+      }),
+    }));
+  },
+  
+  // Edits merged in from another tab. They aren't undo steps here, and they're merged into the
+  // undo and redo snapshots too, so undoing a local edit afterwards doesn't take them back out.
+  // Entities merge one by one, so the result is repaired: one tab may have deleted a table the
+  // other was seating guests at. Plan sync settles a guest seated twice before it gets here.
+  applyRemoteChanges: (changes: PlanEntityChange[]) => {
+    const merge = (content: PlanContent) => repairPlan(applyPlanEntityChanges(content, changes)).plan;
+    const rebase = (entry: HistoryEntry): HistoryEntry => ({ ...entry, content: merge(entry.content) });
+    set((state) => ({
+      ...applyContent(state, merge(getContent(state))),
+      past: state.past.map(rebase),
+      future: state.future.map(rebase),
+    }));
+  },
+  
+  resetPlan: () => {
+    set({ ...planToState(createEmptyPlan()), selectedTableIds: [], past: [], future: [] });
+  },
+  
   // Utility functions
   generateTableId: () => nanoid(),
   
@@ -107,9 +808,36 @@ export const usePlanStore = create<PlanStore>((set, get) => ({
 
 // Convenience selectors
 export const useTables = () => usePlanStore((state) => state.tables);
+export const useAttendees = () => usePlanStore((state) => state.attendees);
+export const useSeatAssignments = () => usePlanStore((state) => state.seatAssignments);
+export const useCustomFields = () => usePlanStore((state) => state.customFields);
+export const useConstraints = () => usePlanStore((state) => state.constraints);
 export const useSelectedTableIds = () => usePlanStore((state) => state.selectedTableIds);
 export const useAddTable = () => usePlanStore((state) => state.addTable);
 export const useUpdateTable = () => usePlanStore((state) => state.updateTable);
 export const useDeleteTable = () => usePlanStore((state) => state.deleteTable);
+export const useAddAttendee = () => usePlanStore((state) => state.addAttendee);
+export const useAddPlusOne = () => usePlanStore((state) => state.addPlusOne);
+export const useUpdateAttendee = () => usePlanStore((state) => state.updateAttendee);
+export const useDeleteAttendee = () => usePlanStore((state) => state.deleteAttendee);
+export const useDeleteAttendees = () => usePlanStore((state) => state.deleteAttendees);
+export const useImportAttendees = () => usePlanStore((state) => state.importAttendees);
+export const useAssignSeat = () => usePlanStore((state) => state.assignSeat);
+export const useMoveGuest = () => usePlanStore((state) => state.moveGuest);
+export const useSeatParty = () => usePlanStore((state) => state.seatParty);
+export const useApplyAutoSeat = () => usePlanStore((state) => state.applyAutoSeat);
+export const useSetSeatLocked = () => usePlanStore((state) => state.setSeatLocked);
+export const useAddCustomField = () => usePlanStore((state) => state.addCustomField);
+export const useUpdateCustomField = () => usePlanStore((state) => state.updateCustomField);
+export const useDeleteCustomField = () => usePlanStore((state) => state.deleteCustomField);
+export const useAddConstraint = () => usePlanStore((state) => state.addConstraint);
+export const useUpdateConstraint = () => usePlanStore((state) => state.updateConstraint);
+export const useDeleteConstraint = () => usePlanStore((state) => state.deleteConstraint);
+export const useAffinities = () => usePlanStore((state) => state.affinities);
+export const useSetAffinity = () => usePlanStore((state) => state.setAffinity);
 export const useSelectTable = () => usePlanStore((state) => state.selectTable);
-export const useClearTableSelection = () => usePlanStore((state) => state.clearSelection);
\ No newline at end of file
+export const useClearTableSelection = () => usePlanStore((state) => state.clearSelection);
+export const useUndo = () => usePlanStore((state) => state.undo);
+export const useRedo = () => usePlanStore((state) => state.redo);
+export const useCanUndo = () => usePlanStore((state) => state.past.length > 0);
+export const useCanRedo = () => usePlanStore((state) => state.future.length > 0);
@@ -0,0 +1,205 @@
+import { nanoid } from "nanoid";
+import { usePlanStore } from "./plan-store";
+import { useUIStore } from "./ui-store";
+import { getBrowserStorage } from "../utils/planStorage";
+import { diffPlanEntities, getEntityKey, getSeatKey } from "../utils/planEntities";
+import type { PlanEntityChange } from "../utils/planEntities";
+import type { SeatAssignment } from "../types";
+
+export const PLAN_SYNC_CHANNEL = "chairchart:sync";
+// Written (never read back) by the storage-event fallback; other tabs see it through the `storage` event
+export const PLAN_SYNC_STORAGE_KEY = "chairchart:sync";
+
+export interface PlanSyncMessage {
+  planId: string;
+  tabId: string;
+  // Wall-clock time of the edit; tabs of one origin share a clock
+  at: number;
+  changes: PlanEntityChange[];
+}
+
+export interface PlanSyncTransport {
+  post: (message: PlanSyncMessage) => void;
+  subscribe: (listener: (message: PlanSyncMessage) => void) => () => void;
+  close: () => void;
+}
+
+interface PlanSyncOptions {
+  transport?: PlanSyncTransport | null;
+  tabId?: string;
+  now?: () => number;
+}
+
+interface EntityStamp {
+  at: number;
+  tabId: string;
+}
+
+const isSyncMessage = (value: unknown): value is PlanSyncMessage => {
+  if (!value || typeof value !== "object") return false;
+  const message = value as Partial<PlanSyncMessage>;
+  return (
+    typeof message.planId === "string" &&
+    typeof message.tabId === "string" &&
+    typeof message.at === "number" &&
+    Array.isArray(message.changes)
+  );
+};
+
+export function createBroadcastChannelTransport(name = PLAN_SYNC_CHANNEL): PlanSyncTransport {
+  const channel = new BroadcastChannel(name);
+  return {
+    post: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const handleMessage = (event: MessageEvent) => {
+        if (isSyncMessage(event.data)) listener(event.data);
+      };
+      channel.addEventListener("message", handleMessage);
+      return () => channel.removeEventListener("message", handleMessage);
+    },
+    close: () => channel.close(),
+  };
+}
+
+// For browsers without BroadcastChannel: each write fires a `storage` event in every other tab
+export function createStorageEventTransport(storage: Storage, key = PLAN_SYNC_STORAGE_KEY): PlanSyncTransport {
+  return {
+    post: (message) => {
+      try {
+        storage.setItem(key, JSON.stringify(message));
+      } catch (error) {
+        console.error("Failed to broadcast plan changes", error);
+      }
+    },
+    subscribe: (listener) => {
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== key || !event.newValue) return;
+        try {
+          const data: unknown = JSON.parse(event.newValue);
+          if (isSyncMessage(data)) listener(data);
+        } catch {
+          // Not ours or half-written; the next edit resends its entities anyway
+        }
+      };
+      window.addEventListener("storage", handleStorage);
+      return () => window.removeEventListener("storage", handleStorage);
+    },
+    close: () => {},
+  };
+}
+
+export function createPlanSyncTransport(): PlanSyncTransport | null {
+  if (typeof window === "undefined") return null;
+  if (typeof BroadcastChannel !== "undefined") return createBroadcastChannelTransport();
+  const storage = getBrowserStorage();
+  return storage ? createStorageEventTransport(storage) : null;
+}
+
+// Later edits win per entity; equal timestamps fall back to the tab id so every tab picks the same winner
+const isNewer = (incoming: EntityStamp, current: EntityStamp | undefined) =>
+  !current || incoming.at > current.at || (incoming.at === current.at && incoming.tabId > current.tabId);
+
+// Seats are keyed by position, so two tabs seating one guest in different seats don't clash by key.
+// The newer write wins here too: an older remote seat is dropped, and a newer one comes with the
+// removal of the guest's seat in this tab.
+function resolveSeatConflicts(
+  changes: PlanEntityChange[],
+  incoming: EntityStamp,
+  seatAssignments: SeatAssignment[],
+  stamps: Map<string, EntityStamp>
+): { accepted: PlanEntityChange[]; removals: PlanEntityChange[] } {
+  const touched = new Set(changes.map(getEntityKey));
+  const removals: PlanEntityChange[] = [];
+  const accepted = changes.filter((change) => {
+    if (change.kind !== "seat" || !change.value?.attendeeId) return true;
+    const { attendeeId } = change.value;
+    const clashes = seatAssignments
+      .filter((assignment) => assignment.attendeeId === attendeeId)
+      .map((assignment): PlanEntityChange => ({ kind: "seat", id: getSeatKey(assignment), value: null }))
+      .filter((removal) => !touched.has(getEntityKey(removal)));
+    if (clashes.some((removal) => !isNewer(incoming, stamps.get(getEntityKey(removal))))) return false;
+    removals.push(...clashes);
+    return true;
+  });
+  return { accepted, removals };
+}
+
+// Tell the Inspector when the table it shows was edited or deleted elsewhere
+function notifyInspector(changes: PlanEntityChange[], tableNames: Map<string, string>) {
+  const ui = useUIStore.getState();
+  const { isOpen, tableId } = ui.inspector;
+  if (!isOpen || !tableId) return;
+  const change = changes.find((c) => c.kind === "table" && c.id === tableId);
+  if (!change) return;
+  if (change.value) {
+    ui.markInspectorRemoteChange();
+  } else {
+    ui.closeInspector();
+    ui.showNotice(`"${tableNames.get(tableId) ?? "This table"}" was deleted in another tab.`);
+  }
+}
+
+// Share plan edits with other tabs showing the same plan and merge theirs in. Returns an unsubscribe function.
+export function startPlanSync({
+  transport = createPlanSyncTransport(),
+  tabId = nanoid(),
+  now = Date.now,
+}: PlanSyncOptions = {}): () => void {
+  if (!transport) return () => {};
+
+  // When each entity was last written and by whom, for the current plan only
+  let stamps = new Map<string, EntityStamp>();
+  let isApplyingRemote = false;
+
+  const unsubscribeStore = usePlanStore.subscribe((state, prev) => {
+    if (state.planId !== prev.planId) {
+      stamps = new Map();
+      return;
+    }
+    if (isApplyingRemote) return;
+
+    const changes = diffPlanEntities(prev, state);
+    if (changes.length === 0) return;
+
+    const stamp = { at: now(), tabId };
+    changes.forEach((change) => stamps.set(getEntityKey(change), stamp));
+    transport.post({ planId: state.planId, tabId, at: stamp.at, changes });
+  });
+
+  const unsubscribeTransport = transport.subscribe((message) => {
+    const { planId, tables, seatAssignments } = usePlanStore.getState();
+    if (message.tabId === tabId || message.planId !== planId) return;
+
+    const incoming = { at: message.at, tabId: message.tabId };
+    const { accepted, removals } = resolveSeatConflicts(
+      message.changes.filter((change) => isNewer(incoming, stamps.get(getEntityKey(change)))),
+      incoming,
+      seatAssignments,
+      stamps
+    );
+    if (accepted.length === 0) return;
+
+    accepted.forEach((change) => stamps.set(getEntityKey(change), incoming));
+    const tableNames = new Map(tables.map((table) => [table.id, table.name]));
+
+    isApplyingRemote = true;
+    try {
+      usePlanStore.getState().applyRemoteChanges([...accepted, ...removals]);
+    } finally {
+      isApplyingRemote = false;
+    }
+    // The other tabs still have the losing seats, so they're told to drop them too
+    if (removals.length > 0) {
+      const stamp = { at: now(), tabId };
+      removals.forEach((change) => stamps.set(getEntityKey(change), stamp));
+      transport.post({ planId, tabId, at: stamp.at, changes: removals });
+    }
+    notifyInspector(accepted, tableNames);
+  });
+
+  return () => {
+    unsubscribeStore();
+    unsubscribeTransport();
+    transport.close();
+  };
+}
@@ -0,0 +1,92 @@
+import { create } from "zustand";
+import { nanoid } from "nanoid";
+import { usePlanStore } from "./plan-store";
+import { useLibraryStore } from "./library-store";
+import { readPlanSnapshots, writePlanSnapshots } from "../utils/planStorage";
+import type { PlanSnapshot } from "../utils/planStorage";
+import type { Plan } from "../types";
+
+interface SnapshotState {
+  // Plan whose snapshots are loaded; snapshots always belong to the plan open in the editor
+  planId: string | null;
+  snapshots: PlanSnapshot[];
+}
+
+interface SnapshotActions {
+  loadSnapshots: (planId: string) => void;
+  createSnapshot: (name: string) => PlanSnapshot;
+  deleteSnapshot: (id: string) => void;
+  restoreSnapshot: (id: string) => boolean;
+  restoreSnapshotAsNewPlan: (id: string) => Plan | null;
+}
+
+type SnapshotStore = SnapshotState & SnapshotActions;
+
+const defaultSnapshotName = (date: Date) => `Snapshot ${date.toLocaleString()}`;
+
+export const useSnapshotStore = create<SnapshotStore>((set, get) => ({
+  // Initial state
+  planId: null,
+  snapshots: [],
+  
+  loadSnapshots: (planId: string) => {
+    set({ planId, snapshots: readPlanSnapshots(planId) });
+  },
+  
+  createSnapshot: (name: string) => {
+    const plan = usePlanStore.getState().getPlan();
+    const now = new Date();
+    const snapshot: PlanSnapshot = {
+      id: nanoid(),
+      name: name.trim() || defaultSnapshotName(now),
+      createdAt: now,
+      plan,
+    };
+    
+    // Another plan may have been opened since the list was loaded
+    const existing = get().planId === plan.id ? get().snapshots : readPlanSnapshots(plan.id);
+    const snapshots = [snapshot, ...existing];
+    writePlanSnapshots(plan.id, snapshots);
+    set({ planId: plan.id, snapshots });
+    return snapshot;
+  },
+  
+  deleteSnapshot: (id: string) => {
+    const { planId, snapshots } = get();
+    if (!planId) return;
+    
+    const remaining = snapshots.filter((snapshot) => snapshot.id !== id);
+    writePlanSnapshots(planId, remaining);
+    set({ snapshots: remaining });
+  },
+  
+  // Undoable, so no confirmation is needed before overwriting the current layout
+  restoreSnapshot: (id: string) => {
+    const snapshot = get().snapshots.find((s) => s.id === id);
+    if (!snapshot) return false;
+    
+    usePlanStore.getState().restorePlan(snapshot.plan);
+    return true;
+  },
+  
+  restoreSnapshotAsNewPlan: (id: string) => {
+    const snapshot = get().snapshots.find((s) => s.id === id);
+    if (!snapshot) return null;
+    
+    const now = new Date();
+    return useLibraryStore.getState().importPlan({
+      ...snapshot.plan,
+      name: `${snapshot.plan.name} (${snapshot.name})`,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+}));
+
+// Convenience selectors
+export const usePlanSnapshots = () => useSnapshotStore((state) => state.snapshots);
+export const useLoadSnapshots = () => useSnapshotStore((state) => state.loadSnapshots);
+export const useCreateSnapshot = () => useSnapshotStore((state) => state.createSnapshot);
+export const useDeleteSnapshot = () => useSnapshotStore((state) => state.deleteSnapshot);
+export const useRestoreSnapshot = () => useSnapshotStore((state) => state.restoreSnapshot);
+export const useRestoreSnapshotAsNewPlan = () => useSnapshotStore((state) => state.restoreSnapshotAsNewPlan);
@@ -1,4 +1,6 @@
 import { create } from "zustand";
+import type { Plan } from "../types";
+import type { SeatColorBy } from "../utils/customFields";
 
 type Vec2 = { x: number; y: number };
 
@@ -19,7 +21,25 @@ interface UIState {
   inspector: {
     isOpen: boolean;
     tableId: string | null;
+    // Set when another tab edits the open table, until the user dismisses it
+    remoteChangedAt: number | null;
   };
+  
+  // Short-lived message shown over the canvas
+  notice: {
+    id: number;
+    message: string;
+  } | null;
+  
+  // Earlier version shown as a diff overlay; only applies while its plan is open
+  comparison: {
+    planId: string;
+    label: string;
+    basePlan: Plan;
+  } | null;
+  
+  // Occupied seats are colored by this guest detail; null keeps the default colors
+  seatColorBy: SeatColorBy | null;
 }
 
 interface UIActions {
@@ -40,6 +60,19 @@ interface UIActions {
   // Inspector actions
   openInspector: (tableId: string) => void;
   closeInspector: () => void;
+  markInspectorRemoteChange: () => void;
+  dismissInspectorRemoteChange: () => void;
+  
+  // Notice actions
+  showNotice: (message: string) => void;
+  dismissNotice: () => void;
+  
+  // Comparison actions
+  startComparison: (planId: string, label: string, basePlan: Plan) => void;
+  endComparison: () => void;
+  
+  // Seat color actions
+  setSeatColorBy: (colorBy: SeatColorBy | null) => void;
   
   // Combined view actions
   setView: (zoom: number, pan: Vec2) => void;
@@ -58,7 +91,11 @@ export const useUIStore = create<UIStore>((set, get) => ({
   inspector: {
     isOpen: false,
     tableId: null,
+    remoteChangedAt: null,
   },
+  notice: null,
+  comparison: null,
+  seatColorBy: null,
   
   // Zoom actions
   setZoom: (zoom: number) => set({ zoom }),
@@ -107,10 +144,31 @@ export const useUIStore = create<UIStore>((set, get) => ({
   
   // Inspector actions
   openInspector: (tableId: string) => 
-    set((state) => ({ inspector: { isOpen: true, tableId } })),
+    set((state) => ({ inspector: { isOpen: true, tableId, remoteChangedAt: null } })),
   
   closeInspector: () => 
-    set((state) => ({ inspector: { isOpen: false, tableId: null } })),
+    set((state) => ({ inspector: { isOpen: false, tableId: null, remoteChangedAt: null } })),
+  
+  markInspectorRemoteChange: () =>
+    set((state) => ({ inspector: { ...state.inspector, remoteChangedAt: Date.now() } })),
+  
+  dismissInspectorRemoteChange: () =>
+    set((state) => ({ inspector: { ...state.inspector, remoteChangedAt: null } })),
+  
+  // Notice actions
+  showNotice: (message: string) =>
+    set((state) => ({ notice: { id: (state.notice?.id ?? 0) + 1, message } })),
+  
+  dismissNotice: () => set({ notice: null }),
+  
+  // Comparison actions
+  startComparison: (planId: string, label: string, basePlan: Plan) =>
+    set({ comparison: { planId, label, basePlan } }),
+  
+  endComparison: () => set({ comparison: null }),
+  
+  // Seat color actions
+  setSeatColorBy: (seatColorBy: SeatColorBy | null) => set({ seatColorBy }),
   
   // Combined view actions
   setView: (zoom: number, pan: Vec2) => set({ zoom, pan }),
@@ -126,4 +184,13 @@ export const useUpdatePan = () => useUIStore((state) => state.updatePan);
 export const useSetView = () => useUIStore((state) => state.setView);
 export const useInspector = () => useUIStore((state) => state.inspector);
 export const useOpenInspector = () => useUIStore((state) => state.openInspector);
-export const useCloseInspector = () => useUIStore((state) => state.closeInspector);
\ No newline at end of file
+export const useCloseInspector = () => useUIStore((state) => state.closeInspector);
+export const useDismissInspectorRemoteChange = () => useUIStore((state) => state.dismissInspectorRemoteChange);
+export const useNotice = () => useUIStore((state) => state.notice);
+export const useShowNotice = () => useUIStore((state) => state.showNotice);
+export const useDismissNotice = () => useUIStore((state) => state.dismissNotice);
+export const useComparison = () => useUIStore((state) => state.comparison);
+export const useStartComparison = () => useUIStore((state) => state.startComparison);
+export const useEndComparison = () => useUIStore((state) => state.endComparison);
+export const useSeatColorBy = () => useUIStore((state) => state.seatColorBy);
+export const useSetSeatColorBy = () => useUIStore((state) => state.setSeatColorBy);
@@ -84,6 +84,13 @@ vi.mock('react-konva', () => {
       listening: listening ? 'true' : 'false',
       ...props
     }, text),
+    Arrow: ({ points = [], stroke, strokeWidth, ...props }: { points?: number[]; stroke?: string; strokeWidth?: number }) => React.createElement('polyline', {
+      'data-testid': 'konva-arrow',
+      points: points.join(' '),
+      stroke,
+      'stroke-width': strokeWidth,
+      ...props
+    }),
   };
 });
 
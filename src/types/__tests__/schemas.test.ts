@@ -273,6 +273,7 @@ describe('Type Schemas and Validation', () => {
   describe('PlanSchema', () => {
     it('should validate complete plan objects', () => {
       const validPlan: Plan = {
+        schemaVersion: 1,
         id: 'plan-1',
         name: 'Wedding Reception',
         description: 'Seating plan for John and Jane wedding',
@@ -312,6 +313,7 @@ describe('Type Schemas and Validation', () => {
 
     it('should validate plans with empty arrays', () => {
       const emptyPlan = {
+        schemaVersion: 1,
         id: 'empty-plan',
         name: 'Empty Plan',
         tables: [],
@@ -327,8 +329,8 @@ describe('Type Schemas and Validation', () => {
     it('should reject plans missing required fields', () => {
       const invalidPlans = [
         { name: 'Missing fields' }, // missing required fields
-        { id: '', name: 'Empty ID', tables: [], attendees: [], seatAssignments: [], createdAt: new Date(), updatedAt: new Date() },
-        { id: 'test', name: '', tables: [], attendees: [], seatAssignments: [], createdAt: new Date(), updatedAt: new Date() },
+        { schemaVersion: 1, id: '', name: 'Empty ID', tables: [], attendees: [], seatAssignments: [], createdAt: new Date(), updatedAt: new Date() },
+        { schemaVersion: 1, id: 'test', name: '', tables: [], attendees: [], seatAssignments: [], createdAt: new Date(), updatedAt: new Date() },
       ]
       
       invalidPlans.forEach(plan => {
@@ -336,8 +338,16 @@ describe('Type Schemas and Validation', () => {
       })
     })
 
+    it('should reject plans without the current schema version', () => {
+      const plan = { id: 'plan-1', name: 'Test Plan', tables: [], attendees: [], seatAssignments: [], createdAt: new Date(), updatedAt: new Date() }
+
+      expect(() => PlanSchema.parse(plan)).toThrow()
+      expect(() => PlanSchema.parse({ ...plan, schemaVersion: 99 })).toThrow()
+    })
+
     it('should handle optional description field', () => {
       const planWithDescription = {
+        schemaVersion: 1,
         id: 'plan-1',
         name: 'Test Plan',
         description: 'Test description',
@@ -349,6 +359,7 @@ describe('Type Schemas and Validation', () => {
       }
       
       const planWithoutDescription = {
+        schemaVersion: 1,
         id: 'plan-2',
         name: 'Test Plan',
         tables: [],
@@ -369,9 +380,122 @@ describe('Type Schemas and Validation', () => {
     })
   })
 
+  describe('PlanSchema cross-references', () => {
+    const table = { ...createValidTable(), id: 'table-1', seatCount: 4 }
+    const createPlan = (overrides: Partial<Plan>): Plan => ({
+      schemaVersion: 1,
+      id: 'plan-1',
+      name: 'Test Plan',
+      tables: [table],
+      attendees: [{ id: 'guest-1', name: 'Alice' }, { id: 'guest-2', name: 'Bob' }],
+      seatAssignments: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    })
+    const issuesOf = (plan: Plan) => {
+      const result = PlanSchema.safeParse(plan)
+      return result.success ? [] : result.error.issues.map(({ path, message }) => ({ path, message }))
+    }
+
+    it('should report duplicate table and guest ids at the later entry', () => {
+      expect(issuesOf(createPlan({
+        tables: [table, { ...table, name: 'Copy' }],
+        attendees: [{ id: 'guest-1', name: 'Alice' }, { id: 'guest-1', name: 'Alicia' }],
+      }))).toEqual([
+        { path: ['tables', 1, 'id'], message: 'must be unique (already used by tables[0])' },
+        { path: ['attendees', 1, 'id'], message: 'must be unique (already used by attendees[0])' },
+      ])
+    })
+
+    it('should report assignments to unknown tables, guests and seats', () => {
+      expect(issuesOf(createPlan({
+        seatAssignments: [
+          { tableId: 'missing', seatNumber: 1, attendeeId: 'guest-1' },
+          { tableId: 'table-1', seatNumber: 5, attendeeId: 'guest-1' },
+          { tableId: 'table-1', seatNumber: 1, attendeeId: 'missing' },
+        ],
+      }))).toEqual([
+        { path: ['seatAssignments', 0, 'tableId'], message: 'must refer to an existing table' },
+        { path: ['seatAssignments', 1, 'seatNumber'], message: 'must be ≤ 4, the seat count of its table' },
+        { path: ['seatAssignments', 2, 'attendeeId'], message: 'must refer to an existing guest' },
+      ])
+    })
+
+    it('should report two guests in one seat and one guest in two seats', () => {
+      expect(issuesOf(createPlan({
+        seatAssignments: [
+          { tableId: 'table-1', seatNumber: 1, attendeeId: 'guest-1' },
+          { tableId: 'table-1', seatNumber: 1, attendeeId: 'guest-2' },
+          { tableId: 'table-1', seatNumber: 2, attendeeId: 'guest-1' },
+        ],
+      }))).toEqual([
+        { path: ['seatAssignments', 1, 'seatNumber'], message: 'must not reuse the seat assigned by seatAssignments[0]' },
+        { path: ['seatAssignments', 2, 'attendeeId'], message: 'must not seat a guest already seated by seatAssignments[0]' },
+      ])
+    })
+
+    it('should report plus-ones without a real host, and treat them as missing', () => {
+      expect(issuesOf(createPlan({
+        attendees: [
+          { id: 'guest-1', name: 'Alice' },
+          { id: 'guest-2', name: 'Guest of Alice', hostId: 'guest-1' },
+          { id: 'guest-3', name: 'Guest of Guest of Alice', hostId: 'guest-2' },
+          { id: 'guest-4', name: 'Guest of Zed', hostId: 'missing' },
+        ],
+        seatAssignments: [{ tableId: 'table-1', seatNumber: 1, attendeeId: 'guest-4' }],
+      }))).toEqual([
+        { path: ['attendees', 2, 'hostId'], message: 'must not refer to another plus-one' },
+        { path: ['attendees', 3, 'hostId'], message: 'must refer to an existing guest' },
+        { path: ['seatAssignments', 0, 'attendeeId'], message: 'must refer to an existing guest' },
+      ])
+    })
+
+    it('should report rules naming missing guests or tables, and duplicate rule ids', () => {
+      expect(issuesOf(createPlan({
+        constraints: [
+          { id: 'rule-1', type: 'apart', attendeeIds: ['guest-1', 'guest-2'] },
+          { id: 'rule-2', type: 'together', attendeeIds: ['guest-1', 'missing'] },
+          { id: 'rule-3', type: 'near', attendeeIds: ['guest-1'], tableId: 'missing' },
+          { id: 'rule-1', type: 'far', attendeeIds: ['guest-1'], tableId: 'table-1' },
+        ],
+      }))).toEqual([
+        { path: ['constraints', 3, 'id'], message: 'must be unique (already used by constraints[0])' },
+        { path: ['constraints', 1, 'attendeeIds'], message: 'must refer to existing guests' },
+        { path: ['constraints', 2, 'tableId'], message: 'must refer to an existing table' },
+      ])
+    })
+
+    it('should report affinities naming missing guests, one guest twice, or a repeated pair', () => {
+      expect(issuesOf(createPlan({
+        attendees: [
+          { id: 'guest-1', name: 'Alice' },
+          { id: 'guest-2', name: 'Bob' },
+        ],
+        affinities: [
+          { attendeeIds: ['guest-1', 'guest-2'], weight: 2 },
+          { attendeeIds: ['guest-1', 'missing'], weight: 1 },
+          { attendeeIds: ['guest-1', 'guest-1'], weight: 1 },
+          { attendeeIds: ['guest-2', 'guest-1'], weight: -1 },
+        ],
+      }))).toEqual([
+        { path: ['affinities', 1, 'attendeeIds'], message: 'must refer to existing guests' },
+        { path: ['affinities', 2, 'attendeeIds'], message: 'must be two different guests' },
+        { path: ['affinities', 3, 'attendeeIds'], message: 'must not repeat the pair in affinities[0]' },
+      ])
+    })
+
+    it('should accept empty seats', () => {
+      expect(issuesOf(createPlan({
+        seatAssignments: [{ tableId: 'table-1', seatNumber: 1, attendeeId: null }],
+      }))).toEqual([])
+    })
+  })
+
   describe('Complex validation scenarios', () => {
     it('should validate large plans with many tables and attendees', () => {
       const largePlan = {
+        schemaVersion: 1,
         id: 'large-plan',
         name: 'Large Event',
         tables: Array.from({ length: 25 }, (_, i) => ({
@@ -406,6 +530,7 @@ describe('Type Schemas and Validation', () => {
 
     it('should validate mixed table shapes and configurations', () => {
       const mixedPlan = {
+        schemaVersion: 1,
         id: 'mixed-plan',
         name: 'Mixed Table Shapes',
         tables: [
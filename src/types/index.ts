@@ -10,11 +10,42 @@ export const Vec2Schema = z.object({
 export const TableShapeSchema = z.enum(["round", "rect", "square"]);
 export type TableShape = z.infer<typeof TableShapeSchema>;
 
+// A guest without a status has been invited but hasn't replied
+export const RsvpStatusSchema = z.enum(["invited", "accepted", "tentative", "declined"]);
+export type RsvpStatus = z.infer<typeof RsvpStatusSchema>;
+
+// Plan-specific guest details, such as side of the family or a VIP flag
+export const CustomFieldTypeSchema = z.enum(["text", "number", "boolean", "select"]);
+export type CustomFieldType = z.infer<typeof CustomFieldTypeSchema>;
+
+export const CustomFieldSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: CustomFieldTypeSchema,
+  // The choices of a select field
+  options: z.array(z.string().min(1)).optional(),
+});
+export type CustomField = z.infer<typeof CustomFieldSchema>;
+
+export const CustomFieldValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+export type CustomFieldValue = z.infer<typeof CustomFieldValueSchema>;
+
 export const AttendeeSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
   email: z.string().email().optional(),
   notes: z.string().optional(),
+  // Household or party name; guests sharing one are seated together
+  party: z.string().min(1).optional(),
+  rsvp: RsvpStatusSchema.optional(),
+  meal: z.string().min(1).optional(),
+  dietary: z.string().min(1).optional(),
+  allergies: z.string().min(1).optional(),
+  // Set on a placeholder plus-one whose name isn't known yet: the id of the guest bringing them
+  hostId: z.string().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  // Custom field values, keyed by field id
+  fields: z.record(z.string(), CustomFieldValueSchema).optional(),
 });
 export type Attendee = z.infer<typeof AttendeeSchema>;
 
@@ -36,6 +67,8 @@ export const TableSchema = z.object({
     height: z.number().positive(),
   }),
   seatConfig: SeatConfigSchema,
+  // Bulk seating leaves a locked table as it is: nobody is added, moved or removed
+  locked: z.boolean().optional(),
 });
 export type Table = z.infer<typeof TableSchema>;
 
@@ -43,19 +76,142 @@ export const SeatAssignmentSchema = z.object({
   tableId: z.string(),
   seatNumber: z.number().min(1).max(20),
   attendeeId: z.string().nullable(),
+  // A locked guest keeps their seat through bulk seating and table deletion
+  locked: z.boolean().optional(),
 });
 export type SeatAssignment = z.infer<typeof SeatAssignmentSchema>;
 
-export const PlanSchema = z.object({
+// together: at one table; apart: no two at the same table; adjacent: two guests in neighboring
+// seats; near and far: at or close to a table, or well away from it
+export const SeatingConstraintTypeSchema = z.enum(["together", "apart", "adjacent", "near", "far"]);
+export type SeatingConstraintType = z.infer<typeof SeatingConstraintTypeSchema>;
+
+export const SeatingConstraintSchema = z.object({
+  id: z.string().min(1),
+  type: SeatingConstraintTypeSchema,
+  attendeeIds: z.array(z.string().min(1)).min(1),
+  // The table near and far rules measure from
+  tableId: z.string().min(1).optional(),
+});
+export type SeatingConstraint = z.infer<typeof SeatingConstraintSchema>;
+
+// A soft preference between two guests, in either order: positive when they'd enjoy sitting
+// together, negative when they'd rather not. Each pair appears at most once.
+export const AffinitySchema = z.object({
+  attendeeIds: z.tuple([z.string().min(1), z.string().min(1)]),
+  weight: z.number().int().min(-3).max(3),
+});
+export type Affinity = z.infer<typeof AffinitySchema>;
+
+// Bump together with a new step in utils/planMigrations
+export const CURRENT_PLAN_SCHEMA_VERSION = 1;
+
+// Field-by-field shape of a plan; PlanSchema adds the checks that span collections
+export const PlanObjectSchema = z.object({
+  schemaVersion: z.literal(CURRENT_PLAN_SCHEMA_VERSION),
   id: z.string().min(1),
   name: z.string().min(1),
   description: z.string().optional(),
   tables: z.array(TableSchema),
   attendees: z.array(AttendeeSchema),
   seatAssignments: z.array(SeatAssignmentSchema),
+  customFields: z.array(CustomFieldSchema).optional(),
+  constraints: z.array(SeatingConstraintSchema).optional(),
+  affinities: z.array(AffinitySchema).optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
+
+export type PlanReferences = Pick<z.infer<typeof PlanObjectSchema>, "tables" | "attendees" | "seatAssignments" | "constraints" | "affinities">;
+
+export interface PlanReferenceIssue {
+  path: [keyof PlanReferences, number, string];
+  message: string;
+}
+
+// Ids must be unique, a plus-one's host must be a real guest rather than another plus-one, and
+// every assignment must point at a real seat and guest, with no seat or guest used twice. Rules
+// must name real guests and tables, and affinities two different real guests, once per pair. The
+// first occurrence wins: later duplicates are the ones reported, and a reported guest or
+// assignment doesn't count as existing for the checks after it.
+export function getPlanReferenceIssues({ tables, attendees, seatAssignments, constraints = [], affinities = [] }: PlanReferences): PlanReferenceIssue[] {
+  const issues: PlanReferenceIssue[] = [];
+  
+  const indexIds = (field: "tables" | "attendees" | "constraints", items: { id: string }[]) => {
+    const firstIndex = new Map<string, number>();
+    items.forEach(({ id }, index) => {
+      const first = firstIndex.get(id);
+      if (first === undefined) {
+        firstIndex.set(id, index);
+      } else {
+        issues.push({ path: [field, index, "id"], message: `must be unique (already used by ${field}[${first}])` });
+      }
+    });
+    return firstIndex;
+  };
+  const tableIndex = indexIds("tables", tables);
+  const attendeeIndex = indexIds("attendees", attendees);
+  
+  const orphans = attendees.filter(({ id, hostId }, index) => {
+    if (!hostId || attendeeIndex.get(id) !== index) return false;
+    const host = attendees[attendeeIndex.get(hostId) ?? -1];
+    const message = !host ? "must refer to an existing guest" : host.hostId ? "must not refer to another plus-one" : null;
+    if (message) issues.push({ path: ["attendees", index, "hostId"], message });
+    return message !== null;
+  });
+  orphans.forEach(({ id }) => attendeeIndex.delete(id));
+  
+  const seatOwners = new Map<string, number>();
+  const guestSeats = new Map<string, number>();
+  seatAssignments.forEach(({ tableId, seatNumber, attendeeId }, index) => {
+    const report = (field: string, message: string) => issues.push({ path: ["seatAssignments", index, field], message });
+    
+    const table = tables[tableIndex.get(tableId) ?? -1];
+    if (!table) return report("tableId", "must refer to an existing table");
+    if (seatNumber > table.seatCount) return report("seatNumber", `must be ≤ ${table.seatCount}, the seat count of its table`);
+    if (attendeeId !== null && !attendeeIndex.has(attendeeId)) return report("attendeeId", "must refer to an existing guest");
+    
+    const seatKey = `${tableId}:${seatNumber}`;
+    const seatOwner = seatOwners.get(seatKey);
+    if (seatOwner !== undefined) return report("seatNumber", `must not reuse the seat assigned by seatAssignments[${seatOwner}]`);
+    if (attendeeId !== null) {
+      const guestSeat = guestSeats.get(attendeeId);
+      if (guestSeat !== undefined) return report("attendeeId", `must not seat a guest already seated by seatAssignments[${guestSeat}]`);
+      guestSeats.set(attendeeId, index);
+    }
+    seatOwners.set(seatKey, index);
+  });
+  
+  const constraintIndex = indexIds("constraints", constraints);
+  constraints.forEach(({ id, attendeeIds, tableId }, index) => {
+    if (constraintIndex.get(id) !== index) return;
+    const report = (field: string, message: string) => issues.push({ path: ["constraints", index, field], message });
+    if (attendeeIds.some((attendeeId) => !attendeeIndex.has(attendeeId))) return report("attendeeIds", "must refer to existing guests");
+    if (tableId !== undefined && !tableIndex.has(tableId)) return report("tableId", "must refer to an existing table");
+  });
+  
+  const pairs = new Map<string, number>();
+  affinities.forEach(({ attendeeIds: [first, second] }, index) => {
+    const report = (message: string) => issues.push({ path: ["affinities", index, "attendeeIds"], message });
+    if (!attendeeIndex.has(first) || !attendeeIndex.has(second)) return report("must refer to existing guests");
+    if (first === second) return report("must be two different guests");
+    
+    const pairKey = [first, second].sort().join(":");
+    const pairOwner = pairs.get(pairKey);
+    if (pairOwner !== undefined) return report(`must not repeat the pair in affinities[${pairOwner}]`);
+    pairs.set(pairKey, index);
+  });
+  
+  return issues;
+}
+
+export const refinePlanReferences = (plan: PlanReferences, ctx: z.RefinementCtx) => {
+  for (const { path, message } of getPlanReferenceIssues(plan)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+  }
+};
+
+export const PlanSchema = PlanObjectSchema.superRefine(refinePlanReferences);
 export type Plan = z.infer<typeof PlanSchema>;
 
 export interface SeatPosition {
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatPoints,
+  getGuestAffinityScores,
+  getHappiness,
+  pruneAffinities,
+  scoreAffinities,
+  validateAffinity,
+  withAffinity,
+} from "../affinity";
+import type { Affinity, SeatAssignment, Table } from "../../types";
+
+const table = (id: string): Table => ({
+  id,
+  name: `Table ${id}`,
+  shape: "round",
+  position: { x: 0, y: 0 },
+  seatCount: 8,
+  rotation: 0,
+  size: { width: 120, height: 120 },
+});
+
+const seatAssignments: SeatAssignment[] = [
+  { tableId: "1", seatNumber: 1, attendeeId: "alice" },
+  { tableId: "1", seatNumber: 2, attendeeId: "bob" },
+  { tableId: "1", seatNumber: 5, attendeeId: "carol" },
+  { tableId: "2", seatNumber: 1, attendeeId: "dan" },
+];
+
+describe("affinity", () => {
+  it("should validate pairs and weights", () => {
+    const attendees = [{ id: "alice" }, { id: "bob" }];
+
+    expect(validateAffinity(["alice", "bob"], -3, attendees)).toEqual({ success: true });
+    expect(validateAffinity(["alice", "zed"], 1, attendees)).toEqual({ success: false, error: "Guest not found" });
+    expect(validateAffinity(["alice", "alice"], 1, attendees)).toEqual({ success: false, error: "choose two different guests" });
+    expect(validateAffinity(["alice", "bob"], 4, attendees)).toEqual({ success: false, error: "choose a weight from -3 to 3" });
+  });
+
+  it("should set, replace and remove a pair whichever way round it's named", () => {
+    const added = withAffinity([], ["alice", "bob"], 2);
+    expect(added).toEqual([{ attendeeIds: ["alice", "bob"], weight: 2 }]);
+
+    expect(withAffinity(added, ["bob", "alice"], 2)).toBe(added);
+    expect(withAffinity(added, ["bob", "alice"], -1)).toEqual([{ attendeeIds: ["bob", "alice"], weight: -1 }]);
+    expect(withAffinity(added, ["bob", "alice"], 0)).toEqual([]);
+    expect(withAffinity(added, ["alice", "carol"], 0)).toBe(added);
+  });
+
+  it("should prune pairs with missing guests", () => {
+    const affinities: Affinity[] = [
+      { attendeeIds: ["alice", "bob"], weight: 1 },
+      { attendeeIds: ["alice", "zed"], weight: 1 },
+    ];
+
+    expect(pruneAffinities(affinities, new Set(["alice", "bob"]))).toEqual([affinities[0]]);
+    expect(pruneAffinities(affinities, new Set(["alice", "bob", "zed"]))).toBe(affinities);
+  });
+
+  it("should score neighbors in full and the rest of the table by half", () => {
+    const scores = scoreAffinities({
+      tables: [table("1"), table("2")],
+      seatAssignments,
+      affinities: [
+        { attendeeIds: ["alice", "bob"], weight: 2 },
+        { attendeeIds: ["alice", "carol"], weight: -3 },
+        { attendeeIds: ["bob", "dan"], weight: 3 },
+        { attendeeIds: ["carol", "erin"], weight: 1 },
+      ],
+    });
+
+    expect(scores.map(({ relation, points }) => [relation, points])).toEqual([
+      ["neighbor", 2],
+      ["table", -1.5],
+      ["apart", 0],
+      ["unseated", 0],
+    ]);
+    expect(getHappiness(scores)).toEqual({ total: 0.5, byTable: new Map([["1", 0.5]]) });
+  });
+
+  it("should list one guest's affinities, biggest effect first", () => {
+    const scores = scoreAffinities({
+      tables: [table("1"), table("2")],
+      seatAssignments,
+      affinities: [
+        { attendeeIds: ["bob", "dan"], weight: 3 },
+        { attendeeIds: ["alice", "bob"], weight: 1 },
+        { attendeeIds: ["erin", "bob"], weight: -1 },
+      ],
+    });
+
+    expect(getGuestAffinityScores(scores, "bob").map(({ otherId }) => otherId)).toEqual(["alice", "dan", "erin"]);
+  });
+
+  it("should format points with a sign", () => {
+    expect([formatPoints(2), formatPoints(-1.5), formatPoints(0)]).toEqual(["+2", "−1.5", "0"]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { formatNameList, isAttending, isSameGuest, parseRsvpStatus, validateAttendeeInput } from "../attendees";
+
+describe("attendees", () => {
+  describe("validateAttendeeInput", () => {
+    it("should trim fields and drop blank optional values", () => {
+      expect(validateAttendeeInput({ name: "  Alice ", email: " ", notes: "" })).toEqual({
+        success: true,
+        input: { name: "Alice" },
+      });
+    });
+
+    it("should tidy party names", () => {
+      expect(validateAttendeeInput({ name: "Alice", party: "  Smith   family " })).toEqual({
+        success: true,
+        input: { name: "Alice", party: "Smith family" },
+      });
+    });
+
+    it("should report a missing name", () => {
+      expect(validateAttendeeInput({ name: "   " })).toEqual({ success: false, error: "name must not be empty" });
+    });
+  });
+
+  describe("isSameGuest", () => {
+    it("should compare emails when both guests have one", () => {
+      expect(isSameGuest({ name: "Alice", email: "A@example.com" }, { name: "Al", email: "a@example.com" })).toBe(true);
+      expect(isSameGuest({ name: "Alice", email: "a@example.com" }, { name: "Alice", email: "b@example.com" })).toBe(false);
+    });
+
+    it("should fall back to normalized names", () => {
+      expect(isSameGuest({ name: "alice  smith" }, { name: "Alice Smith", email: "a@example.com" })).toBe(true);
+    });
+  });
+
+  describe("parseRsvpStatus", () => {
+    it("should read common spreadsheet replies", () => {
+      expect(parseRsvpStatus(" Yes ")).toBe("accepted");
+      expect(parseRsvpStatus("Regrets")).toBe("declined");
+      expect(parseRsvpStatus("maybe")).toBe("tentative");
+      expect(parseRsvpStatus("Pending")).toBe("invited");
+      expect(parseRsvpStatus("perhaps next year")).toBeUndefined();
+    });
+  });
+
+  describe("isAttending", () => {
+    it("should count everyone but declined guests", () => {
+      expect(isAttending({})).toBe(true);
+      expect(isAttending({ rsvp: "tentative" })).toBe(true);
+      expect(isAttending({ rsvp: "declined" })).toBe(false);
+    });
+  });
+
+  describe("formatNameList", () => {
+    it("should join short lists naturally", () => {
+      expect(formatNameList([])).toBe("");
+      expect(formatNameList(["Alice"])).toBe("Alice");
+      expect(formatNameList(["Alice", "Bob"])).toBe("Alice and Bob");
+      expect(formatNameList(["Alice", "Bob", "Carol"])).toBe("Alice, Bob and Carol");
+    });
+
+    it("should summarize the rest of long lists", () => {
+      expect(formatNameList(["Alice", "Bob", "Carol", "Dan"])).toBe("Alice, Bob, Carol and 1 other");
+      expect(formatNameList(["Alice", "Bob", "Carol", "Dan", "Eve"], 2)).toBe("Alice, Bob and 3 others");
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from "vitest";
+import { scoreSeating, solveSeating } from "../autoSeat";
+import type { AutoSeatInput } from "../autoSeat";
+import type { Attendee, Table } from "../../types";
+
+const table = (id: string, seatCount: number, x = 0): Table => ({
+  id,
+  name: `Table ${id}`,
+  shape: "round",
+  position: { x, y: 0 },
+  seatCount,
+  rotation: 0,
+  size: { width: 120, height: 120 },
+});
+
+const attendees: Attendee[] = [
+  { id: "alice", name: "Alice", party: "Smith" },
+  { id: "bob", name: "Bob", party: "Smith" },
+  { id: "carol", name: "Carol" },
+  { id: "dan", name: "Dan" },
+  { id: "eve", name: "Eve", rsvp: "declined" },
+];
+
+const input = (overrides: Partial<AutoSeatInput> = {}): AutoSeatInput => ({
+  tables: [table("1", 2), table("2", 2, 1000)],
+  attendees,
+  seatAssignments: [],
+  constraints: [],
+  affinities: [],
+  ...overrides,
+});
+
+const tableOf = (placements: { tableId: string; attendeeId: string | null }[], id: string) =>
+  placements.find((placement) => placement.attendeeId === id)?.tableId;
+
+describe("autoSeat", () => {
+  describe("scoreSeating", () => {
+    it("should count kept rules, parties and unseated guests", () => {
+      const score = scoreSeating(
+        input({
+          seatAssignments: [
+            { tableId: "1", seatNumber: 1, attendeeId: "alice" },
+            { tableId: "2", seatNumber: 1, attendeeId: "bob" },
+            { tableId: "1", seatNumber: 2, attendeeId: "carol" },
+          ],
+          constraints: [
+            { id: "r1", type: "apart", attendeeIds: ["alice", "carol"] },
+            { id: "r2", type: "together", attendeeIds: ["bob", "dan"] },
+          ],
+        })
+      );
+
+      expect(score).toEqual({
+        rulesKept: 0,
+        rulesBroken: 1,
+        rulesWaiting: 1,
+        partiesTogether: 0,
+        partiesSplit: 1,
+        seated: 3,
+        unseated: 1,
+        happiness: 0,
+        total: -10 - 5 - 25,
+      });
+    });
+  });
+
+  describe("solveSeating", () => {
+    it("should seat everyone who's coming, and keep a party together", () => {
+      const result = solveSeating(input(), { iterations: 500 });
+
+      expect(result.placements).toHaveLength(4);
+      expect(tableOf(result.placements, "eve")).toBeUndefined();
+      expect(tableOf(result.placements, "alice")).toBe(tableOf(result.placements, "bob"));
+      expect(result.before.unseated).toBe(4);
+      expect(result.after).toMatchObject({ seated: 4, unseated: 0, partiesTogether: 1 });
+    });
+
+    it("should leave seated guests where they are", () => {
+      const result = solveSeating(
+        input({ seatAssignments: [{ tableId: "1", seatNumber: 1, attendeeId: "carol" }] }),
+        { iterations: 500 }
+      );
+
+      expect(tableOf(result.placements, "carol")).toBeUndefined();
+      expect(result.placements).not.toContainEqual(expect.objectContaining({ tableId: "1", seatNumber: 1 }));
+    });
+
+    it("should keep rules where it can", () => {
+      const result = solveSeating(
+        input({
+          attendees: attendees.filter((attendee) => !attendee.party),
+          constraints: [{ id: "r1", type: "together", attendeeIds: ["carol", "dan"] }],
+        }),
+        { iterations: 500 }
+      );
+
+      expect(tableOf(result.placements, "carol")).toBe(tableOf(result.placements, "dan"));
+      expect(result.after.rulesKept).toBe(1);
+    });
+
+    it("should seat guests who get along side by side", () => {
+      const result = solveSeating(
+        input({
+          tables: [table("1", 8)],
+          attendees: attendees.filter((attendee) => !attendee.party),
+          affinities: [{ attendeeIds: ["carol", "dan"], weight: 3 }],
+        }),
+        { iterations: 500 }
+      );
+
+      expect(result.after.happiness).toBe(3);
+    });
+
+    it("should leave locked tables alone", () => {
+      const result = solveSeating(input({ tables: [{ ...table("1", 2), locked: true }, table("2", 8, 1000)] }), { iterations: 500 });
+
+      expect(result.placements).toHaveLength(4);
+      expect(result.placements.every((placement) => placement.tableId === "2")).toBe(true);
+    });
+
+    it("should seat as many as fit when seats run out", () => {
+      const result = solveSeating(input({ tables: [table("1", 3)] }), { iterations: 500 });
+
+      expect(result.placements).toHaveLength(3);
+      expect(result.after.unseated).toBe(1);
+    });
+
+    it("should report the score of the seating it returns", () => {
+      const seatAssignments = [{ tableId: "1", seatNumber: 1, attendeeId: "carol" }];
+      const solved = input({
+        tables: [table("1", 3), table("2", 3, 1000)],
+        seatAssignments,
+        constraints: [
+          { id: "r1", type: "apart", attendeeIds: ["alice", "dan"] },
+          { id: "r2", type: "adjacent", attendeeIds: ["carol", "dan"] },
+        ],
+        affinities: [
+          { attendeeIds: ["alice", "carol"], weight: -2 },
+          { attendeeIds: ["bob", "dan"], weight: 1 },
+        ],
+      });
+      const result = solveSeating(solved, { iterations: 300 });
+
+      expect(result.after).toEqual(scoreSeating({ ...solved, seatAssignments: [...seatAssignments, ...result.placements] }));
+    });
+
+    it("should give the same result for the same seed", () => {
+      const options = { iterations: 300, seed: 7 };
+
+      expect(solveSeating(input(), options)).toEqual(solveSeating(input(), options));
+    });
+
+    it("should report progress up to done", () => {
+      const onProgress = vi.fn();
+
+      solveSeating(input(), { iterations: 200, onProgress });
+
+      expect(onProgress).toHaveBeenCalledWith(0.5);
+      expect(onProgress).toHaveBeenLastCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import {
+  areNeighborSeats,
+  evaluateConstraints,
+  getViolatedSeats,
+  NEAR_TABLE_DISTANCE,
+  pruneConstraints,
+  validateConstraintInput,
+} from "../constraints";
+import type { Attendee, SeatAssignment, SeatingConstraint, Table } from "../../types";
+
+const table = (id: string, overrides: Partial<Table> = {}): Table => ({
+  id,
+  name: `Table ${id}`,
+  shape: "round",
+  position: { x: 0, y: 0 },
+  seatCount: 8,
+  rotation: 0,
+  size: { width: 120, height: 120 },
+  ...overrides,
+});
+
+const attendees: Attendee[] = [
+  { id: "alice", name: "Alice" },
+  { id: "bob", name: "Bob" },
+  { id: "carol", name: "Carol" },
+  { id: "dan", name: "Dan", rsvp: "declined" },
+];
+
+const seat = (tableId: string, seatNumber: number, attendeeId: string): SeatAssignment => ({ tableId, seatNumber, attendeeId });
+
+const evaluate = (constraint: Omit<SeatingConstraint, "id">, seatAssignments: SeatAssignment[], tables: Table[] = [table("1"), table("2")]) =>
+  evaluateConstraints({ tables, attendees, seatAssignments, constraints: [{ id: "r1", ...constraint }] })[0];
+
+describe("constraints", () => {
+  describe("validateConstraintInput", () => {
+    it("should dedupe guests and drop the table from guest-only rules", () => {
+      expect(validateConstraintInput({ type: "apart", attendeeIds: ["alice", "bob", "alice"], tableId: "1" })).toEqual({
+        success: true,
+        input: { type: "apart", attendeeIds: ["alice", "bob"] },
+      });
+    });
+
+    it("should require enough guests and a table where needed", () => {
+      expect(validateConstraintInput({ type: "together", attendeeIds: ["alice"] })).toEqual({
+        success: false,
+        error: "choose at least two guests",
+      });
+      expect(validateConstraintInput({ type: "adjacent", attendeeIds: ["alice", "bob", "carol"] })).toEqual({
+        success: false,
+        error: "choose exactly two guests to sit next to each other",
+      });
+      expect(validateConstraintInput({ type: "near", attendeeIds: [] })).toEqual({ success: false, error: "choose at least one guest" });
+      expect(validateConstraintInput({ type: "far", attendeeIds: ["alice"] })).toEqual({ success: false, error: "choose a table" });
+    });
+  });
+
+  describe("pruneConstraints", () => {
+    const constraints: SeatingConstraint[] = [
+      { id: "r1", type: "apart", attendeeIds: ["alice", "bob", "carol"] },
+      { id: "r2", type: "together", attendeeIds: ["alice", "bob"] },
+      { id: "r3", type: "near", attendeeIds: ["carol"], tableId: "1" },
+    ];
+
+    it("should keep the same list when nothing is gone", () => {
+      expect(pruneConstraints(constraints, new Set(["alice", "bob", "carol"]), new Set(["1"]))).toBe(constraints);
+    });
+
+    it("should drop missing guests, and rules left with too few guests or no table", () => {
+      expect(pruneConstraints(constraints, new Set(["alice", "carol"]), new Set(["2"]))).toEqual([
+        { id: "r1", type: "apart", attendeeIds: ["alice", "carol"] },
+      ]);
+    });
+  });
+
+  describe("areNeighborSeats", () => {
+    it("should wrap around a round table", () => {
+      const round = table("1");
+
+      expect(areNeighborSeats(round, 1, 2)).toBe(true);
+      expect(areNeighborSeats(round, 8, 1)).toBe(true);
+      expect(areNeighborSeats(round, 1, 3)).toBe(false);
+      expect(areNeighborSeats(round, 1, 1)).toBe(false);
+    });
+  });
+
+  describe("evaluateConstraints", () => {
+    it("should flag a together rule split across tables", () => {
+      const result = evaluate({ type: "together", attendeeIds: ["alice", "bob"] }, [seat("1", 1, "alice"), seat("2", 1, "bob")]);
+
+      expect(result).toMatchObject({ status: "violated", message: "Split across Table 1 and Table 2" });
+      expect(result.seats).toEqual([{ tableId: "1", seatNumber: 1 }, { tableId: "2", seatNumber: 1 }]);
+    });
+
+    it("should wait for unseated guests before calling a rule kept", () => {
+      expect(evaluate({ type: "together", attendeeIds: ["alice", "bob"] }, [seat("1", 1, "alice")])).toMatchObject({
+        status: "pending",
+        message: "1 guest isn't seated yet",
+      });
+      expect(evaluate({ type: "together", attendeeIds: ["alice", "bob"] }, [seat("1", 1, "alice"), seat("1", 5, "bob")]).status).toBe(
+        "satisfied"
+      );
+    });
+
+    it("should leave declined guests out", () => {
+      expect(evaluate({ type: "apart", attendeeIds: ["alice", "dan"] }, [seat("1", 1, "alice"), seat("1", 2, "dan")]).status).toBe(
+        "satisfied"
+      );
+    });
+
+    it("should flag guests who must be apart sharing a table", () => {
+      const result = evaluate(
+        { type: "apart", attendeeIds: ["alice", "bob", "carol"] },
+        [seat("1", 1, "alice"), seat("1", 4, "bob"), seat("2", 1, "carol")]
+      );
+
+      expect(result).toMatchObject({ status: "violated", message: "Alice and Bob are both at Table 1" });
+      expect(result.seats).toEqual([{ tableId: "1", seatNumber: 1 }, { tableId: "1", seatNumber: 4 }]);
+    });
+
+    it("should check adjacent seats", () => {
+      expect(evaluate({ type: "adjacent", attendeeIds: ["alice", "bob"] }, [seat("1", 8, "alice"), seat("1", 1, "bob")]).status).toBe(
+        "satisfied"
+      );
+      expect(evaluate({ type: "adjacent", attendeeIds: ["alice", "bob"] }, [seat("1", 1, "alice"), seat("1", 5, "bob")])).toMatchObject({
+        status: "violated",
+        message: "Alice and Bob aren't in neighboring seats",
+      });
+    });
+
+    it("should measure near and far rules between table centres", () => {
+      const tables = [table("1"), table("2", { position: { x: NEAR_TABLE_DISTANCE, y: 0 } }), table("3", { position: { x: 1000, y: 0 } })];
+      const seats = [seat("2", 1, "alice"), seat("3", 1, "bob")];
+
+      expect(evaluate({ type: "near", attendeeIds: ["alice", "bob"], tableId: "1" }, seats, tables)).toMatchObject({
+        status: "violated",
+        message: "Bob is far from Table 1",
+        seats: [{ tableId: "3", seatNumber: 1 }],
+      });
+      expect(evaluate({ type: "far", attendeeIds: ["alice", "bob"], tableId: "1" }, seats, tables)).toMatchObject({
+        status: "violated",
+        message: "Alice is too close to Table 1",
+      });
+      expect(evaluate({ type: "far", attendeeIds: ["bob"], tableId: "1" }, seats, tables).status).toBe("satisfied");
+    });
+  });
+
+  describe("getViolatedSeats", () => {
+    it("should group flagged seats by table", () => {
+      const evaluations = evaluateConstraints({
+        tables: [table("1"), table("2")],
+        attendees,
+        seatAssignments: [seat("1", 1, "alice"), seat("1", 2, "bob"), seat("2", 3, "carol")],
+        constraints: [
+          { id: "r1", type: "apart", attendeeIds: ["alice", "bob"] },
+          { id: "r2", type: "together", attendeeIds: ["bob", "carol"] },
+        ],
+      });
+
+      expect(getViolatedSeats(evaluations)).toEqual(
+        new Map([
+          ["1", new Set([1, 2])],
+          ["2", new Set([3])],
+        ])
+      );
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { detectDelimiter, formatCsv, parseCsv } from "../csv";
+
+describe("csv", () => {
+  describe("detectDelimiter", () => {
+    it("should pick the most frequent delimiter on the first line", () => {
+      expect(detectDelimiter("name,email\nA,a@x.com")).toBe(",");
+      expect(detectDelimiter("name;email;notes\nA;a@x.com;")).toBe(";");
+      expect(detectDelimiter("name\temail\nA\ta@x.com")).toBe("\t");
+      expect(detectDelimiter("name|email")).toBe("|");
+    });
+
+    it("should ignore delimiters inside quotes", () => {
+      expect(detectDelimiter('"Smith, Alice";"a@x.com"')).toBe(";");
+    });
+
+    it("should default to commas", () => {
+      expect(detectDelimiter("name")).toBe(",");
+    });
+  });
+
+  describe("parseCsv", () => {
+    it("should split rows and fields", () => {
+      expect(parseCsv("name,email\nAlice,a@x.com\r\nBob,b@x.com")).toEqual([
+        ["name", "email"],
+        ["Alice", "a@x.com"],
+        ["Bob", "b@x.com"],
+      ]);
+    });
+
+    it("should handle quoted delimiters, escaped quotes and line breaks", () => {
+      expect(parseCsv('name,notes\n"Smith, Alice","Says ""hi""\nand bye"')).toEqual([
+        ["name", "notes"],
+        ["Smith, Alice", 'Says "hi"\nand bye'],
+      ]);
+    });
+
+    it("should keep empty fields and drop blank lines", () => {
+      expect(parseCsv("a,,c\n\n,,\nd,e,\n")).toEqual([
+        ["a", "", "c"],
+        ["d", "e", ""],
+      ]);
+    });
+
+    it("should strip a byte order mark", () => {
+      expect(parseCsv("\uFEFFname\nAlice")).toEqual([["name"], ["Alice"]]);
+    });
+
+    it("should use an explicit delimiter", () => {
+      expect(parseCsv("a;b,c", ";")).toEqual([["a", "b,c"]]);
+    });
+  });
+
+  describe("formatCsv", () => {
+    it("should quote only values that need it", () => {
+      expect(formatCsv([["name", "notes"], ["Smith, Alice", 'Says "hi"'], ["Bob", "line\nbreak"]])).toBe(
+        'name,notes\r\n"Smith, Alice","Says ""hi"""\r\nBob,"line\nbreak"'
+      );
+    });
+
+    it("should stop spreadsheets running values as formulas", () => {
+      expect(formatCsv([["=SUM(A1:A2)", "+1 guest", "-cmd", "@home", "\tx", "-5", "2.5", "a=b"]])).toBe(
+        "'=SUM(A1:A2),'+1 guest,'-cmd,'@home,'\tx,-5,2.5,a=b"
+      );
+    });
+
+    it("should read formula-like values back as they were written", () => {
+      const rows = [["=SUM(A1:A2)", "@home", "\rx", "'quoted", "'-5", "-5"]];
+
+      expect(parseCsv(formatCsv(rows))).toEqual(rows);
+    });
+
+    it("should round-trip through parseCsv", () => {
+      const rows = [["a;b", "c"], ["", '"quoted"']];
+
+      expect(parseCsv(formatCsv(rows, ";"), ";")).toEqual(rows);
+    });
+  });
+});
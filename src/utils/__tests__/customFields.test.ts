@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  compactFieldValues,
+  formatCustomFieldValue,
+  getCategoryColors,
+  getColorCategory,
+  getGuestCategoryColors,
+  getSeatColorByField,
+  parseCustomFieldValue,
+  parseTags,
+  validateCustomFieldInput,
+  withFieldValues,
+} from "../customFields";
+import type { Attendee, CustomField } from "../../types";
+
+const side: CustomField = { id: "side", name: "Side", type: "select", options: ["Bride", "Groom"] };
+const vip: CustomField = { id: "vip", name: "VIP", type: "boolean" };
+const age: CustomField = { id: "age", name: "Age", type: "number" };
+
+describe("customFields", () => {
+  describe("validateCustomFieldInput", () => {
+    it("should trim the name and dedupe choices", () => {
+      expect(validateCustomFieldInput({ name: "  Side ", type: "select", options: ["Bride", " bride", "Groom", ""] }, [])).toEqual({
+        success: true,
+        input: { name: "Side", type: "select", options: ["Bride", "Groom"] },
+      });
+    });
+
+    it("should drop choices from other field types", () => {
+      expect(validateCustomFieldInput({ name: "Age", type: "number", options: ["1"] }, [])).toEqual({
+        success: true,
+        input: { name: "Age", type: "number" },
+      });
+    });
+
+    it("should reject select fields without choices", () => {
+      expect(validateCustomFieldInput({ name: "Side", type: "select", options: [" "] }, [])).toEqual({
+        success: false,
+        error: "options must list at least one choice",
+      });
+    });
+
+    it("should reject a name another field uses, ignoring case", () => {
+      expect(validateCustomFieldInput({ name: "side", type: "text" }, [side])).toEqual({
+        success: false,
+        error: "name is already used by another field",
+      });
+      expect(validateCustomFieldInput({ name: "side", type: "select", options: ["Bride"] }, [side], "side").success).toBe(true);
+    });
+  });
+
+  describe("parseTags", () => {
+    it("should split on commas and semicolons, keeping the first spelling", () => {
+      expect(parseTags("Family; college,  family ,,Work  friends")).toEqual(["Family", "college", "Work friends"]);
+    });
+  });
+
+  describe("parseCustomFieldValue", () => {
+    it("should treat blank text as not set", () => {
+      expect(parseCustomFieldValue(age, "  ")).toEqual({ success: true, value: undefined });
+    });
+
+    it("should read numbers, yes/no answers and choices", () => {
+      expect(parseCustomFieldValue(age, " 42.5 ")).toEqual({ success: true, value: 42.5 });
+      expect(parseCustomFieldValue(vip, "Y")).toEqual({ success: true, value: true });
+      expect(parseCustomFieldValue(vip, "no")).toEqual({ success: true, value: false });
+      expect(parseCustomFieldValue(side, "groom")).toEqual({ success: true, value: "Groom" });
+    });
+
+    it("should explain values that don't fit the field", () => {
+      expect(parseCustomFieldValue(age, "old")).toEqual({ success: false, error: "Age must be a number" });
+      expect(parseCustomFieldValue(vip, "sometimes")).toEqual({ success: false, error: "VIP must be yes or no" });
+      expect(parseCustomFieldValue(side, "Both")).toEqual({ success: false, error: "Side must be one of Bride, Groom" });
+    });
+  });
+
+  describe("formatCustomFieldValue", () => {
+    it("should show booleans as Yes or No", () => {
+      expect(formatCustomFieldValue(vip, true)).toBe("Yes");
+      expect(formatCustomFieldValue(vip, false)).toBe("No");
+      expect(formatCustomFieldValue(age, 7)).toBe("7");
+      expect(formatCustomFieldValue(age, undefined)).toBe("");
+    });
+  });
+
+  describe("compactFieldValues", () => {
+    it("should drop blank values and empty maps", () => {
+      expect(compactFieldValues({ a: " x ", b: "", c: false, d: 0 })).toEqual({ a: "x", c: false, d: 0 });
+      expect(compactFieldValues({ a: "  " })).toBeUndefined();
+    });
+  });
+
+  describe("withFieldValues", () => {
+    it("should return the same guest when nothing is dropped", () => {
+      const guest: Attendee = { id: "g1", name: "Alice", fields: { side: "Bride" } };
+
+      expect(withFieldValues(guest, () => true)).toBe(guest);
+      expect(withFieldValues(guest, (id) => id !== "side")).toEqual({ id: "g1", name: "Alice", fields: undefined });
+    });
+  });
+
+  describe("seat colors", () => {
+    const guests: Attendee[] = [
+      { id: "g1", name: "Alice", tags: ["work", "family"], fields: { side: "Groom" } },
+      { id: "g2", name: "Bob", tags: ["family"], fields: { side: "Bride", vip: true } },
+      { id: "g3", name: "Carol" },
+    ];
+
+    it("should categorise guests by first tag or field value", () => {
+      expect(getColorCategory(guests[0], "tags", [side])).toBe("work");
+      expect(getColorCategory(guests[1], getSeatColorByField("vip"), [side, vip])).toBe("Yes");
+      expect(getColorCategory(guests[2], getSeatColorByField("side"), [side])).toBeUndefined();
+      expect(getColorCategory(guests[0], getSeatColorByField("gone"), [side])).toBeUndefined();
+    });
+
+    it("should give each category a stable color", () => {
+      const colors = getGuestCategoryColors(guests, getSeatColorByField("side"), [side]);
+
+      expect(Array.from(colors.keys())).toEqual(["Bride", "Groom"]);
+      expect(colors.get("Bride")).toEqual(getCategoryColors(["Groom", "Bride"]).get("Bride"));
+      expect(colors.get("Bride")).not.toEqual(colors.get("Groom"));
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { buildGuestExportRows, exportGuestsCsv, getGuestExportFileName } from "../guestExport";
+import type { GuestExportContents } from "../guestExport";
+import { parseCsv } from "../csv";
+import { buildGuestImport, guessColumnMapping } from "../guestImport";
+
+const plan: GuestExportContents = {
+  name: "Smith & Jones Wedding",
+  tables: [
+    {
+      id: "t1",
+      name: "Head Table",
+      shape: "round",
+      position: { x: 0, y: 0 },
+      seatCount: 8,
+      rotation: 0,
+      size: { width: 120, height: 120 },
+    },
+  ],
+  attendees: [
+    {
+      id: "g1",
+      name: "Smith, Alice",
+      email: "alice@example.com",
+      rsvp: "accepted",
+      meal: "Fish",
+      tags: ["family", "college"],
+      fields: { side: "Bride", vip: true },
+    },
+    { id: "g2", name: "Bob", notes: 'Says "hi"' },
+  ],
+  seatAssignments: [{ tableId: "t1", seatNumber: 3, attendeeId: "g1" }],
+  customFields: [
+    { id: "side", name: "Side", type: "select", options: ["Bride", "Groom"] },
+    { id: "vip", name: "VIP", type: "boolean" },
+  ],
+};
+
+describe("guestExport", () => {
+  describe("buildGuestExportRows", () => {
+    it("should list every guest with their details, custom fields and seat", () => {
+      expect(buildGuestExportRows(plan)).toEqual([
+        ["Name", "Email", "Party", "RSVP", "Meal", "Dietary needs", "Allergies", "Tags", "Side", "VIP", "Notes", "Table", "Seat"],
+        ["Smith, Alice", "alice@example.com", "", "Accepted", "Fish", "", "", "family, college", "Bride", "Yes", "", "Head Table", "3"],
+        ["Bob", "", "", "Invited", "", "", "", "", "", "", 'Says "hi"', "", ""],
+      ]);
+    });
+  });
+
+  describe("exportGuestsCsv", () => {
+    it("should import back into the same guests", () => {
+      const rows = parseCsv(exportGuestsCsv(plan));
+      const mapping = guessColumnMapping(rows[0], plan.customFields);
+      const result = buildGuestImport(rows, mapping, [], { customFields: plan.customFields });
+
+      expect(result.added).toEqual([
+        {
+          name: "Smith, Alice",
+          email: "alice@example.com",
+          rsvp: "accepted",
+          meal: "Fish",
+          tags: ["family", "college"],
+          fields: { side: "Bride", vip: true },
+        },
+        { name: "Bob", notes: 'Says "hi"' },
+      ]);
+    });
+
+    it("should import formula-like values and custom fields named like built-in columns back as they were", () => {
+      const customFields = [{ id: "email2", name: "Email", type: "text" as const }];
+      const withFormulas: GuestExportContents = {
+        ...plan,
+        attendees: [{ id: "g1", name: "=Alice", notes: "@home", fields: { email2: "+alice" } }],
+        seatAssignments: [],
+        customFields,
+      };
+      const rows = parseCsv(exportGuestsCsv(withFormulas));
+
+      expect(rows[0]).toContain("Email (custom field)");
+      const mapping = guessColumnMapping(rows[0], customFields);
+      const existing = [{ id: "g1", name: "=Alice", notes: "@home", fields: { email2: "+alice" } }];
+      const result = buildGuestImport(rows, mapping, existing, { customFields });
+
+      expect(result.rows.map((row) => row.status)).toEqual(["duplicate"]);
+      expect(result.rows[0].values).toEqual({ name: "=Alice", notes: "@home", fields: { email2: "+alice" } });
+    });
+  });
+
+  describe("getGuestExportFileName", () => {
+    it("should slug the plan name", () => {
+      expect(getGuestExportFileName(plan)).toBe("smith-jones-wedding-guests.csv");
+      expect(getGuestExportFileName({ name: "!!!" })).toBe("plan-guests.csv");
+    });
+  });
+});
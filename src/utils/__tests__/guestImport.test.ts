@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import { buildGuestImport, guessColumnMapping } from "../guestImport";
+import type { Attendee, CustomField } from "../../types";
+
+describe("guestImport", () => {
+  describe("guessColumnMapping", () => {
+    it("should prefer a custom field named like the heading", () => {
+      const fields: CustomField[] = [{ id: "f1", name: "Side", type: "text" }, { id: "f2", name: "Group", type: "text" }];
+
+      expect(guessColumnMapping(["Name", "side", "Group", "Tags"], fields)).toEqual(["name", "field:f1", "field:f2", "tags"]);
+    });
+
+    it("should recognise common headings", () => {
+      expect(guessColumnMapping(["First Name", "Last_Name", "E-mail", "Comments", "Table"])).toEqual([
+        "name",
+        "name",
+        "email",
+        "notes",
+        null,
+      ]);
+    });
+  });
+
+  describe("buildGuestImport", () => {
+    const existing: Attendee[] = [
+      { id: "a1", name: "Alice Smith", email: "alice@example.com" },
+      { id: "a2", name: "Bob Brown" },
+    ];
+
+    it("should read tags and typed custom field values", () => {
+      const customFields: CustomField[] = [
+        { id: "age", name: "Age", type: "number" },
+        { id: "vip", name: "VIP", type: "boolean" },
+        { id: "side", name: "Side", type: "select", options: ["Bride", "Groom"] },
+      ];
+      const result = buildGuestImport(
+        [
+          ["Name", "Tags", "Age", "VIP", "Side"],
+          ["Carol", "family; college, family", "34", "yes", "bride"],
+          ["Dan", "", "thirty", "", "Groom"],
+          ["Erin", "", "", "maybe", "Cousin"],
+        ],
+        ["name", "tags", "field:age", "field:vip", "field:side"],
+        [],
+        { customFields }
+      );
+
+      expect(result.added).toEqual([
+        { name: "Carol", tags: ["family", "college"], fields: { age: 34, vip: true, side: "Bride" } },
+      ]);
+      expect(result.rows.map((row) => row.error)).toEqual([
+        undefined,
+        "Age must be a number",
+        "VIP must be yes or no; Side must be one of Bride, Groom",
+      ]);
+    });
+
+    it("should merge tags and fill only missing custom field values", () => {
+      const customFields: CustomField[] = [
+        { id: "age", name: "Age", type: "number" },
+        { id: "city", name: "City", type: "text" },
+      ];
+      const result = buildGuestImport(
+        [
+          ["Name", "Tags", "Age", "City"],
+          ["Alice Smith", "Work, family", "40", "Paris"],
+        ],
+        ["name", "tags", "field:age", "field:city"],
+        [{ id: "a1", name: "Alice Smith", tags: ["family"], fields: { age: 39 } }],
+        { customFields }
+      );
+
+      expect(result.updated).toEqual([
+        { id: "a1", name: "Alice Smith", tags: ["family", "Work"], fields: { age: 39, city: "Paris" } },
+      ]);
+    });
+
+    it("should join name parts and label extra note columns", () => {
+      const result = buildGuestImport(
+        [
+          ["First", "Last", "Diet", "Song"],
+          ["Carol", "Jones", "Vegan", "Abba"],
+        ],
+        ["name", "name", "notes", "notes"],
+        []
+      );
+
+      expect(result.added).toEqual([{ name: "Carol Jones", email: undefined, notes: "Diet: Vegan; Song: Abba" }]);
+      expect(result.rows[0]).toMatchObject({ rowNumber: 2, status: "new" });
+    });
+
+    it("should read households into parties", () => {
+      const rows = [
+        ["Name", "Household"],
+        ["Carol Jones", "Jones  family"],
+      ];
+
+      expect(guessColumnMapping(rows[0])).toEqual(["name", "party"]);
+      expect(buildGuestImport(rows, ["name", "party"], []).added).toEqual([{ name: "Carol Jones", party: "Jones family" }]);
+    });
+
+    it("should read RSVP, meal and dietary columns", () => {
+      const rows = [
+        ["Name", "RSVP", "Entrée", "Dietary Restrictions", "Allergies"],
+        ["Carol Jones", "Yes", "Fish", "Vegetarian", "Peanuts"],
+        ["Dan Brown", "Regrets", "", "", ""],
+      ];
+
+      expect(guessColumnMapping(rows[0])).toEqual(["name", "rsvp", "meal", "dietary", "allergies"]);
+      expect(buildGuestImport(rows, ["name", "rsvp", "meal", "dietary", "allergies"], []).added).toEqual([
+        { name: "Carol Jones", rsvp: "accepted", meal: "Fish", dietary: "Vegetarian", allergies: "Peanuts" },
+        { name: "Dan Brown", rsvp: "declined" },
+      ]);
+    });
+
+    it("should flag RSVP values it can't read", () => {
+      const result = buildGuestImport([["Carol Jones", "Probably"]], ["name", "rsvp"], [], { hasHeaderRow: false });
+
+      expect(result.rows[0]).toMatchObject({ status: "invalid" });
+      expect(result.rows[0].error).toMatch(/^rsvp /);
+    });
+
+    it("should flag rows that fail validation", () => {
+      const result = buildGuestImport(
+        [
+          ["name", "email"],
+          ["", "nobody@example.com"],
+          ["Dan", "not-an-email"],
+        ],
+        ["name", "email"],
+        []
+      );
+
+      expect(result.rows).toEqual([
+        expect.objectContaining({ rowNumber: 2, status: "invalid", error: "name must not be empty" }),
+        expect.objectContaining({ rowNumber: 3, status: "invalid", error: "email must be a valid email address" }),
+      ]);
+      expect(result.added).toEqual([]);
+    });
+
+    it("should merge into existing guests without overwriting their data", () => {
+      const result = buildGuestImport(
+        [
+          ["name", "email", "notes"],
+          ["alice  SMITH", "ALICE@example.com", "Allergic to nuts"],
+          ["Bob Brown", "bob@example.com", ""],
+          ["Alice Smith", "alice@example.com", ""],
+        ],
+        ["name", "email", "notes"],
+        existing
+      );
+
+      expect(result.rows.map((row) => row.status)).toEqual(["merge", "merge", "duplicate"]);
+      expect(result.added).toEqual([]);
+      expect(result.updated).toEqual([
+        { id: "a1", name: "Alice Smith", email: "alice@example.com", notes: "Allergic to nuts" },
+        { id: "a2", name: "Bob Brown", email: "bob@example.com" },
+      ]);
+    });
+
+    it("should keep guests with the same name but different emails apart", () => {
+      const result = buildGuestImport([["Alice Smith", "other@example.com"]], ["name", "email"], existing, {
+        hasHeaderRow: false,
+      });
+
+      expect(result.rows[0]).toMatchObject({ rowNumber: 1, status: "new" });
+      expect(result.added).toHaveLength(1);
+    });
+
+    it("should collapse duplicates within the file", () => {
+      const result = buildGuestImport(
+        [
+          ["name", "email"],
+          ["Erin", ""],
+          ["erin", "erin@example.com"],
+          ["Erin", "erin@example.com"],
+        ],
+        ["name", "email"],
+        []
+      );
+
+      expect(result.rows.map((row) => row.status)).toEqual(["new", "merge", "duplicate"]);
+      expect(result.added).toEqual([{ name: "Erin", email: "erin@example.com" }]);
+    });
+
+    it("should skip rows with nothing in mapped columns", () => {
+      const result = buildGuestImport([["name", "table"], ["", "5"]], ["name", null], []);
+
+      expect(result.rows).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { getLockedGuestIds, getLockedSeats } from "../locks";
+import type { SeatAssignment, Table } from "../../types";
+
+const table = (id: string, locked?: boolean): Table => ({
+  id,
+  name: `Table ${id}`,
+  shape: "round",
+  position: { x: 0, y: 0 },
+  seatCount: 8,
+  rotation: 0,
+  size: { width: 120, height: 120 },
+  locked,
+});
+
+const seatAssignments: SeatAssignment[] = [
+  { tableId: "1", seatNumber: 1, attendeeId: "alice", locked: true },
+  { tableId: "1", seatNumber: 2, attendeeId: "bob" },
+  { tableId: "2", seatNumber: 1, attendeeId: "carol" },
+  { tableId: "2", seatNumber: 2, attendeeId: null, locked: true },
+];
+
+describe("locks", () => {
+  it("should lock guests by their own seat or their whole table", () => {
+    expect(getLockedGuestIds([table("1"), table("2", true)], seatAssignments)).toEqual(new Set(["alice", "carol"]));
+  });
+
+  it("should list seats locked on their own, skipping empty ones", () => {
+    expect(getLockedSeats(seatAssignments)).toEqual(new Map([["1", new Set([1])]]));
+  });
+});
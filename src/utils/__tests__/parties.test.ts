@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { getConsecutiveSeats, getPartyKey, getPartyMembers, getSplitParties, groupByParty } from "../parties";
+import type { Attendee } from "../../types";
+
+const attendees: Attendee[] = [
+  { id: "g1", name: "Alice Smith", party: "Smith family" },
+  { id: "g2", name: "Bob Brown" },
+  { id: "g3", name: "Dan Smith", party: "smith  Family" },
+  { id: "g4", name: "Eve Jones", party: "Jones" },
+];
+
+describe("parties", () => {
+  it("should treat party names case- and spacing-insensitively", () => {
+    expect(getPartyKey(" Smith  Family ")).toBe(getPartyKey("smith family"));
+  });
+
+  describe("groupByParty", () => {
+    it("should gather members at their first member's position", () => {
+      const entries = groupByParty(attendees, (attendee) => attendee);
+
+      expect(entries.map((entry) => (entry.kind === "guest" ? entry.item.name : entry.items.map((a) => a.name)))).toEqual([
+        ["Alice Smith", "Dan Smith"],
+        "Bob Brown",
+        ["Eve Jones"],
+      ]);
+    });
+  });
+
+  it("should find every member of a party", () => {
+    expect(getPartyMembers(attendees, "SMITH FAMILY").map((a) => a.id)).toEqual(["g1", "g3"]);
+  });
+
+  describe("getSplitParties", () => {
+    it("should list the tables of parties seated apart", () => {
+      const locations = new Map([
+        ["g1", { tableId: "t1", tableName: "Table 1", seatNumber: 1 }],
+        ["g3", { tableId: "t2", tableName: "Table 2", seatNumber: 4 }],
+        ["g4", { tableId: "t1", tableName: "Table 1", seatNumber: 2 }],
+      ]);
+
+      expect(getSplitParties(attendees, locations)).toEqual(new Map([["smith family", ["Table 1", "Table 2"]]]));
+    });
+
+    it("should not count unseated members as a split", () => {
+      const locations = new Map([["g1", { tableId: "t1", tableName: "Table 1", seatNumber: 1 }]]);
+
+      expect(getSplitParties(attendees, locations).size).toBe(0);
+    });
+  });
+
+  describe("getConsecutiveSeats", () => {
+    const table = { seatCount: 6 };
+
+    it("should take free seats from the start seat onwards, wrapping round the table", () => {
+      expect(getConsecutiveSeats(table, 5, 3, () => true)).toEqual([5, 6, 1]);
+    });
+
+    it("should skip occupied seats", () => {
+      expect(getConsecutiveSeats(table, 1, 3, (seat) => seat !== 2)).toEqual([1, 3, 4]);
+    });
+
+    it("should return null when there aren't enough free seats", () => {
+      expect(getConsecutiveSeats(table, 1, 3, (seat) => seat > 4)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { diffPlans, formatSeatLocation, isPlanDiffEmpty } from "../planDiff";
+import type { Plan, Table } from "../../types";
+
+const makeTable = (id: string, overrides: Partial<Table> = {}): Table => ({
+  id,
+  name: `Table ${id}`,
+  shape: "round",
+  position: { x: 0, y: 0 },
+  seatCount: 8,
+  rotation: 0,
+  size: { width: 120, height: 120 },
+  ...overrides,
+});
+
+const basePlan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Wedding",
+  tables: [makeTable("1"), makeTable("2", { position: { x: 300, y: 0 } }), makeTable("3", { position: { x: 600, y: 0 } })],
+  attendees: [
+    { id: "a1", name: "Alice" },
+    { id: "a2", name: "Bob" },
+    { id: "a3", name: "Carol" },
+  ],
+  seatAssignments: [
+    { tableId: "1", seatNumber: 1, attendeeId: "a1" },
+    { tableId: "1", seatNumber: 2, attendeeId: "a2" },
+    { tableId: "2", seatNumber: 1, attendeeId: "a3" },
+  ],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+};
+
+describe("planDiff", () => {
+  it("should report no differences for identical plans", () => {
+    const diff = diffPlans(basePlan, structuredClone(basePlan));
+
+    expect(isPlanDiffEmpty(diff)).toBe(true);
+  });
+
+  it("should report added and removed tables", () => {
+    const after = { ...basePlan, tables: [basePlan.tables[0], basePlan.tables[1], makeTable("4")] };
+
+    const diff = diffPlans(basePlan, after);
+
+    expect(diff.addedTables.map((t) => t.id)).toEqual(["4"]);
+    expect(diff.removedTables.map((t) => t.id)).toEqual(["3"]);
+  });
+
+  it("should classify moved, resized and renamed tables", () => {
+    const after = {
+      ...basePlan,
+      tables: [
+        makeTable("1", { position: { x: 40, y: 20 } }),
+        makeTable("2", { position: { x: 300, y: 0 }, seatCount: 10 }),
+        makeTable("3", { position: { x: 600, y: 0 }, name: "Family", rotation: 45 }),
+      ],
+    };
+
+    const diff = diffPlans(basePlan, after);
+
+    expect(diff.changedTables.map(({ after: t, moved, resized, renamed }) => ({ id: t.id, moved, resized, renamed }))).toEqual([
+      { id: "1", moved: true, resized: false, renamed: false },
+      { id: "2", moved: false, resized: true, renamed: false },
+      { id: "3", moved: true, resized: false, renamed: true },
+    ]);
+    expect(diff.changedTables[0].before.position).toEqual({ x: 0, y: 0 });
+  });
+
+  it("should ignore sub-pixel position noise", () => {
+    const after = { ...basePlan, tables: [makeTable("1", { position: { x: 0.2, y: -0.3 } }), ...basePlan.tables.slice(1)] };
+
+    expect(diffPlans(basePlan, after).changedTables).toEqual([]);
+  });
+
+  it("should list guests who changed seats, sorted by name", () => {
+    const after = {
+      ...basePlan,
+      seatAssignments: [
+        { tableId: "1", seatNumber: 1, attendeeId: "a2" },
+        { tableId: "1", seatNumber: 2, attendeeId: "a1" },
+        { tableId: "2", seatNumber: 1, attendeeId: "a3" },
+      ],
+    };
+
+    const diff = diffPlans(basePlan, after);
+
+    expect(diff.seatChanges).toEqual([
+      {
+        attendeeId: "a1",
+        name: "Alice",
+        from: { tableId: "1", tableName: "Table 1", seatNumber: 1 },
+        to: { tableId: "1", tableName: "Table 1", seatNumber: 2 },
+      },
+      {
+        attendeeId: "a2",
+        name: "Bob",
+        from: { tableId: "1", tableName: "Table 1", seatNumber: 2 },
+        to: { tableId: "1", tableName: "Table 1", seatNumber: 1 },
+      },
+    ]);
+  });
+
+  it("should report guests who lost or gained a seat", () => {
+    const after = {
+      ...basePlan,
+      tables: basePlan.tables.filter((t) => t.id !== "2"),
+      attendees: [...basePlan.attendees, { id: "a4", name: "Dan" }],
+      seatAssignments: [
+        { tableId: "1", seatNumber: 1, attendeeId: "a1" },
+        { tableId: "1", seatNumber: 2, attendeeId: "a2" },
+        { tableId: "3", seatNumber: 1, attendeeId: "a4" },
+      ],
+    };
+
+    const diff = diffPlans(basePlan, after);
+
+    expect(diff.seatChanges.map(({ name, from, to }) => [name, formatSeatLocation(from), formatSeatLocation(to)])).toEqual([
+      ["Carol", "Table 2 · Seat 1", "Not seated"],
+      ["Dan", "Not seated", "Table 3 · Seat 1"],
+    ]);
+  });
+});
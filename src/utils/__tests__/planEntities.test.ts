@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { applyPlanEntityChanges, diffPlanEntities, getEntityKey, getSeatKey } from "../planEntities";
+import type { PlanEntityContents } from "../planEntities";
+import type { Table } from "../../types";
+
+const table = (id: string, overrides: Partial<Table> = {}): Table => ({
+  id,
+  name: `Table ${id}`,
+  shape: "round",
+  position: { x: 0, y: 0 },
+  seatCount: 8,
+  rotation: 0,
+  size: { width: 120, height: 120 },
+  ...overrides,
+});
+
+const contents = (overrides: Partial<PlanEntityContents> = {}): PlanEntityContents => ({
+  name: "Wedding",
+  tables: [],
+  attendees: [],
+  seatAssignments: [],
+  ...overrides,
+});
+
+describe("planEntities", () => {
+  describe("diffPlanEntities", () => {
+    it("should return nothing for identical contents", () => {
+      const plan = contents({ tables: [table("a")] });
+      expect(diffPlanEntities(plan, { ...plan })).toEqual([]);
+    });
+
+    it("should report added, updated and removed entities", () => {
+      const a = table("a");
+      const b = table("b");
+      const before = contents({ tables: [a, b], attendees: [{ id: "g1", name: "Alice" }] });
+      const movedA = { ...a, position: { x: 50, y: 0 } };
+      const c = table("c");
+      const after = contents({ tables: [movedA, c], attendees: before.attendees });
+
+      expect(diffPlanEntities(before, after)).toEqual([
+        { kind: "table", id: "a", value: movedA },
+        { kind: "table", id: "c", value: c },
+        { kind: "table", id: "b", value: null },
+      ]);
+    });
+
+    it("should key seat assignments by table and seat", () => {
+      const seat = { tableId: "a", seatNumber: 2, attendeeId: "g1" };
+      const changes = diffPlanEntities(contents(), contents({ seatAssignments: [seat] }));
+
+      expect(changes).toEqual([{ kind: "seat", id: "a:2", value: seat }]);
+      expect(getSeatKey(seat)).toBe("a:2");
+      expect(getEntityKey(changes[0])).toBe("seat:a:2");
+    });
+
+    it("should report name and description edits as one metadata change", () => {
+      const changes = diffPlanEntities(contents(), contents({ name: "Gala", description: "Evening" }));
+      expect(changes).toEqual([{ kind: "meta", id: "meta", value: { name: "Gala", description: "Evening" } }]);
+    });
+  });
+
+  describe("applyPlanEntityChanges", () => {
+    it("should replace in place, append new entities and drop deleted ones", () => {
+      const a = table("a");
+      const b = table("b");
+      const renamedB = { ...b, name: "Head Table" };
+      const c = table("c");
+
+      const result = applyPlanEntityChanges(contents({ tables: [a, b] }), [
+        { kind: "table", id: "c", value: c },
+        { kind: "table", id: "a", value: null },
+        { kind: "table", id: "b", value: renamedB },
+      ]);
+
+      expect(result.tables).toEqual([renamedB, c]);
+    });
+
+    it("should keep untouched collections by reference", () => {
+      const plan = contents({ tables: [table("a")], attendees: [{ id: "g1", name: "Alice" }] });
+      const result = applyPlanEntityChanges(plan, [{ kind: "attendee", id: "g2", value: { id: "g2", name: "Bob" } }]);
+
+      expect(result.tables).toBe(plan.tables);
+      expect(result.attendees).toEqual([{ id: "g1", name: "Alice" }, { id: "g2", name: "Bob" }]);
+    });
+
+    it("should apply custom field changes and leave the fields alone otherwise", () => {
+      const side = { id: "f1", name: "Side", type: "text" as const };
+      const before = contents({ customFields: [side] });
+      const after = contents({ customFields: [{ ...side, name: "Family side" }, { id: "f2", name: "VIP", type: "boolean" }] });
+
+      expect(applyPlanEntityChanges(before, diffPlanEntities(before, after))).toEqual(after);
+      expect(applyPlanEntityChanges(before, []).customFields).toBe(before.customFields);
+    });
+
+    it("should apply seating rule changes", () => {
+      const rule = { id: "r1", type: "apart" as const, attendeeIds: ["g1", "g2"] };
+      const before = contents({ constraints: [rule] });
+      const after = contents({ constraints: [{ ...rule, type: "together" }] });
+
+      expect(applyPlanEntityChanges(before, diffPlanEntities(before, after))).toEqual(after);
+    });
+
+    it("should key affinities by their pair of guests", () => {
+      const before = contents({ affinities: [{ attendeeIds: ["g1", "g2"], weight: 2 }] });
+      const after = contents({ affinities: [{ attendeeIds: ["g2", "g1"], weight: -1 }, { attendeeIds: ["g1", "g3"], weight: 1 }] });
+      const changes = diffPlanEntities(before, after);
+
+      expect(changes.map((change) => [change.kind, change.id])).toEqual([["affinity", "g1:g2"], ["affinity", "g1:g3"]]);
+      expect(applyPlanEntityChanges(before, changes)).toEqual(after);
+    });
+
+    it("should round-trip a diff", () => {
+      const before = contents({
+        tables: [table("a"), table("b")],
+        seatAssignments: [{ tableId: "a", seatNumber: 1, attendeeId: "g1" }],
+      });
+      const after = contents({
+        name: "Gala",
+        tables: [table("a", { seatCount: 10 }), table("c")],
+        seatAssignments: [{ tableId: "a", seatNumber: 1, attendeeId: "g2" }],
+      });
+
+      expect(applyPlanEntityChanges(before, diffPlanEntities(before, after))).toEqual(after);
+    });
+  });
+});
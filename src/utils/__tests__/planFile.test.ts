@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import {
+  exportPlanFile,
+  getPlanFileName,
+  parsePlanFile,
+  PLAN_FILE_FORMAT,
+  PLAN_FILE_VERSION,
+} from "../planFile";
+import type { Plan } from "../../types";
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  description: "Garden reception",
+  tables: [
+    { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+    { id: "t2", name: "Table 2", shape: "rect", position: { x: 300, y: 0 }, seatCount: 6, rotation: 90, size: { width: 180, height: 80 } },
+  ],
+  attendees: [
+    { id: "a1", name: "Alice Smith", email: "alice@example.com" },
+    { id: "a2", name: "Bob Jones" },
+  ],
+  seatAssignments: [
+    { tableId: "t1", seatNumber: 1, attendeeId: "a1" },
+    { tableId: "t2", seatNumber: 2, attendeeId: "a2" },
+  ],
+  createdAt: new Date("2024-01-01T09:00:00.000Z"),
+  updatedAt: new Date("2024-01-05T17:30:00.000Z"),
+};
+
+const exportedAt = new Date("2024-02-01T12:00:00.000Z");
+
+// Round-trip through JSON so tests can corrupt the data like a hand-edited file
+const editedFile = (edit: (data: { plan: Record<string, unknown> & { tables: Record<string, unknown>[]; attendees: Record<string, unknown>[] } }) => void) => {
+  const data = JSON.parse(exportPlanFile(plan, exportedAt));
+  edit(data);
+  return JSON.stringify(data);
+};
+
+describe("planFile", () => {
+  describe("exportPlanFile", () => {
+    it("should wrap the plan in a versioned envelope", () => {
+      const data = JSON.parse(exportPlanFile(plan, exportedAt));
+
+      expect(data.format).toBe(PLAN_FILE_FORMAT);
+      expect(data.version).toBe(PLAN_FILE_VERSION);
+      expect(data.exportedAt).toBe("2024-02-01T12:00:00.000Z");
+      expect(data.plan.name).toBe("Smith Wedding");
+    });
+
+    it("should build a filename from the plan name and date", () => {
+      expect(getPlanFileName(plan, exportedAt)).toBe("smith-wedding-2024-02-01.chairchart.json");
+      expect(getPlanFileName({ ...plan, name: "!!!" }, exportedAt)).toBe("plan-2024-02-01.chairchart.json");
+    });
+  });
+
+  describe("parsePlanFile", () => {
+    it("should round-trip an exported plan", () => {
+      expect(parsePlanFile(exportPlanFile(plan, exportedAt))).toEqual({ status: "valid", plan });
+    });
+
+    it("should accept a bare plan object", () => {
+      expect(parsePlanFile(JSON.stringify(plan))).toEqual({ status: "valid", plan });
+    });
+
+    it("should reject malformed JSON", () => {
+      const result = parsePlanFile("{ not json");
+
+      expect(result.status).toBe("invalid");
+      expect(result.status === "invalid" && result.issues[0]).toMatch(/not valid JSON/);
+    });
+
+    it("should reject other file formats and newer versions", () => {
+      expect(parsePlanFile(JSON.stringify({ format: "spreadsheet", plan }))).toEqual({
+        status: "invalid",
+        issues: ['Unrecognized file format "spreadsheet"'],
+      });
+
+      const newer = parsePlanFile(JSON.stringify({ format: PLAN_FILE_FORMAT, version: PLAN_FILE_VERSION + 1, plan }));
+      expect(newer.status === "invalid" && newer.issues[0]).toMatch(/newer version/);
+    });
+
+    it("should reject JSON that is not a plan", () => {
+      expect(parsePlanFile(JSON.stringify({ hello: "world" })).status).toBe("invalid");
+      expect(parsePlanFile("[1, 2, 3]").status).toBe("invalid");
+    });
+
+    it("should report every issue with a readable path", () => {
+      const result = parsePlanFile(editedFile((data) => {
+        data.plan.tables[1].seatCount = 24;
+        data.plan.attendees[0].email = "not-an-email";
+      }));
+
+      expect(result.status === "partial" && result.issues).toEqual([
+        "tables[1].seatCount must be ≤ 20",
+        "attendees[0].email must be a valid email address",
+      ]);
+    });
+
+    it("should keep only the valid entries and drop assignments that would dangle", () => {
+      const result = parsePlanFile(editedFile((data) => {
+        data.plan.tables[1].seatCount = 24;
+      }));
+
+      if (result.status !== "partial") throw new Error("expected a partial result");
+      expect(result.plan.tables.map((t) => t.id)).toEqual(["t1"]);
+      expect(result.plan.attendees).toHaveLength(2);
+      expect(result.plan.seatAssignments).toEqual([{ tableId: "t1", seatNumber: 1, attendeeId: "a1" }]);
+      expect(result.dropped).toEqual({ tables: 1, attendees: 0, seatAssignments: 1, customFields: 0, constraints: 0, affinities: 0 });
+    });
+
+    it("should report and repair broken cross-references", () => {
+      const result = parsePlanFile(editedFile((data) => {
+        data.plan.tables[1].id = "t1";
+      }));
+
+      if (result.status !== "partial") throw new Error("expected a partial result");
+      expect(result.issues).toEqual([
+        "tables[1].id must be unique (already used by tables[0])",
+        "seatAssignments[1].tableId must refer to an existing table",
+      ]);
+      expect(result.plan.tables.map((t) => t.name)).toEqual(["Table 1"]);
+      expect(result.dropped).toEqual({ tables: 1, attendees: 0, seatAssignments: 1, customFields: 0, constraints: 0, affinities: 0 });
+    });
+
+    it("should keep valid custom fields and drop values of the ones left out", () => {
+      const result = parsePlanFile(editedFile((data) => {
+        data.plan.tables[1].seatCount = 24;
+        data.plan.customFields = [{ id: "f1", name: "Side", type: "text" }, { id: "f2", name: "", type: "text" }];
+        data.plan.attendees[0].fields = { f1: "Bride", f2: "gone" };
+        data.plan.attendees[1].fields = { f2: "gone" };
+      }));
+
+      if (result.status !== "partial") throw new Error("expected a partial result");
+      expect(result.plan.customFields).toEqual([{ id: "f1", name: "Side", type: "text" }]);
+      expect(result.plan.attendees.map((attendee) => attendee.fields)).toEqual([{ f1: "Bride" }, undefined]);
+      expect(result.dropped).toEqual({ tables: 1, attendees: 0, seatAssignments: 1, customFields: 1, constraints: 0, affinities: 0 });
+    });
+
+    it("should keep valid seating rules and drop the ones naming dropped guests or tables", () => {
+      const result = parsePlanFile(editedFile((data) => {
+        data.plan.tables[1].seatCount = 24;
+        data.plan.attendees[1].email = "not-an-email";
+        data.plan.constraints = [
+          { id: "r1", type: "near", attendeeIds: ["a1"], tableId: "t1" },
+          { id: "r2", type: "far", attendeeIds: ["a1"], tableId: "t2" },
+          { id: "r3", type: "apart", attendeeIds: ["a1", "a2"] },
+          { id: "r4", type: "mystery", attendeeIds: ["a1"] },
+        ];
+      }));
+
+      if (result.status !== "partial") throw new Error("expected a partial result");
+      expect(result.plan.constraints?.map((constraint) => constraint.id)).toEqual(["r1"]);
+      expect(result.dropped.constraints).toBe(3);
+    });
+
+    it("should keep valid affinities and drop the ones naming dropped guests", () => {
+      const result = parsePlanFile(editedFile((data) => {
+        data.plan.attendees.push({ id: "a3", name: "Carol" }, { id: "a4", name: "" });
+        data.plan.affinities = [
+          { attendeeIds: ["a1", "a2"], weight: 2 },
+          { attendeeIds: ["a1", "a4"], weight: 1 },
+          { attendeeIds: ["a2", "a3"], weight: 9 },
+        ];
+      }));
+
+      if (result.status !== "partial") throw new Error("expected a partial result");
+      expect(result.plan.affinities).toEqual([{ attendeeIds: ["a1", "a2"], weight: 2 }]);
+      expect(result.dropped).toMatchObject({ attendees: 1, affinities: 2 });
+    });
+
+    it("should fall back to defaults for invalid top-level fields", () => {
+      const result = parsePlanFile(editedFile((data) => {
+        data.plan.name = "";
+        data.plan.createdAt = "yesterday";
+      }));
+
+      if (result.status !== "partial") throw new Error("expected a partial result");
+      expect(result.issues).toEqual(["name must not be empty", "createdAt must be a valid date"]);
+      expect(result.plan.name).toBe("Imported Plan");
+      expect(result.plan.createdAt).toBeInstanceOf(Date);
+      expect(result.plan.tables).toHaveLength(2);
+    });
+  });
+});
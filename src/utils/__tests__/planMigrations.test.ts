@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  getPlanSchemaVersion,
+  migratePlanData,
+  migrateV0ToV1,
+  PLAN_MIGRATIONS,
+} from "../planMigrations";
+import type { PlanMigration } from "../planMigrations";
+import { parsePlanData } from "../planSerialization";
+import { CURRENT_PLAN_SCHEMA_VERSION } from "../../types";
+
+// Shape of a plan as saved before schema versioning was introduced
+const v0Plan = {
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [
+    { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, size: { width: 120, height: 120 } },
+    { id: "t2", name: "Table 2", shape: "rect", position: { x: 300, y: 0 }, seatCount: 6, rotation: 45, size: { width: 180, height: 80 } },
+  ],
+  attendees: [{ id: "a1", name: "Alice Smith" }],
+  seatAssignments: [{ tableId: "t1", seatNumber: 1, attendeeId: "a1" }],
+  createdAt: "2024-01-01T09:00:00.000Z",
+  updatedAt: "2024-01-05T17:30:00.000Z",
+};
+
+describe("planMigrations", () => {
+  it("should have a step for every version below the current one", () => {
+    for (let version = 0; version < CURRENT_PLAN_SCHEMA_VERSION; version++) {
+      expect(PLAN_MIGRATIONS[version]).toBeTypeOf("function");
+    }
+  });
+
+  describe("getPlanSchemaVersion", () => {
+    it("should treat unversioned payloads as version 0", () => {
+      expect(getPlanSchemaVersion(v0Plan)).toBe(0);
+      expect(getPlanSchemaVersion({ ...v0Plan, schemaVersion: 1 })).toBe(1);
+    });
+  });
+
+  describe("migrateV0ToV1", () => {
+    it("should stamp the version and default missing table rotation to 0", () => {
+      const migrated = migrateV0ToV1(v0Plan);
+
+      expect(migrated.schemaVersion).toBe(1);
+      expect(migrated.tables).toEqual([
+        { ...v0Plan.tables[0], rotation: 0 },
+        v0Plan.tables[1],
+      ]);
+    });
+
+    it("should not mutate its input", () => {
+      const input = structuredClone(v0Plan);
+
+      migrateV0ToV1(input);
+
+      expect(input).toEqual(v0Plan);
+    });
+
+    it("should leave malformed collections for validation to report", () => {
+      expect(migrateV0ToV1({ ...v0Plan, tables: "nope" }).tables).toBe("nope");
+    });
+  });
+
+  describe("migratePlanData", () => {
+    const steps: Record<number, PlanMigration> = {
+      0: (data) => ({ ...data, trail: [...((data.trail as string[]) ?? []), "0->1"] }),
+      1: (data) => ({ ...data, trail: [...((data.trail as string[]) ?? []), "1->2"] }),
+      2: (data) => ({ ...data, trail: [...((data.trail as string[]) ?? []), "2->3"] }),
+    };
+
+    it("should apply each step in order from the stored version", () => {
+      expect(migratePlanData({}, steps, 3)).toEqual({
+        success: true,
+        data: { schemaVersion: 3, trail: ["0->1", "1->2", "2->3"] },
+        fromVersion: 0,
+      });
+      expect(migratePlanData({ schemaVersion: 2 }, steps, 3)).toEqual({
+        success: true,
+        data: { schemaVersion: 3, trail: ["2->3"] },
+        fromVersion: 2,
+      });
+    });
+
+    it("should pass current payloads through untouched", () => {
+      const current = { ...v0Plan, schemaVersion: CURRENT_PLAN_SCHEMA_VERSION };
+
+      expect(migratePlanData(current)).toEqual({ success: true, data: current, fromVersion: CURRENT_PLAN_SCHEMA_VERSION });
+    });
+
+    it("should refuse payloads from a newer release", () => {
+      const result = migratePlanData({ schemaVersion: 4 }, steps, 3);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toMatch(/newer version/);
+    });
+
+    it("should fail when a step is missing", () => {
+      expect(migratePlanData({ schemaVersion: 1 }, { 0: steps[0] }, 2)).toEqual({
+        success: false,
+        error: "No migration from schema v1 to v2",
+      });
+    });
+
+    it("should reject nonsensical versions", () => {
+      expect(migratePlanData({ schemaVersion: "two" }).success).toBe(false);
+      expect(migratePlanData({ schemaVersion: -1 }).success).toBe(false);
+    });
+  });
+
+  it("should open plans saved by earlier releases", () => {
+    const result = parsePlanData(v0Plan);
+
+    expect(result.success).toBe(true);
+    expect(result.success && result.plan.schemaVersion).toBe(CURRENT_PLAN_SCHEMA_VERSION);
+    expect(result.success && result.plan.tables[0].rotation).toBe(0);
+  });
+});
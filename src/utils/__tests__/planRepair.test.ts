@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { repairPlan } from "../planRepair";
+import { PlanSchema } from "../../types";
+import type { Plan } from "../../types";
+
+const table = { id: "t1", name: "Table 1", shape: "round" as const, position: { x: 0, y: 0 }, seatCount: 4, rotation: 0, size: { width: 120, height: 120 } };
+
+const createPlan = (overrides: Partial<Plan> = {}): Plan => ({
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Wedding",
+  tables: [table],
+  attendees: [{ id: "g1", name: "Alice" }, { id: "g2", name: "Bob" }],
+  seatAssignments: [],
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+  ...overrides,
+});
+
+describe("repairPlan", () => {
+  it("should return a sound plan untouched", () => {
+    const plan = createPlan({ seatAssignments: [{ tableId: "t1", seatNumber: 1, attendeeId: "g1" }] });
+
+    const result = repairPlan(plan);
+
+    expect(result.plan).toBe(plan);
+    expect(result.issues).toEqual([]);
+    expect(result.removed).toEqual({ tables: 0, attendees: 0, seatAssignments: 0, constraints: 0, affinities: 0 });
+  });
+
+  it("should keep the first of any duplicates and drop dangling assignments", () => {
+    const plan = createPlan({
+      tables: [table, { ...table, name: "Duplicate" }],
+      attendees: [{ id: "g1", name: "Alice" }, { id: "g2", name: "Bob" }, { id: "g2", name: "Robert" }],
+      seatAssignments: [
+        { tableId: "t1", seatNumber: 1, attendeeId: "g1" },
+        { tableId: "t1", seatNumber: 1, attendeeId: "g2" },
+        { tableId: "t1", seatNumber: 2, attendeeId: "g1" },
+        { tableId: "t1", seatNumber: 6, attendeeId: "g2" },
+        { tableId: "t9", seatNumber: 1, attendeeId: "g2" },
+        { tableId: "t1", seatNumber: 3, attendeeId: "g2" },
+      ],
+    });
+
+    const result = repairPlan(plan);
+
+    expect(result.plan.tables.map((t) => t.name)).toEqual(["Table 1"]);
+    expect(result.plan.attendees.map((a) => a.name)).toEqual(["Alice", "Bob"]);
+    expect(result.plan.seatAssignments).toEqual([
+      { tableId: "t1", seatNumber: 1, attendeeId: "g1" },
+      { tableId: "t1", seatNumber: 3, attendeeId: "g2" },
+    ]);
+    expect(result.removed).toEqual({ tables: 1, attendees: 1, seatAssignments: 4, constraints: 0, affinities: 0 });
+    expect(result.issues).toEqual([
+      "tables[1].id must be unique (already used by tables[0])",
+      "attendees[2].id must be unique (already used by attendees[1])",
+      "seatAssignments[1].seatNumber must not reuse the seat assigned by seatAssignments[0]",
+      "seatAssignments[2].attendeeId must not seat a guest already seated by seatAssignments[0]",
+      "seatAssignments[3].seatNumber must be ≤ 4, the seat count of its table",
+      "seatAssignments[4].tableId must refer to an existing table",
+    ]);
+    expect(result.plan.createdAt).toBe(plan.createdAt);
+  });
+
+  it("should produce a plan that passes PlanSchema and needs no further repair", () => {
+    const plan = createPlan({
+      seatAssignments: [
+        { tableId: "t1", seatNumber: 1, attendeeId: "missing" },
+        { tableId: "t1", seatNumber: 1, attendeeId: "g1" },
+        { tableId: "t1", seatNumber: 2, attendeeId: "g1" },
+        { tableId: "t1", seatNumber: 3, attendeeId: "g3" },
+      ],
+      attendees: [
+        { id: "g1", name: "Alice" },
+        { id: "g2", name: "Guest of Zed", hostId: "missing" },
+        { id: "g3", name: "Guest of Guest of Zed", hostId: "g2" },
+      ],
+      constraints: [
+        { id: "r1", type: "apart", attendeeIds: ["g1", "g3"] },
+        { id: "r2", type: "near", attendeeIds: ["g1"], tableId: "t1" },
+      ],
+      affinities: [
+        { attendeeIds: ["g1", "g3"], weight: 2 },
+        { attendeeIds: ["g1", "g1"], weight: 1 },
+      ],
+    });
+
+    const repaired = repairPlan(plan).plan;
+
+    expect(PlanSchema.safeParse(repaired).success).toBe(true);
+    expect(repairPlan(repaired).plan).toBe(repaired);
+    expect(repaired.seatAssignments).toEqual([{ tableId: "t1", seatNumber: 1, attendeeId: "g1" }]);
+    expect(repaired.attendees).toEqual([{ id: "g1", name: "Alice" }]);
+    expect(repaired.constraints?.map((constraint) => constraint.id)).toEqual(["r2"]);
+    expect(repairPlan(plan).removed).toMatchObject({ constraints: 1, affinities: 2 });
+    expect(repaired.affinities).toEqual([]);
+  });
+});
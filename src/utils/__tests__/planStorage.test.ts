@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  LEGACY_PLAN_STORAGE_KEY,
+  getPlanStorageKey,
+  getCorruptBackupKey,
+  listStoredPlans,
+  readStoredPlan,
+  writeStoredPlan,
+  deleteStoredPlan,
+  backupCorruptPlan,
+  getSnapshotsStorageKey,
+  readPlanSnapshots,
+  writePlanSnapshots,
+} from "../planStorage";
+import { parsePlanJson, serializePlan } from "../planSerialization";
+import type { Plan } from "../../types";
+
+const createPlan = (overrides: Partial<Plan> = {}): Plan => ({
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Wedding",
+  tables: [
+    {
+      id: "table-1",
+      name: "Table 1",
+      shape: "round",
+      position: { x: 100, y: 200 },
+      seatCount: 8,
+      rotation: 0,
+      size: { width: 120, height: 120 },
+    },
+  ],
+  attendees: [{ id: "guest-1", name: "Alice Smith" }],
+  seatAssignments: [{ tableId: "table-1", seatNumber: 1, attendeeId: "guest-1" }],
+  createdAt: new Date("2024-05-01T10:00:00.000Z"),
+  updatedAt: new Date("2024-05-02T12:30:00.000Z"),
+  ...overrides,
+});
+
+describe("planSerialization", () => {
+  it("should round-trip a plan including dates", () => {
+    const plan = createPlan();
+    const result = parsePlanJson(serializePlan(plan));
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.plan).toEqual(plan);
+      expect(result.plan.createdAt).toBeInstanceOf(Date);
+    }
+  });
+
+  it("should report invalid JSON", () => {
+    const result = parsePlanJson("{not json");
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatch(/Invalid JSON/);
+    }
+  });
+
+  it("should report schema failures with their path", () => {
+    const plan = createPlan();
+    const broken = JSON.parse(serializePlan(plan));
+    broken.tables[0].seatCount = 99;
+
+    const result = parsePlanJson(JSON.stringify(broken));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("tables[0].seatCount must be ≤ 20");
+    }
+  });
+
+  it("should reject unparseable dates", () => {
+    const broken = { ...JSON.parse(serializePlan(createPlan())), createdAt: "yesterday-ish" };
+
+    expect(parsePlanJson(JSON.stringify(broken)).success).toBe(false);
+  });
+
+  it("should repair broken cross-references instead of rejecting the plan", () => {
+    const plan = createPlan({
+      seatAssignments: [
+        { tableId: "table-1", seatNumber: 1, attendeeId: "guest-1" },
+        { tableId: "table-9", seatNumber: 2, attendeeId: "guest-1" },
+      ],
+    });
+
+    const result = parsePlanJson(serializePlan(plan));
+
+    expect(result.success && result.plan.seatAssignments).toEqual([
+      { tableId: "table-1", seatNumber: 1, attendeeId: "guest-1" },
+    ]);
+    expect(result.success && result.repairs).toEqual(["seatAssignments[1].tableId must refer to an existing table"]);
+  });
+});
+
+describe("planStorage", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should report missing plans", () => {
+    expect(readStoredPlan("nope")).toEqual({ status: "missing" });
+  });
+
+  it("should write and read back a plan", () => {
+    const plan = createPlan();
+
+    expect(writeStoredPlan(plan)).toBe(true);
+    expect(readStoredPlan("plan-1")).toEqual({ status: "ok", plan, repairs: [] });
+  });
+
+  it("should list summaries newest first", () => {
+    writeStoredPlan(createPlan({ id: "old", name: "Old", updatedAt: new Date("2024-01-01T00:00:00.000Z") }));
+    writeStoredPlan(createPlan({ id: "new", name: "New", updatedAt: new Date("2024-06-01T00:00:00.000Z") }));
+
+    const summaries = listStoredPlans();
+
+    expect(summaries.map((summary) => summary.id)).toEqual(["new", "old"]);
+    expect(summaries[0]).toEqual({
+      id: "new",
+      name: "New",
+      description: undefined,
+      tableCount: 1,
+      guestCount: 1,
+      updatedAt: new Date("2024-06-01T00:00:00.000Z"),
+    });
+  });
+
+  it("should leave declined guests out of the summary's guest count", () => {
+    writeStoredPlan(createPlan({
+      attendees: [
+        { id: "guest-1", name: "Alice Smith", rsvp: "accepted" },
+        { id: "guest-2", name: "Bob Jones", rsvp: "declined" },
+        { id: "guest-3", name: "Carol White" },
+      ],
+    }));
+
+    expect(listStoredPlans()[0].guestCount).toBe(2);
+  });
+
+  it("should replace the summary when a plan is saved again", () => {
+    writeStoredPlan(createPlan());
+    writeStoredPlan(createPlan({ name: "Renamed", tables: [] }));
+
+    const summaries = listStoredPlans();
+
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0].name).toBe("Renamed");
+    expect(summaries[0].tableCount).toBe(0);
+  });
+
+  it("should delete a plan and its summary", () => {
+    writeStoredPlan(createPlan());
+
+    deleteStoredPlan("plan-1");
+
+    expect(readStoredPlan("plan-1")).toEqual({ status: "missing" });
+    expect(listStoredPlans()).toEqual([]);
+  });
+
+  it("should flag corrupt payloads without removing them", () => {
+    localStorage.setItem(getPlanStorageKey("plan-1"), '{"id":"x"}');
+
+    const result = readStoredPlan("plan-1");
+
+    expect(result.status).toBe("corrupt");
+    if (result.status === "corrupt") {
+      expect(result.raw).toBe('{"id":"x"}');
+      expect(result.error).toBeTruthy();
+    }
+    expect(localStorage.getItem(getPlanStorageKey("plan-1"))).toBe('{"id":"x"}');
+  });
+
+  it("should move corrupt payloads to the backup key", () => {
+    writeStoredPlan(createPlan());
+    localStorage.setItem(getPlanStorageKey("plan-1"), "garbage");
+
+    backupCorruptPlan("plan-1", "garbage");
+
+    expect(localStorage.getItem(getPlanStorageKey("plan-1"))).toBeNull();
+    expect(localStorage.getItem(getCorruptBackupKey("plan-1"))).toBe("garbage");
+    expect(listStoredPlans()).toEqual([]);
+  });
+
+  it("should move a plan saved under the legacy single-plan key into the library", () => {
+    const plan = createPlan();
+    localStorage.setItem(LEGACY_PLAN_STORAGE_KEY, serializePlan(plan));
+
+    const summaries = listStoredPlans();
+
+    expect(summaries.map((summary) => summary.id)).toEqual(["plan-1"]);
+    expect(readStoredPlan("plan-1")).toEqual({ status: "ok", plan, repairs: [] });
+    expect(localStorage.getItem(LEGACY_PLAN_STORAGE_KEY)).toBeNull();
+  });
+
+  it("should handle missing storage gracefully", () => {
+    expect(readStoredPlan("plan-1", null)).toEqual({ status: "missing" });
+    expect(writeStoredPlan(createPlan(), null)).toBe(false);
+    expect(listStoredPlans(null)).toEqual([]);
+  });
+});
+
+describe("plan snapshots", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const snapshot = (id: string, createdAt: string) => ({
+    id,
+    name: `Checkpoint ${id}`,
+    createdAt: new Date(createdAt),
+    plan: createPlan(),
+  });
+
+  it("should round-trip snapshots newest first", () => {
+    const older = snapshot("s1", "2024-05-01T10:00:00.000Z");
+    const newer = snapshot("s2", "2024-05-03T10:00:00.000Z");
+
+    expect(writePlanSnapshots("plan-1", [older, newer])).toBe(true);
+
+    expect(readPlanSnapshots("plan-1")).toEqual([newer, older]);
+  });
+
+  it("should skip snapshots that no longer parse", () => {
+    const good = snapshot("s1", "2024-05-01T10:00:00.000Z");
+    localStorage.setItem(
+      getSnapshotsStorageKey("plan-1"),
+      JSON.stringify([good, { id: "s2", name: "Broken", createdAt: "2024-05-02", plan: { tables: "nope" } }])
+    );
+
+    expect(readPlanSnapshots("plan-1")).toEqual([good]);
+  });
+
+  it("should return no snapshots for damaged or missing data", () => {
+    localStorage.setItem(getSnapshotsStorageKey("plan-1"), "{oops");
+
+    expect(readPlanSnapshots("plan-1")).toEqual([]);
+    expect(readPlanSnapshots("plan-2")).toEqual([]);
+    expect(readPlanSnapshots("plan-1", null)).toEqual([]);
+  });
+
+  it("should remove snapshots together with their plan", () => {
+    writeStoredPlan(createPlan());
+    writePlanSnapshots("plan-1", [snapshot("s1", "2024-05-01T10:00:00.000Z")]);
+
+    deleteStoredPlan("plan-1");
+
+    expect(localStorage.getItem(getSnapshotsStorageKey("plan-1"))).toBeNull();
+  });
+});
+
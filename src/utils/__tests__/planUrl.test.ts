@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { buildEditorUrl, buildPlanUrl, getPlanIdFromUrl, getViewerPath } from "../planUrl";
+
+describe("planUrl", () => {
+  it("should read the plan id from the query string", () => {
+    expect(getPlanIdFromUrl("http://localhost/ChairChart/?plan=abc123")).toBe("abc123");
+    expect(getPlanIdFromUrl("http://localhost/ChairChart/")).toBeNull();
+    expect(getPlanIdFromUrl("http://localhost/?plan=")).toBeNull();
+  });
+
+  it("should build a url that keeps the base path", () => {
+    expect(buildPlanUrl("abc123", "http://localhost/ChairChart/")).toBe("/ChairChart/?plan=abc123");
+  });
+
+  it("should drop the plan param and hash when returning to the library", () => {
+    expect(buildPlanUrl(null, "http://localhost/ChairChart/?plan=abc123&debug=1#share")).toBe("/ChairChart/?debug=1");
+  });
+
+  it("should build editor and viewer paths from the base path", () => {
+    expect(buildEditorUrl("abc 123")).toBe("/?plan=abc%20123");
+    expect(getViewerPath()).toBe("/view/");
+  });
+});
@@ -1,4 +1,5 @@
-import { getSeatPositions, getTableBounds, snapToGrid } from "../seatGeometry";
+import { describe, test, expect } from "vitest";
+import { findSeatAtPoint, getSeatNeighbors, getSeatPositions, getSeatRadius, getTableBounds, getTableSides, snapToGrid } from "../seatGeometry";
 import type { Table } from "../../types";
 
 // Helper to create a test table
@@ -292,4 +293,108 @@ describe("snapToGrid", () => {
     expect(snapToGrid({ x: 17, y: 23 }, 10)).toEqual({ x: 20, y: 20 });
     expect(snapToGrid({ x: 17, y: 23 }, 5)).toEqual({ x: 15, y: 25 });
   });
-});
\ No newline at end of file
+});
+
+describe("getSeatRadius", () => {
+  test("shrinks with zoom but never below the minimum", () => {
+    expect(getSeatRadius(1)).toBe(12);
+    expect(getSeatRadius(0.5)).toBe(24);
+    expect(getSeatRadius(4)).toBe(8);
+  });
+});
+
+describe("findSeatAtPoint", () => {
+  // Round table with radius 50: seats sit 80px from the centre, seat 1 at angle 0
+  const table = createTable({ id: "t1", position: { x: 200, y: 100 } });
+
+  test("finds the seat under a world point", () => {
+    expect(findSeatAtPoint([table], { x: 283, y: 98 }, 12)).toEqual({ tableId: "t1", seatNumber: 1 });
+    expect(findSeatAtPoint([table], { x: 200, y: 180 }, 12)).toEqual({ tableId: "t1", seatNumber: 2 });
+  });
+
+  test("returns null away from any seat", () => {
+    expect(findSeatAtPoint([table], { x: 200, y: 100 }, 12)).toBeNull();
+    expect(findSeatAtPoint([], { x: 0, y: 0 }, 12)).toBeNull();
+  });
+
+  test("follows table rotation", () => {
+    const rotated = { ...table, rotation: 90 };
+    expect(findSeatAtPoint([rotated], { x: 200, y: 180 }, 12)).toEqual({ tableId: "t1", seatNumber: 1 });
+  });
+
+  test("prefers the closest seat when hit areas overlap", () => {
+    const neighbour = createTable({ id: "t2", position: { x: 380, y: 100 } });
+    // t2 seat 3 sits at (300, 100), t1 seat 1 at (280, 100)
+    expect(findSeatAtPoint([table, neighbour], { x: 296, y: 100 }, 20)).toEqual({ tableId: "t2", seatNumber: 3 });
+  });
+});
+
+describe("getSeatNeighbors", () => {
+  test("round table neighbors wrap around, with the seat opposite across", () => {
+    const neighbors = getSeatNeighbors(createTable({ shape: "round", seatCount: 8 }));
+
+    expect(neighbors.get(1)).toEqual({ seatNumber: 1, left: 2, right: 8, across: [5], sameSide: [] });
+    expect(neighbors.get(8)).toMatchObject({ left: 1, right: 7, across: [4] });
+  });
+
+  test("odd round table has two seats across", () => {
+    expect(getSeatNeighbors(createTable({ shape: "round", seatCount: 5 })).get(1)?.across).toEqual([3, 4]);
+  });
+
+  test("square table corner seats neighbor round the corner", () => {
+    // Two seats a side: 1-2 top, 3-4 right, 5-6 bottom, 7-8 left
+    const table = createTable({ shape: "square", seatCount: 8 });
+    const neighbors = getSeatNeighbors(table);
+
+    expect(neighbors.get(1)).toEqual({ seatNumber: 1, left: 2, right: 8, across: [6], sameSide: [2] });
+    expect(neighbors.get(2)).toMatchObject({ left: 3, right: 1, across: [5] });
+    expect(neighbors.get(3)).toMatchObject({ left: 4, right: 2, across: [8], sameSide: [4] });
+    expect(getTableSides(table)).toEqual([[1, 2], [3, 4], [5, 6], [7, 8]]);
+  });
+
+  test("rect table end seats sit between the long sides", () => {
+    // Ends first: 1 right, 2 left; then 3-5 along the top and 6-8 back along the bottom
+    const table = createTable({ shape: "rect", seatCount: 8, size: { width: 200, height: 100 }, seatConfig: { cornerSeats: 2 } });
+    const neighbors = getSeatNeighbors(table);
+
+    expect(neighbors.get(1)).toEqual({ seatNumber: 1, left: 6, right: 5, across: [2], sameSide: [] });
+    expect(neighbors.get(2)).toMatchObject({ left: 3, right: 8, across: [1] });
+    expect(neighbors.get(4)).toMatchObject({ left: 5, right: 3, across: [7], sameSide: [3, 5] });
+    expect(getTableSides(table)).toEqual([[1], [2], [3, 4, 5], [6, 7, 8]]);
+  });
+
+  test("rect table corner seats join the top edge", () => {
+    // 3 and 4 sit at the top corners, with 5-7 between them
+    const table = createTable({ shape: "rect", seatCount: 10, size: { width: 300, height: 100 }, seatConfig: { cornerSeats: 4 } });
+    const neighbors = getSeatNeighbors(table);
+
+    expect(neighbors.get(3)).toEqual({ seatNumber: 3, left: 1, right: 7, across: [8], sameSide: [4, 5, 6, 7] });
+    expect(neighbors.get(4)).toMatchObject({ left: 5, right: 2, across: [10] });
+    expect(getTableSides(table)).toContainEqual([4, 5, 6, 7, 3]);
+  });
+
+  test("vertical rect table", () => {
+    // Ends first: 1 top, 2 bottom; then 3-5 up the left and 6-8 down the right
+    const neighbors = getSeatNeighbors(createTable({ shape: "rect", seatCount: 8, size: { width: 100, height: 200 }, seatConfig: { cornerSeats: 2 } }));
+
+    expect(neighbors.get(1)).toMatchObject({ left: 6, right: 5, across: [2] });
+    expect(neighbors.get(4)).toMatchObject({ left: 5, right: 3, across: [7], sameSide: [3, 5] });
+  });
+
+  test("rotation keeps the same neighbors", () => {
+    const table = createTable({ shape: "rect", seatCount: 8, size: { width: 200, height: 100 }, seatConfig: { cornerSeats: 2 } });
+
+    expect(getSeatNeighbors({ ...table, rotation: 135 })).toEqual(getSeatNeighbors(table));
+  });
+
+  test("a lone seat has no neighbors", () => {
+    expect(getSeatNeighbors(createTable({ seatCount: 1 })).get(1)).toEqual({ seatNumber: 1, left: null, right: null, across: [], sameSide: [] });
+  });
+
+  test("works a table out once, and again when it's replaced", () => {
+    const table = createTable({ shape: "round", seatCount: 4 });
+
+    expect(getSeatNeighbors(table)).toBe(getSeatNeighbors(table));
+    expect(getSeatNeighbors({ ...table, seatCount: 6 }).size).toBe(6);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { compressToEncodedURIComponent } from "lz-string";
+import {
+  buildShareUrl,
+  decodeSharedPlan,
+  encodePlanForShare,
+  getSharePayloadFromHash,
+  isShareUrlTooLong,
+  SAFE_SHARE_URL_LENGTH,
+} from "../shareLink";
+import type { Plan } from "../../types";
+
+const plan: Plan = {
+  schemaVersion: 1,
+  id: "plan-1",
+  name: "Smith Wedding",
+  tables: [
+    { id: "t1", name: "Table 1", shape: "round", position: { x: 0, y: 0 }, seatCount: 8, rotation: 0, size: { width: 120, height: 120 } },
+  ],
+  attendees: [{ id: "a1", name: "Alice Smith", email: "alice@example.com" }],
+  seatAssignments: [{ tableId: "t1", seatNumber: 3, attendeeId: "a1" }],
+  createdAt: new Date("2024-01-01T09:00:00.000Z"),
+  updatedAt: new Date("2024-01-05T17:30:00.000Z"),
+};
+
+describe("shareLink", () => {
+  it("should round-trip a plan through the compressed payload", () => {
+    const result = decodeSharedPlan(encodePlanForShare(plan));
+
+    expect(result).toEqual({ success: true, plan, repairs: [] });
+  });
+
+  it("should coerce ISO date strings back into dates", () => {
+    const result = decodeSharedPlan(encodePlanForShare(plan));
+
+    expect(result.success && result.plan.createdAt).toBeInstanceOf(Date);
+    expect(result.success && result.plan.updatedAt.toISOString()).toBe("2024-01-05T17:30:00.000Z");
+  });
+
+  it("should produce url-safe payloads", () => {
+    expect(encodePlanForShare(plan)).toMatch(/^[A-Za-z0-9+\-$]*$/);
+  });
+
+  it("should reject damaged payloads", () => {
+    const payload = encodePlanForShare(plan);
+
+    const result = decodeSharedPlan(payload.slice(0, payload.length / 2));
+
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject payloads that fail schema validation", () => {
+    const payload = compressToEncodedURIComponent(JSON.stringify({ ...plan, tables: [{ id: "t1" }] }));
+
+    const result = decodeSharedPlan(payload);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain("tables[0]");
+  });
+
+  it("should build a share url pointing at the viewer", () => {
+    const url = buildShareUrl(plan, "http://localhost:3000");
+
+    expect(url.startsWith("http://localhost:3000/view/#share=")).toBe(true);
+    expect(getSharePayloadFromHash(new URL(url).hash)).toBe(encodePlanForShare(plan));
+  });
+
+  it("should ignore unrelated hashes", () => {
+    expect(getSharePayloadFromHash("")).toBeNull();
+    expect(getSharePayloadFromHash("#section")).toBeNull();
+    expect(getSharePayloadFromHash("#share=")).toBeNull();
+  });
+
+  it("should flag urls over the safe length", () => {
+    expect(isShareUrlTooLong("x".repeat(SAFE_SHARE_URL_LENGTH))).toBe(false);
+    expect(isShareUrlTooLong("x".repeat(SAFE_SHARE_URL_LENGTH + 1))).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { PlanSchema } from "../../types";
+import { formatIssuePath, formatZodIssues } from "../validationMessages";
+
+const issuesFor = (schema: z.ZodTypeAny, value: unknown) => {
+  const result = schema.safeParse(value);
+  if (result.success) throw new Error("expected validation to fail");
+  return formatZodIssues(result.error);
+};
+
+describe("validationMessages", () => {
+  it("should format array indices and nested keys", () => {
+    expect(formatIssuePath(["tables", 3, "seatCount"])).toBe("tables[3].seatCount");
+    expect(formatIssuePath(["seatAssignments", 0])).toBe("seatAssignments[0]");
+    expect(formatIssuePath([])).toBe("");
+  });
+
+  it("should describe range violations with the limit", () => {
+    const table = {
+      id: "t1",
+      name: "Table 1",
+      shape: "round",
+      position: { x: 0, y: 0 },
+      seatCount: 24,
+      size: { width: 120, height: 120 },
+    };
+    const issues = issuesFor(PlanSchema, {
+      id: "p1",
+      name: "Plan",
+      tables: [table, table, table, table],
+      attendees: [],
+      seatAssignments: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    expect(issues).toContain("tables[3].seatCount must be ≤ 20");
+  });
+
+  it("should describe missing, empty and mistyped fields", () => {
+    const schema = z.object({ name: z.string().min(1), count: z.number(), email: z.string().email() });
+
+    expect(issuesFor(schema, { name: "", email: "nope" })).toEqual([
+      "name must not be empty",
+      "count is required",
+      "email must be a valid email address",
+    ]);
+    expect(issuesFor(schema, { name: "x", count: "3", email: "a@b.co" })).toEqual([
+      "count must be a number (got string)",
+    ]);
+  });
+
+  it("should list the allowed values for enums", () => {
+    expect(issuesFor(z.object({ shape: z.enum(["round", "rect"]) }), { shape: "oval" })).toEqual([
+      "shape must be one of: round, rect",
+    ]);
+  });
+});
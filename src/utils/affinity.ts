@@ -0,0 +1,120 @@
+import type { Affinity, Attendee, SeatAssignment, Table } from "../types";
+import { areNeighborSeats } from "./constraints";
+import { getAffinityKey } from "./planEntities";
+
+// Strongest liking first; 0 means no affinity, so it isn't stored
+export const AFFINITY_WEIGHTS = [3, 2, 1, -1, -2, -3] as const;
+
+export const AFFINITY_LABELS: Record<number, string> = {
+  3: "Best together",
+  2: "Get along well",
+  1: "Should meet",
+  [-1]: "Rather not",
+  [-2]: "Don't get along",
+  [-3]: "Keep apart",
+};
+
+// Guests in neighboring seats feel an affinity in full; elsewhere at the same table, half as much
+export const NEIGHBOR_FACTOR = 1;
+export const SAME_TABLE_FACTOR = 0.5;
+
+export type AffinityResult = { success: true; affinity: Affinity | null } | { success: false; error: string };
+
+export function validateAffinity(
+  attendeeIds: [string, string],
+  weight: number,
+  attendees: Pick<Attendee, "id">[]
+): { success: true } | { success: false; error: string } {
+  if (attendeeIds.some((id) => !attendees.some((attendee) => attendee.id === id))) {
+    return { success: false, error: "Guest not found" };
+  }
+  if (attendeeIds[0] === attendeeIds[1]) return { success: false, error: "choose two different guests" };
+  if (!Number.isInteger(weight) || Math.abs(weight) > 3) {
+    return { success: false, error: "choose a weight from -3 to 3" };
+  }
+  return { success: true };
+}
+
+// Sets the weight for a pair, replacing any earlier one; weight 0 removes the pair
+export function withAffinity(affinities: Affinity[], attendeeIds: [string, string], weight: number): Affinity[] {
+  const key = getAffinityKey({ attendeeIds });
+  const existing = affinities.find((affinity) => getAffinityKey(affinity) === key);
+  if (weight === 0) return existing ? affinities.filter((affinity) => affinity !== existing) : affinities;
+  if (existing?.weight === weight) return affinities;
+  const affinity: Affinity = { attendeeIds, weight };
+  return existing ? affinities.map((candidate) => (candidate === existing ? affinity : candidate)) : [...affinities, affinity];
+}
+
+// Drops pairs with a guest who no longer exists; the same list when nothing changed
+export function pruneAffinities(affinities: Affinity[], attendeeIds: Set<string>): Affinity[] {
+  const kept = affinities.filter(({ attendeeIds: pair }) => pair.every((id) => attendeeIds.has(id)));
+  return kept.length === affinities.length ? affinities : kept;
+}
+
+// Where a pair sits relative to each other; only "neighbor" and "table" score
+export type AffinityRelation = "neighbor" | "table" | "apart" | "unseated";
+
+export interface AffinityScore {
+  affinity: Affinity;
+  relation: AffinityRelation;
+  // The table both guests sit at, when they share one
+  tableId?: string;
+  points: number;
+}
+
+export interface HappinessInput {
+  tables: Table[];
+  seatAssignments: SeatAssignment[];
+  affinities: Affinity[];
+}
+
+export function scoreAffinities({ tables, seatAssignments, affinities }: HappinessInput): AffinityScore[] {
+  const seats = new Map<string, SeatAssignment>();
+  seatAssignments.forEach((assignment) => {
+    if (assignment.attendeeId) seats.set(assignment.attendeeId, assignment);
+  });
+  const tablesById = new Map(tables.map((table) => [table.id, table]));
+
+  return affinities.map((affinity): AffinityScore => {
+    const [first, second] = affinity.attendeeIds.map((id) => seats.get(id));
+    if (!first || !second) return { affinity, relation: "unseated", points: 0 };
+    const table = tablesById.get(first.tableId);
+    if (!table || first.tableId !== second.tableId) return { affinity, relation: "apart", points: 0 };
+    const relation = areNeighborSeats(table, first.seatNumber, second.seatNumber) ? "neighbor" : "table";
+    const factor = relation === "neighbor" ? NEIGHBOR_FACTOR : SAME_TABLE_FACTOR;
+    return { affinity, relation, tableId: table.id, points: affinity.weight * factor };
+  });
+}
+
+export interface Happiness {
+  total: number;
+  byTable: Map<string, number>;
+}
+
+export function getHappiness(scores: AffinityScore[]): Happiness {
+  const byTable = new Map<string, number>();
+  let total = 0;
+  scores.forEach(({ tableId, points }) => {
+    if (!tableId) return;
+    byTable.set(tableId, (byTable.get(tableId) ?? 0) + points);
+    total += points;
+  });
+  return { total, byTable };
+}
+
+// The affinities involving one guest, biggest effect first, with who the other guest is
+export function getGuestAffinityScores(scores: AffinityScore[], attendeeId: string) {
+  return scores
+    .filter(({ affinity }) => affinity.attendeeIds.includes(attendeeId))
+    .map((score) => ({ ...score, otherId: score.affinity.attendeeIds.find((id) => id !== attendeeId)! }))
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points) || Math.abs(b.affinity.weight) - Math.abs(a.affinity.weight));
+}
+
+export const formatPoints = (points: number) => (points > 0 ? `+${points}` : points < 0 ? `−${-points}` : "0");
+
+export const RELATION_LABELS: Record<AffinityRelation, string> = {
+  neighbor: "in neighboring seats",
+  table: "at the same table",
+  apart: "at different tables",
+  unseated: "not both seated",
+};
@@ -0,0 +1,90 @@
+import { AttendeeSchema } from "../types";
+import type { Attendee, RsvpStatus } from "../types";
+import { formatZodIssues } from "./validationMessages";
+import { compactFieldValues, normalizeTags } from "./customFields";
+
+export type AttendeeInput = Omit<Attendee, "id">;
+
+export type AttendeeResult =
+  | { success: true; attendee: Attendee }
+  | { success: false; error: string };
+
+export type AttendeeInputResult =
+  | { success: true; input: AttendeeInput }
+  | { success: false; error: string };
+
+const AttendeeInputSchema = AttendeeSchema.omit({ id: true });
+
+const optionalText = (value: string | undefined) => value?.trim() || undefined;
+
+// Form fields and spreadsheet cells arrive untrimmed, and a blank optional field means
+// "not set" rather than an invalid value. "Invited" is the default RSVP, so it isn't stored.
+export function validateAttendeeInput(input: AttendeeInput): AttendeeInputResult {
+  const result = AttendeeInputSchema.safeParse({
+    ...input,
+    name: input.name.trim(),
+    email: optionalText(input.email),
+    notes: optionalText(input.notes),
+    party: input.party?.trim().replace(/\s+/g, " ") || undefined,
+    rsvp: input.rsvp === "invited" ? undefined : input.rsvp || undefined,
+    meal: optionalText(input.meal),
+    dietary: optionalText(input.dietary),
+    allergies: optionalText(input.allergies),
+    tags: normalizeTags(input.tags),
+    fields: compactFieldValues(input.fields),
+  });
+  if (!result.success) {
+    return { success: false, error: formatZodIssues(result.error).join("; ") };
+  }
+  return { success: true, input: result.data };
+}
+
+export function validateAttendee({ id, ...input }: Attendee): AttendeeResult {
+  const result = validateAttendeeInput(input);
+  return result.success ? { success: true, attendee: { id, ...result.input } } : result;
+}
+
+// Placeholder plus-ones go by their host's name until their own is known
+export const getPlusOneName = (host: Pick<Attendee, "name">) => `Guest of ${host.name}`;
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = {
+  invited: "Invited",
+  accepted: "Accepted",
+  tentative: "Tentative",
+  declined: "Declined",
+};
+
+export const getRsvpStatus = (attendee: Pick<Attendee, "rsvp">): RsvpStatus => attendee.rsvp ?? "invited";
+
+// Declined guests stay on the list but take no seat and don't count towards totals
+export const isAttending = (attendee: Pick<Attendee, "rsvp">) => getRsvpStatus(attendee) !== "declined";
+
+const RSVP_ALIASES: Record<RsvpStatus, string[]> = {
+  invited: ["invited", "pending", "no reply", "awaiting reply", "not replied"],
+  accepted: ["accepted", "accept", "yes", "y", "attending", "coming", "confirmed"],
+  tentative: ["tentative", "maybe", "unsure", "possibly"],
+  declined: ["declined", "decline", "no", "n", "not attending", "not coming", "regrets"],
+};
+
+// Spreadsheet RSVP columns say "Yes", "Regrets" and the like; unknown values stay unset
+export function parseRsvpStatus(value: string): RsvpStatus | undefined {
+  const normalized = value.trim().toLowerCase();
+  return (Object.keys(RSVP_ALIASES) as RsvpStatus[]).find((status) => RSVP_ALIASES[status].includes(normalized));
+}
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Matching emails identify a guest; names only count when one side has no email,
+// so two different people who share a name and list their own addresses stay apart
+export function isSameGuest(a: AttendeeInput, b: AttendeeInput): boolean {
+  if (a.email && b.email) return a.email.toLowerCase() === b.email.toLowerCase();
+  return normalizeName(a.name) === normalizeName(b.name);
+}
+
+// "Alice, Bob and 2 others" — long lists are cut short so a toast stays on one line
+export function formatNameList(names: string[], max = 3): string {
+  if (names.length <= 1) return names[0] ?? "";
+  if (names.length <= max) return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+  const others = names.length - max;
+  return `${names.slice(0, max).join(", ")} and ${others} ${others === 1 ? "other" : "others"}`;
+}
@@ -0,0 +1,300 @@
+import type { Affinity, Attendee, SeatAssignment, SeatingConstraint, Table } from "../types";
+import { getHappiness, scoreAffinities } from "./affinity";
+import { isAttending } from "./attendees";
+import { evaluateConstraints } from "./constraints";
+import { getConsecutiveSeats, getPartyKey } from "./parties";
+import { getSeatKey } from "./planEntities";
+import type { SeatRef } from "./seatGeometry";
+
+export interface AutoSeatInput {
+  tables: Table[];
+  attendees: Attendee[];
+  seatAssignments: SeatAssignment[];
+  constraints: SeatingConstraint[];
+  affinities: Affinity[];
+}
+
+export interface AutoSeatScore {
+  rulesKept: number;
+  rulesBroken: number;
+  // Rules that still have unseated guests
+  rulesWaiting: number;
+  partiesTogether: number;
+  partiesSplit: number;
+  seated: number;
+  unseated: number;
+  // Affinity points earned by where guests sit
+  happiness: number;
+  total: number;
+}
+
+export interface AutoSeatResult {
+  // New seats for guests who had none; guests already seated stay where they are
+  placements: SeatAssignment[];
+  before: AutoSeatScore;
+  after: AutoSeatScore;
+}
+
+export interface AutoSeatOptions {
+  iterations?: number;
+  // Same seed, same result
+  seed?: number;
+  // Called with the fraction done, at most once per percent
+  onProgress?: (progress: number) => void;
+}
+
+// Seating everyone matters most; an unseated guest can't break a rule, so leaving them out
+// must never pay off. Affinities count as their own points, so they settle what rules leave open.
+const WEIGHTS = {
+  ruleKept: 10,
+  ruleBroken: -10,
+  partyTogether: 5,
+  partySplit: -5,
+  unseated: -25,
+};
+
+export const DEFAULT_AUTO_SEAT_ITERATIONS = 20000;
+const START_TEMPERATURE = 10;
+const END_TEMPERATURE = 0.05;
+
+// Small, seedable PRNG (mulberry32), so runs can be repeated
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Tally = Omit<AutoSeatScore, "unseated" | "total">;
+
+const EMPTY_TALLY: Tally = {
+  rulesKept: 0,
+  rulesBroken: 0,
+  rulesWaiting: 0,
+  partiesTogether: 0,
+  partiesSplit: 0,
+  seated: 0,
+  happiness: 0,
+};
+
+const addTally = (a: Tally, b: Tally, sign = 1): Tally => ({
+  rulesKept: a.rulesKept + sign * b.rulesKept,
+  rulesBroken: a.rulesBroken + sign * b.rulesBroken,
+  rulesWaiting: a.rulesWaiting + sign * b.rulesWaiting,
+  partiesTogether: a.partiesTogether + sign * b.partiesTogether,
+  partiesSplit: a.partiesSplit + sign * b.partiesSplit,
+  seated: a.seated + sign * b.seated,
+  happiness: a.happiness + sign * b.happiness,
+});
+
+// Keeps the score of a layout rule by rule, party by party, affinity by affinity and guest by
+// guest, so moving guests only rescores the parts that name them
+function createScoreTracker(input: AutoSeatInput, getSeat: (guestId: string) => SeatRef | undefined) {
+  const { tables, attendees, constraints, affinities } = input;
+  const attendeesById = new Map(attendees.map((attendee) => [attendee.id, attendee]));
+  const attending = attendees.filter(isAttending);
+  const seatsOf = (guestIds: string[]): SeatAssignment[] =>
+    guestIds.flatMap((attendeeId) => {
+      const seat = getSeat(attendeeId);
+      return seat ? [{ ...seat, attendeeId }] : [];
+    });
+
+  const parties = new Map<string, string[]>();
+  attending.forEach(({ id, party }) => {
+    if (party) parties.set(getPartyKey(party), [...(parties.get(getPartyKey(party)) ?? []), id]);
+  });
+
+  const parts: { guestIds: string[]; tally: () => Tally }[] = [
+    ...constraints.map((constraint) => ({
+      guestIds: constraint.attendeeIds,
+      tally: (): Tally => {
+        const [{ status }] = evaluateConstraints({
+          tables,
+          attendees: constraint.attendeeIds.flatMap((id) => attendeesById.get(id) ?? []),
+          seatAssignments: seatsOf(constraint.attendeeIds),
+          constraints: [constraint],
+        });
+        return {
+          ...EMPTY_TALLY,
+          rulesKept: status === "satisfied" ? 1 : 0,
+          rulesBroken: status === "violated" ? 1 : 0,
+          rulesWaiting: status === "pending" ? 1 : 0,
+        };
+      },
+    })),
+    ...Array.from(parties.values())
+      .filter((members) => members.length > 1)
+      .map((members) => ({
+        guestIds: members,
+        tally: (): Tally => {
+          const seats = seatsOf(members);
+          const seatedAt = new Set(seats.map(({ tableId }) => tableId));
+          return {
+            ...EMPTY_TALLY,
+            partiesTogether: seatedAt.size === 1 && seats.length === members.length ? 1 : 0,
+            partiesSplit: seatedAt.size > 1 ? 1 : 0,
+          };
+        },
+      })),
+    ...affinities.map((affinity) => ({
+      guestIds: affinity.attendeeIds,
+      tally: (): Tally => ({
+        ...EMPTY_TALLY,
+        happiness: getHappiness(scoreAffinities({ tables, seatAssignments: seatsOf(affinity.attendeeIds), affinities: [affinity] })).total,
+      }),
+    })),
+    ...attending.map(({ id }) => ({
+      guestIds: [id],
+      tally: (): Tally => ({ ...EMPTY_TALLY, seated: getSeat(id) ? 1 : 0 }),
+    })),
+  ];
+
+  const partsByGuest = new Map<string, number[]>();
+  parts.forEach(({ guestIds }, index) => {
+    guestIds.forEach((id) => partsByGuest.set(id, [...(partsByGuest.get(id) ?? []), index]));
+  });
+  const tallies = parts.map(({ tally }) => tally());
+  let sum = tallies.reduce((total, tally) => addTally(total, tally), EMPTY_TALLY);
+
+  return {
+    // Call after moving guests, naming everyone who moved
+    rescore: (guestIds: string[]) => {
+      new Set(guestIds.flatMap((id) => partsByGuest.get(id) ?? [])).forEach((index) => {
+        const tally = parts[index].tally();
+        sum = addTally(addTally(sum, tallies[index], -1), tally);
+        tallies[index] = tally;
+      });
+    },
+    score: (): AutoSeatScore => {
+      const unseated = attending.length - sum.seated;
+      return {
+        ...sum,
+        unseated,
+        total:
+          sum.rulesKept * WEIGHTS.ruleKept +
+          sum.rulesBroken * WEIGHTS.ruleBroken +
+          sum.partiesTogether * WEIGHTS.partyTogether +
+          sum.partiesSplit * WEIGHTS.partySplit +
+          unseated * WEIGHTS.unseated +
+          sum.happiness,
+      };
+    },
+  };
+}
+
+export function scoreSeating(input: AutoSeatInput): AutoSeatScore {
+  const seats = new Map<string, SeatRef>();
+  input.seatAssignments.forEach(({ tableId, seatNumber, attendeeId }) => {
+    if (attendeeId) seats.set(attendeeId, { tableId, seatNumber });
+  });
+  return createScoreTracker(input, (guestId) => seats.get(guestId)).score();
+}
+
+// Seats unseated guests in the free seats, maximizing the score by simulated annealing: guests
+// are moved or swapped at random, and worse layouts are accepted less often as the run cools.
+// Guests who are already seated, and declined guests, are never moved, and locked tables get
+// nobody new.
+export function solveSeating(input: AutoSeatInput, options: AutoSeatOptions = {}): AutoSeatResult {
+  const { iterations = DEFAULT_AUTO_SEAT_ITERATIONS, seed = 1, onProgress } = options;
+  const random = createRandom(seed);
+  const fixed = input.seatAssignments.filter((assignment) => assignment.attendeeId !== null);
+  const taken = new Set(fixed.map(getSeatKey));
+  const seatedIds = new Set(fixed.map((assignment) => assignment.attendeeId));
+  const movable = input.attendees.filter((attendee) => isAttending(attendee) && !seatedIds.has(attendee.id));
+  const freeSeats: SeatRef[] = input.tables.filter((table) => !table.locked).flatMap((table) =>
+    Array.from({ length: table.seatCount }, (_, index) => ({ tableId: table.id, seatNumber: index + 1 })).filter(
+      (seat) => !taken.has(getSeatKey(seat))
+    )
+  );
+
+  // Where each movable guest sits, and who sits in each free seat
+  const seatOf = new Map<string, SeatRef>();
+  const guestAt = new Map<string, string>();
+  const place = (guestId: string, seat: SeatRef | undefined) => {
+    const previous = seatOf.get(guestId);
+    if (previous) guestAt.delete(getSeatKey(previous));
+    if (seat) {
+      seatOf.set(guestId, seat);
+      guestAt.set(getSeatKey(seat), guestId);
+    } else {
+      seatOf.delete(guestId);
+    }
+  };
+  const toAssignments = (seats: Map<string, SeatRef>): SeatAssignment[] =>
+    Array.from(seats.entries()).map(([attendeeId, seat]) => ({ ...seat, attendeeId }));
+
+  // Start from parties seated side by side, biggest first, at the table with the most room
+  const groups = new Map<string, string[]>();
+  movable.forEach(({ id, party }) => {
+    const key = party ? `party:${getPartyKey(party)}` : `guest:${id}`;
+    groups.set(key, [...(groups.get(key) ?? []), id]);
+  });
+  const isFree = (seat: SeatRef) => !guestAt.has(getSeatKey(seat));
+  Array.from(groups.values())
+    .sort((a, b) => b.length - a.length)
+    .forEach((members) => {
+      const roomiest = input.tables
+        .filter((table) => !table.locked)
+        .map((table) => ({ table, free: freeSeats.filter((seat) => seat.tableId === table.id && isFree(seat)) }))
+        .sort((a, b) => b.free.length - a.free.length)[0];
+      const seats =
+        roomiest && roomiest.free.length > 0
+          ? getConsecutiveSeats(roomiest.table, roomiest.free[0].seatNumber, members.length, (seatNumber) =>
+              isFree({ tableId: roomiest.table.id, seatNumber })
+            )
+          : null;
+      members.forEach((id, index) => {
+        place(id, seats ? { tableId: roomiest.table.id, seatNumber: seats[index] } : freeSeats.find(isFree));
+      });
+    });
+
+  const before = scoreSeating(input);
+  const fixedSeats = new Map(fixed.map(({ tableId, seatNumber, attendeeId }) => [attendeeId, { tableId, seatNumber }]));
+  const tracker = createScoreTracker(input, (guestId) => seatOf.get(guestId) ?? fixedSeats.get(guestId));
+  let current = tracker.score();
+  let best = { score: current, seats: new Map(seatOf) };
+  let reported = -1;
+
+  if (movable.length > 0 && freeSeats.length > 0) {
+    for (let step = 0; step < iterations; step++) {
+      const temperature = START_TEMPERATURE * Math.pow(END_TEMPERATURE / START_TEMPERATURE, step / iterations);
+      const guestId = movable[Math.floor(random() * movable.length)].id;
+      const target = freeSeats[Math.floor(random() * freeSeats.length)];
+      const from = seatOf.get(guestId);
+      const other = guestAt.get(getSeatKey(target));
+      if (other === guestId) continue;
+
+      // Move the guest to the target seat; whoever sat there takes the guest's old seat
+      place(guestId, undefined);
+      if (other) place(other, from);
+      place(guestId, target);
+      const moved = other ? [guestId, other] : [guestId];
+      tracker.rescore(moved);
+
+      const next = tracker.score();
+      const delta = next.total - current.total;
+      if (delta >= 0 || random() < Math.exp(delta / temperature)) {
+        current = next;
+        if (current.total > best.score.total) best = { score: current, seats: new Map(seatOf) };
+      } else {
+        place(guestId, undefined);
+        if (other) place(other, target);
+        place(guestId, from);
+        tracker.rescore(moved);
+      }
+
+      const percent = Math.floor(((step + 1) / iterations) * 100);
+      if (onProgress && percent > reported) {
+        reported = percent;
+        onProgress(percent / 100);
+      }
+    }
+  }
+  onProgress?.(1);
+
+  return { placements: toAssignments(best.seats), before, after: best.score };
+}
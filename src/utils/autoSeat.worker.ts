@@ -0,0 +1,12 @@
+import { solveSeating } from "./autoSeat";
+import type { AutoSeatWorkerMessage, AutoSeatWorkerRequest } from "./autoSeatRunner";
+
+// Runs the solver off the main thread so the canvas stays responsive
+addEventListener("message", (event: MessageEvent<AutoSeatWorkerRequest>) => {
+  const post = (message: AutoSeatWorkerMessage) => postMessage(message);
+  const result = solveSeating(event.data.input, {
+    ...event.data.options,
+    onProgress: (progress) => post({ type: "progress", progress }),
+  });
+  post({ type: "done", result });
+});
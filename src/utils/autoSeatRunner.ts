@@ -0,0 +1,52 @@
+import { solveSeating } from "./autoSeat";
+import type { AutoSeatInput, AutoSeatOptions, AutoSeatResult } from "./autoSeat";
+
+export interface AutoSeatWorkerRequest {
+  input: AutoSeatInput;
+  options: Omit<AutoSeatOptions, "onProgress">;
+}
+
+export type AutoSeatWorkerMessage =
+  | { type: "progress"; progress: number }
+  | { type: "done"; result: AutoSeatResult };
+
+export interface AutoSeatRun {
+  result: Promise<AutoSeatResult>;
+  // Stops the run; its promise never settles
+  cancel: () => void;
+}
+
+// Solves in a Web Worker where there is one. Elsewhere (tests, old browsers) the solver runs on
+// the main thread after a tick, so callers can render their progress state first.
+export function runAutoSeat(
+  input: AutoSeatInput,
+  options: AutoSeatWorkerRequest["options"],
+  onProgress: (progress: number) => void
+): AutoSeatRun {
+  if (typeof Worker === "undefined") {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const result = new Promise<AutoSeatResult>((resolve) => {
+      timer = setTimeout(() => resolve(solveSeating(input, { ...options, onProgress })), 0);
+    });
+    return { result, cancel: () => clearTimeout(timer) };
+  }
+
+  const worker = new Worker(new URL("./autoSeat.worker.ts", import.meta.url), { type: "module" });
+  const result = new Promise<AutoSeatResult>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<AutoSeatWorkerMessage>) => {
+      if (event.data.type === "progress") {
+        onProgress(event.data.progress);
+      } else {
+        resolve(event.data.result);
+        worker.terminate();
+      }
+    };
+    worker.onerror = (event) => {
+      reject(new Error(event.message || "Auto-seat failed"));
+      worker.terminate();
+    };
+  });
+  const request: AutoSeatWorkerRequest = { input, options };
+  worker.postMessage(request);
+  return { result, cancel: () => worker.terminate() };
+}
@@ -0,0 +1,181 @@
+import { SeatingConstraintSchema } from "../types";
+import type { Plan, SeatingConstraint, SeatingConstraintType, Table } from "../types";
+import { isAttending } from "./attendees";
+import { getSeatNeighbors } from "./seatGeometry";
+import type { SeatRef } from "./seatGeometry";
+import { formatZodIssues } from "./validationMessages";
+
+export type SeatingConstraintInput = Omit<SeatingConstraint, "id">;
+
+export type SeatingConstraintResult =
+  | { success: true; constraint: SeatingConstraint }
+  | { success: false; error: string };
+
+export const CONSTRAINT_TYPE_LABELS: Record<SeatingConstraintType, string> = {
+  together: "Same table",
+  apart: "Different tables",
+  adjacent: "Next to each other",
+  near: "Near a table",
+  far: "Away from a table",
+};
+
+// Centre-to-centre distance, in canvas units, within which another table counts as near
+export const NEAR_TABLE_DISTANCE = 300;
+
+export const isTableConstraint = (type: SeatingConstraintType) => type === "near" || type === "far";
+
+const SeatingConstraintInputSchema = SeatingConstraintSchema.omit({ id: true });
+
+const MIN_GUESTS: Record<SeatingConstraintType, number> = { together: 2, apart: 2, adjacent: 2, near: 1, far: 1 };
+
+export function validateConstraintInput(
+  input: SeatingConstraintInput
+): { success: true; input: SeatingConstraintInput } | { success: false; error: string } {
+  const attendeeIds = Array.from(new Set(input.attendeeIds));
+  const tableId = isTableConstraint(input.type) ? input.tableId : undefined;
+  const min = MIN_GUESTS[input.type];
+  if (attendeeIds.length < min) {
+    return { success: false, error: min === 1 ? "choose at least one guest" : "choose at least two guests" };
+  }
+  if (input.type === "adjacent" && attendeeIds.length > 2) {
+    return { success: false, error: "choose exactly two guests to sit next to each other" };
+  }
+  if (isTableConstraint(input.type) && !tableId) {
+    return { success: false, error: "choose a table" };
+  }
+  const result = SeatingConstraintInputSchema.safeParse({ type: input.type, attendeeIds, tableId });
+  if (!result.success) {
+    return { success: false, error: formatZodIssues(result.error).join("; ") };
+  }
+  return { success: true, input: result.data };
+}
+
+// Drops deleted guests and tables from the rules, and the rules that no longer make sense
+export function pruneConstraints(
+  constraints: SeatingConstraint[],
+  attendeeIds: Set<string>,
+  tableIds: Set<string>
+): SeatingConstraint[] {
+  let changed = false;
+  const pruned = constraints.flatMap((constraint) => {
+    const kept = constraint.attendeeIds.filter((id) => attendeeIds.has(id));
+    const hasTable = !constraint.tableId || tableIds.has(constraint.tableId);
+    if (kept.length === constraint.attendeeIds.length && hasTable) return [constraint];
+    changed = true;
+    return kept.length >= MIN_GUESTS[constraint.type] && hasTable ? [{ ...constraint, attendeeIds: kept }] : [];
+  });
+  return changed ? pruned : constraints;
+}
+
+// Seats on either hand of each other, whatever order the table numbers them in
+export function areNeighborSeats(table: Table, a: number, b: number): boolean {
+  const neighbors = getSeatNeighbors(table).get(a);
+  return a !== b && (neighbors?.left === b || neighbors?.right === b);
+}
+
+export type ConstraintStatus = "satisfied" | "violated" | "pending";
+
+export interface ConstraintEvaluation {
+  constraint: SeatingConstraint;
+  // Pending rules can't be judged yet because some of their guests aren't seated
+  status: ConstraintStatus;
+  // What's wrong, or what's still missing, in words
+  message?: string;
+  // Seats of the guests breaking the rule
+  seats: SeatRef[];
+}
+
+type ConstraintContents = Pick<Plan, "tables" | "attendees" | "seatAssignments" | "constraints">;
+
+const joinNames = (names: string[]) =>
+  names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+
+const tableDistance = (a: Table, b: Table) => Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y);
+
+// Judges every rule against where guests sit now. Declined guests are left out of the rules.
+export function evaluateConstraints({ tables, attendees, seatAssignments, constraints = [] }: ConstraintContents): ConstraintEvaluation[] {
+  const tablesById = new Map(tables.map((table) => [table.id, table]));
+  const attendeesById = new Map(attendees.map((attendee) => [attendee.id, attendee]));
+  const seatsByGuest = new Map<string, SeatRef>();
+  seatAssignments.forEach(({ tableId, seatNumber, attendeeId }) => {
+    if (attendeeId) seatsByGuest.set(attendeeId, { tableId, seatNumber });
+  });
+
+  return constraints.map((constraint) => {
+    const guests = constraint.attendeeIds.flatMap((id) => {
+      const attendee = attendeesById.get(id);
+      return attendee && isAttending(attendee) ? [{ attendee, seat: seatsByGuest.get(id) }] : [];
+    });
+    const seated = guests.flatMap(({ attendee, seat }) => (seat ? [{ attendee, seat }] : []));
+    const unseated = guests.length - seated.length;
+    const tableName = (id: string) => tablesById.get(id)?.name ?? "a deleted table";
+
+    const violated = (message: string, seats: SeatRef[]): ConstraintEvaluation => ({ constraint, status: "violated", message, seats });
+    const unjudged = (): ConstraintEvaluation =>
+      unseated > 0
+        ? { constraint, status: "pending", message: `${unseated} ${unseated === 1 ? "guest isn't" : "guests aren't"} seated yet`, seats: [] }
+        : { constraint, status: "satisfied", seats: [] };
+
+    switch (constraint.type) {
+      case "together": {
+        const tableIds = Array.from(new Set(seated.map(({ seat }) => seat.tableId)));
+        if (tableIds.length > 1) {
+          return violated(`Split across ${joinNames(tableIds.map(tableName))}`, seated.map(({ seat }) => seat));
+        }
+        return unjudged();
+      }
+      case "apart": {
+        const byTable = new Map<string, typeof seated>();
+        seated.forEach((guest) => byTable.set(guest.seat.tableId, [...(byTable.get(guest.seat.tableId) ?? []), guest]));
+        const clashes = Array.from(byTable.entries()).filter(([, group]) => group.length > 1);
+        if (clashes.length > 0) {
+          return violated(
+            clashes.map(([tableId, group]) => `${joinNames(group.map(({ attendee }) => attendee.name))} are both at ${tableName(tableId)}`).join("; "),
+            clashes.flatMap(([, group]) => group.map(({ seat }) => seat))
+          );
+        }
+        return unjudged();
+      }
+      case "adjacent": {
+        if (seated.length < 2 || unseated > 0) return unjudged();
+        const [a, b] = seated;
+        const table = tablesById.get(a.seat.tableId);
+        if (a.seat.tableId === b.seat.tableId && table && areNeighborSeats(table, a.seat.seatNumber, b.seat.seatNumber)) {
+          return unjudged();
+        }
+        return violated(`${joinNames([a.attendee.name, b.attendee.name])} aren't in neighboring seats`, [a.seat, b.seat]);
+      }
+      case "near":
+      case "far": {
+        const target = constraint.tableId ? tablesById.get(constraint.tableId) : undefined;
+        if (!target) return { constraint, status: "pending", message: "Choose a table for this rule", seats: [] };
+        const wrong = seated.filter(({ seat }) => {
+          const table = tablesById.get(seat.tableId);
+          const isNear = !!table && tableDistance(table, target) <= NEAR_TABLE_DISTANCE;
+          return constraint.type === "near" ? !isNear : isNear;
+        });
+        if (wrong.length > 0) {
+          const names = joinNames(wrong.map(({ attendee }) => attendee.name));
+          const verb = wrong.length === 1 ? "is" : "are";
+          return violated(
+            constraint.type === "near" ? `${names} ${verb} far from ${target.name}` : `${names} ${verb} too close to ${target.name}`,
+            wrong.map(({ seat }) => seat)
+          );
+        }
+        return unjudged();
+      }
+    }
+  });
+}
+
+// Seat numbers breaking a rule, by table, for flagging on the canvas
+export function getViolatedSeats(evaluations: ConstraintEvaluation[]): Map<string, Set<number>> {
+  const byTable = new Map<string, Set<number>>();
+  evaluations.forEach(({ seats }) => {
+    seats.forEach(({ tableId, seatNumber }) => {
+      if (!byTable.has(tableId)) byTable.set(tableId, new Set());
+      byTable.get(tableId)!.add(seatNumber);
+    });
+  });
+  return byTable;
+}
@@ -0,0 +1,87 @@
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+// Count delimiters outside quotes on the first line; spreadsheets exported in
+// European locales use semicolons, and copy-paste from a sheet gives tabs
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(CSV_DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === "\n" || char === "\r")) break;
+    else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+  return CSV_DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), CSV_DELIMITERS[0]);
+}
+
+// Spreadsheets run a cell starting with one of these as a formula, so a guest named
+// "=HYPERLINK(...)" could do harm when the list is opened. A leading ' makes it plain text.
+// Plain numbers such as -5 are left alone.
+const escapeFormula = (value: string) =>
+  /^[=+\-@\t\r]/.test(value) && !/^[+-]?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+
+// Undoes escapeFormula, so an exported list reads back as it was written
+const unescapeFormula = (value: string) =>
+  value.startsWith("'") && escapeFormula(value.slice(1)) === value ? value.slice(1) : value;
+
+// RFC 4180 style: quoted fields may hold delimiters, line breaks and "" for a literal quote.
+// Blank lines are dropped, and so is the ' formatCsv puts in front of formula-like values.
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // Skip the byte order mark Excel puts in front of UTF-8 exports
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows.map((cells) => cells.map(unescapeFormula));
+}
+
+// Quote only where needed, so simple lists stay readable in a text editor
+const needsQuotes = (value: string, delimiter: CsvDelimiter) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim();
+
+export function formatCsv(rows: string[][], delimiter: CsvDelimiter = ","): string {
+  return rows
+    .map((row) =>
+      row
+        .map(escapeFormula)
+        .map((value) => (needsQuotes(value, delimiter) ? `"${value.replace(/"/g, '""')}"` : value))
+        .join(delimiter)
+    )
+    .join("\r\n");
+}
@@ -0,0 +1,159 @@
+import { CustomFieldSchema } from "../types";
+import type { Attendee, CustomField, CustomFieldType, CustomFieldValue } from "../types";
+import { formatZodIssues } from "./validationMessages";
+
+export type CustomFieldInput = Omit<CustomField, "id">;
+
+export type CustomFieldResult =
+  | { success: true; field: CustomField }
+  | { success: false; error: string };
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  boolean: "Yes / No",
+  select: "Single choice",
+};
+
+const CustomFieldInputSchema = CustomFieldSchema.omit({ id: true });
+
+const normalizeKey = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Keeps the first spelling of each value and drops blanks
+const uniqueTexts = (values: string[]) => {
+  const seen = new Map<string, string>();
+  values.forEach((value) => {
+    const trimmed = value.trim().replace(/\s+/g, " ");
+    if (trimmed && !seen.has(normalizeKey(trimmed))) seen.set(normalizeKey(trimmed), trimmed);
+  });
+  return Array.from(seen.values());
+};
+
+// Field names must be unique within a plan so they can head their own CSV column
+export function validateCustomFieldInput(
+  input: CustomFieldInput,
+  existing: CustomField[],
+  id?: string
+): { success: true; input: CustomFieldInput } | { success: false; error: string } {
+  const options = input.type === "select" ? uniqueTexts(input.options ?? []) : undefined;
+  const result = CustomFieldInputSchema.safeParse({ ...input, name: input.name.trim(), options });
+  if (!result.success) {
+    return { success: false, error: formatZodIssues(result.error).join("; ") };
+  }
+  if (options && options.length === 0) {
+    return { success: false, error: "options must list at least one choice" };
+  }
+  const name = normalizeKey(result.data.name);
+  if (existing.some((field) => field.id !== id && normalizeKey(field.name) === name)) {
+    return { success: false, error: "name is already used by another field" };
+  }
+  return { success: true, input: result.data };
+}
+
+// Tags are typed as one comma- or semicolon-separated list
+export const parseTags = (text: string) => uniqueTexts(text.split(/[,;]/));
+
+// A select field's choices are typed as one comma-separated list
+export const parseChoices = (text: string) => uniqueTexts(text.split(","));
+
+export const formatTags = (tags: string[] = []) => tags.join(", ");
+
+export function normalizeTags(tags: string[] | undefined): string[] | undefined {
+  const unique = uniqueTexts(tags ?? []);
+  return unique.length > 0 ? unique : undefined;
+}
+
+// Blank values mean "not set", so they're left out rather than stored
+export function compactFieldValues(fields: Attendee["fields"]): Attendee["fields"] {
+  const entries = Object.entries(fields ?? {})
+    .map(([id, value]) => [id, typeof value === "string" ? value.trim() : value] as const)
+    .filter(([, value]) => value !== "" && !(typeof value === "number" && Number.isNaN(value)));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+// Strips values that `keep` rejects, e.g. for a deleted field or a dropped choice
+export function withFieldValues(attendee: Attendee, keep: (fieldId: string, value: CustomFieldValue) => boolean): Attendee {
+  if (!attendee.fields || Object.entries(attendee.fields).every(([id, value]) => keep(id, value))) return attendee;
+  const fields = Object.fromEntries(Object.entries(attendee.fields).filter(([id, value]) => keep(id, value)));
+  return { ...attendee, fields: Object.keys(fields).length > 0 ? fields : undefined };
+}
+
+const BOOLEAN_ALIASES: Record<"true" | "false", string[]> = {
+  true: ["yes", "y", "true", "1", "x", "✓"],
+  false: ["no", "n", "false", "0"],
+};
+
+export type CustomFieldParseResult =
+  | { success: true; value: CustomFieldValue | undefined }
+  | { success: false; error: string };
+
+// Reads a spreadsheet cell or text input as a value of the field's type; blank is "not set"
+export function parseCustomFieldValue(field: CustomField, text: string): CustomFieldParseResult {
+  const trimmed = text.trim();
+  if (!trimmed) return { success: true, value: undefined };
+
+  if (field.type === "number") {
+    const value = Number(trimmed);
+    return Number.isFinite(value) ? { success: true, value } : { success: false, error: `${field.name} must be a number` };
+  }
+  if (field.type === "boolean") {
+    const normalized = trimmed.toLowerCase();
+    if (BOOLEAN_ALIASES.true.includes(normalized)) return { success: true, value: true };
+    if (BOOLEAN_ALIASES.false.includes(normalized)) return { success: true, value: false };
+    return { success: false, error: `${field.name} must be yes or no` };
+  }
+  if (field.type === "select") {
+    const option = field.options?.find((choice) => normalizeKey(choice) === normalizeKey(trimmed));
+    return option
+      ? { success: true, value: option }
+      : { success: false, error: `${field.name} must be one of ${(field.options ?? []).join(", ")}` };
+  }
+  return { success: true, value: trimmed };
+}
+
+export function formatCustomFieldValue(field: CustomField, value: CustomFieldValue | undefined): string {
+  if (value === undefined) return "";
+  if (field.type === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+// What seats are colored by: the guest's first tag, or their value for a custom field
+export type SeatColorBy = "tags" | `field:${string}`;
+
+export const getSeatColorByField = (fieldId: string): SeatColorBy => `field:${fieldId}`;
+
+export function getColorCategory(attendee: Attendee, colorBy: SeatColorBy, customFields: CustomField[]): string | undefined {
+  if (colorBy === "tags") return attendee.tags?.[0];
+  const field = customFields.find((candidate) => getSeatColorByField(candidate.id) === colorBy);
+  return field ? formatCustomFieldValue(field, attendee.fields?.[field.id]) || undefined : undefined;
+}
+
+export interface CategoryColor {
+  fill: string;
+  stroke: string;
+}
+
+const CATEGORY_COLORS: CategoryColor[] = [
+  { fill: "#fde68a", stroke: "#d97706" },
+  { fill: "#bbf7d0", stroke: "#16a34a" },
+  { fill: "#fbcfe8", stroke: "#db2777" },
+  { fill: "#c7d2fe", stroke: "#4f46e5" },
+  { fill: "#fed7aa", stroke: "#ea580c" },
+  { fill: "#a5f3fc", stroke: "#0891b2" },
+  { fill: "#e9d5ff", stroke: "#9333ea" },
+  { fill: "#d9f99d", stroke: "#65a30d" },
+];
+
+// Categories are sorted first so each keeps its color however the guest list is ordered
+export function getCategoryColors(categories: Iterable<string>): Map<string, CategoryColor> {
+  const sorted = Array.from(new Set(categories)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return new Map(sorted.map((category, index) => [category, CATEGORY_COLORS[index % CATEGORY_COLORS.length]]));
+}
+
+// Colors for every category among the guests, seated or not, so the legend matches the canvas
+export const getGuestCategoryColors = (attendees: Attendee[], colorBy: SeatColorBy, customFields: CustomField[]) =>
+  getCategoryColors(
+    attendees
+      .map((attendee) => getColorCategory(attendee, colorBy, customFields))
+      .filter((category): category is string => category !== undefined)
+  );
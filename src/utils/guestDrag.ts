@@ -0,0 +1,39 @@
+// Custom MIME types so the canvas only reacts to guests dragged from our own list
+export const GUEST_DRAG_TYPE = "application/x-chairchart-guest";
+export const PARTY_DRAG_TYPE = "application/x-chairchart-party";
+
+export function setGuestDragData(dataTransfer: DataTransfer, attendee: { id: string; name: string }) {
+  dataTransfer.setData(GUEST_DRAG_TYPE, attendee.id);
+  // Lets the name land somewhere sensible if dropped outside the app
+  dataTransfer.setData("text/plain", attendee.name);
+  dataTransfer.effectAllowed = "move";
+}
+
+// Carries every member so the whole party lands together
+export function setPartyDragData(dataTransfer: DataTransfer, party: string, attendeeIds: string[]) {
+  dataTransfer.setData(PARTY_DRAG_TYPE, JSON.stringify(attendeeIds));
+  dataTransfer.setData("text/plain", party);
+  dataTransfer.effectAllowed = "move";
+}
+
+// Browsers hide drag data until drop, but the types are readable during dragover
+export function isGuestDrag(dataTransfer: DataTransfer | null): boolean {
+  if (!dataTransfer) return false;
+  const types = Array.from(dataTransfer.types);
+  return types.includes(GUEST_DRAG_TYPE) || types.includes(PARTY_DRAG_TYPE);
+}
+
+export function getGuestDragId(dataTransfer: DataTransfer | null): string | null {
+  return dataTransfer?.getData(GUEST_DRAG_TYPE) || null;
+}
+
+export function getPartyDragIds(dataTransfer: DataTransfer | null): string[] | null {
+  const raw = dataTransfer?.getData(PARTY_DRAG_TYPE);
+  if (!raw) return null;
+  try {
+    const ids: unknown = JSON.parse(raw);
+    return Array.isArray(ids) && ids.every((id) => typeof id === "string") ? ids : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,53 @@
+import type { Plan } from "../types";
+import { getRsvpStatus, RSVP_LABELS } from "./attendees";
+import { formatCsv } from "./csv";
+import { formatCustomFieldValue, formatTags } from "./customFields";
+import { getCustomFieldHeader, GUEST_IMPORT_FIELDS, GUEST_SEAT_COLUMNS } from "./guestImport";
+import { getSeatLocations } from "./planDiff";
+
+export type GuestExportContents = Pick<Plan, "name" | "tables" | "attendees" | "seatAssignments" | "customFields">;
+
+// Columns are headed like the import fields and custom fields are headed by name, so an
+// exported list maps itself when it's imported again. Table and seat are for reading only.
+export function buildGuestExportRows(plan: GuestExportContents): string[][] {
+  const customFields = plan.customFields ?? [];
+  const locations = getSeatLocations(plan);
+  const headers = [
+    GUEST_IMPORT_FIELDS.name,
+    GUEST_IMPORT_FIELDS.email,
+    GUEST_IMPORT_FIELDS.party,
+    GUEST_IMPORT_FIELDS.rsvp,
+    GUEST_IMPORT_FIELDS.meal,
+    GUEST_IMPORT_FIELDS.dietary,
+    GUEST_IMPORT_FIELDS.allergies,
+    GUEST_IMPORT_FIELDS.tags,
+    ...customFields.map(getCustomFieldHeader),
+    GUEST_IMPORT_FIELDS.notes,
+    ...GUEST_SEAT_COLUMNS,
+  ];
+  const rows = plan.attendees.map((attendee) => {
+    const location = locations.get(attendee.id);
+    return [
+      attendee.name,
+      attendee.email ?? "",
+      attendee.party ?? "",
+      RSVP_LABELS[getRsvpStatus(attendee)],
+      attendee.meal ?? "",
+      attendee.dietary ?? "",
+      attendee.allergies ?? "",
+      formatTags(attendee.tags),
+      ...customFields.map((field) => formatCustomFieldValue(field, attendee.fields?.[field.id])),
+      attendee.notes ?? "",
+      location?.tableName ?? "",
+      location ? String(location.seatNumber) : "",
+    ];
+  });
+  return [headers, ...rows];
+}
+
+export const exportGuestsCsv = (plan: GuestExportContents) => formatCsv(buildGuestExportRows(plan));
+
+export function getGuestExportFileName(plan: Pick<Plan, "name">): string {
+  const slug = plan.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return `${slug || "plan"}-guests.csv`;
+}
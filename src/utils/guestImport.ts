@@ -0,0 +1,213 @@
+import type { Attendee, CustomField, RsvpStatus } from "../types";
+import { isSameGuest, parseRsvpStatus, validateAttendeeInput } from "./attendees";
+import type { AttendeeInput } from "./attendees";
+import { parseCustomFieldValue, parseTags } from "./customFields";
+
+// Plus-one links are made in the app, not read from spreadsheets. Custom fields are
+// mapped one by one, see GuestColumnTarget.
+export type GuestImportField = Exclude<keyof AttendeeInput, "hostId" | "fields">;
+
+export const GUEST_IMPORT_FIELDS: Record<GuestImportField, string> = {
+  name: "Name",
+  email: "Email",
+  notes: "Notes",
+  party: "Party",
+  rsvp: "RSVP",
+  meal: "Meal",
+  dietary: "Dietary needs",
+  allergies: "Allergies",
+  tags: "Tags",
+};
+
+// The read-only columns an export adds after each guest's details
+export const GUEST_SEAT_COLUMNS = ["Table", "Seat"];
+
+// A built-in field, or one of the plan's custom fields by id
+export type GuestColumnTarget = GuestImportField | `field:${string}`;
+
+export const getCustomFieldTarget = (fieldId: string): GuestColumnTarget => `field:${fieldId}`;
+
+// Target per column, by column index; null skips the column
+export type GuestColumnMapping = (GuestColumnTarget | null)[];
+
+const HEADER_ALIASES: Record<GuestImportField, string[]> = {
+  name: ["name", "full name", "guest", "guest name", "first name", "first", "given name", "last name", "last", "surname", "family name"],
+  email: ["email", "e-mail", "email address", "e-mail address", "mail"],
+  notes: ["notes", "note", "comments", "comment"],
+  party: ["party", "household", "family", "group", "party name", "household name"],
+  rsvp: ["rsvp", "rsvp status", "response", "attending", "status"],
+  meal: ["meal", "meal choice", "entree", "entrée", "main", "main course", "menu"],
+  dietary: ["dietary", "dietary needs", "dietary restrictions", "dietary requirements", "diet"],
+  allergies: ["allergies", "allergy", "allergens", "food allergies"],
+  tags: ["tags", "tag", "labels", "label", "categories"],
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, " ");
+
+// Custom fields named like a built-in column are headed "Email (custom field)" in exports, so
+// importing the list again doesn't mix the two columns up
+export function getCustomFieldHeader(field: CustomField): string {
+  const builtIn = [...Object.values(GUEST_IMPORT_FIELDS), ...GUEST_SEAT_COLUMNS].map(normalizeHeader);
+  return builtIn.includes(normalizeHeader(field.name)) ? `${field.name} (custom field)` : field.name;
+}
+
+// Recognise the plan's custom field headings and the usual spreadsheet headings; anything else
+// starts unmapped. A custom field wins over a built-in alias, being the more specific of the two.
+export function guessColumnMapping(headers: string[], customFields: CustomField[] = []): GuestColumnMapping {
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const customField = customFields.find((field) => normalizeHeader(getCustomFieldHeader(field)) === normalized);
+    if (customField) return getCustomFieldTarget(customField.id);
+    const match = (Object.keys(HEADER_ALIASES) as GuestImportField[]).find((field) =>
+      HEADER_ALIASES[field].includes(normalized)
+    );
+    return match ?? null;
+  });
+}
+
+export type GuestImportRowStatus = "new" | "merge" | "duplicate" | "invalid";
+
+export interface GuestImportRow {
+  // 1-based among the non-blank rows of the file, header included
+  rowNumber: number;
+  status: GuestImportRowStatus;
+  values: AttendeeInput;
+  error?: string;
+  // Name of the guest this row was matched with
+  matchedName?: string;
+}
+
+export interface GuestImportResult {
+  rows: GuestImportRow[];
+  added: AttendeeInput[];
+  // Existing guests with blank fields filled in from the file
+  updated: Attendee[];
+}
+
+// Several columns can feed one field: name, party and custom field parts are joined with
+// spaces, tag columns are pooled, and other fields keep each column's heading so extra
+// spreadsheet columns survive in notes
+function mapRow(
+  cells: string[],
+  headers: string[],
+  mapping: GuestColumnMapping,
+  customFields: CustomField[]
+): { values: AttendeeInput; error?: string } {
+  const parts = new Map<GuestColumnTarget, { header: string; value: string }[]>();
+  mapping.forEach((field, index) => {
+    const value = cells[index]?.trim();
+    if (!field || !value) return;
+    parts.set(field, [...(parts.get(field) ?? []), { header: headers[index]?.trim() || `Column ${index + 1}`, value }]);
+  });
+
+  const join = (field: GuestColumnTarget) => {
+    const values = parts.get(field) ?? [];
+    if (field === "name" || field === "party" || field.startsWith("field:")) {
+      return values.map((p) => p.value).join(" ") || undefined;
+    }
+    if (values.length <= 1) return values[0]?.value;
+    return values.map((p) => `${p.header}: ${p.value}`).join("; ");
+  };
+
+  // An RSVP we can't read is passed through as-is so validation reports it against the row
+  const rsvp = join("rsvp");
+  const tags = parseTags((parts.get("tags") ?? []).map((p) => p.value).join(","));
+
+  const fields: NonNullable<AttendeeInput["fields"]> = {};
+  const errors: string[] = [];
+  customFields.forEach((field) => {
+    const parsed = parseCustomFieldValue(field, join(getCustomFieldTarget(field.id)) ?? "");
+    if (!parsed.success) errors.push(parsed.error);
+    else if (parsed.value !== undefined) fields[field.id] = parsed.value;
+  });
+
+  const values: AttendeeInput = {
+    name: join("name") ?? "",
+    email: join("email"),
+    notes: join("notes"),
+    party: join("party"),
+    rsvp: rsvp ? parseRsvpStatus(rsvp) ?? (rsvp as RsvpStatus) : undefined,
+    meal: join("meal"),
+    dietary: join("dietary"),
+    allergies: join("allergies"),
+    tags: tags.length > 0 ? tags : undefined,
+    fields: Object.keys(fields).length > 0 ? fields : undefined,
+  };
+  return errors.length > 0 ? { values, error: errors.join("; ") } : { values };
+}
+
+// Merging never overwrites what's already there, only fills gaps: new tags are added and
+// custom fields are filled where the guest has no value yet
+function fillBlanks(target: AttendeeInput, source: AttendeeInput): AttendeeInput {
+  let merged = { ...target };
+  (Object.keys(source) as (keyof AttendeeInput)[]).forEach((field) => {
+    if (field === "tags" || field === "fields" || field === "hostId") return;
+    if (!merged[field] && source[field]) merged = { ...merged, [field]: source[field] };
+  });
+  if (source.tags) {
+    const known = new Set((target.tags ?? []).map((tag) => tag.toLowerCase()));
+    const added = source.tags.filter((tag) => !known.has(tag.toLowerCase()));
+    if (added.length > 0) merged.tags = [...(target.tags ?? []), ...added];
+  }
+  if (source.fields) {
+    const added = Object.entries(source.fields).filter(([id]) => target.fields?.[id] === undefined);
+    if (added.length > 0) merged.fields = { ...target.fields, ...Object.fromEntries(added) };
+  }
+  return merged;
+}
+
+// Tags and custom fields are compared by content
+const isChanged = (a: AttendeeInput, b: AttendeeInput) =>
+  ([...Object.keys(GUEST_IMPORT_FIELDS), "fields"] as (GuestImportField | "fields")[]).some(
+    (field) => JSON.stringify(a[field] ?? "") !== JSON.stringify(b[field] ?? "")
+  );
+
+export function buildGuestImport(
+  rows: string[][],
+  mapping: GuestColumnMapping,
+  existing: Attendee[],
+  { hasHeaderRow = true, customFields = [] }: { hasHeaderRow?: boolean; customFields?: CustomField[] } = {}
+): GuestImportResult {
+  const headers = hasHeaderRow ? rows[0] ?? [] : [];
+  const dataRows = hasHeaderRow ? rows.slice(1) : rows;
+
+  // Everyone a row can match: current guests plus rows already accepted from this file
+  const known: { values: AttendeeInput; existing?: Attendee }[] = existing.map((attendee) => ({
+    values: attendee,
+    existing: attendee,
+  }));
+
+  const result: GuestImportRow[] = [];
+  dataRows.forEach((cells, index) => {
+    const rowNumber = index + 1 + (hasHeaderRow ? 1 : 0);
+    const { values: raw, error: fieldError } = mapRow(cells, headers, mapping, customFields);
+    if (!fieldError && Object.values(raw).every((value) => !value)) return;
+
+    const parsed = validateAttendeeInput(raw);
+    if (!parsed.success || fieldError) {
+      const errors = [parsed.success ? undefined : parsed.error, fieldError].filter(Boolean);
+      result.push({ rowNumber, status: "invalid", values: raw, error: errors.join("; ") });
+      return;
+    }
+
+    const match = known.find((candidate) => isSameGuest(candidate.values, parsed.input));
+    if (!match) {
+      known.push({ values: parsed.input });
+      result.push({ rowNumber, status: "new", values: parsed.input });
+      return;
+    }
+
+    const merged = fillBlanks(match.values, parsed.input);
+    const status = isChanged(merged, match.values) ? "merge" : "duplicate";
+    match.values = merged;
+    result.push({ rowNumber, status, values: parsed.input, matchedName: match.values.name });
+  });
+
+  return {
+    rows: result,
+    added: known.filter((candidate) => !candidate.existing).map((candidate) => candidate.values),
+    updated: known
+      .filter((candidate) => candidate.existing && isChanged(candidate.values, candidate.existing))
+      .map((candidate) => ({ ...candidate.existing!, ...candidate.values })),
+  };
+}
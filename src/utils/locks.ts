@@ -0,0 +1,30 @@
+import type { SeatAssignment, Table } from "../types";
+
+export const getLockedTableIds = (tables: Table[]) =>
+  new Set(tables.filter((table) => table.locked).map((table) => table.id));
+
+// A guest is locked in place by a lock on their own seat or on the whole table
+export const isAssignmentLocked = (assignment: SeatAssignment, lockedTableIds: Set<string>) =>
+  assignment.attendeeId !== null && (assignment.locked === true || lockedTableIds.has(assignment.tableId));
+
+export function getLockedGuestIds(tables: Table[], seatAssignments: SeatAssignment[]): Set<string> {
+  const lockedTableIds = getLockedTableIds(tables);
+  return new Set(
+    seatAssignments.flatMap((assignment) =>
+      assignment.attendeeId && isAssignmentLocked(assignment, lockedTableIds) ? [assignment.attendeeId] : []
+    )
+  );
+}
+
+// Seat numbers per table whose own lock is set, for drawing lock icons; a locked table shows one
+// icon of its own rather than one per seat
+export function getLockedSeats(seatAssignments: SeatAssignment[]): Map<string, Set<number>> {
+  const seats = new Map<string, Set<number>>();
+  seatAssignments.forEach(({ tableId, seatNumber, attendeeId, locked }) => {
+    if (!attendeeId || !locked) return;
+    const numbers = seats.get(tableId) ?? new Set<number>();
+    numbers.add(seatNumber);
+    seats.set(tableId, numbers);
+  });
+  return seats;
+}
@@ -0,0 +1,72 @@
+import type { Attendee, Table } from "../types";
+import type { SeatLocation } from "./planDiff";
+
+// Party names are typed by hand, so "Smith family" and "smith  Family" are the same party
+export const getPartyKey = (party: string) => party.trim().replace(/\s+/g, " ").toLowerCase();
+
+export type PartyListEntry<T> =
+  | { kind: "guest"; item: T }
+  | { kind: "party"; party: string; items: T[] };
+
+// Members are pulled together at the position of the first one, so the list keeps its order
+// for everything else and a party sorts where its first member would
+export function groupByParty<T>(items: T[], getAttendee: (item: T) => Attendee): PartyListEntry<T>[] {
+  const entries: PartyListEntry<T>[] = [];
+  const parties = new Map<string, { kind: "party"; party: string; items: T[] }>();
+  for (const item of items) {
+    const { party } = getAttendee(item);
+    if (!party) {
+      entries.push({ kind: "guest", item });
+      continue;
+    }
+    const key = getPartyKey(party);
+    const entry = parties.get(key);
+    if (entry) {
+      entry.items.push(item);
+    } else {
+      const created = { kind: "party" as const, party, items: [item] };
+      parties.set(key, created);
+      entries.push(created);
+    }
+  }
+  return entries;
+}
+
+export function getPartyMembers(attendees: Attendee[], party: string): Attendee[] {
+  const key = getPartyKey(party);
+  return attendees.filter((attendee) => attendee.party && getPartyKey(attendee.party) === key);
+}
+
+// Table names per party key, for parties whose seated members sit at more than one table
+export function getSplitParties(attendees: Attendee[], locations: Map<string, SeatLocation>): Map<string, string[]> {
+  const tablesByParty = new Map<string, Map<string, string>>();
+  for (const attendee of attendees) {
+    const location = locations.get(attendee.id);
+    if (!attendee.party || !location) continue;
+    const key = getPartyKey(attendee.party);
+    if (!tablesByParty.has(key)) tablesByParty.set(key, new Map());
+    tablesByParty.get(key)!.set(location.tableId, location.tableName);
+  }
+
+  const split = new Map<string, string[]>();
+  tablesByParty.forEach((tables, key) => {
+    if (tables.size > 1) split.set(key, Array.from(tables.values()));
+  });
+  return split;
+}
+
+// Seat numbers for `count` guests, walking round the table from `startSeat` and skipping
+// seats that aren't free. Null when the table can't fit them all.
+export function getConsecutiveSeats(
+  table: Pick<Table, "seatCount">,
+  startSeat: number,
+  count: number,
+  isFree: (seatNumber: number) => boolean
+): number[] | null {
+  const seats: number[] = [];
+  for (let offset = 0; offset < table.seatCount && seats.length < count; offset++) {
+    const seatNumber = ((startSeat - 1 + offset) % table.seatCount) + 1;
+    if (isFree(seatNumber)) seats.push(seatNumber);
+  }
+  return seats.length === count ? seats : null;
+}
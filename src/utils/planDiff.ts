@@ -0,0 +1,123 @@
+import type { Plan, Table } from "../types";
+
+// Drags snap to the grid, but imported files may carry float noise
+const POSITION_TOLERANCE = 0.5;
+
+export interface TableChange {
+  before: Table;
+  after: Table;
+  // Position or rotation changed
+  moved: boolean;
+  // Shape, dimensions or seat count changed
+  resized: boolean;
+  renamed: boolean;
+}
+
+export interface SeatLocation {
+  tableId: string;
+  tableName: string;
+  seatNumber: number;
+}
+
+export interface SeatChange {
+  attendeeId: string;
+  name: string;
+  // null when the guest was unseated (or absent) on that side
+  from: SeatLocation | null;
+  to: SeatLocation | null;
+}
+
+// Only the contents take part in a diff, so live store state can be compared without building a full Plan
+export type PlanContents = Pick<Plan, "tables" | "attendees" | "seatAssignments">;
+
+export interface PlanDiff {
+  addedTables: Table[];
+  removedTables: Table[];
+  changedTables: TableChange[];
+  seatChanges: SeatChange[];
+}
+
+const hasMoved = (a: Table, b: Table) =>
+  Math.abs(a.position.x - b.position.x) > POSITION_TOLERANCE ||
+  Math.abs(a.position.y - b.position.y) > POSITION_TOLERANCE ||
+  a.rotation !== b.rotation;
+
+const hasResized = (a: Table, b: Table) =>
+  a.shape !== b.shape ||
+  a.seatCount !== b.seatCount ||
+  a.size.width !== b.size.width ||
+  a.size.height !== b.size.height ||
+  (a.seatConfig?.cornerSeats ?? 0) !== (b.seatConfig?.cornerSeats ?? 0);
+
+// Where each seated guest sits, keyed by attendee id
+export function getSeatLocations(plan: PlanContents): Map<string, SeatLocation> {
+  const tables = new Map(plan.tables.map((table) => [table.id, table]));
+  const locations = new Map<string, SeatLocation>();
+  for (const assignment of plan.seatAssignments) {
+    const table = tables.get(assignment.tableId);
+    if (!assignment.attendeeId || !table) continue;
+    locations.set(assignment.attendeeId, {
+      tableId: table.id,
+      tableName: table.name,
+      seatNumber: assignment.seatNumber,
+    });
+  }
+  return locations;
+}
+
+const sameLocation = (a: SeatLocation | null, b: SeatLocation | null) =>
+  a?.tableId === b?.tableId && a?.seatNumber === b?.seatNumber;
+
+// Compare two versions of a plan. Tables and guests are matched by id.
+export function diffPlans(before: PlanContents, after: PlanContents): PlanDiff {
+  const beforeTables = new Map(before.tables.map((table) => [table.id, table]));
+  const afterTableIds = new Set(after.tables.map((table) => table.id));
+
+  const addedTables = after.tables.filter((table) => !beforeTables.has(table.id));
+  const removedTables = before.tables.filter((table) => !afterTableIds.has(table.id));
+
+  const changedTables: TableChange[] = [];
+  for (const table of after.tables) {
+    const previous = beforeTables.get(table.id);
+    if (!previous) continue;
+    const change = {
+      before: previous,
+      after: table,
+      moved: hasMoved(previous, table),
+      resized: hasResized(previous, table),
+      renamed: previous.name !== table.name,
+    };
+    if (change.moved || change.resized || change.renamed) {
+      changedTables.push(change);
+    }
+  }
+
+  const beforeSeats = getSeatLocations(before);
+  const afterSeats = getSeatLocations(after);
+  const names = new Map([...before.attendees, ...after.attendees].map((attendee) => [attendee.id, attendee.name]));
+  const attendeeIds = new Set([...beforeSeats.keys(), ...afterSeats.keys()]);
+
+  const seatChanges: SeatChange[] = [];
+  for (const attendeeId of attendeeIds) {
+    const from = beforeSeats.get(attendeeId) ?? null;
+    const to = afterSeats.get(attendeeId) ?? null;
+    if (sameLocation(from, to)) continue;
+    seatChanges.push({ attendeeId, name: names.get(attendeeId) ?? attendeeId, from, to });
+  }
+  seatChanges.sort((a, b) => a.name.localeCompare(b.name));
+
+  return { addedTables, removedTables, changedTables, seatChanges };
+}
+
+export function isPlanDiffEmpty(diff: PlanDiff): boolean {
+  return (
+    diff.addedTables.length === 0 &&
+    diff.removedTables.length === 0 &&
+    diff.changedTables.length === 0 &&
+    diff.seatChanges.length === 0
+  );
+}
+
+export function formatSeatLocation(location: SeatLocation | null): string {
+  return location ? `${location.tableName} · Seat ${location.seatNumber}` : "Not seated";
+}
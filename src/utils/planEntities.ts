@@ -0,0 +1,120 @@
+import type { Affinity, Attendee, CustomField, Plan, SeatAssignment, SeatingConstraint, Table } from "../types";
+
+export type PlanEntityContents = Pick<
+  Plan,
+  "name" | "description" | "tables" | "attendees" | "seatAssignments" | "customFields" | "constraints" | "affinities"
+>;
+
+interface PlanMeta {
+  name: string;
+  description?: string;
+}
+
+// One entity's new value; null means it was deleted
+export type PlanEntityChange =
+  | { kind: "meta"; id: "meta"; value: PlanMeta }
+  | { kind: "table"; id: string; value: Table | null }
+  | { kind: "attendee"; id: string; value: Attendee | null }
+  | { kind: "seat"; id: string; value: SeatAssignment | null }
+  | { kind: "field"; id: string; value: CustomField | null }
+  | { kind: "constraint"; id: string; value: SeatingConstraint | null }
+  | { kind: "affinity"; id: string; value: Affinity | null };
+
+// A seat is identified by its position, so moving a guest rewrites the seat rather than the guest
+export const getSeatKey = (assignment: Pick<SeatAssignment, "tableId" | "seatNumber">) =>
+  `${assignment.tableId}:${assignment.seatNumber}`;
+
+// Likewise an affinity is identified by its pair of guests, whichever order they're listed in
+export const getAffinityKey = ({ attendeeIds }: Pick<Affinity, "attendeeIds">) => [...attendeeIds].sort().join(":");
+
+export const getEntityKey = (change: Pick<PlanEntityChange, "kind" | "id">) => `${change.kind}:${change.id}`;
+
+// Store updates replace changed entities, so reference inequality is enough to spot edits
+function diffCollection<T>(
+  prev: T[],
+  next: T[],
+  getId: (item: T) => string,
+  toChange: (id: string, value: T | null) => PlanEntityChange
+): PlanEntityChange[] {
+  if (prev === next) return [];
+  const before = new Map(prev.map((item) => [getId(item), item]));
+  const changes: PlanEntityChange[] = [];
+  for (const item of next) {
+    const id = getId(item);
+    if (before.get(id) !== item) changes.push(toChange(id, item));
+    before.delete(id);
+  }
+  for (const id of before.keys()) {
+    changes.push(toChange(id, null));
+  }
+  return changes;
+}
+
+export function diffPlanEntities(prev: PlanEntityContents, next: PlanEntityContents): PlanEntityChange[] {
+  const changes: PlanEntityChange[] = [];
+  if (prev.name !== next.name || prev.description !== next.description) {
+    changes.push({ kind: "meta", id: "meta", value: { name: next.name, description: next.description } });
+  }
+  changes.push(
+    ...diffCollection(prev.tables, next.tables, (t) => t.id, (id, value) => ({ kind: "table", id, value })),
+    ...diffCollection(prev.attendees, next.attendees, (a) => a.id, (id, value) => ({ kind: "attendee", id, value })),
+    ...diffCollection(prev.seatAssignments, next.seatAssignments, getSeatKey, (id, value) => ({ kind: "seat", id, value })),
+    ...diffCollection(prev.customFields ?? [], next.customFields ?? [], (f) => f.id, (id, value) => ({ kind: "field", id, value })),
+    ...diffCollection(prev.constraints ?? [], next.constraints ?? [], (c) => c.id, (id, value) => ({ kind: "constraint", id, value })),
+    ...diffCollection(prev.affinities ?? [], next.affinities ?? [], getAffinityKey, (id, value) => ({ kind: "affinity", id, value }))
+  );
+  return changes;
+}
+
+// Replace, insert or remove each entity, keeping untouched entities (and their order) as they are
+function applyToCollection<T>(items: T[], getId: (item: T) => string, updates: Map<string, T | null>): T[] {
+  if (updates.size === 0) return items;
+  const pending = new Map(updates);
+  const result: T[] = [];
+  for (const item of items) {
+    const id = getId(item);
+    if (!pending.has(id)) {
+      result.push(item);
+      continue;
+    }
+    const value = pending.get(id);
+    pending.delete(id);
+    if (value) result.push(value);
+  }
+  for (const value of pending.values()) {
+    if (value) result.push(value);
+  }
+  return result;
+}
+
+export function applyPlanEntityChanges<T extends PlanEntityContents>(contents: T, changes: PlanEntityChange[]): T {
+  const tables = new Map<string, Table | null>();
+  const attendees = new Map<string, Attendee | null>();
+  const seats = new Map<string, SeatAssignment | null>();
+  const fields = new Map<string, CustomField | null>();
+  const constraints = new Map<string, SeatingConstraint | null>();
+  const affinities = new Map<string, Affinity | null>();
+  let meta: PlanMeta | null = null;
+
+  for (const change of changes) {
+    if (change.kind === "meta") meta = change.value;
+    else if (change.kind === "table") tables.set(change.id, change.value);
+    else if (change.kind === "attendee") attendees.set(change.id, change.value);
+    else if (change.kind === "field") fields.set(change.id, change.value);
+    else if (change.kind === "constraint") constraints.set(change.id, change.value);
+    else if (change.kind === "affinity") affinities.set(change.id, change.value);
+    else seats.set(change.id, change.value);
+  }
+
+  return {
+    ...contents,
+    name: meta ? meta.name : contents.name,
+    description: meta ? meta.description : contents.description,
+    tables: applyToCollection(contents.tables, (t) => t.id, tables),
+    attendees: applyToCollection(contents.attendees, (a) => a.id, attendees),
+    seatAssignments: applyToCollection(contents.seatAssignments, getSeatKey, seats),
+    customFields: fields.size > 0 ? applyToCollection(contents.customFields ?? [], (f) => f.id, fields) : contents.customFields,
+    constraints: constraints.size > 0 ? applyToCollection(contents.constraints ?? [], (c) => c.id, constraints) : contents.constraints,
+    affinities: affinities.size > 0 ? applyToCollection(contents.affinities ?? [], getAffinityKey, affinities) : contents.affinities,
+  };
+}
@@ -0,0 +1,204 @@
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import {
+  AffinitySchema,
+  AttendeeSchema,
+  CURRENT_PLAN_SCHEMA_VERSION,
+  CustomFieldSchema,
+  SeatAssignmentSchema,
+  SeatingConstraintSchema,
+  TableSchema,
+} from "../types";
+import type { Affinity, Attendee, CustomField, Plan, SeatAssignment, SeatingConstraint, Table } from "../types";
+import { withFieldValues } from "./customFields";
+import { SerializedPlanSchema } from "./planSerialization";
+import { migratePlanData } from "./planMigrations";
+import { repairPlan } from "./planRepair";
+import { formatZodIssue, formatZodIssues } from "./validationMessages";
+
+export const PLAN_FILE_FORMAT = "chairchart-plan";
+export const PLAN_FILE_VERSION = 1;
+export const PLAN_FILE_EXTENSION = ".chairchart.json";
+
+export interface PlanFile {
+  format: typeof PLAN_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  plan: Plan;
+}
+
+export interface DroppedCounts {
+  tables: number;
+  attendees: number;
+  seatAssignments: number;
+  customFields: number;
+  constraints: number;
+  affinities: number;
+}
+
+export type PlanFileResult =
+  | { status: "valid"; plan: Plan }
+  // Some entries failed validation; `plan` holds only what passed
+  | { status: "partial"; plan: Plan; issues: string[]; dropped: DroppedCounts }
+  | { status: "invalid"; issues: string[] };
+
+export function exportPlanFile(plan: Plan, exportedAt: Date = new Date()): string {
+  const file: PlanFile = {
+    format: PLAN_FILE_FORMAT,
+    version: PLAN_FILE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    plan,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function getPlanFileName(plan: Plan, exportedAt: Date = new Date()): string {
+  const slug = plan.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const date = exportedAt.toISOString().slice(0, 10);
+  return `${slug || "plan"}-${date}${PLAN_FILE_EXTENSION}`;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Validate array entries one by one so a single bad table doesn't sink the whole file
+function salvageArray<T>(
+  value: unknown,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  field: string,
+  issues: string[]
+): { items: T[]; dropped: number } {
+  if (!Array.isArray(value)) {
+    issues.push(`${field} must be an array`);
+    return { items: [], dropped: 0 };
+  }
+  const items: T[] = [];
+  value.forEach((entry, index) => {
+    const result = schema.safeParse(entry);
+    if (result.success) {
+      items.push(result.data);
+    } else {
+      result.error.issues.forEach((issue) => {
+        issues.push(formatZodIssue({ ...issue, path: [field, index, ...issue.path] }));
+      });
+    }
+  });
+  return { items, dropped: value.length - items.length };
+}
+
+// Optional collections a file leaves out stay left out
+function salvageOptionalArray<T>(
+  value: unknown,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  field: string,
+  issues: string[]
+): { items: T[] | undefined; dropped: number } {
+  return value === undefined ? { items: undefined, dropped: 0 } : salvageArray(value, schema, field, issues);
+}
+
+function salvagePlan(data: Record<string, unknown>): { plan: Plan; dropped: DroppedCounts } {
+  const ignored: string[] = [];
+  const tables = salvageArray<Table>(data.tables, TableSchema, "tables", ignored);
+  const attendees = salvageArray<Attendee>(data.attendees, AttendeeSchema, "attendees", ignored);
+  const assignments = salvageArray<SeatAssignment>(data.seatAssignments, SeatAssignmentSchema, "seatAssignments", ignored);
+  const customFields = salvageOptionalArray<CustomField>(data.customFields, CustomFieldSchema, "customFields", ignored);
+  const constraints = salvageOptionalArray<SeatingConstraint>(data.constraints, SeatingConstraintSchema, "constraints", ignored);
+  const affinities = salvageOptionalArray<Affinity>(data.affinities, AffinitySchema, "affinities", ignored);
+
+  // Duplicates, and assignments, rules or affinities pointing at dropped tables or guests, would dangle
+  const repaired = repairPlan({
+    tables: tables.items,
+    attendees: attendees.items,
+    seatAssignments: assignments.items,
+    constraints: constraints.items,
+    affinities: affinities.items,
+  });
+  // Values of a dropped custom field would point at nothing
+  const fieldIds = new Set(customFields.items?.map((field) => field.id));
+
+  const fallback = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown, defaultValue: T): T => {
+    const result = schema.safeParse(value);
+    return result.success ? result.data : defaultValue;
+  };
+  const now = new Date();
+
+  return {
+    plan: {
+      schemaVersion: CURRENT_PLAN_SCHEMA_VERSION,
+      id: fallback(z.string().min(1), data.id, nanoid()),
+      name: fallback(z.string().min(1), data.name, "Imported Plan"),
+      description: fallback(z.string().optional(), data.description, undefined),
+      tables: repaired.plan.tables,
+      attendees: repaired.plan.attendees.map((attendee) => withFieldValues(attendee, (fieldId) => fieldIds.has(fieldId))),
+      seatAssignments: repaired.plan.seatAssignments,
+      customFields: customFields.items,
+      constraints: repaired.plan.constraints,
+      affinities: repaired.plan.affinities,
+      createdAt: fallback(z.coerce.date(), data.createdAt, now),
+      updatedAt: fallback(z.coerce.date(), data.updatedAt, now),
+    },
+    dropped: {
+      tables: tables.dropped + repaired.removed.tables,
+      attendees: attendees.dropped + repaired.removed.attendees,
+      seatAssignments: assignments.dropped + repaired.removed.seatAssignments,
+      customFields: customFields.dropped,
+      constraints: constraints.dropped + repaired.removed.constraints,
+      affinities: affinities.dropped + repaired.removed.affinities,
+    },
+  };
+}
+
+export function parsePlanFile(text: string): PlanFileResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return {
+      status: "invalid",
+      issues: [`File is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (!isRecord(data)) {
+    return { status: "invalid", issues: ["File does not contain a plan"] };
+  }
+
+  // Accept both the export envelope and a bare plan object
+  let planData: unknown = data;
+  if ("format" in data) {
+    if (data.format !== PLAN_FILE_FORMAT) {
+      return { status: "invalid", issues: [`Unrecognized file format "${String(data.format)}"`] };
+    }
+    if (typeof data.version !== "number" || data.version > PLAN_FILE_VERSION) {
+      return { status: "invalid", issues: ["This file was exported by a newer version of ChairChart"] };
+    }
+    planData = data.plan;
+  }
+
+  if (!isRecord(planData)) {
+    return { status: "invalid", issues: ["File does not contain a plan"] };
+  }
+
+  const migrated = migratePlanData(planData);
+  if (!migrated.success) {
+    return { status: "invalid", issues: [migrated.error] };
+  }
+  const migratedData = migrated.data as Record<string, unknown>;
+
+  const result = SerializedPlanSchema.safeParse(migratedData);
+  if (result.success) {
+    return { status: "valid", plan: result.data };
+  }
+
+  const issues = formatZodIssues(result.error);
+  // Without any plan collections there is nothing worth salvaging
+  const looksLikePlan = ["tables", "attendees", "seatAssignments"].some((key) => Array.isArray(migratedData[key]));
+  if (!looksLikePlan) {
+    return { status: "invalid", issues };
+  }
+  const { plan, dropped } = salvagePlan(migratedData);
+  return { status: "partial", plan, issues, dropped };
+}
@@ -0,0 +1,65 @@
+import { CURRENT_PLAN_SCHEMA_VERSION } from "../types";
+
+type PlanData = Record<string, unknown>;
+
+// Upgrades a payload by exactly one version; must not mutate its input
+export type PlanMigration = (data: PlanData) => PlanData;
+
+export type PlanMigrationResult =
+  | { success: true; data: unknown; fromVersion: number }
+  | { success: false; error: string };
+
+const isRecord = (value: unknown): value is PlanData =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// v0 -> v1: plans saved before versioning existed. Tables from that era could omit
+// `rotation`, which the editor treated as 0.
+export const migrateV0ToV1: PlanMigration = (data) => ({
+  ...data,
+  schemaVersion: 1,
+  tables: Array.isArray(data.tables)
+    ? data.tables.map((table) =>
+        isRecord(table) && table.rotation === undefined ? { ...table, rotation: 0 } : table
+      )
+    : data.tables,
+});
+
+// Keyed by the version each step upgrades from
+export const PLAN_MIGRATIONS: Record<number, PlanMigration> = {
+  0: migrateV0ToV1,
+};
+
+// Payloads written before versioning have no field and count as version 0
+export function getPlanSchemaVersion(data: PlanData): number {
+  return data.schemaVersion === undefined ? 0 : Number(data.schemaVersion);
+}
+
+export function migratePlanData(
+  data: unknown,
+  migrations: Record<number, PlanMigration> = PLAN_MIGRATIONS,
+  targetVersion: number = CURRENT_PLAN_SCHEMA_VERSION
+): PlanMigrationResult {
+  // Leave non-objects for schema validation to describe
+  if (!isRecord(data)) return { success: true, data, fromVersion: targetVersion };
+
+  const fromVersion = getPlanSchemaVersion(data);
+  if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+    return { success: false, error: `schemaVersion must be a whole number (got ${String(data.schemaVersion)})` };
+  }
+  if (fromVersion > targetVersion) {
+    return {
+      success: false,
+      error: `Plan was saved by a newer version of ChairChart (schema v${fromVersion}, this version reads up to v${targetVersion})`,
+    };
+  }
+
+  let current = data;
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      return { success: false, error: `No migration from schema v${version} to v${version + 1}` };
+    }
+    current = { ...migrate(current), schemaVersion: version + 1 };
+  }
+  return { success: true, data: current, fromVersion };
+}
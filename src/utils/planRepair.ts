@@ -0,0 +1,51 @@
+import { getPlanReferenceIssues } from "../types";
+import type { PlanReferences } from "../types";
+import type { DroppedCounts } from "./planFile";
+import { formatIssuePath } from "./validationMessages";
+
+export interface PlanRepairResult<T extends PlanReferences> {
+  plan: T;
+  // One readable line per fix, e.g. "seatAssignments[2].tableId must refer to an existing table"
+  issues: string[];
+  // Custom fields aren't cross-checked, so repair never removes any
+  removed: Omit<DroppedCounts, "customFields">;
+}
+
+// Removes every entry PlanSchema's cross-reference checks reject, keeping the first of any
+// duplicates. The result always passes those checks, and repairing it again changes nothing.
+export function repairPlan<T extends PlanReferences>(plan: T): PlanRepairResult<T> {
+  const problems = getPlanReferenceIssues(plan);
+  if (problems.length === 0) {
+    return { plan, issues: [], removed: { tables: 0, attendees: 0, seatAssignments: 0, constraints: 0, affinities: 0 } };
+  }
+
+  const rejected: Record<keyof PlanReferences, Set<number>> = {
+    tables: new Set(),
+    attendees: new Set(),
+    seatAssignments: new Set(),
+    constraints: new Set(),
+    affinities: new Set(),
+  };
+  for (const { path: [field, index] } of problems) {
+    rejected[field].add(index);
+  }
+
+  return {
+    plan: {
+      ...plan,
+      tables: plan.tables.filter((_, index) => !rejected.tables.has(index)),
+      attendees: plan.attendees.filter((_, index) => !rejected.attendees.has(index)),
+      seatAssignments: plan.seatAssignments.filter((_, index) => !rejected.seatAssignments.has(index)),
+      constraints: plan.constraints?.filter((_, index) => !rejected.constraints.has(index)),
+      affinities: plan.affinities?.filter((_, index) => !rejected.affinities.has(index)),
+    },
+    issues: problems.map(({ path, message }) => `${formatIssuePath(path)} ${message}`),
+    removed: {
+      tables: rejected.tables.size,
+      attendees: rejected.attendees.size,
+      seatAssignments: rejected.seatAssignments.size,
+      constraints: rejected.constraints.size,
+      affinities: rejected.affinities.size,
+    },
+  };
+}
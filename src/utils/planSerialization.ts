@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { PlanObjectSchema, refinePlanReferences } from "../types";
+import type { Plan } from "../types";
+import { formatZodIssues } from "./validationMessages";
+import { migratePlanData } from "./planMigrations";
+import { repairPlan } from "./planRepair";
+
+// JSON has no Date type, so timestamps travel as ISO strings and are coerced back on the way in
+const SerializedPlanObjectSchema = PlanObjectSchema.extend({
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+export const SerializedPlanSchema = SerializedPlanObjectSchema.superRefine(refinePlanReferences);
+
+export type PlanParseResult =
+  // repairs has one readable line per broken entry that was removed, and is empty for a sound plan
+  | { success: true; plan: Plan; repairs: string[] }
+  | { success: false; error: string };
+
+export function serializePlan(plan: Plan): string {
+  return JSON.stringify(plan);
+}
+
+// Older payloads are upgraded to the current schema before validation. Broken cross-references
+// (say, a guest seated twice) are repaired rather than rejected so they never lock a plan away.
+// What the repair removed is reported, so whoever opens the plan can say so.
+export function parsePlanData(data: unknown): PlanParseResult {
+  const migrated = migratePlanData(data);
+  if (!migrated.success) {
+    return { success: false, error: migrated.error };
+  }
+  const result = SerializedPlanObjectSchema.safeParse(migrated.data);
+  if (!result.success) {
+    return { success: false, error: formatZodIssues(result.error).join("; ") };
+  }
+  const repaired = repairPlan(result.data);
+  return { success: true, plan: repaired.plan, repairs: repaired.issues };
+}
+
+export function parsePlanJson(json: string): PlanParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+  return parsePlanData(data);
+}
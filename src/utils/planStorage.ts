@@ -0,0 +1,181 @@
+import type { Plan } from "../types";
+import { parsePlanData, parsePlanJson, serializePlan } from "./planSerialization";
+import { isAttending } from "./attendees";
+
+export const PLAN_INDEX_KEY = "chairchart:plans";
+export const LEGACY_PLAN_STORAGE_KEY = "chairchart:plan";
+
+export const getPlanStorageKey = (id: string) => `chairchart:plan:${id}`;
+export const getCorruptBackupKey = (id: string) => `chairchart:plan:${id}:corrupt-backup`;
+// Kept apart from the plan itself so autosave doesn't rewrite every snapshot on each edit
+export const getSnapshotsStorageKey = (id: string) => `chairchart:plan:${id}:snapshots`;
+
+// Lightweight listing entry so the library never has to parse every plan
+export interface PlanSummary {
+  id: string;
+  name: string;
+  description?: string;
+  tableCount: number;
+  // Declined guests aren't counted
+  guestCount: number;
+  updatedAt: Date;
+}
+
+// A named, frozen copy of a plan taken by the user
+export interface PlanSnapshot {
+  id: string;
+  name: string;
+  createdAt: Date;
+  plan: Plan;
+}
+
+export type StoredPlanResult =
+  | { status: "missing" }
+  | { status: "ok"; plan: Plan; repairs: string[] }
+  | { status: "corrupt"; raw: string; error: string };
+
+// localStorage is missing during SSR and can throw when disabled (e.g. Safari private mode)
+export function getBrowserStorage(): Storage | null {
+  try {
+    return typeof window !== "undefined" ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+export function summarizePlan(plan: Plan): PlanSummary {
+  return {
+    id: plan.id,
+    name: plan.name,
+    description: plan.description,
+    tableCount: plan.tables.length,
+    guestCount: plan.attendees.filter(isAttending).length,
+    updatedAt: plan.updatedAt,
+  };
+}
+
+function readIndex(storage: Storage): PlanSummary[] {
+  const raw = storage.getItem(PLAN_INDEX_KEY);
+  if (!raw) return [];
+  try {
+    const entries = JSON.parse(raw);
+    if (!Array.isArray(entries)) return [];
+    return entries
+      .filter((entry) => entry && typeof entry.id === "string")
+      .map((entry) => ({ ...entry, updatedAt: new Date(entry.updatedAt) }));
+  } catch {
+    // A damaged index is rebuilt from the plans as they are saved again
+    return [];
+  }
+}
+
+function writeIndex(storage: Storage, summaries: PlanSummary[]): void {
+  storage.setItem(PLAN_INDEX_KEY, JSON.stringify(summaries));
+}
+
+// Plans saved before the library existed lived under a single key
+function migrateLegacyPlan(storage: Storage): void {
+  const raw = storage.getItem(LEGACY_PLAN_STORAGE_KEY);
+  if (raw == null) return;
+
+  const result = parsePlanJson(raw);
+  if (result.success) {
+    writeStoredPlan(result.plan, storage);
+  } else {
+    storage.setItem(getCorruptBackupKey("legacy"), raw);
+  }
+  storage.removeItem(LEGACY_PLAN_STORAGE_KEY);
+}
+
+export function listStoredPlans(storage: Storage | null = getBrowserStorage()): PlanSummary[] {
+  if (!storage) return [];
+  migrateLegacyPlan(storage);
+  return readIndex(storage).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+export function readStoredPlan(id: string, storage: Storage | null = getBrowserStorage()): StoredPlanResult {
+  const raw = storage?.getItem(getPlanStorageKey(id));
+  if (raw == null) {
+    return { status: "missing" };
+  }
+
+  const result = parsePlanJson(raw);
+  if (!result.success) {
+    return { status: "corrupt", raw, error: result.error };
+  }
+  return { status: "ok", plan: result.plan, repairs: result.repairs };
+}
+
+export function writeStoredPlan(plan: Plan, storage: Storage | null = getBrowserStorage()): boolean {
+  if (!storage) return false;
+  try {
+    storage.setItem(getPlanStorageKey(plan.id), serializePlan(plan));
+    const others = readIndex(storage).filter((summary) => summary.id !== plan.id);
+    writeIndex(storage, [...others, summarizePlan(plan)]);
+    return true;
+  } catch (error) {
+    // Quota exceeded or storage disabled; keep the in-memory plan and try again on the next change
+    console.error("Failed to save plan to localStorage", error);
+    return false;
+  }
+}
+
+export function deleteStoredPlan(id: string, storage: Storage | null = getBrowserStorage()): void {
+  if (!storage) return;
+  storage.removeItem(getPlanStorageKey(id));
+  storage.removeItem(getSnapshotsStorageKey(id));
+  writeIndex(storage, readIndex(storage).filter((summary) => summary.id !== id));
+}
+
+// Keep the unreadable payload aside so starting over never destroys the only copy
+export function backupCorruptPlan(id: string, raw: string, storage: Storage | null = getBrowserStorage()): void {
+  if (!storage) return;
+  try {
+    storage.setItem(getCorruptBackupKey(id), raw);
+    storage.removeItem(getPlanStorageKey(id));
+    writeIndex(storage, readIndex(storage).filter((summary) => summary.id !== id));
+  } catch (error) {
+    console.error("Failed to back up corrupt plan", error);
+  }
+}
+
+// Newest first. Entries that no longer parse are skipped rather than failing the whole list.
+export function readPlanSnapshots(planId: string, storage: Storage | null = getBrowserStorage()): PlanSnapshot[] {
+  const raw = storage?.getItem(getSnapshotsStorageKey(planId));
+  if (!raw) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+
+  return entries.flatMap((entry): PlanSnapshot[] => {
+    if (!entry || typeof entry.id !== "string" || typeof entry.name !== "string") return [];
+    const createdAt = new Date(entry.createdAt);
+    const result = parsePlanData(entry.plan);
+    if (!result.success || Number.isNaN(createdAt.getTime())) return [];
+    return [{ id: entry.id, name: entry.name, createdAt, plan: result.plan }];
+  }).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export function writePlanSnapshots(
+  planId: string,
+  snapshots: PlanSnapshot[],
+  storage: Storage | null = getBrowserStorage()
+): boolean {
+  if (!storage) return false;
+  try {
+    if (snapshots.length === 0) {
+      storage.removeItem(getSnapshotsStorageKey(planId));
+    } else {
+      storage.setItem(getSnapshotsStorageKey(planId), JSON.stringify(snapshots));
+    }
+    return true;
+  } catch (error) {
+    console.error("Failed to save plan snapshots to localStorage", error);
+    return false;
+  }
+}
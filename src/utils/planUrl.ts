@@ -0,0 +1,30 @@
+export const PLAN_QUERY_PARAM = "plan";
+
+// Mirrors next.config.mjs: empty in dev, "/ChairChart" on GitHub Pages
+const getBasePath = () => process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+
+export const getEditorPath = () => `${getBasePath()}/`;
+export const getViewerPath = () => `${getBasePath()}/view/`;
+
+// The active plan lives in the query string so bookmarks reopen the same event.
+// Static export means no dynamic routes, and the basePath is kept because only the search changes.
+export function getPlanIdFromUrl(href: string = window.location.href): string | null {
+  const id = new URL(href).searchParams.get(PLAN_QUERY_PARAM);
+  return id ? id : null;
+}
+
+export function buildPlanUrl(planId: string | null, href: string = window.location.href): string {
+  const url = new URL(href);
+  if (planId) {
+    url.searchParams.set(PLAN_QUERY_PARAM, planId);
+  } else {
+    url.searchParams.delete(PLAN_QUERY_PARAM);
+  }
+  url.hash = "";
+  return `${url.pathname}${url.search}`;
+}
+
+// Absolute link into the editor, used when leaving the viewer route
+export function buildEditorUrl(planId: string): string {
+  return `${getEditorPath()}?${PLAN_QUERY_PARAM}=${encodeURIComponent(planId)}`;
+}
@@ -319,4 +319,132 @@ export function snapToGrid(position: Vec2, gridSize: number = 20): Vec2 {
     x: Math.round(position.x / gridSize) * gridSize,
     y: Math.round(position.y / gridSize) * gridSize,
   };
-}
\ No newline at end of file
+}
+
+// On-screen seat size: seats shrink slower than the zoom so they stay easy to hit
+export function getSeatRadius(scale: number = 1): number {
+  return Math.max(12 / scale, 8);
+}
+
+export interface SeatRef {
+  tableId: string;
+  seatNumber: number;
+}
+
+// Seat offsets from getSeatPositions already include the table's rotation
+export function getSeatWorldPosition(table: Table, seat: SeatPosition): Vec2 {
+  return {
+    x: table.position.x + seat.position.x,
+    y: table.position.y + seat.position.y,
+  };
+}
+
+// The seat whose centre is closest to a world point, within `radius` world units
+export function findSeatAtPoint(tables: Table[], point: Vec2, radius: number): SeatRef | null {
+  let closest: SeatRef | null = null;
+  let closestDistance = radius;
+  
+  for (const table of tables) {
+    for (const seat of getSeatPositions(table)) {
+      const center = getSeatWorldPosition(table, seat);
+      const distance = Math.hypot(center.x - point.x, center.y - point.y);
+      if (distance <= closestDistance) {
+        closest = { tableId: table.id, seatNumber: seat.seatNumber };
+        closestDistance = distance;
+      }
+    }
+  }
+  
+  return closest;
+}
+
+export interface SeatNeighbors {
+  seatNumber: number;
+  // The seats on either hand of the guest sitting here, facing the table; null when they sit alone
+  left: number | null;
+  right: number | null;
+  // The seats straight across the table; two when this seat lines up between them
+  across: number[];
+  // The other seats along the same straight edge; none at a round table
+  sameSide: number[];
+}
+
+const SAME_EPSILON = 1e-6;
+
+// The direction a guest faces: toward the centre at a round table, straight across at an edge
+function getSeatFacing(table: Table, seat: SeatPosition): Vec2 {
+  const angle = table.shape === "round" ? seat.angle + Math.PI / 2 : seat.angle;
+  return { x: Math.cos(angle), y: Math.sin(angle) };
+}
+
+const isSameFacing = (a: Vec2, b: Vec2) => a.x * b.x + a.y * b.y > 1 - SAME_EPSILON;
+
+// Seats grouped by the edge they sit along, each listed from the guests' right to their left. A
+// round table has no straight edges, so every seat is a side of its own.
+export function getTableSides(table: Table): number[][] {
+  const sides: { facing: Vec2; seats: SeatPosition[] }[] = [];
+  for (const seat of getSeatPositions(table)) {
+    const facing = getSeatFacing(table, seat);
+    const side = sides.find((candidate) => isSameFacing(candidate.facing, facing));
+    if (side) side.seats.push(seat);
+    else sides.push({ facing, seats: [seat] });
+  }
+  // With y pointing down, a guest's left hand is their facing turned a quarter anticlockwise
+  return sides.map(({ facing, seats }) => {
+    const leftward = (seat: SeatPosition) => seat.position.x * facing.y - seat.position.y * facing.x;
+    return seats.sort((a, b) => leftward(a) - leftward(b)).map((seat) => seat.seatNumber);
+  });
+}
+
+// Tables are replaced rather than changed in place, so a table object keeps the same neighbors.
+// Rules and affinities ask about the same tables over and over while auto-seating.
+const seatNeighborsCache = new WeakMap<Table, Map<number, SeatNeighbors>>();
+
+// Who sits beside and across from each seat, keyed by seat number. Seats are ordered by their
+// angle around the table centre rather than their numbers, which skip about on rect tables with
+// corner seats, so the end seats and the seats at corners get the right neighbors.
+export function getSeatNeighbors(table: Table): Map<number, SeatNeighbors> {
+  const cached = seatNeighborsCache.get(table);
+  if (cached) return cached;
+  const neighbors = buildSeatNeighbors(table);
+  seatNeighborsCache.set(table, neighbors);
+  return neighbors;
+}
+
+function buildSeatNeighbors(table: Table): Map<number, SeatNeighbors> {
+  const seats = getSeatPositions(table);
+  const ring = [...seats].sort(
+    (a, b) => Math.atan2(a.position.y, a.position.x) - Math.atan2(b.position.y, b.position.x) || a.seatNumber - b.seatNumber
+  );
+  const sides = getTableSides(table);
+
+  const neighbors = new Map<number, SeatNeighbors>();
+  ring.forEach((seat, index) => {
+    const facing = getSeatFacing(table, seat);
+    // Seats facing back this way, by how far they sit off the line this guest looks along
+    const opposite = seats
+      .filter((candidate) => {
+        const other = getSeatFacing(table, candidate);
+        return facing.x * other.x + facing.y * other.y < -SAME_EPSILON;
+      })
+      .map((candidate) => ({
+        seatNumber: candidate.seatNumber,
+        offset: Math.abs(
+          facing.x * (candidate.position.y - seat.position.y) - facing.y * (candidate.position.x - seat.position.x)
+        ),
+      }));
+    const closest = Math.min(...opposite.map(({ offset }) => offset));
+
+    neighbors.set(seat.seatNumber, {
+      seatNumber: seat.seatNumber,
+      left: ring.length > 1 ? ring[(index + 1) % ring.length].seatNumber : null,
+      right: ring.length > 1 ? ring[(index - 1 + ring.length) % ring.length].seatNumber : null,
+      across: opposite
+        .filter(({ offset }) => offset - closest < SAME_EPSILON)
+        .map((candidate) => candidate.seatNumber)
+        .sort((a, b) => a - b),
+      sameSide: (sides.find((side) => side.includes(seat.seatNumber)) ?? []).filter((number) => number !== seat.seatNumber),
+    });
+  });
+  return neighbors;
+}
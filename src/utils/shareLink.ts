@@ -0,0 +1,42 @@
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from "lz-string";
+import type { Plan } from "../types";
+import { parsePlanJson, serializePlan } from "./planSerialization";
+import type { PlanParseResult } from "./planSerialization";
+import { getViewerPath } from "./planUrl";
+
+export const SHARE_HASH_PREFIX = "#share=";
+
+// Conservative limit: older browsers, chat apps and email clients truncate longer links
+export const SAFE_SHARE_URL_LENGTH = 2000;
+
+export function encodePlanForShare(plan: Plan): string {
+  return compressToEncodedURIComponent(serializePlan(plan));
+}
+
+export function decodeSharedPlan(payload: string): PlanParseResult {
+  let json: string | null = null;
+  try {
+    json = decompressFromEncodedURIComponent(payload);
+  } catch {
+    // Falls through to the damaged-link error below
+  }
+  if (!json) {
+    return { success: false, error: "The share link is incomplete or damaged." };
+  }
+  return parsePlanJson(json);
+}
+
+// Links open the read-only viewer. The plan travels in the hash so it never reaches a server.
+export function buildShareUrl(plan: Plan, origin: string = window.location.origin): string {
+  return `${origin}${getViewerPath()}${SHARE_HASH_PREFIX}${encodePlanForShare(plan)}`;
+}
+
+export function getSharePayloadFromHash(hash: string = window.location.hash): string | null {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  const payload = hash.slice(SHARE_HASH_PREFIX.length);
+  return payload ? payload : null;
+}
+
+export function isShareUrlTooLong(url: string): boolean {
+  return url.length > SAFE_SHARE_URL_LENGTH;
+}
@@ -0,0 +1,45 @@
+import type { z } from "zod";
+
+// ["tables", 3, "seatCount"] -> "tables[3].seatCount"
+export function formatIssuePath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === "number") return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, "");
+}
+
+function describeIssue(issue: z.ZodIssue): string {
+  switch (issue.code) {
+    case "invalid_type":
+      return issue.received === "undefined"
+        ? "is required"
+        : `must be ${issue.expected === "array" || issue.expected === "object" ? "an" : "a"} ${issue.expected} (got ${issue.received})`;
+    case "too_big":
+      if (issue.type === "string") return `must be at most ${issue.maximum} characters`;
+      if (issue.type === "array") return `must have at most ${issue.maximum} items`;
+      return `must be ${issue.inclusive ? "≤" : "<"} ${issue.maximum}`;
+    case "too_small":
+      if (issue.type === "string") return issue.minimum === 1 ? "must not be empty" : `must be at least ${issue.minimum} characters`;
+      if (issue.type === "array") return `must have at least ${issue.minimum} items`;
+      return `must be ${issue.inclusive ? "≥" : ">"} ${issue.minimum}`;
+    case "invalid_enum_value":
+      return `must be one of: ${issue.options.join(", ")}`;
+    case "invalid_string":
+      return issue.validation === "email" ? "must be a valid email address" : issue.message.toLowerCase();
+    case "invalid_date":
+      return "must be a valid date";
+    default:
+      return issue.message;
+  }
+}
+
+// Human-readable line per issue, e.g. "tables[3].seatCount must be ≤ 20"
+export function formatZodIssue(issue: z.ZodIssue): string {
+  const path = formatIssuePath(issue.path);
+  const description = describeIssue(issue);
+  return path ? `${path} ${description}` : description;
+}
+
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map(formatZodIssue);
+}